@@ -1,296 +1,440 @@
 
-import React, { useState, createContext, useEffect } from 'react';
-import { MOCK_USERS, MOCK_TRANSACTIONS, generateMockCard, generateMockLoan, generateAccountNumber } from './constants';
-import { User, Transaction, Card, Loan } from './types';
+import React, { useState, createContext, useEffect, useRef } from 'react';
+import { MOCK_USERS, MOCK_TRANSACTIONS } from './constants';
+import { User, Transaction, JournalEntry, CardApplicationDetails, LoanApplicationDetails, IdempotencyRecord, ScheduledTransfer, TransferLimits, ApplicationRecord, SavingsGoal, CategoryBudget, Payee, MoneyRequest, BillSplit, DepositAccount, CardControls } from './types';
+import * as bank from './services/bankService';
+import { Money, CurrencyCode } from './services/money';
+import { staticRateSource } from './services/fx';
+import * as standingOrders from './services/standingOrders';
+import { ScheduleTransferRequest, ScheduleTransferResult } from './services/standingOrders';
+import * as transferLimits from './services/transferLimits';
+import { TransferLimitUsage, TransferLimitsResult } from './services/transferLimits';
+import * as cardPayments from './services/cardPayments';
+import { CardPaymentRequest, CardPaymentResult } from './services/cardPayments';
+import * as cardControls from './services/cardControls';
+import * as cardHolds from './services/cardHolds';
+import { CardAuthorizationResult, CardPurchaseRequest } from './services/cardHolds';
+import { CardControlsResult } from './services/cardControls';
+import * as loanPayments from './services/loanPayments';
+import * as investments from './services/investments';
+import { InvestmentOrderRequest, InvestmentOrderResult, InvestmentTransferResult, Portfolio } from './services/investments';
+import { simulatedPriceSource } from './services/marketData';
+import * as savingsGoals from './services/savingsGoals';
+import { SavingsGoalRequest, SavingsGoalResult } from './services/savingsGoals';
+import * as payees from './services/payees';
+import { PayeeRequest, PayeeResult } from './services/payees';
+import * as moneyRequests from './services/moneyRequests';
+import { MoneyRequestResult, MoneyRequestView } from './services/moneyRequests';
+import * as billSplits from './services/billSplits';
+import { BillSplitRequest, BillSplitResult, BillSplitView } from './services/billSplits';
+import * as depositAccounts from './services/depositAccounts';
+import { AccountView, DepositAccountResult, OpenAccountRequest } from './services/depositAccounts';
+import * as budgets from './services/budgets';
+import { BudgetRequest, BudgetResult, BudgetStatus } from './services/budgets';
+import * as applications from './services/applications';
+import { ApplicationResult } from './services/applications';
+import { LoanPaymentRequest, LoanPaymentResult } from './services/loanPayments';
+import { runScheduledJobs } from './services/scheduler';
+import { BankState, BankOperation, OperationResult, TransferResult, TransferQuoteResult, CardApplicationResult, LoanApplicationResult, PaymentExtensionResult } from './services/bankService';
 import { LoginScreen } from './components/LoginScreen';
 import { Dashboard } from './components/Dashboard';
 import { AnimatePresence, motion } from 'framer-motion';
 import { WelcomeScreen } from './components/OnboardingScreen'; // Repurposed as WelcomeScreen
 import { RegisterScreen } from './components/DataScreen'; // Repurposed as RegisterScreen
 
-export interface CardApplicationDetails {
-    fullName: string;
-    address: string;
-    dateOfBirth: string;
-    employmentStatus: string;
-    employer: string;
-    annualIncome: number;
-}
-
-export interface LoanApplicationDetails extends CardApplicationDetails {
-    loanAmount: number;
-    loanTerm: number;
-}
-
 interface BankContextType {
     currentUser: User | null;
     users: User[];
     transactions: Transaction[];
+    journal: JournalEntry[];
     login: (username: string, pin: string) => boolean;
     logout: () => void;
-    registerUser: (name: string, username: string, pin: string) => boolean;
-    transferMoney: (recipientIdentifier: string, amount: number) => { success: boolean; message: string };
-    addCardToUser: (details: CardApplicationDetails) => { success: boolean; message: string; newCard?: Card };
-    addLoanToUser: (details: LoanApplicationDetails) => { success: boolean; message: string; newLoan?: Loan };
-    requestPaymentExtension: (accountId: string, type: 'card' | 'loan') => { success: boolean; message: string; newDueDate?: string };
+    registerUser: (name: string, username: string, pin: string, currency?: CurrencyCode) => boolean;
+    // Optional idempotency keys make these safe to retry: a repeated key returns the original outcome.
+    transferMoney: (recipientIdentifier: string, amount: Money, idempotencyKey?: string, fromAccountNumber?: string) => TransferResult;
+    quoteTransfer: (recipientIdentifier: string, amount: Money, fromAccountNumber?: string) => TransferQuoteResult;
+    transferLimitUsage: TransferLimitUsage | null;
+    setTransferLimits: (changes: Partial<TransferLimits>) => TransferLimitsResult;
+    reverseTransfer: (transactionId: string) => OperationResult;
+    payCardBalance: (request: CardPaymentRequest, idempotencyKey?: string) => CardPaymentResult;
+    purchaseWithCard: (request: CardPurchaseRequest, idempotencyKey?: string) => CardAuthorizationResult;
+    setCardControls: (cardNumber: string, changes: Partial<CardControls>) => CardControlsResult;
+    payLoan: (request: LoanPaymentRequest, idempotencyKey?: string) => LoanPaymentResult;
+    addCardToUser: (details: CardApplicationDetails, idempotencyKey?: string) => CardApplicationResult;
+    addLoanToUser: (details: LoanApplicationDetails, idempotencyKey?: string) => LoanApplicationResult;
+    requestPaymentExtension: (accountId: string, type: 'card' | 'loan') => PaymentExtensionResult;
+    scheduledTransfers: ScheduledTransfer[];
+    scheduleTransfer: (request: ScheduleTransferRequest) => ScheduleTransferResult;
+    updateScheduledTransfer: (id: string, changes: Partial<ScheduleTransferRequest>) => ScheduleTransferResult;
+    cancelScheduledTransfer: (id: string) => ScheduleTransferResult;
+    applications: ApplicationRecord[];
+    withdrawApplication: (id: string) => ApplicationResult;
+    savingsGoals: SavingsGoal[];
+    availableSavings: Money | null; // Savings not set aside for a goal
+    createSavingsGoal: (request: SavingsGoalRequest) => SavingsGoalResult;
+    contributeToGoal: (goalId: string, amount: Money) => SavingsGoalResult;
+    withdrawFromGoal: (goalId: string, amount: Money) => SavingsGoalResult;
+    setGoalAutoContribution: (goalId: string, autoContribution: SavingsGoalRequest['autoContribution'] | null) => SavingsGoalResult;
+    closeSavingsGoal: (goalId: string) => SavingsGoalResult;
+    payees: Payee[];
+    addPayee: (request: PayeeRequest) => PayeeResult;
+    renamePayee: (payeeId: string, nickname: string) => PayeeResult;
+    removePayee: (payeeId: string) => PayeeResult;
+    incomingRequests: MoneyRequestView[];
+    outgoingRequests: MoneyRequestView[];
+    requestMoney: (payerIdentifier: string, amount: Money, note?: string, idempotencyKey?: string) => MoneyRequestResult;
+    payMoneyRequest: (requestId: string, amount?: Money, idempotencyKey?: string) => MoneyRequestResult;
+    declineMoneyRequest: (requestId: string) => MoneyRequestResult;
+    cancelMoneyRequest: (requestId: string) => MoneyRequestResult;
+    accounts: AccountView[]; // The main account first
+    getAccountTransactions: (accountNumber: string) => Transaction[];
+    openAccount: (request: OpenAccountRequest) => DepositAccountResult;
+    closeAccount: (accountNumber: string) => DepositAccountResult;
+    transferBetweenAccounts: (fromAccountNumber: string, toAccountNumber: string, amount: Money, idempotencyKey?: string) => OperationResult;
+    billSplits: BillSplitView[];
+    splitCardTransaction: (request: BillSplitRequest, idempotencyKey?: string) => BillSplitResult;
+    budgets: BudgetStatus[];
+    setBudget: (request: BudgetRequest) => BudgetResult;
+    removeBudget: (budgetId: string) => BudgetResult;
+    portfolio: Portfolio | null; // Null until the user first moves money into investments
+    fundInvestments: (amount: Money, idempotencyKey?: string) => InvestmentTransferResult;
+    withdrawInvestments: (amount: Money, idempotencyKey?: string) => InvestmentTransferResult;
+    placeInvestmentOrder: (request: InvestmentOrderRequest, idempotencyKey?: string) => InvestmentOrderResult;
 }
 
 export const BankContext = createContext<BankContextType>(null!);
 
-const initialUsers = (): User[] => {
+const loadSaved = <T,>(key: string, fallback: () => T, label: string): T => {
     try {
-        const saved = localStorage.getItem('gemini-bank-users');
-        return saved ? JSON.parse(saved) : MOCK_USERS;
+        const saved = localStorage.getItem(key);
+        return saved ? JSON.parse(saved) : fallback();
     } catch (e) {
-        console.error("Failed to load users, falling back to mock data.", e);
-        return MOCK_USERS;
+        console.error(`Failed to load ${label}, falling back to defaults.`, e);
+        return fallback();
     }
 };
 
-const initialTransactions = (): Transaction[] => {
-    try {
-        const saved = localStorage.getItem('gemini-bank-transactions');
-        return saved ? JSON.parse(saved) : MOCK_TRANSACTIONS;
-    } catch (e) {
-        console.error("Failed to load transactions, falling back to mock data.", e);
-        return MOCK_TRANSACTIONS;
-    }
+// Each slice of the bank state is persisted under its own localStorage key.
+const STORAGE_KEYS: Record<keyof BankState, string> = {
+    users: 'gemini-bank-users',
+    transactions: 'gemini-bank-transactions',
+    journal: 'gemini-bank-journal',
+    idempotencyRecords: 'gemini-bank-idempotency',
+    scheduledTransfers: 'gemini-bank-scheduled-transfers',
+    applications: 'gemini-bank-applications',
+    savingsGoals: 'gemini-bank-savings-goals',
+    budgets: 'gemini-bank-budgets',
+    payees: 'gemini-bank-payees',
+    moneyRequests: 'gemini-bank-money-requests',
+    billSplits: 'gemini-bank-bill-splits',
+    depositAccounts: 'gemini-bank-deposit-accounts',
+    interestAccruedThrough: 'gemini-bank-interest-accrued-through',
 };
 
+const initialBankState = (): BankState => bank.createBankState({
+    users: loadSaved<User[]>(STORAGE_KEYS.users, () => MOCK_USERS, 'users'),
+    transactions: loadSaved<Transaction[]>(STORAGE_KEYS.transactions, () => MOCK_TRANSACTIONS, 'transactions'),
+    journal: loadSaved<JournalEntry[] | undefined>(STORAGE_KEYS.journal, () => undefined, 'journal'),
+    idempotencyRecords: loadSaved<IdempotencyRecord[] | undefined>(STORAGE_KEYS.idempotencyRecords, () => undefined, 'idempotency records'),
+    scheduledTransfers: loadSaved<ScheduledTransfer[] | undefined>(STORAGE_KEYS.scheduledTransfers, () => undefined, 'scheduled transfers'),
+    applications: loadSaved<ApplicationRecord[] | undefined>(STORAGE_KEYS.applications, () => undefined, 'applications'),
+    savingsGoals: loadSaved<SavingsGoal[] | undefined>(STORAGE_KEYS.savingsGoals, () => undefined, 'savings goals'),
+    budgets: loadSaved<CategoryBudget[] | undefined>(STORAGE_KEYS.budgets, () => undefined, 'budgets'),
+    payees: loadSaved<Payee[] | undefined>(STORAGE_KEYS.payees, () => undefined, 'payees'),
+    moneyRequests: loadSaved<MoneyRequest[] | undefined>(STORAGE_KEYS.moneyRequests, () => undefined, 'money requests'),
+    billSplits: loadSaved<BillSplit[] | undefined>(STORAGE_KEYS.billSplits, () => undefined, 'bill splits'),
+    depositAccounts: loadSaved<DepositAccount[] | undefined>(STORAGE_KEYS.depositAccounts, () => undefined, 'deposit accounts'),
+    interestAccruedThrough: loadSaved<string | undefined>(STORAGE_KEYS.interestAccruedThrough, () => undefined, 'interest accrual date'),
+});
+
+const SCHEDULED_JOBS_INTERVAL_MS = 60 * 1000;
+
+// Swap in a live FX rate source here; the bundled table works offline.
+const FX_RATE_SOURCE = staticRateSource;
+// Likewise for fund prices; the simulated feed moves once a day without a network.
+const PRICE_SOURCE = simulatedPriceSource;
+
+const notLoggedIn = { success: false, message: 'Error: You are not logged in.' };
+
 type AuthScreen = 'welcome' | 'login' | 'register';
 
 export default function App() {
-    const [users, setUsers] = useState<User[]>(initialUsers);
-    const [transactions, setTransactions] = useState<Transaction[]>(initialTransactions);
-    const [currentUser, setCurrentUser] = useState<User | null>(null);
+    const [bankState, setBankState] = useState<BankState>(initialBankState);
+    // Mirrors bankState synchronously so several operations in one event (e.g. a batch
+    // of chat tool calls) each see the result of the previous one.
+    const bankStateRef = useRef(bankState);
+    const [currentUserId, setCurrentUserId] = useState<number | null>(null);
     const [authScreen, setAuthScreen] = useState<AuthScreen>('welcome');
 
-    useEffect(() => {
-        localStorage.setItem('gemini-bank-users', JSON.stringify(users));
-    }, [users]);
+    const { users, transactions, journal } = bankState;
+    const currentUser = users.find(u => u.id === currentUserId) ?? null;
 
+    const persistedState = useRef<BankState | null>(null);
     useEffect(() => {
-        localStorage.setItem('gemini-bank-transactions', JSON.stringify(transactions));
-    }, [transactions]);
+        // Only rewrite the slices that actually changed.
+        for (const slice of Object.keys(STORAGE_KEYS) as (keyof BankState)[]) {
+            if (persistedState.current?.[slice] !== bankState[slice]) {
+                localStorage.setItem(STORAGE_KEYS[slice], JSON.stringify(bankState[slice]));
+            }
+        }
+        persistedState.current = bankState;
+    }, [bankState]);
+
+    const run = <R,>(operation: (state: BankState) => BankOperation<R>): R => {
+        const { state, result } = operation(bankStateRef.current);
+        if (state !== bankStateRef.current) {
+            bankStateRef.current = state;
+            setBankState(state);
+        }
+        return result;
+    };
 
+    useEffect(() => {
+        const processDueJobs = () => run(state => ({ state: runScheduledJobs(state, new Date()), result: undefined }));
+        processDueJobs();
+        const interval = setInterval(processDueJobs, SCHEDULED_JOBS_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, []);
 
     const login = (username: string, pin: string): boolean => {
-        const user = users.find(u => u.username.toLowerCase() === username.toLowerCase() && u.pin === pin);
+        const user = bank.findUserByCredentials(bankStateRef.current, username, pin);
         if (user) {
-            setCurrentUser(user);
+            setCurrentUserId(user.id);
             return true;
         }
         return false;
     };
 
     const logout = () => {
-        setCurrentUser(null);
+        setCurrentUserId(null);
         setAuthScreen('welcome');
     };
 
-    const registerUser = (name: string, username: string, pin: string): boolean => {
-        const existingUser = users.find(u => u.username.toLowerCase() === username.toLowerCase());
-        if (existingUser) {
-            return false; // Username taken
+    const registerUser = (name: string, username: string, pin: string, currency?: CurrencyCode): boolean => {
+        const result = run(state => bank.registerUser(state, name, username, pin, currency));
+        if (result.user) {
+            setCurrentUserId(result.user.id); // Auto-login after registration
         }
+        return result.success;
+    };
 
-        const newUser: User = {
-            id: users.length + 1,
-            name,
-            username,
-            pin,
-            balance: 1000, // Starting balance
-            savingsAccountNumber: generateAccountNumber(),
-            avatarUrl: `https://picsum.photos/seed/${username}/100`,
-            cards: [generateMockCard()],
-            loans: [],
-        };
-
-        const updatedUsers = [...users, newUser];
-        setUsers(updatedUsers);
-        setCurrentUser(newUser); // Auto-login after registration
-        return true;
-    }
+    const transferMoney = (recipientIdentifier: string, amount: Money, idempotencyKey?: string, fromAccountNumber?: string): TransferResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => bank.transferMoney(state, currentUser.id, recipientIdentifier, amount, idempotencyKey, FX_RATE_SOURCE, fromAccountNumber));
+    };
 
-    const transferMoney = (recipientIdentifier: string, amount: number): { success: boolean; message: string } => {
-        if (!currentUser) return { success: false, message: 'Error: You are not logged in.' };
-        if (amount <= 0) return { success: false, message: 'Error: Payment amount must be positive.' };
-
-        const senderIndex = users.findIndex(u => u.id === currentUser.id);
-        
-        const recipientIndex = users.findIndex(u =>
-            u.name.toLowerCase() === recipientIdentifier.toLowerCase() ||
-            u.name.split(' ')[0].toLowerCase() === recipientIdentifier.toLowerCase() ||
-            u.savingsAccountNumber === recipientIdentifier
-        );
-
-        if (recipientIndex === -1) return { success: false, message: `Error: Contact or account "${recipientIdentifier}" not found.` };
-        
-        const sender = users[senderIndex];
-        const recipient = users[recipientIndex];
-
-        if (sender.id === recipient.id) return { success: false, message: 'Error: Cannot send money to yourself.' };
-        if (sender.balance < amount) return { success: false, message: `Error: Insufficient funds. Your balance is $${sender.balance.toFixed(2)}.` };
-
-        const newUsers = [...users];
-        newUsers[senderIndex] = { ...sender, balance: sender.balance - amount };
-        newUsers[recipientIndex] = { ...recipient, balance: recipient.balance + amount };
-        setUsers(newUsers);
-        setCurrentUser(newUsers[senderIndex]);
-
-        const newTransactionId = `t${transactions.length + 1}`;
-        const timestamp = new Date().toISOString();
-
-        const senderTransaction: Transaction = {
-            id: newTransactionId,
-            userId: sender.id,
-            type: 'debit',
-            amount,
-            description: `Payment to ${recipient.name}`,
-            timestamp,
-            partyName: recipient.name,
-            category: 'Transfers',
-        };
-        const recipientTransaction: Transaction = {
-            id: `${newTransactionId}-r`,
-            userId: recipient.id,
-            type: 'credit',
-            amount,
-            description: `Payment from ${sender.name}`,
-            timestamp,
-            partyName: sender.name,
-            category: 'Transfers',
-        };
-
-        setTransactions(prev => [...prev, senderTransaction, recipientTransaction]);
-
-        return { success: true, message: `Success! You sent $${amount.toFixed(2)} to ${recipient.name}.` };
+    const quoteTransfer = (recipientIdentifier: string, amount: Money, fromAccountNumber?: string): TransferQuoteResult => {
+        if (!currentUser) return notLoggedIn;
+        return bank.quoteTransfer(bankStateRef.current, currentUser.id, recipientIdentifier, amount, FX_RATE_SOURCE, fromAccountNumber);
     };
-    
-    const addCardToUser = (details: CardApplicationDetails): { success: boolean; message: string; newCard?: Card } => {
-        if (!currentUser) return { success: false, message: 'Error: You are not logged in.' };
 
-        const userIndex = users.findIndex(u => u.id === currentUser.id);
-        if (userIndex === -1) return { success: false, message: 'Error: Current user not found.' };
+    const transferLimitUsage = currentUser ? transferLimits.getTransferLimitUsage(bankState, currentUser) : null;
 
-        if (Math.random() < 0.2) { // 20% rejection rate
-             return { success: false, message: `We're sorry, ${details.fullName}, but we were unable to approve your credit card application at this time.` };
-        }
+    const setTransferLimits = (changes: Partial<TransferLimits>): TransferLimitsResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => transferLimits.setTransferLimits(state, currentUser.id, changes));
+    };
 
-        const newCard = generateMockCard();
-        const updatedUser = {
-            ...users[userIndex],
-            cards: [...users[userIndex].cards, newCard],
-        };
+    const reverseTransfer = (transactionId: string): OperationResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => bank.reverseTransfer(state, currentUser.id, transactionId));
+    };
 
-        const newUsers = [...users];
-        newUsers[userIndex] = updatedUser;
-        setUsers(newUsers);
-        setCurrentUser(updatedUser);
+    const payCardBalance = (request: CardPaymentRequest, idempotencyKey?: string): CardPaymentResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => cardPayments.payCardBalance(state, currentUser.id, request, idempotencyKey));
+    };
 
-        return { success: true, message: `Congratulations, ${details.fullName}! Your new ${newCard.cardType} card has been approved.`, newCard };
+    const purchaseWithCard = (request: CardPurchaseRequest, idempotencyKey?: string): CardAuthorizationResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => cardHolds.purchaseWithCard(state, currentUser.id, request, idempotencyKey));
     };
 
-    const addLoanToUser = (details: LoanApplicationDetails): { success: boolean; message: string; newLoan?: Loan } => {
-        if (!currentUser) return { success: false, message: 'Error: You are not logged in.' };
+    const setCardControls = (cardNumber: string, changes: Partial<CardControls>): CardControlsResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => cardControls.setCardControls(state, currentUser.id, cardNumber, changes));
+    };
 
-        const userIndex = users.findIndex(u => u.id === currentUser.id);
-        if (userIndex === -1) return { success: false, message: 'Error: Current user not found.' };
-        
-        if (Math.random() < 0.3) { // 30% rejection rate
-            return { success: false, message: `We're sorry, ${details.fullName}, but we were unable to approve your loan application for ${details.loanAmount} at this time.` };
-        }
+    const payLoan = (request: LoanPaymentRequest, idempotencyKey?: string): LoanPaymentResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => loanPayments.payLoan(state, currentUser.id, request, idempotencyKey));
+    };
 
-        const { loanAmount, loanTerm } = details;
-        const interestRate = parseFloat((Math.random() * 10 + 3).toFixed(2)); // 3% to 13%
-        const monthlyInterestRate = interestRate / 100 / 12;
-        const monthlyPayment = (loanAmount * monthlyInterestRate * Math.pow(1 + monthlyInterestRate, loanTerm)) / (Math.pow(1 + monthlyInterestRate, loanTerm) - 1);
-        
-        const today = new Date();
-        const paymentDueDate = new Date(today.getFullYear(), today.getMonth() + 1, 1).toISOString(); // 1st of next month
-
-        const newLoan: Loan = {
-            id: `loan-${currentUser.id}-${Date.now()}`,
-            userId: currentUser.id,
-            loanAmount,
-            interestRate,
-            termMonths: loanTerm,
-            monthlyPayment: parseFloat(monthlyPayment.toFixed(2)),
-            remainingBalance: loanAmount,
-            status: 'Active',
-            startDate: new Date().toISOString(),
-            paymentDueDate,
-        };
-
-        const updatedUser = {
-            ...users[userIndex],
-            balance: users[userIndex].balance + loanAmount,
-            loans: [...users[userIndex].loans, newLoan],
-        };
-
-        const newUsers = [...users];
-        newUsers[userIndex] = updatedUser;
-        setUsers(newUsers);
-        setCurrentUser(updatedUser);
-        
-        const loanCreditTransaction: Transaction = {
-            id: `t-loan-${newLoan.id}`,
-            userId: currentUser.id,
-            type: 'credit',
-            amount: loanAmount,
-            description: `Loan Disbursement`,
-            timestamp: new Date().toISOString(),
-            partyName: "Nova Bank Loans",
-            category: 'Income',
-        };
-        setTransactions(prev => [...prev, loanCreditTransaction]);
-
-        return { success: true, message: `Congratulations! Your loan for $${loanAmount.toFixed(2)} has been approved. The funds are now available in your account.`, newLoan };
-    };
-
-    const requestPaymentExtension = (accountId: string, type: 'card' | 'loan'): { success: boolean; message: string; newDueDate?: string } => {
-        if (!currentUser) return { success: false, message: 'Error: You are not logged in.' };
-        const userIndex = users.findIndex(u => u.id === currentUser.id);
-        if (userIndex === -1) return { success: false, message: 'Error: Current user not found.' };
-        
-        if (Math.random() < 0.1) { // 10% rejection rate
-             return { success: false, message: `We're sorry, but we were unable to process a payment extension for this account at this time.` };
-        }
-        
-        let newDueDate: Date | null = null;
-        let message = '';
-        const updatedUser = { ...users[userIndex] };
-
-        if (type === 'card') {
-            const cardIndex = updatedUser.cards.findIndex(c => c.cardNumber.slice(-4) === accountId);
-            if (cardIndex === -1) return { success: false, message: `Error: Card ending in ${accountId} not found.`};
-            const originalDueDate = new Date(updatedUser.cards[cardIndex].paymentDueDate);
-            newDueDate = new Date(originalDueDate.setDate(originalDueDate.getDate() + 14));
-            updatedUser.cards[cardIndex].paymentDueDate = newDueDate.toISOString();
-            message = `Success! Your payment due date for the card ending in ${accountId} has been extended to`;
-
-        } else if (type === 'loan') {
-            const loanIndex = updatedUser.loans.findIndex(l => l.id === accountId);
-            if (loanIndex === -1) return { success: false, message: `Error: Loan with ID ${accountId} not found.`};
-            const originalDueDate = new Date(updatedUser.loans[loanIndex].paymentDueDate);
-            newDueDate = new Date(originalDueDate.setDate(originalDueDate.getDate() + 14));
-            updatedUser.loans[loanIndex].paymentDueDate = newDueDate.toISOString();
-            message = `Success! Your payment due date for loan ${accountId} has been extended to`;
-        } else {
-            return { success: false, message: `Invalid account type.` };
-        }
-        
-        const newUsers = [...users];
-        newUsers[userIndex] = updatedUser;
-        setUsers(newUsers);
-        setCurrentUser(updatedUser);
-        
-        const formattedDate = newDueDate.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
-        
-        return { success: true, message: `${message} ${formattedDate}.`, newDueDate: newDueDate.toISOString() };
-    };
-
-    const contextValue = { currentUser, users, transactions, login, logout, registerUser, transferMoney, addCardToUser, addLoanToUser, requestPaymentExtension };
+    const addCardToUser = (details: CardApplicationDetails, idempotencyKey?: string): CardApplicationResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => bank.addCardToUser(state, currentUser.id, details, idempotencyKey));
+    };
+
+    const addLoanToUser = (details: LoanApplicationDetails, idempotencyKey?: string): LoanApplicationResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => bank.addLoanToUser(state, currentUser.id, details, idempotencyKey));
+    };
+
+    const requestPaymentExtension = (accountId: string, type: 'card' | 'loan'): PaymentExtensionResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => bank.requestPaymentExtension(state, currentUser.id, accountId, type));
+    };
+
+    const scheduledTransfers = currentUser ? standingOrders.getScheduledTransfers(bankState, currentUser.id) : [];
+
+    const scheduleTransfer = (request: ScheduleTransferRequest): ScheduleTransferResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => standingOrders.scheduleTransfer(state, currentUser.id, request));
+    };
+
+    const updateScheduledTransfer = (id: string, changes: Partial<ScheduleTransferRequest>): ScheduleTransferResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => standingOrders.updateScheduledTransfer(state, currentUser.id, id, changes));
+    };
+
+    const cancelScheduledTransfer = (id: string): ScheduleTransferResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => standingOrders.cancelScheduledTransfer(state, currentUser.id, id));
+    };
+
+    const userApplications = currentUser ? applications.getApplications(bankState, currentUser.id) : [];
+
+    const withdrawApplication = (id: string): ApplicationResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => applications.withdrawApplication(state, currentUser.id, id));
+    };
+
+    const userSavingsGoals = currentUser ? savingsGoals.getSavingsGoals(bankState, currentUser.id) : [];
+    const availableSavings = currentUser ? savingsGoals.getAvailableSavings(bankState, currentUser) : null;
+
+    const createSavingsGoal = (request: SavingsGoalRequest): SavingsGoalResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => savingsGoals.createSavingsGoal(state, currentUser.id, request));
+    };
+
+    const contributeToGoal = (goalId: string, amount: Money): SavingsGoalResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => savingsGoals.contributeToGoal(state, currentUser.id, goalId, amount));
+    };
+
+    const withdrawFromGoal = (goalId: string, amount: Money): SavingsGoalResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => savingsGoals.withdrawFromGoal(state, currentUser.id, goalId, amount));
+    };
+
+    const setGoalAutoContribution = (goalId: string, autoContribution: SavingsGoalRequest['autoContribution'] | null): SavingsGoalResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => savingsGoals.setGoalAutoContribution(state, currentUser.id, goalId, autoContribution));
+    };
+
+    const closeSavingsGoal = (goalId: string): SavingsGoalResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => savingsGoals.closeSavingsGoal(state, currentUser.id, goalId));
+    };
+
+    const userPayees = currentUser ? payees.getPayees(bankState, currentUser.id) : [];
+
+    const addPayee = (request: PayeeRequest): PayeeResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => payees.addPayee(state, currentUser.id, request));
+    };
+
+    const renamePayee = (payeeId: string, nickname: string): PayeeResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => payees.renamePayee(state, currentUser.id, payeeId, nickname));
+    };
+
+    const removePayee = (payeeId: string): PayeeResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => payees.removePayee(state, currentUser.id, payeeId));
+    };
+
+    const incomingRequests = currentUser ? moneyRequests.getIncomingRequests(bankState, currentUser.id) : [];
+    const outgoingRequests = currentUser ? moneyRequests.getOutgoingRequests(bankState, currentUser.id) : [];
+
+    const requestMoney = (payerIdentifier: string, amount: Money, note?: string, idempotencyKey?: string): MoneyRequestResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => moneyRequests.requestMoney(state, currentUser.id, payerIdentifier, amount, note, idempotencyKey));
+    };
+
+    const payMoneyRequest = (requestId: string, amount?: Money, idempotencyKey?: string): MoneyRequestResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => moneyRequests.payMoneyRequest(state, currentUser.id, requestId, amount, idempotencyKey));
+    };
+
+    const declineMoneyRequest = (requestId: string): MoneyRequestResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => moneyRequests.declineMoneyRequest(state, currentUser.id, requestId));
+    };
+
+    const cancelMoneyRequest = (requestId: string): MoneyRequestResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => moneyRequests.cancelMoneyRequest(state, currentUser.id, requestId));
+    };
+
+    const userAccounts = currentUser ? depositAccounts.getAccounts(bankState, currentUser.id) : [];
+
+    const getAccountTransactions = (accountNumber: string): Transaction[] =>
+        currentUser ? depositAccounts.getAccountTransactions(bankState, currentUser.id, accountNumber) : [];
+
+    const openAccount = (request: OpenAccountRequest): DepositAccountResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => depositAccounts.openDepositAccount(state, currentUser.id, request));
+    };
+
+    const closeAccount = (accountNumber: string): DepositAccountResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => depositAccounts.closeDepositAccount(state, currentUser.id, accountNumber));
+    };
+
+    const transferBetweenAccounts = (fromAccountNumber: string, toAccountNumber: string, amount: Money, idempotencyKey?: string): OperationResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => depositAccounts.transferBetweenAccounts(state, currentUser.id, fromAccountNumber, toAccountNumber, amount, idempotencyKey));
+    };
+
+    const userBillSplits = currentUser ? billSplits.getBillSplits(bankState, currentUser.id) : [];
+
+    const splitCardTransaction = (request: BillSplitRequest, idempotencyKey?: string): BillSplitResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => billSplits.splitCardTransaction(state, currentUser.id, request, idempotencyKey));
+    };
+
+    const budgetStatuses = currentUser ? budgets.getBudgetStatuses(bankState, currentUser.id) : [];
+
+    const setBudget = (request: BudgetRequest): BudgetResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => budgets.setCategoryBudget(state, currentUser.id, request));
+    };
+
+    const removeBudget = (budgetId: string): BudgetResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => budgets.removeCategoryBudget(state, currentUser.id, budgetId));
+    };
+
+    const portfolio = currentUser ? investments.getPortfolio(currentUser, PRICE_SOURCE) : null;
+
+    const fundInvestments = (amount: Money, idempotencyKey?: string): InvestmentTransferResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => investments.fundInvestmentAccount(state, currentUser.id, amount, idempotencyKey));
+    };
+
+    const withdrawInvestments = (amount: Money, idempotencyKey?: string): InvestmentTransferResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => investments.withdrawFromInvestmentAccount(state, currentUser.id, amount, idempotencyKey));
+    };
+
+    const placeInvestmentOrder = (request: InvestmentOrderRequest, idempotencyKey?: string): InvestmentOrderResult => {
+        if (!currentUser) return notLoggedIn;
+        return run(state => investments.placeInvestmentOrder(state, currentUser.id, request, idempotencyKey, PRICE_SOURCE));
+    };
+
+    const contextValue = {
+        currentUser, users, transactions, journal, login, logout, registerUser, transferMoney, quoteTransfer, transferLimitUsage, setTransferLimits, reverseTransfer, payCardBalance, purchaseWithCard, setCardControls, payLoan, addCardToUser, addLoanToUser, requestPaymentExtension,
+        scheduledTransfers, scheduleTransfer, updateScheduledTransfer, cancelScheduledTransfer,
+        applications: userApplications, withdrawApplication,
+        savingsGoals: userSavingsGoals, availableSavings, createSavingsGoal, contributeToGoal, withdrawFromGoal, setGoalAutoContribution, closeSavingsGoal,
+        payees: userPayees, addPayee, renamePayee, removePayee,
+        incomingRequests, outgoingRequests, requestMoney, payMoneyRequest, declineMoneyRequest, cancelMoneyRequest,
+        accounts: userAccounts, getAccountTransactions, openAccount, closeAccount, transferBetweenAccounts,
+        billSplits: userBillSplits, splitCardTransaction,
+        budgets: budgetStatuses, setBudget, removeBudget,
+        portfolio, fundInvestments, withdrawInvestments, placeInvestmentOrder,
+    };
 
     const screenKey = currentUser ? 'dashboard' : authScreen;
     
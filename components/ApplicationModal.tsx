@@ -1,8 +1,10 @@
-import React, { useState, useContext, useEffect } from 'react';
+import React, { useState, useContext, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { BankContext } from '../App';
-import { CheckCircleIcon, XCircleIcon } from './icons';
+import { CalendarIcon, CheckCircleIcon, XCircleIcon } from './icons';
 import { useTranslation } from '../hooks/useTranslation';
+import { fromMajor } from '../services/money';
+import { createIdempotencyKey } from '../services/idempotency';
 
 interface ApplicationModalProps {
   isOpen: boolean;
@@ -10,7 +12,7 @@ interface ApplicationModalProps {
   applicationType: 'Card' | 'Loan';
 }
 
-type ApplicationStatus = 'pending' | 'submitting' | 'success' | 'rejected';
+type ApplicationStatus = 'pending' | 'submitting' | 'success' | 'referred' | 'rejected';
 
 export const ApplicationModal: React.FC<ApplicationModalProps> = ({ isOpen, onClose, applicationType }) => {
   const { currentUser, addCardToUser, addLoanToUser } = useContext(BankContext);
@@ -27,6 +29,8 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({ isOpen, onCl
   });
   const [status, setStatus] = useState<ApplicationStatus>('pending');
   const [message, setMessage] = useState('');
+  // One key per opened form, so a double submit cannot file the application twice.
+  const idempotencyKey = useRef(createIdempotencyKey());
 
   useEffect(() => {
     if (isOpen) {
@@ -43,6 +47,7 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({ isOpen, onCl
         });
         setStatus('pending');
         setMessage('');
+        idempotencyKey.current = createIdempotencyKey();
     }
   }, [isOpen, currentUser]);
 
@@ -56,28 +61,29 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({ isOpen, onCl
     setStatus('submitting');
 
     setTimeout(() => { // Simulate network delay
+        const currency = currentUser?.balance.currency;
         const baseDetails = {
             fullName: formData.fullName,
             address: formData.address,
             dateOfBirth: formData.dateOfBirth,
             employmentStatus: formData.employmentStatus,
             employer: formData.employer,
-            annualIncome: parseFloat(formData.annualIncome) || 0,
+            annualIncome: fromMajor(parseFloat(formData.annualIncome) || 0, currency),
         };
 
         if (applicationType === 'Card') {
-            const result = addCardToUser(baseDetails);
+            const result = addCardToUser(baseDetails, idempotencyKey.current);
             setMessage(result.message);
-            setStatus(result.success ? 'success' : 'rejected');
+            setStatus(result.success ? 'success' : result.decision?.outcome === 'refer' ? 'referred' : 'rejected');
         } else {
             const loanDetails = {
                 ...baseDetails,
-                loanAmount: parseFloat(formData.loanAmount) || 0,
+                loanAmount: fromMajor(parseFloat(formData.loanAmount) || 0, currency),
                 loanTerm: parseInt(formData.loanTerm, 10) || 0,
             };
-            const result = addLoanToUser(loanDetails);
+            const result = addLoanToUser(loanDetails, idempotencyKey.current);
             setMessage(result.message);
-            setStatus(result.success ? 'success' : 'rejected');
+            setStatus(result.success ? 'success' : result.decision?.outcome === 'refer' ? 'referred' : 'rejected');
         }
     }, 1500);
   };
@@ -98,10 +104,10 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({ isOpen, onCl
       <div>
         <label className="block text-sm font-medium text-slate-300 mb-1">{t('employmentStatus')}</label>
         <select name="employmentStatus" value={formData.employmentStatus} onChange={handleChange} className="w-full bg-slate-800 border border-slate-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500">
-            <option>{t('employed')}</option>
-            <option>{t('selfEmployed')}</option>
-            <option>{t('unemployed')}</option>
-            <option>{t('student')}</option>
+            <option value="Employed">{t('employed')}</option>
+            <option value="Self-Employed">{t('selfEmployed')}</option>
+            <option value="Unemployed">{t('unemployed')}</option>
+            <option value="Student">{t('student')}</option>
         </select>
       </div>
       <InputField name="employer" label={t('employer')} value={formData.employer} onChange={handleChange} placeholder={t('employerPlaceholder')}/>
@@ -129,13 +135,14 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({ isOpen, onCl
   
   const renderResult = () => {
       const isSuccess = status === 'success';
-      const Icon = isSuccess ? CheckCircleIcon : XCircleIcon;
-      const colorClass = isSuccess ? 'text-green-400' : 'text-red-400';
+      const isReferred = status === 'referred';
+      const Icon = isSuccess ? CheckCircleIcon : isReferred ? CalendarIcon : XCircleIcon;
+      const colorClass = isSuccess ? 'text-green-400' : isReferred ? 'text-amber-400' : 'text-red-400';
 
       return (
         <motion.div initial={{opacity: 0, scale: 0.8}} animate={{opacity: 1, scale: 1}} className="text-center flex flex-col items-center gap-4">
             <Icon className={`w-20 h-20 ${colorClass}`} />
-            <h3 className={`text-xl font-bold ${colorClass}`}>{isSuccess ? t('approved') : t('applicationDenied')}</h3>
+            <h3 className={`text-xl font-bold ${colorClass}`}>{isSuccess ? t('approved') : isReferred ? t('applicationReferred') : t('applicationDenied')}</h3>
             <p className="text-slate-300">{message}</p>
             <button onClick={onClose} className="w-full bg-slate-700 hover:bg-slate-600 text-white font-bold py-3 rounded-xl transition-all mt-4">
                 {t('close')}
@@ -0,0 +1,104 @@
+import React, { useContext } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BankContext } from '../App';
+import { ApplicationRecord, ApplicationStatus, LoanApplicationDetails } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import { isApplicationOpen } from '../services/applications';
+
+interface ApplicationsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const STATUS_STYLES: Record<ApplicationStatus, string> = {
+    submitted: 'bg-slate-600/40 text-slate-300',
+    underReview: 'bg-amber-500/20 text-amber-400',
+    approved: 'bg-green-500/20 text-green-400',
+    declined: 'bg-red-500/20 text-red-400',
+    withdrawn: 'bg-slate-600/40 text-slate-400',
+};
+
+const ApplicationItem: React.FC<{ application: ApplicationRecord; onWithdraw: () => void }> = ({ application, onWithdraw }) => {
+    const { t, formatMoney } = useTranslation();
+    const title = application.product === 'card'
+        ? t('creditCardApplication')
+        : t('loanApplication', { amount: formatMoney((application.details as LoanApplicationDetails).loanAmount) });
+    const statusLabel = {
+        submitted: t('applicationStatusSubmitted'),
+        underReview: t('applicationStatusUnderReview'),
+        approved: t('applicationStatusApproved'),
+        declined: t('applicationStatusDeclined'),
+        withdrawn: t('applicationStatusWithdrawn'),
+    }[application.status];
+
+    return (
+        <li className="bg-slate-700/40 p-3 rounded-xl text-xs text-slate-400 space-y-2">
+            <div className="flex justify-between items-start">
+                <div>
+                    <p className="font-bold text-sm text-white">{title}</p>
+                    <p>{t('submittedOn', { date: formatDate(application.submittedAt) })}</p>
+                </div>
+                <span className={`px-2 py-0.5 rounded-full font-semibold ${STATUS_STYLES[application.status]}`}>{statusLabel}</span>
+            </div>
+            {application.reasons.length > 0 && (
+                <ul className="list-disc list-inside space-y-0.5">
+                    {application.reasons.map(reason => <li key={reason.code}>{reason.message}</li>)}
+                </ul>
+            )}
+            {isApplicationOpen(application) && (
+                <button onClick={onWithdraw} className="w-full bg-red-500/10 hover:bg-red-500/20 text-red-400 font-semibold py-2 rounded-xl transition-colors">
+                    {t('withdrawApplication')}
+                </button>
+            )}
+        </li>
+    );
+};
+
+export const ApplicationsModal: React.FC<ApplicationsModalProps> = ({ isOpen, onClose }) => {
+  const { applications, withdrawApplication } = useContext(BankContext);
+  const { t } = useTranslation();
+
+  const handleWithdraw = (application: ApplicationRecord) => {
+    if (window.confirm(t('confirmWithdrawApplication'))) {
+        withdrawApplication(application.id);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ y: 50, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 50, opacity: 0 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+            className="bg-slate-800 w-full max-w-md max-h-[90vh] rounded-3xl flex flex-col overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <header className="p-4 border-b border-slate-700 flex items-center justify-between flex-shrink-0">
+              <h2 className="text-lg font-bold text-white">{t('myApplications')}</h2>
+              <button onClick={onClose} className="text-slate-400 hover:text-white text-2xl">&times;</button>
+            </header>
+
+            <div className="p-6 text-sm space-y-4 overflow-y-auto">
+                {applications.length > 0 ? (
+                    <ul className="space-y-2">
+                        {applications.map(application => (
+                            <ApplicationItem key={application.id} application={application} onWithdraw={() => handleWithdraw(application)} />
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-center text-slate-500">{t('noApplications')}</p>
+                )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
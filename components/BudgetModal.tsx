@@ -0,0 +1,105 @@
+import React, { useState, useContext, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BankContext } from '../App';
+import { BudgetRollover, CategoryBudget } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import { DEFAULT_CURRENCY, fromMajor, toMajor } from '../services/money';
+import { SUGGESTED_BUDGET_CATEGORIES, getCategorySpending } from '../services/budgets';
+
+interface BudgetModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // When set, the modal edits this budget instead of creating a new one.
+  budget?: CategoryBudget | null;
+}
+
+export const BudgetModal: React.FC<BudgetModalProps> = ({ isOpen, onClose, budget }) => {
+  const { currentUser, transactions, setBudget, removeBudget } = useContext(BankContext);
+  const { t } = useTranslation();
+  const currency = currentUser?.balance.currency ?? DEFAULT_CURRENCY;
+  const [category, setCategory] = useState('');
+  const [limit, setLimit] = useState('');
+  const [rollover, setRollover] = useState<BudgetRollover>('none');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+        setCategory(budget?.category ?? '');
+        setLimit(budget ? String(toMajor(budget.limit)) : '');
+        setRollover(budget?.rollover ?? 'none');
+        setError(null);
+    }
+  }, [isOpen, budget?.id]);
+
+  const spentCategories = currentUser ? getCategorySpending(transactions, currentUser).map(s => s.category) : [];
+  const suggestions = [...new Set([...spentCategories, ...SUGGESTED_BUDGET_CATEGORIES])];
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = setBudget({ category, limit: fromMajor(parseFloat(limit) || 0, currency), rollover });
+    if (result.success) onClose();
+    else setError(result.message);
+  };
+
+  const handleRemove = () => {
+    if (budget && window.confirm(t('confirmRemoveBudget', { category: budget.category }))) {
+        removeBudget(budget.id);
+        onClose();
+    }
+  };
+
+  const inputClass = "w-full bg-slate-700 border border-slate-600 rounded-xl px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ y: 50, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 50, opacity: 0 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+            className="bg-slate-800 w-full max-w-md max-h-[90vh] rounded-3xl flex flex-col overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <header className="p-4 border-b border-slate-700 flex items-center justify-between flex-shrink-0">
+              <h2 className="text-lg font-bold text-white">{budget ? budget.category : t('setBudget')}</h2>
+              <button onClick={onClose} className="text-slate-400 hover:text-white text-2xl">&times;</button>
+            </header>
+
+            <form onSubmit={handleSubmit} className="p-6 text-sm space-y-3 overflow-y-auto">
+                {!budget && (
+                    <label className="block text-slate-300">
+                        {t('budgetCategory')}
+                        <input value={category} onChange={(e) => setCategory(e.target.value)} list="budget-categories" className={`${inputClass} mt-1`} />
+                        <datalist id="budget-categories">
+                            {suggestions.map(name => <option key={name} value={name} />)}
+                        </datalist>
+                    </label>
+                )}
+                <label className="block text-slate-300">
+                    {t('monthlyBudget')} ({currency})
+                    <input type="number" min="0" value={limit} onChange={(e) => setLimit(e.target.value)} className={`${inputClass} mt-1`} />
+                </label>
+                <label className="block text-slate-300">
+                    {t('budgetRollover')}
+                    <select value={rollover} onChange={(e) => setRollover(e.target.value as BudgetRollover)} className={`${inputClass} mt-1`}>
+                        <option value="none">{t('rolloverNone')}</option>
+                        <option value="surplus">{t('rolloverSurplus')}</option>
+                        <option value="full">{t('rolloverFull')}</option>
+                    </select>
+                </label>
+                {error && <p className="text-xs text-red-400">{error}</p>}
+                <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 rounded-xl transition-all">{budget ? t('saveChanges') : t('setBudget')}</button>
+                {budget && (
+                    <button type="button" onClick={handleRemove} className="w-full bg-red-500/10 hover:bg-red-500/20 text-red-400 font-semibold py-2 rounded-xl transition-colors">{t('removeBudget')}</button>
+                )}
+            </form>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useState, useContext, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BankContext } from '../App';
+import { Card, CardControls } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import { fromMajor, toMajor } from '../services/money';
+import { getCardControls, getMonthlyCardSpend } from '../services/cardControls';
+import { SUGGESTED_BUDGET_CATEGORIES } from '../services/budgets';
+import { FEES_CATEGORY, INTEREST_CATEGORY } from '../services/statements';
+
+interface CardControlsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  card: Card;
+}
+
+export const CardControlsModal: React.FC<CardControlsModalProps> = ({ isOpen, onClose, card }) => {
+  const { setCardControls } = useContext(BankContext);
+  const { t, formatMoney } = useTranslation();
+  const controls = getCardControls(card);
+  const currency = card.creditLimit.currency;
+  const [perTransaction, setPerTransaction] = useState('');
+  const [monthly, setMonthly] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+        setPerTransaction(controls.perTransactionLimit ? String(toMajor(controls.perTransactionLimit)) : '');
+        setMonthly(controls.monthlyLimit ? String(toMajor(controls.monthlyLimit)) : '');
+        setError(null);
+    }
+  }, [isOpen, card.cardNumber]);
+
+  // Categories the card has been used in, the usual budget ones and whatever is already blocked.
+  const categories = [...SUGGESTED_BUDGET_CATEGORIES, ...card.transactions.map(tx => tx.category), ...controls.blockedCategories]
+    .filter((c, i, all) => c !== INTEREST_CATEGORY && c !== FEES_CATEGORY && all.findIndex(other => other.toLowerCase() === c.toLowerCase()) === i);
+  const isBlocked = (category: string) => controls.blockedCategories.some(c => c.toLowerCase() === category.toLowerCase());
+
+  const update = (changes: Partial<CardControls>) => {
+    const result = setCardControls(card.cardNumber, changes);
+    setError(result.success ? null : result.message);
+  };
+
+  const toggleCategory = (category: string) => update({
+    blockedCategories: isBlocked(category)
+        ? controls.blockedCategories.filter(c => c.toLowerCase() !== category.toLowerCase())
+        : [...controls.blockedCategories, category],
+  });
+
+  const toLimit = (value: string) => value.trim() ? fromMajor(parseFloat(value) || 0, currency) : undefined;
+
+  const handleSaveLimits = (e: React.FormEvent) => {
+    e.preventDefault();
+    update({ perTransactionLimit: toLimit(perTransaction), monthlyLimit: toLimit(monthly) });
+  };
+
+  const switches: { key: 'frozen' | 'onlineEnabled' | 'internationalEnabled'; label: string }[] = [
+      { key: 'frozen', label: t('freezeCard') },
+      { key: 'onlineEnabled', label: t('onlinePurchases') },
+      { key: 'internationalEnabled', label: t('internationalPurchases') },
+  ];
+  const inputClass = "w-full bg-slate-700 border border-slate-600 rounded-xl px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ y: 50, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 50, opacity: 0 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+            className="bg-slate-800 w-full max-w-md max-h-[90vh] rounded-3xl flex flex-col overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <header className="p-4 border-b border-slate-700 flex items-center justify-between flex-shrink-0">
+              <div>
+                <h2 className="text-lg font-bold text-white">{t('cardControls')}</h2>
+                <p className="text-xs text-slate-400">{card.cardType} ...{card.cardNumber.slice(-4)}</p>
+              </div>
+              <button onClick={onClose} className="text-slate-400 hover:text-white text-2xl">&times;</button>
+            </header>
+
+            <div className="p-6 text-sm space-y-4 overflow-y-auto">
+                <ul className="space-y-2">
+                    {switches.map(({ key, label }) => (
+                        <li key={key}>
+                            <label className="flex items-center justify-between text-white">
+                                {label}
+                                <input type="checkbox" checked={controls[key]} onChange={(e) => update({ [key]: e.target.checked })} className="accent-indigo-500 w-4 h-4" />
+                            </label>
+                        </li>
+                    ))}
+                </ul>
+
+                <form onSubmit={handleSaveLimits} className="space-y-2">
+                    <h3 className="font-semibold text-slate-300">{t('spendingLimits')}</h3>
+                    <div className="grid grid-cols-2 gap-2">
+                        <label className="block text-slate-300">
+                            {t('perPurchaseLimit')}
+                            <input type="number" min="0" value={perTransaction} onChange={(e) => setPerTransaction(e.target.value)} placeholder={t('noLimit')} className={`${inputClass} mt-1`} />
+                        </label>
+                        <label className="block text-slate-300">
+                            {t('monthlyCardLimit')}
+                            <input type="number" min="0" value={monthly} onChange={(e) => setMonthly(e.target.value)} placeholder={t('noLimit')} className={`${inputClass} mt-1`} />
+                        </label>
+                    </div>
+                    <p className="text-xs text-slate-400">{t('spentThisMonth', { amount: formatMoney(getMonthlyCardSpend(card)) })}</p>
+                    <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 rounded-xl transition-all">{t('saveLimits')}</button>
+                </form>
+
+                <div>
+                    <h3 className="font-semibold text-slate-300 mb-2">{t('blockedCategories')}</h3>
+                    <div className="flex flex-wrap gap-2">
+                        {categories.map(category => (
+                            <button
+                                key={category}
+                                type="button"
+                                onClick={() => toggleCategory(category)}
+                                className={`px-3 py-1 rounded-full text-xs font-semibold transition-colors ${isBlocked(category) ? 'bg-red-500/20 text-red-300' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                            >
+                                {category}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                {error && <p className="text-xs text-red-400">{error}</p>}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
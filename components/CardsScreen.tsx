@@ -3,38 +3,56 @@ import React, { useContext, useState, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { BankContext } from '../App';
 import { CardCarousel } from './CardCarousel';
-import { ArrowUpRightIcon, CreditCardIcon } from './icons';
+import { ArrowUpRightIcon, ArrowDownLeftIcon, CreditCardIcon } from './icons';
 import { StatementSummaryModal } from './StatementSummaryModal';
+import { StatementArchiveModal } from './StatementArchiveModal';
 import { Transaction, Card } from '../types';
 import { useTranslation } from '../hooks/useTranslation';
+import { isPositive } from '../services/money';
+import { getAvailableCredit, getPendingHolds } from '../services/cardHolds';
+import { TransactionStatusBadge, amountClassForStatus } from './TransactionStatusBadge';
+import { SplitBillModal } from './SplitBillModal';
+import { CardControlsModal } from './CardControlsModal';
+import { getCardControls } from '../services/cardControls';
+import { BillSplitView, isSplittable } from '../services/billSplits';
 
-const formatCurrency = (amount: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
-
-const CardTransactionItem = ({ tx, index }: { tx: Transaction; index: number }) => (
-    <motion.li
-        initial={{ opacity: 0, x: -20 }}
-        animate={{ opacity: 1, x: 0 }}
-        transition={{ duration: 0.3, delay: index * 0.05 }}
-        className="flex items-center justify-between py-3"
-    >
-        <div className="flex items-center gap-4">
-            <div className="w-10 h-10 rounded-full grid place-items-center bg-slate-700">
-                <ArrowUpRightIcon className="w-5 h-5 text-slate-400" />
-            </div>
-            <div>
-                <p className="font-semibold text-white">{tx.description}</p>
-                <p className="text-sm text-slate-400">{new Date(tx.timestamp).toLocaleDateString()}</p>
+const CardTransactionItem = ({ tx, index, split, onSplit }: { tx: Transaction; index: number; split?: BillSplitView; onSplit: () => void }) => {
+    const { t, formatMoney } = useTranslation();
+    const isCredit = tx.type === 'credit';
+    const canSplit = Boolean(split) || isSplittable(tx);
+    return (
+        <motion.li
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ duration: 0.3, delay: index * 0.05 }}
+            onClick={canSplit ? onSplit : undefined}
+            title={canSplit && !split ? t('splitBill') : undefined}
+            className={`flex items-center justify-between py-3 ${canSplit ? 'cursor-pointer hover:bg-slate-800/50' : ''}`}
+        >
+            <div className="flex items-center gap-4">
+                <div className="w-10 h-10 rounded-full grid place-items-center bg-slate-700">
+                    {isCredit ? <ArrowDownLeftIcon className="w-5 h-5 text-green-400" /> : <ArrowUpRightIcon className="w-5 h-5 text-slate-400" />}
+                </div>
+                <div>
+                    <p className="font-semibold text-white">{tx.description}<TransactionStatusBadge tx={tx} /></p>
+                    <p className="text-sm text-slate-400">
+                        {new Date(tx.timestamp).toLocaleDateString()}
+                        {split && <span className="ml-2 text-xs text-indigo-300">{t('splitBadge')} · {t('splitSettled', { settled: String(split.settledCount), count: String(split.shares.length) })}</span>}
+                    </p>
+                </div>
             </div>
-        </div>
-        <p className="font-bold text-slate-300">
-            -{formatCurrency(tx.amount)}
-        </p>
-    </motion.li>
-);
+            <p className={`font-bold ${amountClassForStatus(tx, isCredit ? 'text-green-400' : 'text-slate-300')}`}>
+                {isCredit ? '+' : '-'}{formatMoney(tx.amount)}
+            </p>
+        </motion.li>
+    );
+};
 
 const CreditUsageDisplay = ({ card }: { card: Card }) => {
-    const { t } = useTranslation();
-    const usagePercentage = (card.creditBalance / card.creditLimit) * 100;
+    const { t, formatMoney } = useTranslation();
+    const usagePercentage = (card.creditBalance.amount / card.creditLimit.amount) * 100;
+    const pendingHolds = getPendingHolds(card);
+    const holdsPercentage = (pendingHolds.amount / card.creditLimit.amount) * 100;
     
     return (
         <motion.div
@@ -48,16 +66,29 @@ const CreditUsageDisplay = ({ card }: { card: Card }) => {
             <h3 className="font-semibold text-slate-300 mb-2">{t('creditUsage')}</h3>
             <div className="bg-slate-800 p-4 rounded-2xl">
                 <div className="flex justify-between items-center mb-2 text-sm">
-                    <p className="text-slate-300">{card.cardType} <span className="font-mono">...{card.cardNumber.slice(-4)}</span></p>
-                    <p className="font-medium text-white">{formatCurrency(card.creditBalance)} / {formatCurrency(card.creditLimit)}</p>
+                    <p className="text-slate-300">
+                        {card.cardType} <span className="font-mono">...{card.cardNumber.slice(-4)}</span>
+                        {getCardControls(card).frozen && <span className="ml-2 text-xs font-semibold text-sky-300">{t('cardFrozen')}</span>}
+                    </p>
+                    <p className="font-medium text-white">{formatMoney(card.creditBalance)} / {formatMoney(card.creditLimit)}</p>
                 </div>
-                <div className="w-full bg-slate-700 rounded-full h-2.5">
+                <div className="w-full bg-slate-700 rounded-full h-2.5 flex overflow-hidden">
                     <motion.div
-                        className="bg-indigo-500 h-2.5 rounded-full"
+                        className="bg-indigo-500 h-2.5"
                         initial={{ width: 0 }}
                         animate={{ width: `${usagePercentage}%` }}
                         transition={{ duration: 0.8, ease: 'easeOut' }}
                     />
+                    <motion.div
+                        className="bg-amber-400/70 h-2.5"
+                        initial={{ width: 0 }}
+                        animate={{ width: `${holdsPercentage}%` }}
+                        transition={{ duration: 0.8, ease: 'easeOut' }}
+                    />
+                </div>
+                <div className="flex justify-between items-center mt-2 text-xs text-slate-400">
+                    <p>{t('availableCredit')}: <span className="font-semibold text-slate-300">{formatMoney(getAvailableCredit(card))}</span></p>
+                    {isPositive(pendingHolds) && <p>{t('pendingHolds')}: <span className="font-semibold text-amber-300">{formatMoney(pendingHolds)}</span></p>}
                 </div>
             </div>
         </motion.div>
@@ -66,9 +97,12 @@ const CreditUsageDisplay = ({ card }: { card: Card }) => {
 
 
 export const CardsScreen: React.FC = () => {
-    const { currentUser } = useContext(BankContext);
+    const { currentUser, billSplits } = useContext(BankContext);
     const { t } = useTranslation();
     const [isSummaryModalOpen, setIsSummaryModalOpen] = useState(false);
+    const [splitTx, setSplitTx] = useState<Transaction | null>(null);
+    const [isArchiveModalOpen, setIsArchiveModalOpen] = useState(false);
+    const [isControlsModalOpen, setIsControlsModalOpen] = useState(false);
     const [carouselIndex, setCarouselIndex] = useState(0);
     const [filter, setFilter] = useState<'7d' | '30d' | 'month'>('30d');
     
@@ -96,9 +130,17 @@ export const CardsScreen: React.FC = () => {
         <div className="relative flex flex-col h-full">
             <div className="p-4 flex justify-between items-center">
                  <h2 className="text-lg font-semibold text-white">{t('yourCards')}</h2>
-                 <button onClick={() => setIsSummaryModalOpen(true)} className="text-sm text-indigo-400 hover:text-indigo-300 disabled:opacity-50" disabled={!selectedCard}>
-                    {t('viewSummary')}
-                 </button>
+                 <div className="flex gap-4">
+                    <button onClick={() => setIsArchiveModalOpen(true)} className="text-sm text-indigo-400 hover:text-indigo-300 disabled:opacity-50" disabled={!selectedCard}>
+                        {t('pastStatements')}
+                    </button>
+                    <button onClick={() => setIsSummaryModalOpen(true)} className="text-sm text-indigo-400 hover:text-indigo-300 disabled:opacity-50" disabled={!selectedCard}>
+                        {t('viewSummary')}
+                    </button>
+                    <button onClick={() => setIsControlsModalOpen(true)} className="text-sm text-indigo-400 hover:text-indigo-300 disabled:opacity-50" disabled={!selectedCard}>
+                        {t('cardControls')}
+                    </button>
+                 </div>
             </div>
             
             <CardCarousel cards={cards} onCardChange={setCarouselIndex} />
@@ -127,7 +169,9 @@ export const CardsScreen: React.FC = () => {
                     >
                         {filteredTransactions.length > 0 ? (
                             <ul className="divide-y divide-slate-800">
-                                {filteredTransactions.map((tx, i) => <CardTransactionItem key={tx.id} tx={tx} index={i} />)}
+                                {filteredTransactions.map((tx, i) => (
+                                    <CardTransactionItem key={tx.id} tx={tx} index={i} split={billSplits.find(s => s.transactionId === tx.id)} onSplit={() => setSplitTx(tx)} />
+                                ))}
                             </ul>
                         ) : (
                              <div className="text-center py-10 text-slate-500 flex flex-col items-center gap-4">
@@ -146,6 +190,28 @@ export const CardsScreen: React.FC = () => {
                     card={selectedCard}
                 />
             )}
+            {selectedCard && (
+                <StatementArchiveModal
+                    isOpen={isArchiveModalOpen}
+                    onClose={() => setIsArchiveModalOpen(false)}
+                    card={selectedCard}
+                />
+            )}
+            {selectedCard && (
+                <CardControlsModal
+                    isOpen={isControlsModalOpen}
+                    onClose={() => setIsControlsModalOpen(false)}
+                    card={selectedCard}
+                />
+            )}
+            {selectedCard && (
+                <SplitBillModal
+                    isOpen={splitTx !== null}
+                    onClose={() => setSplitTx(null)}
+                    card={selectedCard}
+                    tx={splitTx}
+                />
+            )}
         </div>
     );
 };
\ No newline at end of file
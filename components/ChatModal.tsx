@@ -2,11 +2,25 @@
 import React, { useState, useRef, useEffect, useContext } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { createChatSession, extractPaymentDetailsFromImage, analyzeSpendingWithAI } from '../services/geminiService';
-import { BankContext, CardApplicationDetails, LoanApplicationDetails } from '../App';
+import { BankContext } from '../App';
 import { SparklesIcon, MicrophoneIcon, SendIcon, CameraIcon } from './icons';
 import { Chat } from '@google/genai';
-import { Transaction } from '../types';
+import { Transaction, CardApplicationDetails, CardControls, LoanApplicationDetails, TransferFrequency } from '../types';
 import { useTranslation } from '../hooks/useTranslation';
+import { formatMoney, fromMajor, isMoney, isPositive } from '../services/money';
+import { getAvailableCredit, getPendingHolds } from '../services/cardHolds';
+import { isInGracePeriod } from '../services/interest';
+import { getDaysPastDue, getDelinquency, getEffectiveApr } from '../services/delinquency';
+import { getTransactionStatus } from '../services/transactionStatus';
+import { CardPaymentOption } from '../services/cardPayments';
+import { describeCardControls, getCardControls } from '../services/cardControls';
+import { LOAN_QUOTE_TERMS, getLoanQuotes } from '../services/loanQuotes';
+import { describeApplication } from '../services/applications';
+import { GoalFrequency, getGoalProgress } from '../services/savingsGoals';
+import { describeBudgetStatus } from '../services/budgets';
+import { describeRequest, isRequestOpen } from '../services/moneyRequests';
+import { describeBillSplit, isSplittable } from '../services/billSplits';
+import { createIdempotencyKey, fingerprintRequest } from '../services/idempotency';
 
 interface ChatModalProps {
   isOpen: boolean;
@@ -29,9 +43,18 @@ if (recognition) {
     recognition.interimResults = true;
 }
 
-const formatCurrency = (amount: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
 const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
 
+// The model works in major units, so Money values are handed over as display strings.
+const serializeForModel = (value: unknown): unknown => {
+    if (isMoney(value)) return formatMoney(value);
+    if (Array.isArray(value)) return value.map(serializeForModel);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, serializeForModel(v)]));
+    }
+    return value;
+};
+
 const fileToBase64 = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
@@ -42,7 +65,7 @@ const fileToBase64 = (file: File): Promise<string> => {
 };
 
 export const ChatModal: React.FC<ChatModalProps> = ({ isOpen, onClose }) => {
-  const { currentUser, transferMoney, users, addCardToUser, addLoanToUser, requestPaymentExtension, transactions } = useContext(BankContext);
+  const { currentUser, transferMoney, quoteTransfer, transferLimitUsage, payCardBalance, purchaseWithCard, setCardControls, payees, addPayee, incomingRequests, outgoingRequests, requestMoney, billSplits, splitCardTransaction, accounts, transferBetweenAccounts, addCardToUser, addLoanToUser, requestPaymentExtension, transactions, scheduledTransfers, scheduleTransfer, cancelScheduledTransfer, applications, portfolio, savingsGoals, createSavingsGoal, contributeToGoal, withdrawFromGoal, budgets, setBudget } = useContext(BankContext);
   const { t, language } = useTranslation();
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState('');
@@ -54,14 +77,16 @@ export const ChatModal: React.FC<ChatModalProps> = ({ isOpen, onClose }) => {
   const photoInputRef = useRef<HTMLInputElement>(null);
   const uploadInputRef = useRef<HTMLInputElement>(null);
   const messageId = useRef(0);
+  const chatSessionId = useRef(createIdempotencyKey());
   
-  const contacts = users.filter(u => u.id !== currentUser?.id).map(u => u.name);
+  const payeeNames = payees.map(p => p.nickname === p.verifiedName ? p.nickname : `${p.nickname} (${p.verifiedName})`);
 
   useEffect(() => {
     if (isOpen && currentUser) {
         setMessages([{ id: messageId.current++, sender: 'ai', text: t('chatGreeting', { name: currentUser?.name.split(' ')[0] })}]);
         setInputValue('');
-        setChat(createChatSession(currentUser.name, contacts, language));
+        setChat(createChatSession(currentUser.name, payeeNames, currentUser.balance.currency, language));
+        chatSessionId.current = createIdempotencyKey();
     } else {
         setChat(null);
     }
@@ -150,7 +175,7 @@ export const ChatModal: React.FC<ChatModalProps> = ({ isOpen, onClose }) => {
         }
 
         const confirmationText = t('ocrSuccess', {
-            amount: formatCurrency(details.amount || 0),
+            amount: formatMoney(fromMajor(details.amount || 0, currentUser?.balance.currency)),
             recipient: details.recipientName || details.recipientAccountNumber,
         });
 
@@ -196,22 +221,177 @@ export const ChatModal: React.FC<ChatModalProps> = ({ isOpen, onClose }) => {
             let resultMessage = "An unknown function was called.";
             let resultForModel: object = { success: false, message: 'Function not found' };
 
+            // Scoped to this user turn: if the model repeats a call (or the turn is retried)
+            // while handling the same message, the money only moves once.
+            const idempotencyKey = `chat-${chatSessionId.current}-${userMessage.id}-${call.name}-${fingerprintRequest(call.args)}`;
+
+            // Amounts from the model are major units, in the named currency or the account's own.
+            const toAmount = (value: unknown, currency?: unknown) =>
+                fromMajor(value as number, typeof currency === 'string' && currency ? currency.toUpperCase() : currentUser.balance.currency);
+
             const findCard = (last4?: string) => {
                 if (!last4) return currentUser.cards[0];
                 return currentUser.cards.find(c => c.cardNumber.slice(-4) === last4);
             }
 
+            // Accounts by name or last 4 digits; 'main' is the main account.
+            const findAccount = (nameOrLast4: unknown) => {
+                const wanted = String(nameOrLast4 ?? '').trim().toLowerCase();
+                if (!wanted || wanted === 'main') return accounts[0];
+                return accounts.find(a => a.name.toLowerCase() === wanted || a.accountNumber.slice(-4) === wanted);
+            }
+
+            const applicantDetails = (details: Record<string, unknown>): CardApplicationDetails => ({
+                fullName: String(details.fullName ?? ''),
+                address: String(details.address ?? ''),
+                dateOfBirth: String(details.dateOfBirth ?? ''),
+                employmentStatus: String(details.employmentStatus ?? ''),
+                employer: String(details.employer ?? ''),
+                annualIncome: toAmount(details.annualIncome || 0),
+            });
+
             if (call.name === 'initiatePayment') {
-                const { recipientName, recipientAccountNumber, amount } = call.args;
+                const { recipientName, recipientAccountNumber, amount, currency, fromAccount } = call.args;
                 const recipientIdentifier = (recipientAccountNumber || recipientName) as string;
-                const result = transferMoney(recipientIdentifier, amount as number);
+                const source = fromAccount ? findAccount(fromAccount) : accounts[0];
+                if (source) {
+                    const result = transferMoney(recipientIdentifier, toAmount(amount, currency), idempotencyKey, source.account?.accountNumber);
+                    resultMessage = result.message;
+                    resultForModel = result;
+                } else {
+                    resultMessage = `No account called "${fromAccount}" was found.`;
+                    resultForModel = { success: false, message: resultMessage };
+                }
+            } else if (call.name === 'getTransferQuote') {
+                const { recipientName, recipientAccountNumber, amount, currency, fromAccount } = call.args;
+                const source = fromAccount ? findAccount(fromAccount) : accounts[0];
+                if (source) {
+                    const result = quoteTransfer((recipientAccountNumber || recipientName) as string, toAmount(amount, currency), source.account?.accountNumber);
+                    resultMessage = result.message;
+                    resultForModel = result;
+                } else {
+                    resultMessage = `No account called "${fromAccount}" was found.`;
+                    resultForModel = { success: false, message: resultMessage };
+                }
+            } else if (call.name === 'getTransferLimits') {
+                if (transferLimitUsage) {
+                    const { limits, remainingToday, remainingThisMonth } = transferLimitUsage;
+                    resultMessage = `You can send up to ${formatMoney(limits.perTransaction)} per transfer. You have ${formatMoney(remainingToday)} left today and ${formatMoney(remainingThisMonth)} left this month.`;
+                    resultForModel = transferLimitUsage;
+                } else {
+                    resultMessage = "Transfer limits are unavailable.";
+                    resultForModel = { success: false, message: resultMessage };
+                }
+            } else if (call.name === 'addPayee') {
+                const result = addPayee({ accountNumber: String(call.args.accountNumber ?? ''), nickname: call.args.nickname ? String(call.args.nickname) : undefined });
+                resultMessage = result.message;
+                resultForModel = result;
+            } else if (call.name === 'requestMoney') {
+                const { payerName, payerAccountNumber, amount, note } = call.args;
+                const result = requestMoney((payerAccountNumber || payerName || '') as string, toAmount(amount || 0), note ? String(note) : undefined, idempotencyKey);
+                resultMessage = result.message;
+                resultForModel = result;
+            } else if (call.name === 'listPendingRequests') {
+                const open = [...incomingRequests, ...outgoingRequests].filter(isRequestOpen);
+                resultMessage = open.length === 0
+                    ? "You don't have any open money requests."
+                    : `Here are your open requests:\n` + open.map(r => `- ${describeRequest(r, currentUser.id)}`).join('\n');
+                resultForModel = {
+                    received: incomingRequests.filter(isRequestOpen).map(r => ({ id: r.id, from: r.requesterName, amount: r.amount, paid: r.paid, outstanding: r.outstanding, note: r.note, status: r.status, createdAt: r.createdAt })),
+                    sent: outgoingRequests.filter(isRequestOpen).map(r => ({ id: r.id, to: r.payerName, amount: r.amount, paid: r.paid, outstanding: r.outstanding, note: r.note, status: r.status, createdAt: r.createdAt })),
+                };
+            } else if (call.name === 'schedulePayment') {
+                const { recipientName, recipientAccountNumber, amount, currency, startDate, frequency, endDate } = call.args;
+                const result = scheduleTransfer({
+                    recipientIdentifier: (recipientAccountNumber || recipientName) as string,
+                    amount: toAmount(amount, currency),
+                    startDate: startDate as string,
+                    frequency: frequency as TransferFrequency,
+                    endDate: endDate as string | undefined,
+                });
+                resultMessage = result.message;
+                resultForModel = result;
+            } else if (call.name === 'listScheduledPayments') {
+                const active = scheduledTransfers.filter(st => st.status === 'active');
+                resultMessage = active.length === 0
+                    ? "You have no scheduled payments."
+                    : `Here are your scheduled payments:\n` + active.map(st => `- ${formatMoney(st.amount)} to ${st.recipientName} (${st.frequency}), next on ${formatDate(st.nextRunDate)}`).join('\n');
+                resultForModel = { scheduledPayments: scheduledTransfers };
+            } else if (call.name === 'cancelScheduledPayment') {
+                const result = cancelScheduledTransfer(call.args.scheduledPaymentId as string);
                 resultMessage = result.message;
                 resultForModel = result;
             } else if (call.name === 'getCardStatementDetails') {
                 const card = findCard(call.args.cardLast4 as string);
                 if (card) {
-                    resultMessage = `Your ${card.cardType} ending in ${card.cardNumber.slice(-4)} has a statement balance of ${formatCurrency(card.statementBalance)}. The minimum payment is ${formatCurrency(card.minimumPayment)}, due on ${formatDate(card.paymentDueDate)}.`;
-                    resultForModel = { ...card, transactions: undefined }; // Don't send all transactions back
+                    const pendingHolds = getPendingHolds(card);
+                    const delinquency = getDelinquency(card);
+                    const daysPastDue = getDaysPastDue(delinquency);
+                    resultMessage = `Your ${card.cardType} ending in ${card.cardNumber.slice(-4)} has a statement balance of ${formatMoney(card.statementBalance)}. The minimum payment is ${formatMoney(card.minimumPayment)}, due on ${formatDate(card.paymentDueDate)}.` +
+                        (isPositive(pendingHolds) ? ` ${formatMoney(pendingHolds)} in pending purchases is on hold.` : '') +
+                        (delinquency.status === 'chargedOff' ? ` Warning: this card was charged off after ${daysPastDue} days of missed payments.` : '') +
+                        (delinquency.status !== 'current' && delinquency.status !== 'chargedOff' ? ` Warning: this card is ${daysPastDue} days past due; ${formatMoney(delinquency.pastDueAmount)} is overdue.` : '') +
+                        (delinquency.penaltyApr ? ` A penalty APR of ${getEffectiveApr(card)}% applies until the card is current.` : '');
+                    resultForModel = { ...card, transactions: undefined, statements: undefined, lastStatement: card.statements?.[card.statements.length - 1], pendingHolds, availableCredit: getAvailableCredit(card), inGracePeriod: isInGracePeriod(card), delinquency, daysPastDue, effectiveApr: getEffectiveApr(card) }; // Don't send all transactions back
+                } else {
+                    resultMessage = "Card not found.";
+                    resultForModel = { success: false, message: resultMessage };
+                }
+            } else if (call.name === 'payCardBalance') {
+                const card = findCard(call.args.cardLast4 as string);
+                if (card) {
+                    const { paymentOption, amount } = call.args;
+                    const option = ((paymentOption as string) || 'statement') as CardPaymentOption;
+                    const result = payCardBalance({
+                        cardNumber: card.cardNumber,
+                        option,
+                        amount: option === 'custom' && typeof amount === 'number' ? fromMajor(amount, card.creditBalance.currency) : undefined,
+                    }, idempotencyKey);
+                    resultMessage = result.message;
+                    resultForModel = result;
+                } else {
+                    resultMessage = "Card not found.";
+                    resultForModel = { success: false, message: resultMessage };
+                }
+            } else if (call.name === 'makeCardPurchase') {
+                const card = findCard(call.args.cardLast4 as string);
+                if (card) {
+                    const result = purchaseWithCard({
+                        cardNumber: card.cardNumber,
+                        amount: fromMajor((call.args.amount as number) || 0, card.creditLimit.currency),
+                        merchant: String(call.args.merchant ?? '').trim() || 'Merchant',
+                        category: String(call.args.category ?? '').trim() || 'Shopping',
+                        online: call.args.online === true,
+                        international: call.args.international === true,
+                    }, idempotencyKey);
+                    resultMessage = result.message;
+                    resultForModel = result;
+                } else {
+                    resultMessage = "Card not found.";
+                    resultForModel = { success: false, message: resultMessage };
+                }
+            } else if (call.name === 'setCardControls') {
+                const card = findCard(call.args.cardLast4 as string);
+                if (card) {
+                    const { frozen, onlineEnabled, internationalEnabled, perTransactionLimit, monthlyLimit, blockCategories, unblockCategories } = call.args;
+                    const changes: Partial<CardControls> = {};
+                    if (typeof frozen === 'boolean') changes.frozen = frozen;
+                    if (typeof onlineEnabled === 'boolean') changes.onlineEnabled = onlineEnabled;
+                    if (typeof internationalEnabled === 'boolean') changes.internationalEnabled = internationalEnabled;
+                    // A cap of 0 removes it.
+                    const toCap = (value: number) => value > 0 ? fromMajor(value, card.creditLimit.currency) : undefined;
+                    if (typeof perTransactionLimit === 'number') changes.perTransactionLimit = toCap(perTransactionLimit);
+                    if (typeof monthlyLimit === 'number') changes.monthlyLimit = toCap(monthlyLimit);
+                    if (Array.isArray(blockCategories) || Array.isArray(unblockCategories)) {
+                        const unblock = ((unblockCategories as string[]) ?? []).map(c => c.toLowerCase());
+                        changes.blockedCategories = [...getCardControls(card).blockedCategories, ...((blockCategories as string[]) ?? [])]
+                            .filter(c => !unblock.includes(c.toLowerCase()));
+                    }
+                    const result = Object.keys(changes).length > 0
+                        ? setCardControls(card.cardNumber, changes)
+                        : { success: true, message: describeCardControls(card), controls: getCardControls(card) };
+                    resultMessage = result.message;
+                    resultForModel = result;
                 } else {
                     resultMessage = "Card not found.";
                     resultForModel = { success: false, message: resultMessage };
@@ -221,25 +401,152 @@ export const ChatModal: React.FC<ChatModalProps> = ({ isOpen, onClose }) => {
                 const limit = (call.args.limit as number) || 5;
                 if (card) {
                     const recentTxs = card.transactions.slice(0, limit);
-                    const txSummary = recentTxs.map(tx => `- ${tx.description}: ${formatCurrency(tx.amount)} on ${formatDate(tx.timestamp)}`).join('\n');
+                    const txSummary = recentTxs.map(tx => `- ${tx.description}: ${formatMoney(tx.amount)} on ${formatDate(tx.timestamp)}${getTransactionStatus(tx) !== 'posted' ? ` (${getTransactionStatus(tx)})` : ''}`).join('\n');
                     resultMessage = `Here are the latest ${limit} transactions for your card ending in ${card.cardNumber.slice(-4)}:\n${txSummary}`;
                     resultForModel = { transactions: recentTxs };
                 } else {
                     resultMessage = "Card not found.";
                     resultForModel = { success: false, message: resultMessage };
                 }
+            } else if (call.name === 'splitCardTransaction') {
+                const card = findCard(call.args.cardLast4 as string);
+                const merchant = String(call.args.transactionDescription ?? '').toLowerCase();
+                // The most recent purchase that matches; card transactions are kept newest first.
+                const tx = card?.transactions.find(purchase => isSplittable(purchase) && purchase.description.toLowerCase().includes(merchant));
+                if (card && tx) {
+                    const participants = (call.args.participants as string[] | undefined) ?? [];
+                    const amounts = call.args.amounts as number[] | undefined;
+                    const result = splitCardTransaction({
+                        cardNumber: card.cardNumber,
+                        transactionId: tx.id,
+                        method: amounts && amounts.length > 0 ? 'custom' : 'equal',
+                        includeSelf: call.args.includeSelf !== false,
+                        participants: participants.map((payee, i) => ({ payee, amount: amounts?.[i] !== undefined ? toAmount(amounts[i]) : undefined })),
+                    }, idempotencyKey);
+                    resultMessage = result.message;
+                    resultForModel = result;
+                } else {
+                    resultMessage = card ? `No purchase matching "${call.args.transactionDescription}" was found on your card ending in ${card.cardNumber.slice(-4)}.` : "Card not found.";
+                    resultForModel = { success: false, message: resultMessage };
+                }
+            } else if (call.name === 'getBillSplits') {
+                resultMessage = billSplits.length === 0
+                    ? "You haven't split any bills yet."
+                    : `Here are your split bills:\n` + billSplits.map(s => `- ${describeBillSplit(s)}`).join('\n');
+                resultForModel = { billSplits };
+            } else if (call.name === 'getAccounts') {
+                resultMessage = `Here are your accounts:\n` + accounts.map(a => `- ${a.name} (...${a.accountNumber.slice(-4)})${a.type === 'joint' ? `, shared by ${a.ownerNames.join(' & ')}` : ''}: ${formatMoney(a.balance)}`).join('\n');
+                resultForModel = { accounts: accounts.map(({ account, ...view }) => view) };
+            } else if (call.name === 'transferBetweenAccounts') {
+                const from = findAccount(call.args.fromAccount);
+                const to = findAccount(call.args.toAccount);
+                if (from && to) {
+                    const result = transferBetweenAccounts(from.accountNumber, to.accountNumber, toAmount(call.args.amount || 0), idempotencyKey);
+                    resultMessage = result.message;
+                    resultForModel = result;
+                } else {
+                    resultMessage = `No account called "${from ? call.args.toAccount : call.args.fromAccount}" was found.`;
+                    resultForModel = { success: false, message: resultMessage };
+                }
             } else if (call.name === 'requestPaymentExtension') {
                 const { accountId, accountType } = call.args;
                 const result = requestPaymentExtension(accountId as string, accountType as 'card' | 'loan');
                 resultMessage = result.message;
                 resultForModel = result;
             } else if (call.name === 'applyForCreditCard') {
-                const result = addCardToUser(call.args.applicationDetails as CardApplicationDetails);
+                const details = (call.args.applicationDetails ?? {}) as Record<string, unknown>;
+                const result = addCardToUser(applicantDetails(details), idempotencyKey);
                 resultMessage = result.message;
                 resultForModel = result;
+            } else if (call.name === 'getLoanQuote') {
+                const { loanAmount, annualIncome, employmentStatus, dateOfBirth } = call.args;
+                const quotes = getLoanQuotes(currentUser, {
+                    loanAmount: toAmount(loanAmount || 0),
+                    annualIncome: toAmount(annualIncome || 0),
+                    employmentStatus: String(employmentStatus ?? ''),
+                    dateOfBirth: String(dateOfBirth ?? ''),
+                });
+                if (typeof quotes === 'string') {
+                    resultMessage = quotes;
+                    resultForModel = { success: false, message: quotes };
+                } else {
+                    resultMessage = quotes.map(q => q.outcome === 'approve' && q.monthlyPayment && q.totalCost
+                        ? `${q.termMonths} months: ${q.interestRate}% APR, ${formatMoney(q.monthlyPayment)}/month, ${formatMoney(q.totalCost)} total`
+                        : `${q.termMonths} months: ${q.outcome === 'refer' ? 'needs review' : 'not available'}`).join('\n');
+                    resultForModel = { success: true, quotes };
+                }
             } else if (call.name === 'applyForLoan') {
-                const loanDetails = { ...(call.args.applicationDetails as object), loanTerm: 36 } as LoanApplicationDetails
-                const result = addLoanToUser(loanDetails);
+                const details = (call.args.applicationDetails ?? {}) as Record<string, unknown>;
+                const loanTerm = Number(details.loanTerm);
+                if (LOAN_QUOTE_TERMS.includes(loanTerm)) {
+                    const loanDetails: LoanApplicationDetails = {
+                        ...applicantDetails(details),
+                        loanAmount: toAmount(details.loanAmount || 0),
+                        loanTerm,
+                    };
+                    const result = addLoanToUser(loanDetails, idempotencyKey);
+                    resultMessage = result.message;
+                    resultForModel = result;
+                } else {
+                    resultMessage = `Error: The loan term must be one of ${LOAN_QUOTE_TERMS.join(', ')} months.`;
+                    resultForModel = { success: false, message: resultMessage };
+                }
+            } else if (call.name === 'listApplications') {
+                resultMessage = applications.length === 0
+                    ? "You haven't applied for a card or loan yet."
+                    : `Here are your applications:\n` + applications.map(a => `- ${describeApplication(a)} submitted ${formatDate(a.submittedAt)}: ${a.status}`).join('\n');
+                resultForModel = { applications: applications.map(a => ({ id: a.id, product: describeApplication(a), status: a.status, submittedAt: a.submittedAt, updatedAt: a.updatedAt, reasons: a.reasons })) };
+            } else if (call.name === 'createSavingsGoal') {
+                const { name, targetAmount, targetDate, autoContributionAmount, autoContributionFrequency } = call.args;
+                const result = createSavingsGoal({
+                    name: String(name ?? ''),
+                    targetAmount: toAmount(targetAmount || 0),
+                    targetDate: targetDate ? String(targetDate) : undefined,
+                    autoContribution: autoContributionAmount
+                        ? { amount: toAmount(autoContributionAmount), frequency: (autoContributionFrequency === 'weekly' ? 'weekly' : 'monthly') as GoalFrequency }
+                        : undefined,
+                });
+                resultMessage = result.message;
+                resultForModel = result;
+            } else if (call.name === 'getSavingsGoals') {
+                const goals = savingsGoals.map(goal => ({ ...goal, progress: getGoalProgress(goal) }));
+                resultMessage = goals.length === 0
+                    ? "You don't have any savings goals yet."
+                    : `Here are your savings goals:\n` + goals.map(g => `- ${g.name}: ${formatMoney(g.saved)} of ${formatMoney(g.targetAmount)} (${Math.floor(g.progress.percent)}%)`).join('\n');
+                resultForModel = { goals };
+            } else if (call.name === 'moveSavingsGoalMoney') {
+                const { goalName, amount, direction } = call.args;
+                const result = direction === 'out'
+                    ? withdrawFromGoal(String(goalName ?? ''), toAmount(amount))
+                    : contributeToGoal(String(goalName ?? ''), toAmount(amount));
+                resultMessage = result.message;
+                resultForModel = result;
+            } else if (call.name === 'getPortfolio') {
+                if (!portfolio) {
+                    resultMessage = "You don't have an investment account yet. Move money from savings into investments to get started.";
+                    resultForModel = { success: false, message: resultMessage };
+                } else {
+                    resultMessage = `Your portfolio is worth ${formatMoney(portfolio.totalValue)}, including ${formatMoney(portfolio.cash)} of uninvested cash.`
+                        + portfolio.holdings.map(h => `\n- ${h.symbol}: ${h.quantity} shares worth ${formatMoney(h.marketValue)} (${isPositive(h.unrealizedGain) ? '+' : ''}${formatMoney(h.unrealizedGain)})`).join('');
+                    resultForModel = { success: true, portfolio };
+                }
+            } else if (call.name === 'getBudgetStatus') {
+                const category = call.args.category ? String(call.args.category).trim().toLowerCase() : '';
+                const matching = category ? budgets.filter(b => b.budget.category.toLowerCase() === category) : budgets;
+                if (matching.length === 0) {
+                    resultMessage = category ? `You don't have a budget for ${call.args.category}.` : "You haven't set any budgets yet.";
+                    resultForModel = { success: false, message: resultMessage, budgetedCategories: budgets.map(b => b.budget.category) };
+                } else {
+                    resultMessage = matching.map(describeBudgetStatus).join('\n');
+                    resultForModel = { success: true, budgets: matching.map(({ budget, ...status }) => ({ category: budget.category, monthlyLimit: budget.limit, rollover: budget.rollover, ...status })) };
+                }
+            } else if (call.name === 'setBudget') {
+                const { category, monthlyLimit, rollover } = call.args;
+                const result = setBudget({
+                    category: String(category ?? ''),
+                    limit: toAmount(monthlyLimit || 0),
+                    rollover: rollover === 'surplus' || rollover === 'full' || rollover === 'none' ? rollover : undefined,
+                });
                 resultMessage = result.message;
                 resultForModel = result;
             } else if (call.name === 'getSpendingAnalysis') {
@@ -257,8 +564,8 @@ export const ChatModal: React.FC<ChatModalProps> = ({ isOpen, onClose }) => {
                      resultForModel = { total: 0, breakdown: [] };
                 } else {
                     const total = analysisResult.reduce((sum, item) => sum + item.value, 0);
-                    resultMessage = `Based on my analysis, you've spent a total of ${formatCurrency(total)} recently. Here's the breakdown:\n` +
-                        analysisResult.map(item => `- ${item.name}: ${formatCurrency(item.value)}`).join('\n');
+                    resultMessage = `Based on my analysis, you've spent a total of ${formatMoney(toAmount(total))} recently. Here's the breakdown:\n` +
+                        analysisResult.map(item => `- ${item.name}: ${formatMoney(toAmount(item.value))}`).join('\n');
                     resultForModel = { total, breakdown: analysisResult.map(item => ({ category: item.name, amount: item.value })) };
                 }
             }
@@ -269,7 +576,7 @@ export const ChatModal: React.FC<ChatModalProps> = ({ isOpen, onClose }) => {
             functionResponseParts.push({
                 functionResponse: {
                     name: call.name,
-                    response: resultForModel,
+                    response: serializeForModel(resultForModel) as object,
                 }
             });
         }
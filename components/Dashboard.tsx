@@ -2,14 +2,18 @@
 import React, { useContext, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { BankContext } from '../App';
-import { MessageSquareIcon, HomeIcon, CreditCardIcon, SettingsIcon, DollarSignIcon, PlusIcon } from './icons';
+import { MessageSquareIcon, HomeIcon, CreditCardIcon, SettingsIcon, DollarSignIcon, PlusIcon, SendIcon } from './icons';
 import { ChatModal } from './ChatModal';
 import { HomeScreen } from './HomeScreen';
 import { CardsScreen } from './CardsScreen';
 import { SettingsScreen } from './SettingsScreen';
 import { LoansScreen } from './LoansScreen';
+import { PaymentsScreen } from './PaymentsScreen';
 import { useTranslation } from '../hooks/useTranslation';
 import { ApplicationModal } from './ApplicationModal';
+import { DelinquencyStatus } from '../types';
+import { DelinquentAccount, getDelinquentAccounts, getEffectiveApr } from '../services/delinquency';
+import { add } from '../services/money';
 
 const NavItem = ({ icon, label, isActive, onClick }: { icon: React.ReactNode, label: string, isActive: boolean, onClick: () => void }) => (
     <button onClick={onClick} className={`flex flex-col items-center justify-center gap-1 w-16 h-16 transition-colors duration-200 ${isActive ? 'text-indigo-400' : 'text-slate-500 hover:text-slate-300'}`}>
@@ -18,15 +22,47 @@ const NavItem = ({ icon, label, isActive, onClick }: { icon: React.ReactNode, la
     </button>
 );
 
+const STATUS_KEYS: Record<Exclude<DelinquencyStatus, 'current'>, 'delinquencyPastDue' | 'delinquencyPastDue30' | 'delinquencyPastDue60' | 'delinquencyChargedOff'> = {
+    pastDue: 'delinquencyPastDue',
+    pastDue30: 'delinquencyPastDue30',
+    pastDue60: 'delinquencyPastDue60',
+    chargedOff: 'delinquencyChargedOff',
+};
+
+const DelinquencyWarning: React.FC<{ account: DelinquentAccount }> = ({ account }) => {
+    const { currentUser } = useContext(BankContext);
+    const { t, formatMoney } = useTranslation();
+    const { delinquency, daysPastDue } = account;
+    const card = account.kind === 'card' ? currentUser?.cards.find(c => c.cardNumber === account.id) : undefined;
+    const name = account.kind === 'card'
+        ? t('delinquencyCardAccount', { last4: account.id.slice(-4) })
+        : t('delinquencyLoanAccount', { id: account.id });
+    const amountDue = delinquency.feesDue ? add(delinquency.pastDueAmount, delinquency.feesDue) : delinquency.pastDueAmount;
+    const isChargedOff = delinquency.status === 'chargedOff';
+    return (
+        <div className={`p-3 rounded-xl text-xs border ${isChargedOff || delinquency.status === 'pastDue60' ? 'bg-red-500/10 border-red-500/40 text-red-300' : 'bg-amber-500/10 border-amber-500/40 text-amber-300'}`}>
+            <p className="font-bold uppercase tracking-wide mb-1">{t(STATUS_KEYS[delinquency.status as keyof typeof STATUS_KEYS])}</p>
+            <p>
+                {isChargedOff
+                    ? t('chargedOffWarning', { account: name, days: String(daysPastDue) })
+                    : t('delinquencyWarning', { account: name, days: String(daysPastDue), amount: formatMoney(amountDue) })}
+            </p>
+            {card && delinquency.penaltyApr && !isChargedOff && <p className="mt-1">{t('penaltyAprWarning', { apr: String(getEffectiveApr(card)) })}</p>}
+        </div>
+    );
+};
+
 export const Dashboard = () => {
     const { t } = useTranslation();
+    const { currentUser } = useContext(BankContext);
     const [isChatOpen, setIsChatOpen] = useState(false);
     const [isApplyModalOpen, setIsApplyModalOpen] = useState(false);
-    const [activeTab, setActiveTab] = useState<'home' | 'cards' | 'loans' | 'settings'>('home');
+    const [activeTab, setActiveTab] = useState<'home' | 'payments' | 'cards' | 'loans' | 'settings'>('home');
 
     const renderContent = () => {
         switch (activeTab) {
             case 'home': return <HomeScreen />;
+            case 'payments': return <PaymentsScreen />;
             case 'cards': return <CardsScreen />;
             case 'loans': return <LoansScreen />;
             case 'settings': return <SettingsScreen />;
@@ -35,6 +71,7 @@ export const Dashboard = () => {
     };
     
     const applicationType = activeTab === 'cards' ? 'Card' : 'Loan';
+    const delinquentAccounts = currentUser ? getDelinquentAccounts(currentUser) : [];
 
     return (
         <div className="relative min-h-screen w-full bg-slate-900 flex flex-col max-w-md mx-auto border-x border-slate-800">
@@ -48,6 +85,12 @@ export const Dashboard = () => {
                 </div>
             </header>
 
+            {delinquentAccounts.length > 0 && (
+                <div className="px-4 space-y-2 flex-shrink-0">
+                    {delinquentAccounts.map(account => <DelinquencyWarning key={account.id} account={account} />)}
+                </div>
+            )}
+
             <main className="flex-grow flex flex-col overflow-y-auto pb-24">
                  <AnimatePresence mode="wait">
                     <motion.div
@@ -95,6 +138,7 @@ export const Dashboard = () => {
             <footer className="w-full max-w-md mx-auto bg-slate-900/80 backdrop-blur-sm border-t border-slate-800 fixed bottom-0 left-0 right-0 z-20">
                 <nav className="flex justify-around items-center h-20 px-2">
                     <NavItem icon={<HomeIcon className="w-6 h-6" />} label={t('navHome')} isActive={activeTab === 'home'} onClick={() => setActiveTab('home')} />
+                    <NavItem icon={<SendIcon className="w-6 h-6" />} label={t('navPayments')} isActive={activeTab === 'payments'} onClick={() => setActiveTab('payments')} />
                     <NavItem icon={<CreditCardIcon className="w-6 h-6" />} label={t('navCards')} isActive={activeTab === 'cards'} onClick={() => setActiveTab('cards')} />
                     <NavItem icon={<DollarSignIcon className="w-6 h-6" />} label={t('navLoans')} isActive={activeTab === 'loans'} onClick={() => setActiveTab('loans')} />
                     <NavItem icon={<SettingsIcon className="w-6 h-6" />} label={t('navSettings')} isActive={activeTab === 'settings'} onClick={() => setActiveTab('settings')} />
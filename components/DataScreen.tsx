@@ -2,10 +2,12 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { useTranslation } from '../hooks/useTranslation';
-import { UserIcon, LockIcon, ChevronLeftIcon } from './icons';
+import { UserIcon, LockIcon, ChevronLeftIcon, GlobeIcon } from './icons';
+import { CurrencyCode, DEFAULT_CURRENCY } from '../services/money';
+import { SUPPORTED_CURRENCIES } from '../services/fx';
 
 interface RegisterScreenProps {
-  onRegister: (name: string, username: string, pin: string) => boolean;
+  onRegister: (name: string, username: string, pin: string, currency: CurrencyCode) => boolean;
   onBack: () => void;
 }
 
@@ -31,6 +33,7 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({ onRegister, onBa
   const [name, setName] = useState('');
   const [username, setUsername] = useState('');
   const [pin, setPin] = useState('');
+  const [currency, setCurrency] = useState<CurrencyCode>(DEFAULT_CURRENCY);
   const [error, setError] = useState('');
   
   const handleRegister = (e: React.FormEvent) => {
@@ -39,7 +42,7 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({ onRegister, onBa
         setError(t('registerError'));
         return;
     }
-    if (!onRegister(name, username, pin)) {
+    if (!onRegister(name, username, pin, currency)) {
       setError(t('registerErrorUsernameTaken'));
     }
   };
@@ -80,6 +83,14 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({ onRegister, onBa
             <InputField icon={<UserIcon />} type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder={t('fullNamePlaceholder')} />
             <InputField icon={<UserIcon />} type="text" value={username} onChange={(e) => setUsername(e.target.value)} placeholder={t('usernamePlaceholder')} />
             <InputField icon={<LockIcon />} type="password" value={pin} onChange={(e) => setPin(e.target.value)} maxLength={4} placeholder="****" />
+            <div className="relative">
+              <div className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400">
+                <GlobeIcon />
+              </div>
+              <select value={currency} onChange={(e) => setCurrency(e.target.value)} aria-label={t('accountCurrency')} className="w-full bg-slate-800/80 border border-slate-700 rounded-xl pl-12 pr-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-all">
+                {SUPPORTED_CURRENCIES.map(code => <option key={code} value={code}>{t('accountCurrency')}: {code}</option>)}
+              </select>
+            </div>
             {error && <p className="text-red-400 text-sm text-center !mt-4">{error}</p>}
             <motion.button whileHover={{scale: 1.05}} whileTap={{scale: 0.95}} type="submit" className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3.5 rounded-xl transition-all text-lg">{t('getStarted')}</motion.button>
           </form>
@@ -0,0 +1,173 @@
+import React, { useState, useContext, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BankContext } from '../App';
+import { DepositAccountType } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import { fromMajor } from '../services/money';
+import { AccountView } from '../services/depositAccounts';
+import { accountEnding } from '../services/payees';
+import { createIdempotencyKey } from '../services/idempotency';
+import { DEFAULT_SAVINGS_APY, getAccruedAccountInterest } from '../services/interest';
+import { TransactionStatusBadge, amountClassForStatus } from './TransactionStatusBadge';
+
+interface DepositAccountModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // When set, the modal shows this account instead of opening a new one.
+  account?: AccountView | null;
+}
+
+export const DepositAccountModal: React.FC<DepositAccountModalProps> = ({ isOpen, onClose, account }) => {
+  const { accounts, payees, getAccountTransactions, openAccount, closeAccount, transferBetweenAccounts } = useContext(BankContext);
+  const { t, formatMoney } = useTranslation();
+  const [type, setType] = useState<DepositAccountType>('checking');
+  const [name, setName] = useState('');
+  const [jointHolder, setJointHolder] = useState('');
+  const [moveTo, setMoveTo] = useState('');
+  const [amount, setAmount] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // One key per opened form, so a double submit cannot move the money twice.
+  const idempotencyKey = useRef(createIdempotencyKey());
+
+  const otherAccounts = account ? accounts.filter(a => a.accountNumber !== account.accountNumber) : [];
+
+  useEffect(() => {
+    if (isOpen) {
+        setType('checking');
+        setName('');
+        setJointHolder('');
+        setMoveTo(otherAccounts[0]?.accountNumber ?? '');
+        setAmount('');
+        setError(null);
+        idempotencyKey.current = createIdempotencyKey();
+    }
+  }, [isOpen, account?.accountNumber]);
+
+  const accountName = (view: AccountView) => view.type === 'main' ? t('mainAccount') : view.name;
+  const transactions = account ? getAccountTransactions(account.accountNumber).slice(0, 10) : [];
+
+  const handleOpen = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = openAccount({ type, name, jointHolder: type === 'joint' ? jointHolder : undefined });
+    if (result.success) onClose();
+    else setError(result.message);
+  };
+
+  const handleMove = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!account) return;
+    const result = transferBetweenAccounts(account.accountNumber, moveTo, fromMajor(parseFloat(amount) || 0, account.balance.currency), idempotencyKey.current);
+    idempotencyKey.current = createIdempotencyKey();
+    setError(result.success ? null : result.message);
+    if (result.success) setAmount('');
+  };
+
+  const handleClose = () => {
+    if (account && window.confirm(t('confirmCloseAccount', { name: account.name }))) {
+        const result = closeAccount(account.accountNumber);
+        if (result.success) onClose();
+        else setError(result.message);
+    }
+  };
+
+  const inputClass = "w-full bg-slate-700 border border-slate-600 rounded-xl px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ y: 50, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 50, opacity: 0 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+            className="bg-slate-800 w-full max-w-md max-h-[90vh] rounded-3xl flex flex-col overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <header className="p-4 border-b border-slate-700 flex items-center justify-between flex-shrink-0">
+              <h2 className="text-lg font-bold text-white">{account ? accountName(account) : t('openAccount')}</h2>
+              <button onClick={onClose} className="text-slate-400 hover:text-white text-2xl">&times;</button>
+            </header>
+
+            {account ? (
+                <div className="p-6 text-sm space-y-4 overflow-y-auto">
+                    <div>
+                        <p className="text-3xl font-bold text-white">{formatMoney(account.balance)}</p>
+                        <p className="text-slate-400">{t('accountEndingIn', { last4: accountEnding(account.accountNumber) })}</p>
+                        {account.type === 'joint' && <p className="text-slate-400">{t('jointWith', { names: account.ownerNames.join(' & ') })}</p>}
+                        {account.account?.type === 'savings' && (
+                            <p className="text-slate-400">{t('savingsApyEarning', { apy: String(DEFAULT_SAVINGS_APY), amount: formatMoney(getAccruedAccountInterest(account.account)) })}</p>
+                        )}
+                    </div>
+                    {otherAccounts.length > 0 && (
+                        <form onSubmit={handleMove} className="space-y-2">
+                            <h3 className="font-semibold text-slate-300">{t('moveMoney')}</h3>
+                            <div className="flex gap-2">
+                                <select value={moveTo} onChange={(e) => setMoveTo(e.target.value)} aria-label={t('moveTo')} className={inputClass}>
+                                    {otherAccounts.map(other => <option key={other.accountNumber} value={other.accountNumber}>{accountName(other)}</option>)}
+                                </select>
+                                <input type="number" min="0" value={amount} onChange={(e) => setAmount(e.target.value)} aria-label={t('amount')} placeholder={t('amount')} className="w-28 flex-shrink-0 bg-slate-700 border border-slate-600 rounded-xl px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500" />
+                            </div>
+                            <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 rounded-xl transition-all">{t('moveMoney')}</button>
+                        </form>
+                    )}
+                    {error && <p className="text-xs text-red-400">{error}</p>}
+                    <div>
+                        <h3 className="font-semibold text-slate-300 mb-1">{t('transactionHistory')}</h3>
+                        {transactions.length > 0 ? (
+                            <ul className="divide-y divide-slate-700">
+                                {transactions.map(tx => (
+                                    <li key={tx.id} className="flex justify-between py-2">
+                                        <div>
+                                            <p className="text-white">{tx.description}<TransactionStatusBadge tx={tx} /></p>
+                                            <p className="text-xs text-slate-400">{new Date(tx.timestamp).toLocaleDateString()}</p>
+                                        </div>
+                                        <p className={`font-semibold ${amountClassForStatus(tx, tx.type === 'credit' ? 'text-green-400' : 'text-slate-300')}`}>
+                                            {tx.type === 'credit' ? '+' : '-'}{formatMoney(tx.amount)}
+                                        </p>
+                                    </li>
+                                ))}
+                            </ul>
+                        ) : (
+                            <p className="text-slate-500">{t('noAccountTransactions')}</p>
+                        )}
+                    </div>
+                    {account.account && (
+                        <button type="button" onClick={handleClose} className="w-full bg-red-500/10 hover:bg-red-500/20 text-red-400 font-semibold py-2 rounded-xl transition-colors">{t('closeAccount')}</button>
+                    )}
+                </div>
+            ) : (
+                <form onSubmit={handleOpen} className="p-6 text-sm space-y-3 overflow-y-auto">
+                    <label className="block text-slate-300">
+                        {t('accountType')}
+                        <select value={type} onChange={(e) => setType(e.target.value as DepositAccountType)} className={`${inputClass} mt-1`}>
+                            <option value="checking">{t('accountTypeChecking')}</option>
+                            <option value="savings">{t('accountTypeSavings')}</option>
+                            <option value="joint">{t('accountTypeJoint')}</option>
+                        </select>
+                    </label>
+                    <label className="block text-slate-300">
+                        {t('accountName')}
+                        <input value={name} onChange={(e) => setName(e.target.value)} placeholder={t('accountNamePlaceholder')} className={`${inputClass} mt-1`} />
+                    </label>
+                    {type === 'joint' && (
+                        <label className="block text-slate-300">
+                            {t('jointHolder')}
+                            <input value={jointHolder} onChange={(e) => setJointHolder(e.target.value)} list="joint-payees" placeholder={t('recipientPlaceholder')} className={`${inputClass} mt-1`} />
+                            <datalist id="joint-payees">
+                                {payees.map(payee => <option key={payee.id} value={payee.nickname} />)}
+                            </datalist>
+                        </label>
+                    )}
+                    {error && <p className="text-xs text-red-400">{error}</p>}
+                    <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 rounded-xl transition-all">{t('openAccount')}</button>
+                </form>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
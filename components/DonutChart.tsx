@@ -1,17 +1,17 @@
 import React from 'react';
 import { useTranslation } from '../hooks/useTranslation';
 import { ChartBarIcon } from './icons';
-
-const formatCurrency = (amount: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+import { CurrencyCode, fromMajor } from '../services/money';
 
 const COLORS = ['#6366f1', '#818cf8', '#a5b4fc', '#c7d2fe', '#e0e7ff', '#eef2ff'];
 
 interface DonutChartProps {
     data: { name: string; value: number }[];
+    currency: CurrencyCode;
 }
 
-export const DonutChart: React.FC<DonutChartProps> = ({ data }) => {
-    const { t } = useTranslation();
+export const DonutChart: React.FC<DonutChartProps> = ({ data, currency }) => {
+    const { t, formatMoney } = useTranslation();
     const total = data.reduce((acc, entry) => acc + entry.value, 0);
     if (total === 0) return (
         <div className="flex flex-col items-center justify-center text-slate-500 p-8 h-64">
@@ -49,7 +49,7 @@ export const DonutChart: React.FC<DonutChartProps> = ({ data }) => {
                 </svg>
                 <div className="absolute inset-0 flex flex-col items-center justify-center">
                     <span className="text-xs text-slate-400">Total</span>
-                    <span className="font-bold text-white text-lg">{formatCurrency(total)}</span>
+                    <span className="font-bold text-white text-lg">{formatMoney(fromMajor(total, currency))}</span>
                 </div>
             </div>
             <ul className="w-full max-w-xs">
@@ -59,7 +59,7 @@ export const DonutChart: React.FC<DonutChartProps> = ({ data }) => {
                             <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: COLORS[i % COLORS.length] }} />
                             <span className="text-slate-300">{entry.name}</span>
                         </div>
-                        <span className="font-medium text-white">{formatCurrency(entry.value)}</span>
+                        <span className="font-medium text-white">{formatMoney(fromMajor(entry.value, currency))}</span>
                     </li>
                 ))}
             </ul>
@@ -2,45 +2,58 @@
 
 import React, { useContext, useMemo, useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Transaction } from '../types';
+import { SavingsGoal, Transaction } from '../types';
 import { BankContext } from '../App';
 import { ArrowDownLeftIcon, ArrowUpRightIcon, BankIcon, CreditCardIcon, DollarSignIcon, ArrowTrendingUpIcon, SparklesIcon } from './icons';
 import { useTranslation } from '../hooks/useTranslation';
 import { DonutChart } from './DonutChart';
 import { analyzeSpendingWithAI } from '../services/geminiService';
+import { getUserLedgerBalances, reconcileUser } from '../services/ledger';
+import { getAccruedSavingsInterest, getSavingsApy } from '../services/interest';
+import { Money, DEFAULT_CURRENCY, add, isNegative, isPositive, negate, subtract, zero } from '../services/money';
+import { isReversibleTransfer } from '../services/bankService';
+import { TransactionStatusBadge, amountClassForStatus } from './TransactionStatusBadge';
+import { InvestmentsModal } from './InvestmentsModal';
+import { SavingsGoalModal } from './SavingsGoalModal';
+import { getGoalProgress } from '../services/savingsGoals';
+import { BudgetModal } from './BudgetModal';
+import { BudgetStatus, getMonthlySpendingTransactions } from '../services/budgets';
+import { DepositAccountModal } from './DepositAccountModal';
+import { AccountView } from '../services/depositAccounts';
+import { accountEnding } from '../services/payees';
 
-const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: 'USD',
-    }).format(amount);
-};
-
-const BalanceBreakdownItem = ({ icon, label, value, colorClass }: { icon: React.ReactNode, label: string, value: number, colorClass: string }) => (
-    <div className="flex items-center gap-3">
-        <div className={`w-10 h-10 rounded-full grid place-items-center ${colorClass}`}>
-            {icon}
-        </div>
-        <div>
-            <p className="text-sm text-slate-400">{label}</p>
-            <p className="font-bold text-white">{formatCurrency(value)}</p>
+const BalanceBreakdownItem = ({ icon, label, value, colorClass, onClick }: { icon: React.ReactNode, label: string, value: Money, colorClass: string, onClick?: () => void }) => {
+    const { formatMoney } = useTranslation();
+    return (
+        <div className={`flex items-center gap-3 ${onClick ? 'cursor-pointer' : ''}`} onClick={onClick}>
+            <div className={`w-10 h-10 rounded-full grid place-items-center ${colorClass}`}>
+                {icon}
+            </div>
+            <div>
+                <p className="text-sm text-slate-400">{label}</p>
+                <p className="font-bold text-white">{formatMoney(value)}</p>
+            </div>
         </div>
-    </div>
-);
+    );
+};
 
 const BalanceCard = () => {
-    const { currentUser } = useContext(BankContext);
-    const { t } = useTranslation();
+    const { currentUser, journal, portfolio, accounts } = useContext(BankContext);
+    const { t, formatMoney } = useTranslation();
+    const [isInvestmentsOpen, setIsInvestmentsOpen] = useState(false);
+    const depositAccounts = useMemo(() => accounts.flatMap(a => a.account ? [a.account] : []), [accounts]);
 
     const balances = useMemo(() => {
-        if (!currentUser) return { savings: 0, cards: 0, loans: 0, investments: 0 };
-        return {
-            savings: currentUser.balance,
-            cards: currentUser.cards.reduce((sum, card) => sum + card.creditBalance, 0),
-            loans: currentUser.loans.reduce((sum, loan) => sum + loan.remainingBalance, 0),
-            investments: 0, // Hardcoded as per requirement
-        }
-    }, [currentUser]);
+        if (!currentUser) return { savings: zero(), accounts: zero(), cards: zero(), loans: zero() };
+        return getUserLedgerBalances(journal, currentUser, depositAccounts);
+    }, [currentUser, journal, depositAccounts]);
+    // Valued at today's prices on every render rather than from the ledger.
+    const investments = portfolio?.totalValue ?? zero(currentUser?.balance.currency);
+
+    const isLedgerConsistent = useMemo(() => {
+        if (!currentUser) return true;
+        return reconcileUser(journal, currentUser, depositAccounts).isConsistent;
+    }, [currentUser, journal, depositAccounts]);
 
     return (
         <motion.div
@@ -51,21 +64,188 @@ const BalanceCard = () => {
         >
             <div className="bg-slate-800 p-6 rounded-3xl shadow-lg text-white">
                 <p className="text-slate-400">{t('totalBalance')}</p>
-                <p className="text-4xl font-bold mt-1">{formatCurrency(balances.savings)}</p>
+                <p className="text-4xl font-bold mt-1">{formatMoney(add(balances.savings, balances.accounts))}</p>
+                {currentUser && (
+                    <p className="text-xs text-green-400 mt-1">
+                        {t('savingsApyEarning', { apy: String(getSavingsApy(currentUser)), amount: formatMoney(getAccruedSavingsInterest(currentUser)) })}
+                    </p>
+                )}
+                {!isLedgerConsistent && <p className="text-xs text-amber-400 mt-1">{t('ledgerMismatch')}</p>}
                 <div className="mt-6 grid grid-cols-2 gap-4">
                     <BalanceBreakdownItem icon={<BankIcon className="w-5 h-5 text-green-300"/>} label={t('savings')} value={balances.savings} colorClass="bg-green-500/10" />
-                    <BalanceBreakdownItem icon={<ArrowTrendingUpIcon className="w-5 h-5 text-blue-300"/>} label={t('investments')} value={balances.investments} colorClass="bg-blue-500/10" />
+                    <BalanceBreakdownItem icon={<ArrowTrendingUpIcon className="w-5 h-5 text-blue-300"/>} label={t('investments')} value={investments} colorClass="bg-blue-500/10" onClick={() => setIsInvestmentsOpen(true)} />
                     <BalanceBreakdownItem icon={<CreditCardIcon className="w-5 h-5 text-orange-300"/>} label={t('cards')} value={balances.cards} colorClass="bg-orange-500/10" />
                     <BalanceBreakdownItem icon={<DollarSignIcon className="w-5 h-5 text-red-300"/>} label={t('loans')} value={balances.loans} colorClass="bg-red-500/10" />
                 </div>
             </div>
+            <InvestmentsModal isOpen={isInvestmentsOpen} onClose={() => setIsInvestmentsOpen(false)} />
         </motion.div>
     );
 };
 
-const TransactionItem = ({ tx, index }: { tx: Transaction; index: number }) => {
+const AccountItem: React.FC<{ account: AccountView; onClick: () => void }> = ({ account, onClick }) => {
+    const { t, formatMoney } = useTranslation();
+    const typeLabel = {
+        main: t('mainAccount'),
+        checking: t('accountTypeChecking'),
+        savings: t('accountTypeSavings'),
+        joint: t('accountTypeJoint'),
+    }[account.type];
+    return (
+        <li onClick={onClick} className="bg-slate-800 p-4 rounded-2xl cursor-pointer hover:bg-slate-700/70 transition-colors flex justify-between items-center">
+            <div>
+                <p className="font-semibold text-white">{account.type === 'main' ? t('mainAccount') : account.name}</p>
+                <p className="text-xs text-slate-400">
+                    {typeLabel} &middot; ...{accountEnding(account.accountNumber)}
+                    {account.type === 'joint' && <> &middot; {t('jointWith', { names: account.ownerNames.join(' & ') })}</>}
+                </p>
+            </div>
+            <p className="font-bold text-white">{formatMoney(account.balance)}</p>
+        </li>
+    );
+};
+
+const AccountsSection = () => {
+    const { accounts } = useContext(BankContext);
+    const { t } = useTranslation();
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [selectedAccountNumber, setSelectedAccountNumber] = useState<string | null>(null);
+
+    const openModal = (accountNumber: string | null) => {
+        setSelectedAccountNumber(accountNumber);
+        setIsModalOpen(true);
+    };
+
+    return (
+        <div className="p-4">
+            <div className="flex justify-between items-center mb-2">
+                <h2 className="text-lg font-semibold text-white">{t('accounts')}</h2>
+                <button onClick={() => openModal(null)} className="text-sm font-semibold text-indigo-400 hover:text-indigo-300">{t('openAccount')}</button>
+            </div>
+            <ul className="space-y-2">
+                {accounts.map(account => <AccountItem key={account.accountNumber} account={account} onClick={() => openModal(account.accountNumber)} />)}
+            </ul>
+            <DepositAccountModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} account={accounts.find(a => a.accountNumber === selectedAccountNumber)} />
+        </div>
+    );
+};
+
+const SavingsGoalItem: React.FC<{ goal: SavingsGoal; onClick: () => void }> = ({ goal, onClick }) => {
+    const { t, formatMoney } = useTranslation();
+    const progress = getGoalProgress(goal);
+    return (
+        <li onClick={onClick} className="bg-slate-800 p-4 rounded-2xl cursor-pointer hover:bg-slate-700/70 transition-colors">
+            <div className="flex justify-between text-sm mb-2">
+                <span className="font-semibold text-white">{goal.name}</span>
+                <span className="text-slate-400">{t('savedOfTarget', { saved: formatMoney(goal.saved), target: formatMoney(goal.targetAmount) })}</span>
+            </div>
+            <div className="w-full bg-slate-700 rounded-full h-2">
+                <div className={`${progress.isReached ? 'bg-green-500' : 'bg-indigo-500'} h-2 rounded-full`} style={{ width: `${progress.percent}%` }} />
+            </div>
+        </li>
+    );
+};
+
+const SavingsGoalsSection = () => {
+    const { savingsGoals } = useContext(BankContext);
     const { t } = useTranslation();
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [selectedGoalId, setSelectedGoalId] = useState<string | null>(null);
+
+    const openModal = (goalId: string | null) => {
+        setSelectedGoalId(goalId);
+        setIsModalOpen(true);
+    };
+
+    return (
+        <div className="p-4">
+            <div className="flex justify-between items-center mb-2">
+                <h2 className="text-lg font-semibold text-white">{t('savingsGoals')}</h2>
+                <button onClick={() => openModal(null)} className="text-sm font-semibold text-indigo-400 hover:text-indigo-300">{t('newGoal')}</button>
+            </div>
+            {savingsGoals.length > 0 ? (
+                <ul className="space-y-2">
+                    {savingsGoals.map(goal => <SavingsGoalItem key={goal.id} goal={goal} onClick={() => openModal(goal.id)} />)}
+                </ul>
+            ) : (
+                <p className="text-sm text-slate-500">{t('noSavingsGoals')}</p>
+            )}
+            <SavingsGoalModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} goal={savingsGoals.find(g => g.id === selectedGoalId)} />
+        </div>
+    );
+};
+
+const BudgetItem: React.FC<{ status: BudgetStatus; onClick: () => void }> = ({ status, onClick }) => {
+    const { t, formatMoney } = useTranslation();
+    const barClass = status.level === 100 ? 'bg-red-500' : status.level === 80 ? 'bg-amber-500' : 'bg-green-500';
+    const carriedOver = subtract(status.available, status.budget.limit);
+    return (
+        <li onClick={onClick} className="bg-slate-800 p-4 rounded-2xl cursor-pointer hover:bg-slate-700/70 transition-colors">
+            <div className="flex justify-between text-sm mb-2">
+                <span className="font-semibold text-white">{status.budget.category}</span>
+                <span className="text-slate-400">{t('spentOfBudget', { spent: formatMoney(status.spent), available: formatMoney(status.available) })}</span>
+            </div>
+            <div className="w-full bg-slate-700 rounded-full h-2">
+                <div className={`${barClass} h-2 rounded-full`} style={{ width: `${Math.min(100, status.percent)}%` }} />
+            </div>
+            <div className="flex justify-between text-xs mt-1">
+                <span className={isNegative(status.remaining) ? 'text-red-400' : 'text-slate-400'}>
+                    {isNegative(status.remaining) ? t('budgetOver', { amount: formatMoney(negate(status.remaining)) }) : t('budgetLeft', { amount: formatMoney(status.remaining) })}
+                </span>
+                {isPositive(carriedOver) && <span className="text-slate-500">{t('budgetCarriedOver', { amount: formatMoney(carriedOver) })}</span>}
+            </div>
+        </li>
+    );
+};
+
+const BudgetsSection = () => {
+    const { budgets } = useContext(BankContext);
+    const { t } = useTranslation();
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [selectedBudgetId, setSelectedBudgetId] = useState<string | null>(null);
+    // Alerts raised by the scheduler the first time each threshold is reached this month.
+    const alerts = budgets.filter(b => b.budget.alertLevel);
+
+    const openModal = (budgetId: string | null) => {
+        setSelectedBudgetId(budgetId);
+        setIsModalOpen(true);
+    };
+
+    return (
+        <div className="p-4">
+            <div className="flex justify-between items-center mb-2">
+                <h2 className="text-lg font-semibold text-white">{t('budgets')}</h2>
+                <button onClick={() => openModal(null)} className="text-sm font-semibold text-indigo-400 hover:text-indigo-300">{t('setBudget')}</button>
+            </div>
+            {alerts.map(({ budget, percent }) => (
+                <p key={budget.id} className={`text-xs mb-2 p-3 rounded-xl ${budget.alertLevel === 100 ? 'bg-red-500/10 text-red-400' : 'bg-amber-500/10 text-amber-400'}`}>
+                    {budget.alertLevel === 100 ? t('budgetAlert100', { category: budget.category }) : t('budgetAlert80', { category: budget.category, percent: String(Math.floor(percent)) })}
+                </p>
+            ))}
+            {budgets.length > 0 ? (
+                <ul className="space-y-2">
+                    {budgets.map(status => <BudgetItem key={status.budget.id} status={status} onClick={() => openModal(status.budget.id)} />)}
+                </ul>
+            ) : (
+                <p className="text-sm text-slate-500">{t('noBudgets')}</p>
+            )}
+            <BudgetModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} budget={budgets.find(b => b.budget.id === selectedBudgetId)?.budget} />
+        </div>
+    );
+};
+
+const TransactionItem = ({ tx, index }: { tx: Transaction; index: number }) => {
+    const { reverseTransfer } = useContext(BankContext);
+    const { t, formatMoney } = useTranslation();
     const isCredit = tx.type === 'credit';
+
+    const handleReverse = () => {
+        if (window.confirm(t('confirmReverseTransfer', { name: tx.partyName }))) {
+            const result = reverseTransfer(tx.id);
+            if (!result.success) window.alert(result.message);
+        }
+    };
+
     return (
         <motion.li
             initial={{ opacity: 0, x: -20 }}
@@ -78,14 +258,20 @@ const TransactionItem = ({ tx, index }: { tx: Transaction; index: number }) => {
                     {isCredit ? <ArrowDownLeftIcon className="w-5 h-5 text-green-400" /> : <ArrowUpRightIcon className="w-5 h-5 text-red-400" />}
                 </div>
                 <div>
-                    <p className="font-semibold text-white">{tx.description}</p>
+                    <p className="font-semibold text-white">{tx.description}<TransactionStatusBadge tx={tx} /></p>
                     <p className="text-sm text-slate-400">{t('vs')} {tx.partyName}</p>
                 </div>
             </div>
-            <p className={`font-bold ${isCredit ? 'text-green-400' : 'text-red-400'}`}>
-                {isCredit ? '+' : '-'}
-                {formatCurrency(tx.amount)}
-            </p>
+            <div className="text-right">
+                <p className={`font-bold ${amountClassForStatus(tx, isCredit ? 'text-green-400' : 'text-red-400')}`}>
+                    {isCredit ? '+' : '-'}
+                    {formatMoney(tx.amount)}
+                </p>
+                {tx.counterAmount && <p className="text-xs text-slate-400">{formatMoney(tx.counterAmount)}</p>}
+                {isReversibleTransfer(tx) && (
+                    <button onClick={handleReverse} className="text-xs text-indigo-400 hover:text-indigo-300">{t('reverseTransfer')}</button>
+                )}
+            </div>
         </motion.li>
     );
 };
@@ -127,16 +313,8 @@ export const HomeScreen = () => {
             if (!currentUser) return;
             setIsLoadingChart(true);
             
-            const allUserTransactions = [
-                ...transactions.filter(tx => tx.userId === currentUser.id && tx.type === 'debit'),
-                ...currentUser.cards.flatMap(c => c.transactions)
-            ];
-
-            const now = new Date();
-            const thisMonthTransactions = allUserTransactions.filter(tx => {
-                const txDate = new Date(tx.timestamp);
-                return txDate.getMonth() === now.getMonth() && txDate.getFullYear() === now.getFullYear();
-            });
+            // Budgets measure spending on these same transactions.
+            const thisMonthTransactions = getMonthlySpendingTransactions(transactions, currentUser);
 
             const analysisResult = await analyzeSpendingWithAI(thisMonthTransactions, language);
             setSpendingData(analysisResult.sort((a, b) => b.value - a.value));
@@ -151,6 +329,10 @@ export const HomeScreen = () => {
         <div className="flex flex-col h-full">
             <BalanceCard />
 
+            <AccountsSection />
+
+            <SavingsGoalsSection />
+
             <div className="p-4">
                  <h2 className="text-lg font-semibold text-white mb-2">{t('spendingThisMonth')}</h2>
                  <div className="bg-slate-800 rounded-3xl">
@@ -160,10 +342,12 @@ export const HomeScreen = () => {
                             <p>AI is analyzing your spending...</p>
                         </div>
                     ) : (
-                        <DonutChart data={spendingData} />
+                        <DonutChart data={spendingData} currency={currentUser?.balance.currency ?? DEFAULT_CURRENCY} />
                     )}
                 </div>
             </div>
+
+            <BudgetsSection />
             
             <TransactionList />
         </div>
@@ -0,0 +1,174 @@
+import React, { useState, useContext, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BankContext } from '../App';
+import { useTranslation } from '../hooks/useTranslation';
+import { Money, fromMajor, isNegative } from '../services/money';
+import { HoldingValuation } from '../services/investments';
+import { INSTRUMENTS } from '../services/marketData';
+
+interface InvestmentsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const gainClass = (gain: Money) => isNegative(gain) ? 'text-red-400' : 'text-green-400';
+
+const SummaryRow = ({ label, value, valueClass = 'text-slate-200' }: { label: string; value: string; valueClass?: string }) => (
+    <p className="flex justify-between"><span className="text-slate-400">{label}</span><span className={`font-semibold ${valueClass}`}>{value}</span></p>
+);
+
+const HoldingItem: React.FC<{ holding: HoldingValuation }> = ({ holding }) => {
+    const { t, formatMoney } = useTranslation();
+    return (
+        <li className="bg-slate-700/40 p-3 rounded-xl text-xs text-slate-400">
+            <div className="flex justify-between items-start">
+                <div>
+                    <p className="font-bold text-sm text-white">{holding.symbol}</p>
+                    <p>{holding.name}</p>
+                </div>
+                <div className="text-right">
+                    <p className="font-bold text-sm text-white">{formatMoney(holding.marketValue)}</p>
+                    <p className={gainClass(holding.unrealizedGain)}>{formatMoney(holding.unrealizedGain)}</p>
+                </div>
+            </div>
+            <p className="mt-1">
+                {holding.price && t('sharesAt', { quantity: String(holding.quantity), price: formatMoney(holding.price) })}
+                {' '}&middot; {t('costBasis')} {formatMoney(holding.costBasis)}
+            </p>
+        </li>
+    );
+};
+
+export const InvestmentsModal: React.FC<InvestmentsModalProps> = ({ isOpen, onClose }) => {
+  const { currentUser, portfolio, fundInvestments, withdrawInvestments, placeInvestmentOrder } = useContext(BankContext);
+  const { t, formatMoney } = useTranslation();
+  const [transferAmount, setTransferAmount] = useState('');
+  const [symbol, setSymbol] = useState(INSTRUMENTS[0].symbol);
+  const [side, setSide] = useState<'buy' | 'sell'>('buy');
+  const [orderAmount, setOrderAmount] = useState('');
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+        setTransferAmount('');
+        setOrderAmount('');
+        setSide('buy');
+        setMessage(null);
+    }
+  }, [isOpen]);
+
+  if (!currentUser) return null;
+  const currency = currentUser.balance.currency;
+  const orders = currentUser.investmentAccount?.orders.slice(0, 5) ?? [];
+
+  const handleTransfer = (direction: 'in' | 'out') => {
+    const amount = fromMajor(parseFloat(transferAmount) || 0, currency);
+    const result = direction === 'in' ? fundInvestments(amount) : withdrawInvestments(amount);
+    setMessage({ success: result.success, text: result.message });
+    if (result.success) setTransferAmount('');
+  };
+
+  const handleOrder = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = placeInvestmentOrder({ symbol, side, amount: fromMajor(parseFloat(orderAmount) || 0, currency) });
+    setMessage({ success: result.success, text: result.message });
+    if (result.success) setOrderAmount('');
+  };
+
+  const inputClass = "w-full bg-slate-700 border border-slate-600 rounded-xl px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ y: 50, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 50, opacity: 0 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+            className="bg-slate-800 w-full max-w-md max-h-[90vh] rounded-3xl flex flex-col overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <header className="p-4 border-b border-slate-700 flex items-center justify-between flex-shrink-0">
+              <h2 className="text-lg font-bold text-white">{t('investmentAccount')}</h2>
+              <button onClick={onClose} className="text-slate-400 hover:text-white text-2xl">&times;</button>
+            </header>
+
+            <div className="p-6 text-sm space-y-4 overflow-y-auto">
+                {portfolio ? (
+                    <div className="bg-slate-700/50 p-4 rounded-xl space-y-1">
+                        <p className="text-slate-400">{t('portfolioValue')}</p>
+                        <p className="text-3xl font-bold text-white mb-2">{formatMoney(portfolio.totalValue)}</p>
+                        <SummaryRow label={t('holdingsValue')} value={formatMoney(portfolio.holdingsValue)} />
+                        <SummaryRow label={t('uninvestedCash')} value={formatMoney(portfolio.cash)} />
+                        <SummaryRow label={t('unrealizedGain')} value={formatMoney(portfolio.unrealizedGain)} valueClass={gainClass(portfolio.unrealizedGain)} />
+                        <SummaryRow label={t('realizedGain')} value={formatMoney(portfolio.realizedGain)} valueClass={gainClass(portfolio.realizedGain)} />
+                    </div>
+                ) : (
+                    <p className="text-slate-400">{t('startInvestingHint')}</p>
+                )}
+
+                {message && <p className={`text-xs ${message.success ? 'text-green-400' : 'text-red-400'}`}>{message.text}</p>}
+
+                <div className="space-y-2">
+                    <h3 className="font-semibold text-slate-300">{t('moveMoney')}</h3>
+                    <input type="number" min="0" value={transferAmount} onChange={(e) => setTransferAmount(e.target.value)} placeholder={`${t('amount')} (${currency})`} className={inputClass} />
+                    <div className="flex gap-2">
+                        <button onClick={() => handleTransfer('in')} className="flex-1 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 rounded-xl transition-colors">{t('addFromSavings')}</button>
+                        {portfolio && <button onClick={() => handleTransfer('out')} className="flex-1 bg-slate-700 hover:bg-slate-600 text-white font-semibold py-2 rounded-xl transition-colors">{t('moveToSavings')}</button>}
+                    </div>
+                </div>
+
+                {portfolio && (
+                    <form onSubmit={handleOrder} className="space-y-2">
+                        <h3 className="font-semibold text-slate-300">{t('trade')}</h3>
+                        <div className="flex gap-2">
+                            {(['buy', 'sell'] as const).map(option => (
+                                <button type="button" key={option} onClick={() => setSide(option)} className={`flex-1 py-2 rounded-xl font-semibold transition-colors ${side === option ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-300'}`}>
+                                    {t(option)}
+                                </button>
+                            ))}
+                        </div>
+                        <select value={symbol} onChange={(e) => setSymbol(e.target.value)} aria-label={t('fund')} className={inputClass}>
+                            {INSTRUMENTS.map(instrument => <option key={instrument.symbol} value={instrument.symbol}>{instrument.symbol} &middot; {instrument.name}</option>)}
+                        </select>
+                        <input type="number" min="0" value={orderAmount} onChange={(e) => setOrderAmount(e.target.value)} placeholder={`${t('amount')} (${currency})`} className={inputClass} />
+                        <button type="submit" className="w-full bg-green-600 hover:bg-green-700 text-white font-bold py-2 rounded-xl transition-colors">{t('placeOrder')}</button>
+                    </form>
+                )}
+
+                {portfolio && (
+                    <div className="space-y-2">
+                        <h3 className="font-semibold text-slate-300">{t('holdings')}</h3>
+                        {portfolio.holdings.length > 0 ? (
+                            <ul className="space-y-2">
+                                {portfolio.holdings.map(holding => <HoldingItem key={holding.symbol} holding={holding} />)}
+                            </ul>
+                        ) : (
+                            <p className="text-slate-500">{t('noHoldings')}</p>
+                        )}
+                    </div>
+                )}
+
+                {orders.length > 0 && (
+                    <div className="space-y-1 text-xs text-slate-400">
+                        <h3 className="text-sm font-semibold text-slate-300">{t('recentOrders')}</h3>
+                        {orders.map(order => (
+                            <p key={order.id} className="flex justify-between">
+                                <span>{t(order.side)} {order.quantity} {order.symbol}</span>
+                                <span className="text-slate-300">{formatMoney(order.amount)}</span>
+                            </p>
+                        ))}
+                    </div>
+                )}
+
+                <p className="text-xs text-slate-500">{t('simulatedPricesNote')}</p>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
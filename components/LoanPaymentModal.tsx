@@ -0,0 +1,121 @@
+import React, { useState, useContext, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BankContext } from '../App';
+import { Loan, LoanPaymentKind } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import { fromMajor, isPositive } from '../services/money';
+import { getLoanPayoffAmount, previewLoanPayment } from '../services/loanPayments';
+import { createIdempotencyKey } from '../services/idempotency';
+
+interface LoanPaymentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  loan: Loan;
+}
+
+const PAYMENT_KINDS: LoanPaymentKind[] = ['installment', 'extra', 'payoff'];
+
+const SplitRow = ({ label, value }: { label: string; value: string }) => (
+    <p className="flex justify-between"><span>{label}</span><span className="font-semibold text-slate-200">{value}</span></p>
+);
+
+export const LoanPaymentModal: React.FC<LoanPaymentModalProps> = ({ isOpen, onClose, loan }) => {
+  const { currentUser, payLoan } = useContext(BankContext);
+  const { t, formatMoney } = useTranslation();
+  const [kind, setKind] = useState<LoanPaymentKind>('installment');
+  const [extraAmount, setExtraAmount] = useState('');
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+  // One key per payment, so a double click cannot pay twice.
+  const idempotencyKey = useRef(createIdempotencyKey());
+
+  useEffect(() => {
+    if (isOpen) {
+        setKind('installment');
+        setExtraAmount('');
+        setResult(null);
+        idempotencyKey.current = createIdempotencyKey();
+    }
+  }, [isOpen]);
+
+  const kindLabels: Record<LoanPaymentKind, string> = {
+    installment: t('payInstallment'),
+    extra: t('payExtra'),
+    payoff: t('payOffLoan'),
+  };
+  const amount = kind === 'extra' ? fromMajor(parseFloat(extraAmount) || 0, loan.remainingBalance.currency) : undefined;
+  const preview = loan.status === 'Active' ? previewLoanPayment(loan, kind, amount) : undefined;
+  const split = typeof preview === 'object' ? preview : undefined;
+
+  const handlePay = () => {
+    const paymentResult = payLoan({ loanId: loan.id, kind, amount }, idempotencyKey.current);
+    setResult(paymentResult);
+    if (paymentResult.success) idempotencyKey.current = createIdempotencyKey();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ y: 50, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 50, opacity: 0 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+            className="bg-slate-800 w-full max-w-md max-h-[90vh] rounded-3xl flex flex-col overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <header className="p-4 border-b border-slate-700 flex items-center justify-between flex-shrink-0">
+              <h2 className="text-lg font-bold text-white">{t('makeLoanPayment')}</h2>
+              <button onClick={onClose} className="text-slate-400 hover:text-white text-2xl">&times;</button>
+            </header>
+
+            <div className="p-6 text-sm space-y-4 overflow-y-auto">
+                <div className="grid grid-cols-3 gap-2">
+                    {PAYMENT_KINDS.map(k => (
+                        <button
+                            key={k}
+                            onClick={() => setKind(k)}
+                            className={`p-2 rounded-xl text-left border transition-all ${kind === k ? 'border-indigo-500 bg-indigo-500/10' : 'border-slate-700 bg-slate-700/30 hover:border-slate-500'}`}
+                        >
+                            <p className="text-xs text-slate-400">{kindLabels[k]}</p>
+                            {k === 'installment' && <p className="font-semibold text-white">{formatMoney(loan.monthlyPayment)}</p>}
+                            {k === 'payoff' && <p className="font-semibold text-white">{formatMoney(getLoanPayoffAmount(loan))}</p>}
+                        </button>
+                    ))}
+                </div>
+                {kind === 'extra' && (
+                    <input
+                        type="number"
+                        min="0"
+                        value={extraAmount}
+                        onChange={(e) => setExtraAmount(e.target.value)}
+                        placeholder="e.g., 250"
+                        className="w-full bg-slate-800 border border-slate-700 rounded-xl px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                )}
+                {split && (
+                    <div className="bg-slate-700/50 p-3 rounded-xl text-xs text-slate-300 space-y-1">
+                        {isPositive(split.fees) && <SplitRow label={t('lateFeesPortion')} value={formatMoney(split.fees)} />}
+                        <SplitRow label={t('interestPortion')} value={formatMoney(split.interest)} />
+                        <SplitRow label={t('principalPortion')} value={formatMoney(split.principal)} />
+                        <SplitRow label={t('balanceAfterPayment')} value={formatMoney(split.remainingBalance)} />
+                    </div>
+                )}
+                {currentUser && <p className="text-xs text-slate-400">{t('payFromSavings', { balance: formatMoney(currentUser.balance) })}</p>}
+                {result && <p className={`text-xs ${result.success ? 'text-green-400' : 'text-red-400'}`}>{result.message}</p>}
+                <button
+                    onClick={handlePay}
+                    disabled={!split}
+                    className="w-full bg-green-600 hover:bg-green-700 text-white font-bold py-3 rounded-xl transition-all disabled:opacity-50"
+                >
+                    {t('payNow', { amount: split ? formatMoney(split.amount) : '' })}
+                </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useState, useContext, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BankContext } from '../App';
+import { useTranslation } from '../hooks/useTranslation';
+import { fromMajor } from '../services/money';
+import { LoanQuote, getLoanQuotes } from '../services/loanQuotes';
+
+interface LoanQuoteModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const emptyForm = { loanAmount: '10000', annualIncome: '', employmentStatus: 'Employed', dateOfBirth: '' };
+
+const QuoteRow = ({ label, value }: { label: string; value: string }) => (
+    <p className="flex justify-between"><span>{label}</span><span className="font-semibold text-slate-200">{value}</span></p>
+);
+
+const QuoteItem: React.FC<{ quote: LoanQuote }> = ({ quote }) => {
+    const { t, formatMoney } = useTranslation();
+    const isApprovable = quote.outcome === 'approve' && quote.monthlyPayment && quote.totalInterest && quote.totalCost;
+    return (
+        <li className="bg-slate-700/40 p-3 rounded-xl text-xs text-slate-300 space-y-1">
+            <div className="flex justify-between items-center">
+                <p className="font-bold text-sm text-white">{quote.termMonths} {t('months')}</p>
+                {isApprovable
+                    ? <p className="font-bold text-indigo-300">{quote.interestRate?.toFixed(2)}%</p>
+                    : <p className={quote.outcome === 'refer' ? 'text-amber-400' : 'text-red-400'}>{quote.outcome === 'refer' ? t('quoteNeedsReview') : t('quoteNotAvailable')}</p>}
+            </div>
+            {isApprovable ? (
+                <>
+                    <QuoteRow label={t('monthlyPayment')} value={formatMoney(quote.monthlyPayment!)} />
+                    <QuoteRow label={t('totalInterestCost')} value={formatMoney(quote.totalInterest!)} />
+                    <QuoteRow label={t('totalCost')} value={formatMoney(quote.totalCost!)} />
+                </>
+            ) : (
+                quote.reasons.map(reason => <p key={reason.code}>{reason.message}</p>)
+            )}
+        </li>
+    );
+};
+
+export const LoanQuoteModal: React.FC<LoanQuoteModalProps> = ({ isOpen, onClose }) => {
+  const { currentUser } = useContext(BankContext);
+  const { t } = useTranslation();
+  const [formData, setFormData] = useState(emptyForm);
+  const [quotes, setQuotes] = useState<LoanQuote[] | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+        setFormData(emptyForm);
+        setQuotes(null);
+        setError('');
+    }
+  }, [isOpen]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser) return;
+    const currency = currentUser.balance.currency;
+    const result = getLoanQuotes(currentUser, {
+        loanAmount: fromMajor(parseFloat(formData.loanAmount) || 0, currency),
+        annualIncome: fromMajor(parseFloat(formData.annualIncome) || 0, currency),
+        employmentStatus: formData.employmentStatus,
+        dateOfBirth: formData.dateOfBirth,
+    });
+    if (typeof result === 'string') {
+        setError(result);
+        setQuotes(null);
+    } else {
+        setError('');
+        setQuotes(result);
+    }
+  };
+
+  const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-xl px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ y: 50, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 50, opacity: 0 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+            className="bg-slate-800 w-full max-w-md max-h-[90vh] rounded-3xl flex flex-col overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <header className="p-4 border-b border-slate-700 flex items-center justify-between flex-shrink-0">
+              <h2 className="text-lg font-bold text-white">{t('loanQuotes')}</h2>
+              <button onClick={onClose} className="text-slate-400 hover:text-white text-2xl">&times;</button>
+            </header>
+
+            <div className="p-6 text-sm space-y-4 overflow-y-auto">
+                <p className="text-xs text-slate-400">{t('softCheckNote')}</p>
+                <form onSubmit={handleSubmit} className="space-y-3">
+                    <label className="block text-slate-300">
+                        {t('loanAmount')}
+                        <input name="loanAmount" type="number" min="0" value={formData.loanAmount} onChange={handleChange} className={`${inputClass} mt-1`} />
+                    </label>
+                    <label className="block text-slate-300">
+                        {t('annualIncome')}
+                        <input name="annualIncome" type="number" min="0" value={formData.annualIncome} onChange={handleChange} placeholder="e.g., 50000" className={`${inputClass} mt-1`} />
+                    </label>
+                    <label className="block text-slate-300">
+                        {t('employmentStatus')}
+                        <select name="employmentStatus" value={formData.employmentStatus} onChange={handleChange} className={`${inputClass} mt-1`}>
+                            <option value="Employed">{t('employed')}</option>
+                            <option value="Self-Employed">{t('selfEmployed')}</option>
+                            <option value="Unemployed">{t('unemployed')}</option>
+                            <option value="Student">{t('student')}</option>
+                        </select>
+                    </label>
+                    <label className="block text-slate-300">
+                        {t('dateOfBirth')}
+                        <input name="dateOfBirth" type="date" value={formData.dateOfBirth} onChange={handleChange} className={`${inputClass} mt-1`} />
+                    </label>
+                    {error && <p className="text-xs text-red-400">{error}</p>}
+                    <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 rounded-xl transition-all">
+                        {t('seeMyRates')}
+                    </button>
+                </form>
+                {quotes && (
+                    <ul className="space-y-2">
+                        {quotes.map(quote => <QuoteItem key={quote.termMonths} quote={quote} />)}
+                    </ul>
+                )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Loan } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import { fromMajor, toMajor, subtract } from '../services/money';
+import { getLoanSchedule, projectLoanPayoff } from '../services/loanCalculator';
+
+interface LoanScheduleModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  loan: Loan;
+}
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+const SummaryRow = ({ label, value }: { label: string; value: string }) => (
+    <p className="flex justify-between"><span>{label}</span><span className="font-semibold text-slate-200">{value}</span></p>
+);
+
+export const LoanScheduleModal: React.FC<LoanScheduleModalProps> = ({ isOpen, onClose, loan }) => {
+  const { t, formatMoney } = useTranslation();
+  const [extra, setExtra] = useState(0);
+
+  useEffect(() => {
+    if (isOpen) setExtra(0);
+  }, [isOpen]);
+
+  const currency = loan.remainingBalance.currency;
+  const schedule = getLoanSchedule(loan);
+  const nextDueDate = new Date(loan.paymentDueDate);
+  const isPaid = (dueDate: string) => loan.status === 'Paid Off' || new Date(dueDate) < nextDueDate;
+
+  // The slider goes up to one extra monthly payment, in whole currency units.
+  const maxExtra = Math.ceil(toMajor(loan.monthlyPayment));
+  const step = Math.max(1, Math.round(maxExtra / 50));
+  const baseline = projectLoanPayoff(loan);
+  const withExtra = projectLoanPayoff(loan, fromMajor(extra, currency));
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ y: 50, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 50, opacity: 0 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+            className="bg-slate-800 w-full max-w-md max-h-[90vh] rounded-3xl flex flex-col overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <header className="p-4 border-b border-slate-700 flex items-center justify-between flex-shrink-0">
+              <h2 className="text-lg font-bold text-white">{t('amortizationSchedule')}</h2>
+              <button onClick={onClose} className="text-slate-400 hover:text-white text-2xl">&times;</button>
+            </header>
+
+            <div className="p-6 text-sm space-y-4 overflow-y-auto">
+                {loan.status === 'Active' && (
+                    <div className="bg-slate-700/50 p-3 rounded-xl text-xs text-slate-300 space-y-2">
+                        <h4 className="font-bold text-sm text-slate-200">{t('whatIfExtra')}</h4>
+                        <label htmlFor="extra-payment" className="flex justify-between">
+                            <span>{t('extraPerMonth')}</span>
+                            <span className="font-semibold text-white">{formatMoney(fromMajor(extra, currency))}</span>
+                        </label>
+                        <input
+                            id="extra-payment"
+                            type="range"
+                            min={0}
+                            max={maxExtra}
+                            step={step}
+                            value={extra}
+                            onChange={(e) => setExtra(Number(e.target.value))}
+                            className="w-full accent-indigo-500"
+                        />
+                        {baseline.payoffDate && <SummaryRow label={t('currentPayoffDate')} value={formatDate(baseline.payoffDate)} />}
+                        {extra > 0 && withExtra.payoffDate && (
+                            <>
+                                <SummaryRow label={t('newPayoffDate')} value={`${formatDate(withExtra.payoffDate)} (${t('monthsSooner', { months: String(baseline.periods - withExtra.periods) })})`} />
+                                <SummaryRow label={t('interestSaved')} value={formatMoney(subtract(baseline.totalInterest, withExtra.totalInterest))} />
+                            </>
+                        )}
+                    </div>
+                )}
+
+                <table className="w-full text-xs">
+                    <thead className="text-slate-400">
+                        <tr className="border-b border-slate-700">
+                            <th className="py-2 text-left">{t('schedulePeriod')}</th>
+                            <th className="py-2 text-left">{t('scheduleDue')}</th>
+                            <th className="py-2 text-right">{t('principalPortion')}</th>
+                            <th className="py-2 text-right">{t('interestPortion')}</th>
+                            <th className="py-2 text-right">{t('scheduleBalance')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {schedule.map(p => (
+                            <tr key={p.period} className={`border-b border-slate-700/50 ${isPaid(p.dueDate) ? 'text-slate-500' : 'text-slate-300'}`}>
+                                <td className="py-1.5">{p.period}</td>
+                                <td className="py-1.5">
+                                    {formatDate(p.dueDate)}
+                                    {isPaid(p.dueDate) && <span className="ml-1 px-1.5 rounded-full bg-green-500/10 text-green-400">{t('periodPaid')}</span>}
+                                </td>
+                                <td className="py-1.5 text-right">{formatMoney(p.principal)}</td>
+                                <td className="py-1.5 text-right">{formatMoney(p.interest)}</td>
+                                <td className="py-1.5 text-right">{formatMoney(p.remainingBalance)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -2,21 +2,19 @@ import React, { useContext, useState } from 'react';
 import { motion } from 'framer-motion';
 import { BankContext } from '../App';
 import { Loan } from '../types';
-import { DollarSignIcon } from './icons';
+import { DollarSignIcon, CheckCircleIcon } from './icons';
 import { useTranslation } from '../hooks/useTranslation';
-
-const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: 'USD',
-    }).format(amount);
-};
+import { LoanPaymentModal } from './LoanPaymentModal';
+import { LoanScheduleModal } from './LoanScheduleModal';
+import { LoanQuoteModal } from './LoanQuoteModal';
+import { getTotalInterestPaid } from '../services/loanPayments';
 
 const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-US', { month: 'long', day: 'numeric' });
 
-const LoanItem = ({ loan, index }: { loan: Loan; index: number }) => {
-    const { t } = useTranslation();
-    const progress = (loan.loanAmount - loan.remainingBalance) / loan.loanAmount * 100;
+const LoanItem = ({ loan, index, onPay, onViewSchedule }: { loan: Loan; index: number; onPay: () => void; onViewSchedule: () => void }) => {
+    const { t, formatMoney } = useTranslation();
+    const progress = (loan.loanAmount.amount - loan.remainingBalance.amount) / loan.loanAmount.amount * 100;
+    const recentPayments = (loan.payments ?? []).slice(-3).reverse();
     return (
         <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -26,17 +24,17 @@ const LoanItem = ({ loan, index }: { loan: Loan; index: number }) => {
         >
             <div className="flex justify-between items-start mb-4">
                 <div>
-                    <p className="font-bold text-white text-lg">{formatCurrency(loan.loanAmount)}</p>
+                    <p className="font-bold text-white text-lg">{formatMoney(loan.loanAmount)}</p>
                     <p className="text-xs text-slate-400">@{loan.interestRate.toFixed(2)}% {t('forTerm')} {loan.termMonths} {t('months')}</p>
                 </div>
                 <div className="text-right">
                     <p className="text-sm font-medium text-indigo-400">{t('monthlyPayment')}</p>
-                    <p className="text-white font-semibold">{formatCurrency(loan.monthlyPayment)}</p>
+                    <p className="text-white font-semibold">{formatMoney(loan.monthlyPayment)}</p>
                 </div>
             </div>
             <div>
                  <div className="flex justify-between items-center text-xs text-slate-400 mb-1">
-                    <p>{t('remaining')}: <span className="font-semibold text-slate-300">{formatCurrency(loan.remainingBalance)}</span></p>
+                    <p>{t('remaining')}: <span className="font-semibold text-slate-300">{formatMoney(loan.remainingBalance)}</span></p>
                     <p>{t('nextPayment')}: <span className="font-semibold text-slate-300">{formatDate(loan.paymentDueDate)}</span></p>
                  </div>
                 <div className="w-full bg-slate-700 rounded-full h-2">
@@ -48,23 +46,69 @@ const LoanItem = ({ loan, index }: { loan: Loan; index: number }) => {
                     />
                 </div>
             </div>
+            {recentPayments.length > 0 && (
+                <div className="mt-4">
+                    <p className="text-xs font-medium text-slate-400 mb-1">{t('recentPayments')}</p>
+                    {recentPayments.map(p => (
+                        <div key={p.id} className="flex justify-between text-xs text-slate-400 py-1">
+                            <span>{formatDate(p.timestamp)}</span>
+                            <span>{t('principalPortion')} {formatMoney(p.principal)} · {t('interestPortion')} {formatMoney(p.interest)}</span>
+                            <span className="font-semibold text-slate-300">{formatMoney(p.amount)}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <div className="flex gap-2 mt-4">
+                <button onClick={onViewSchedule} className="flex-1 bg-slate-700 hover:bg-slate-600 text-white text-sm font-bold py-2 rounded-xl transition-all">
+                    {t('viewSchedule')}
+                </button>
+                <button onClick={onPay} className="flex-1 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold py-2 rounded-xl transition-all">
+                    {t('makeLoanPayment')}
+                </button>
+            </div>
         </motion.div>
     );
 };
 
+const PaidOffLoanItem: React.FC<{ loan: Loan; onViewSchedule: () => void }> = ({ loan, onViewSchedule }) => {
+    const { t, formatMoney } = useTranslation();
+    return (
+        <button onClick={onViewSchedule} className="bg-slate-800/60 hover:bg-slate-800 p-4 rounded-2xl flex items-center justify-between text-left transition-all">
+            <div className="flex items-center gap-3">
+                <CheckCircleIcon className="w-6 h-6 text-green-400" />
+                <div>
+                    <p className="font-semibold text-white">{formatMoney(loan.loanAmount)}</p>
+                    <p className="text-xs text-slate-400">{loan.paidOffDate ? t('paidOffOn', { date: formatDate(loan.paidOffDate) }) : t('paidOff')}</p>
+                </div>
+            </div>
+            <div className="text-right text-xs text-slate-400">
+                <p>{t('totalInterestPaid')}</p>
+                <p className="font-semibold text-slate-300">{formatMoney(getTotalInterestPaid(loan))}</p>
+            </div>
+        </button>
+    );
+};
+
 export const LoansScreen = () => {
     const { currentUser } = useContext(BankContext);
     const { t } = useTranslation();
+    const [payingLoanId, setPayingLoanId] = useState<string | null>(null);
     const activeLoans = currentUser?.loans.filter(l => l.status === 'Active') || [];
+    const paidOffLoans = currentUser?.loans.filter(l => l.status === 'Paid Off') || [];
+    const payingLoan = currentUser?.loans.find(l => l.id === payingLoanId);
+    const [scheduleLoanId, setScheduleLoanId] = useState<string | null>(null);
+    const scheduleLoan = currentUser?.loans.find(l => l.id === scheduleLoanId);
+    const [isQuoteOpen, setIsQuoteOpen] = useState(false);
 
     return (
         <div className="relative flex flex-col h-full">
-            <div className="p-4">
+            <div className="p-4 flex justify-between items-center">
                 <h2 className="text-lg font-semibold text-white">{t('yourLoans')}</h2>
+                <button onClick={() => setIsQuoteOpen(true)} className="text-sm font-semibold text-indigo-400 hover:text-indigo-300">{t('checkYourRate')}</button>
             </div>
             <div className="p-4 flex-grow flex flex-col gap-4">
                 {activeLoans.length > 0 ? (
-                    activeLoans.map((loan, i) => <LoanItem key={loan.id} loan={loan} index={i} />)
+                    activeLoans.map((loan, i) => <LoanItem key={loan.id} loan={loan} index={i} onPay={() => setPayingLoanId(loan.id)} onViewSchedule={() => setScheduleLoanId(loan.id)} />)
                 ) : (
                     <div className="flex-grow flex flex-col items-center justify-center text-slate-500 gap-4">
                         <DollarSignIcon className="w-16 h-16" />
@@ -72,7 +116,21 @@ export const LoansScreen = () => {
                         <p className="text-sm">{t('applyForLoanHint')}</p>
                     </div>
                 )}
+                {paidOffLoans.length > 0 && (
+                    <div className="flex flex-col gap-2">
+                        <h3 className="font-semibold text-slate-300">{t('loanHistory')}</h3>
+                        {paidOffLoans.map(loan => <PaidOffLoanItem key={loan.id} loan={loan} onViewSchedule={() => setScheduleLoanId(loan.id)} />)}
+                    </div>
+                )}
             </div>
+
+            {payingLoan && (
+                <LoanPaymentModal isOpen={!!payingLoanId} onClose={() => setPayingLoanId(null)} loan={payingLoan} />
+            )}
+            {scheduleLoan && (
+                <LoanScheduleModal isOpen={!!scheduleLoanId} onClose={() => setScheduleLoanId(null)} loan={scheduleLoan} />
+            )}
+            <LoanQuoteModal isOpen={isQuoteOpen} onClose={() => setIsQuoteOpen(false)} />
         </div>
     );
 };
\ No newline at end of file
@@ -0,0 +1,89 @@
+import React, { useState, useContext, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BankContext } from '../App';
+import { Payee } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import { accountEnding } from '../services/payees';
+
+interface PayeeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // When set, the modal renames or removes this payee instead of adding one.
+  payee?: Payee | null;
+}
+
+export const PayeeModal: React.FC<PayeeModalProps> = ({ isOpen, onClose, payee }) => {
+  const { addPayee, renamePayee, removePayee } = useContext(BankContext);
+  const { t } = useTranslation();
+  const [nickname, setNickname] = useState('');
+  const [accountNumber, setAccountNumber] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+        setNickname(payee?.nickname ?? '');
+        setAccountNumber('');
+        setError(null);
+    }
+  }, [isOpen, payee?.id]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = payee ? renamePayee(payee.id, nickname) : addPayee({ nickname, accountNumber });
+    if (result.success) onClose();
+    else setError(result.message);
+  };
+
+  const handleRemove = () => {
+    if (payee && window.confirm(t('confirmRemovePayee', { name: payee.nickname }))) {
+        removePayee(payee.id);
+        onClose();
+    }
+  };
+
+  const inputClass = "w-full bg-slate-700 border border-slate-600 rounded-xl px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ y: 50, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 50, opacity: 0 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+            className="bg-slate-800 w-full max-w-md max-h-[90vh] rounded-3xl flex flex-col overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <header className="p-4 border-b border-slate-700 flex items-center justify-between flex-shrink-0">
+              <h2 className="text-lg font-bold text-white">{payee ? payee.nickname : t('addPayee')}</h2>
+              <button onClick={onClose} className="text-slate-400 hover:text-white text-2xl">&times;</button>
+            </header>
+
+            <form onSubmit={handleSubmit} className="p-6 text-sm space-y-3 overflow-y-auto">
+                {payee ? (
+                    <p className="text-slate-400">{t('payeeAccountEnding', { name: payee.verifiedName, last4: accountEnding(payee.accountNumber) })}</p>
+                ) : (
+                    <label className="block text-slate-300">
+                        {t('payeeAccountNumber')}
+                        <input value={accountNumber} onChange={(e) => setAccountNumber(e.target.value)} inputMode="numeric" className={`${inputClass} mt-1`} />
+                    </label>
+                )}
+                <label className="block text-slate-300">
+                    {t('payeeNickname')}
+                    <input value={nickname} onChange={(e) => setNickname(e.target.value)} placeholder={t('payeeNicknamePlaceholder')} className={`${inputClass} mt-1`} />
+                </label>
+                {error && <p className="text-xs text-red-400">{error}</p>}
+                <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 rounded-xl transition-all">{payee ? t('saveChanges') : t('addPayee')}</button>
+                {payee && (
+                    <button type="button" onClick={handleRemove} className="w-full bg-red-500/10 hover:bg-red-500/20 text-red-400 font-semibold py-2 rounded-xl transition-colors">{t('removePayee')}</button>
+                )}
+            </form>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,246 @@
+import React, { useContext, useState, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { BankContext } from '../App';
+import { Payee, ScheduledTransfer } from '../types';
+import { CalendarIcon, SendIcon } from './icons';
+import { useTranslation } from '../hooks/useTranslation';
+import { TransferModal } from './TransferModal';
+import { PayeeModal } from './PayeeModal';
+import { accountEnding } from '../services/payees';
+import { RequestMoneyModal } from './RequestMoneyModal';
+import { MoneyRequestView, getOutstanding, isRequestOpen } from '../services/moneyRequests';
+import { fromMajor, toMajor } from '../services/money';
+import { createIdempotencyKey } from '../services/idempotency';
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+interface ScheduledTransferItemProps {
+    scheduledTransfer: ScheduledTransfer;
+    index: number;
+    onEdit: () => void;
+    onCancel: () => void;
+}
+
+const ScheduledTransferItem: React.FC<ScheduledTransferItemProps> = ({ scheduledTransfer, index, onEdit, onCancel }) => {
+    const { t, formatMoney } = useTranslation();
+    const isActive = scheduledTransfer.status === 'active';
+    const frequencyLabel = {
+        once: t('frequencyOnce'),
+        weekly: t('frequencyWeekly'),
+        monthly: t('frequencyMonthly'),
+    }[scheduledTransfer.frequency];
+    const statusLabel = {
+        active: t('statusActive'),
+        completed: t('statusCompleted'),
+        cancelled: t('statusCancelled'),
+    }[scheduledTransfer.status];
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.3, delay: index * 0.1 }}
+            className={`bg-slate-800 p-4 rounded-2xl ${isActive ? '' : 'opacity-60'}`}
+        >
+            <div className="flex justify-between items-start">
+                <div>
+                    <p className="font-bold text-white">{scheduledTransfer.recipientName}</p>
+                    <p className="text-xs text-slate-400">{frequencyLabel} &middot; {statusLabel}</p>
+                </div>
+                <p className="font-semibold text-white">{formatMoney(scheduledTransfer.amount)}</p>
+            </div>
+            <div className="mt-3 text-xs text-slate-400 space-y-1">
+                {isActive && <p>{t('nextPayment')}: <span className="font-semibold text-slate-300">{formatDate(scheduledTransfer.nextRunDate)}</span></p>}
+                {scheduledTransfer.endDate && <p>{t('endsOn')}: <span className="font-semibold text-slate-300">{formatDate(scheduledTransfer.endDate)}</span></p>}
+                {scheduledTransfer.lastRunAt && (
+                    <p className={scheduledTransfer.lastRunSucceeded ? 'text-green-400' : 'text-red-400'}>
+                        {t('lastRun')} {formatDate(scheduledTransfer.lastRunAt)}: {scheduledTransfer.lastRunMessage}
+                    </p>
+                )}
+            </div>
+            {isActive && (
+                <div className="flex gap-2 mt-4">
+                    <button onClick={onEdit} className="flex-1 bg-slate-700 hover:bg-slate-600 text-white text-sm font-semibold py-2 rounded-xl transition-colors">
+                        {t('edit')}
+                    </button>
+                    <button onClick={onCancel} className="flex-1 bg-red-500/10 hover:bg-red-500/20 text-red-400 text-sm font-semibold py-2 rounded-xl transition-colors">
+                        {t('cancelPayment')}
+                    </button>
+                </div>
+            )}
+        </motion.div>
+    );
+};
+
+const PayeeItem: React.FC<{ payee: Payee; onClick: () => void }> = ({ payee, onClick }) => {
+    const { t } = useTranslation();
+    return (
+        <li onClick={onClick} className="bg-slate-800 p-3 rounded-2xl cursor-pointer hover:bg-slate-700/70 transition-colors flex justify-between items-center">
+            <div>
+                <p className="font-semibold text-white">{payee.nickname}</p>
+                <p className="text-xs text-slate-400">{t('payeeAccountEnding', { name: payee.verifiedName, last4: accountEnding(payee.accountNumber) })}</p>
+            </div>
+            {payee.lastUsedAt && <p className="text-xs text-slate-500">{t('payeeLastPaid', { date: formatDate(payee.lastUsedAt) })}</p>}
+        </li>
+    );
+};
+
+const MoneyRequestItem: React.FC<{ request: MoneyRequestView; incoming: boolean }> = ({ request, incoming }) => {
+    const { payMoneyRequest, declineMoneyRequest, cancelMoneyRequest } = useContext(BankContext);
+    const { t, formatMoney } = useTranslation();
+    const [amount, setAmount] = useState(String(toMajor(request.outstanding)));
+    const [error, setError] = useState<string | null>(null);
+    const idempotencyKey = useRef(createIdempotencyKey());
+    const isOpen = isRequestOpen(request);
+    const statusLabel = {
+        pending: t('requestStatusPending'),
+        partiallyPaid: t('requestStatusPartiallyPaid'),
+        paid: t('requestStatusPaid'),
+        declined: t('requestStatusDeclined'),
+        cancelled: t('requestStatusCancelled'),
+    }[request.status];
+
+    const handlePay = () => {
+        const result = payMoneyRequest(request.id, fromMajor(parseFloat(amount) || 0, request.amount.currency), idempotencyKey.current);
+        idempotencyKey.current = createIdempotencyKey();
+        setError(result.success ? null : result.message);
+        if (result.success && result.request) setAmount(String(toMajor(getOutstanding(result.request))));
+    };
+
+    const handleDecline = () => {
+        if (window.confirm(t('confirmDeclineRequest', { name: request.requesterName }))) declineMoneyRequest(request.id);
+    };
+
+    return (
+        <li className={`bg-slate-800 p-4 rounded-2xl text-sm ${isOpen ? '' : 'opacity-60'}`}>
+            <div className="flex justify-between items-start">
+                <div>
+                    <p className="font-semibold text-white">
+                        {incoming
+                            ? t('requestedFromYou', { name: request.requesterName, amount: formatMoney(request.amount) })
+                            : t('youRequested', { name: request.payerName, amount: formatMoney(request.amount) })}
+                    </p>
+                    {request.note && <p className="text-xs text-slate-400">{request.note}</p>}
+                </div>
+                <span className="text-xs text-slate-400">{statusLabel}</span>
+            </div>
+            {request.status === 'partiallyPaid' && <p className="text-xs text-amber-400 mt-1">{t('requestOutstanding', { amount: formatMoney(request.outstanding) })}</p>}
+            {isOpen && incoming && (
+                <div className="flex gap-2 mt-3">
+                    <input type="number" min="0" value={amount} onChange={(e) => setAmount(e.target.value)} aria-label={t('amount')} className="w-28 bg-slate-700 border border-slate-600 rounded-xl px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500" />
+                    <button onClick={handlePay} className="flex-1 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 rounded-xl transition-colors">{t('payRequest')}</button>
+                    <button onClick={handleDecline} className="flex-1 bg-red-500/10 hover:bg-red-500/20 text-red-400 font-semibold py-2 rounded-xl transition-colors">{t('declineRequest')}</button>
+                </div>
+            )}
+            {isOpen && !incoming && (
+                <button onClick={() => cancelMoneyRequest(request.id)} className="mt-3 text-xs text-indigo-400 hover:text-indigo-300">{t('cancelRequest')}</button>
+            )}
+            {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+        </li>
+    );
+};
+
+const MoneyRequestsSection = () => {
+    const { incomingRequests, outgoingRequests } = useContext(BankContext);
+    const { t } = useTranslation();
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    // Open requests first; settled ones stay visible so both sides can see how they ended.
+    const requests = [
+        ...incomingRequests.map(request => ({ request, incoming: true })),
+        ...outgoingRequests.map(request => ({ request, incoming: false })),
+    ].sort((a, b) => Number(isRequestOpen(b.request)) - Number(isRequestOpen(a.request)) || b.request.updatedAt.localeCompare(a.request.updatedAt));
+
+    return (
+        <div className="px-4 pb-4">
+            <div className="flex justify-between items-center mb-2">
+                <h2 className="text-lg font-semibold text-white">{t('moneyRequests')}</h2>
+                <button onClick={() => setIsModalOpen(true)} className="text-sm font-semibold text-indigo-400 hover:text-indigo-300">{t('requestMoney')}</button>
+            </div>
+            {requests.length > 0 ? (
+                <ul className="space-y-2">
+                    {requests.map(({ request, incoming }) => <MoneyRequestItem key={request.id} request={request} incoming={incoming} />)}
+                </ul>
+            ) : (
+                <p className="text-sm text-slate-500">{t('noMoneyRequests')}</p>
+            )}
+            <RequestMoneyModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} />
+        </div>
+    );
+};
+
+const PayeesSection = () => {
+    const { payees } = useContext(BankContext);
+    const { t } = useTranslation();
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [selectedPayeeId, setSelectedPayeeId] = useState<string | null>(null);
+
+    const openModal = (payeeId: string | null) => {
+        setSelectedPayeeId(payeeId);
+        setIsModalOpen(true);
+    };
+
+    return (
+        <div className="px-4 pb-4">
+            <div className="flex justify-between items-center mb-2">
+                <h2 className="text-lg font-semibold text-white">{t('payees')}</h2>
+                <button onClick={() => openModal(null)} className="text-sm font-semibold text-indigo-400 hover:text-indigo-300">{t('addPayee')}</button>
+            </div>
+            {payees.length > 0 ? (
+                <ul className="space-y-2">
+                    {payees.map(payee => <PayeeItem key={payee.id} payee={payee} onClick={() => openModal(payee.id)} />)}
+                </ul>
+            ) : (
+                <p className="text-sm text-slate-500">{t('noPayees')}</p>
+            )}
+            <PayeeModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} payee={payees.find(p => p.id === selectedPayeeId)} />
+        </div>
+    );
+};
+
+export const PaymentsScreen = () => {
+    const { scheduledTransfers, cancelScheduledTransfer } = useContext(BankContext);
+    const { t } = useTranslation();
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [editing, setEditing] = useState<ScheduledTransfer | null>(null);
+
+    const openModal = (scheduledTransfer: ScheduledTransfer | null) => {
+        setEditing(scheduledTransfer);
+        setIsModalOpen(true);
+    };
+
+    const handleCancel = (scheduledTransfer: ScheduledTransfer) => {
+        if (window.confirm(t('confirmCancelPayment', { name: scheduledTransfer.recipientName }))) {
+            cancelScheduledTransfer(scheduledTransfer.id);
+        }
+    };
+
+    return (
+        <div className="relative flex flex-col h-full">
+            <div className="p-4">
+                <button onClick={() => openModal(null)} className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 rounded-xl transition-all flex items-center justify-center gap-2">
+                    <SendIcon className="w-5 h-5" />
+                    {t('sendMoney')}
+                </button>
+            </div>
+            <MoneyRequestsSection />
+            <PayeesSection />
+            <div className="px-4">
+                <h2 className="text-lg font-semibold text-white">{t('scheduledPayments')}</h2>
+            </div>
+            <div className="p-4 flex-grow flex flex-col gap-4">
+                {scheduledTransfers.length > 0 ? (
+                    scheduledTransfers.map((st, i) => (
+                        <ScheduledTransferItem key={st.id} scheduledTransfer={st} index={i} onEdit={() => openModal(st)} onCancel={() => handleCancel(st)} />
+                    ))
+                ) : (
+                    <div className="flex-grow flex flex-col items-center justify-center text-slate-500 gap-4">
+                        <CalendarIcon className="w-16 h-16" />
+                        <p>{t('noScheduledPayments')}</p>
+                        <p className="text-sm">{t('schedulePaymentHint')}</p>
+                    </div>
+                )}
+            </div>
+            <TransferModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} scheduledTransfer={editing} />
+        </div>
+    );
+};
@@ -0,0 +1,86 @@
+import React, { useState, useContext, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BankContext } from '../App';
+import { useTranslation } from '../hooks/useTranslation';
+import { DEFAULT_CURRENCY, fromMajor } from '../services/money';
+import { createIdempotencyKey } from '../services/idempotency';
+
+interface RequestMoneyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const RequestMoneyModal: React.FC<RequestMoneyModalProps> = ({ isOpen, onClose }) => {
+  const { currentUser, payees, requestMoney } = useContext(BankContext);
+  const { t } = useTranslation();
+  const currency = currentUser?.balance.currency ?? DEFAULT_CURRENCY;
+  const [payer, setPayer] = useState('');
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // One key per opened form, so a double submit cannot send the request twice.
+  const idempotencyKey = useRef(createIdempotencyKey());
+
+  useEffect(() => {
+    if (isOpen) {
+        setPayer('');
+        setAmount('');
+        setNote('');
+        setError(null);
+        idempotencyKey.current = createIdempotencyKey();
+    }
+  }, [isOpen]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = requestMoney(payer.trim(), fromMajor(parseFloat(amount) || 0, currency), note, idempotencyKey.current);
+    if (result.success) onClose();
+    else setError(result.message);
+  };
+
+  const inputClass = "w-full bg-slate-700 border border-slate-600 rounded-xl px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ y: 50, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 50, opacity: 0 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+            className="bg-slate-800 w-full max-w-md max-h-[90vh] rounded-3xl flex flex-col overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <header className="p-4 border-b border-slate-700 flex items-center justify-between flex-shrink-0">
+              <h2 className="text-lg font-bold text-white">{t('requestMoney')}</h2>
+              <button onClick={onClose} className="text-slate-400 hover:text-white text-2xl">&times;</button>
+            </header>
+
+            <form onSubmit={handleSubmit} className="p-6 text-sm space-y-3 overflow-y-auto">
+                <label className="block text-slate-300">
+                    {t('requestFrom')}
+                    <input value={payer} onChange={(e) => setPayer(e.target.value)} list="request-payees" placeholder={t('recipientPlaceholder')} className={`${inputClass} mt-1`} />
+                    <datalist id="request-payees">
+                        {payees.map(payee => <option key={payee.id} value={payee.nickname} />)}
+                    </datalist>
+                </label>
+                <label className="block text-slate-300">
+                    {t('amount')} ({currency})
+                    <input type="number" min="0" value={amount} onChange={(e) => setAmount(e.target.value)} className={`${inputClass} mt-1`} />
+                </label>
+                <label className="block text-slate-300">
+                    {t('requestNote')}
+                    <input value={note} onChange={(e) => setNote(e.target.value)} placeholder={t('requestNotePlaceholder')} className={`${inputClass} mt-1`} />
+                </label>
+                {error && <p className="text-xs text-red-400">{error}</p>}
+                <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 rounded-xl transition-all">{t('sendRequest')}</button>
+            </form>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,175 @@
+import React, { useState, useContext, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BankContext } from '../App';
+import { SavingsGoal } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import { DEFAULT_CURRENCY, fromMajor, toMajor } from '../services/money';
+import { GoalFrequency, getGoalProgress } from '../services/savingsGoals';
+
+interface SavingsGoalModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // When set, the modal manages this goal instead of creating a new one.
+  goal?: SavingsGoal | null;
+}
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const emptyForm = () => ({ name: '', targetAmount: '', targetDate: '', autoAmount: '', autoFrequency: 'none' as GoalFrequency | 'none' });
+
+export const SavingsGoalModal: React.FC<SavingsGoalModalProps> = ({ isOpen, onClose, goal }) => {
+  const { currentUser, availableSavings, createSavingsGoal, contributeToGoal, withdrawFromGoal, setGoalAutoContribution, closeSavingsGoal } = useContext(BankContext);
+  const { t, formatMoney } = useTranslation();
+  const currency = currentUser?.balance.currency ?? DEFAULT_CURRENCY;
+  const [formData, setFormData] = useState(emptyForm);
+  const [moveAmount, setMoveAmount] = useState('');
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+        setFormData(goal?.autoContribution
+            ? { ...emptyForm(), autoAmount: String(toMajor(goal.autoContribution.amount)), autoFrequency: goal.autoContribution.frequency }
+            : emptyForm());
+        setMoveAmount('');
+        setMessage(null);
+    }
+  }, [isOpen, goal?.id]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const autoContribution = () => formData.autoFrequency === 'none'
+    ? undefined
+    : { amount: fromMajor(parseFloat(formData.autoAmount) || 0, currency), frequency: formData.autoFrequency };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = createSavingsGoal({
+        name: formData.name,
+        targetAmount: fromMajor(parseFloat(formData.targetAmount) || 0, currency),
+        targetDate: formData.targetDate || undefined,
+        autoContribution: autoContribution(),
+    });
+    if (result.success) onClose();
+    else setMessage({ success: false, text: result.message });
+  };
+
+  const handleMove = (direction: 'in' | 'out') => {
+    if (!goal) return;
+    const amount = fromMajor(parseFloat(moveAmount) || 0, currency);
+    const result = direction === 'in' ? contributeToGoal(goal.id, amount) : withdrawFromGoal(goal.id, amount);
+    setMessage({ success: result.success, text: result.message });
+    if (result.success) setMoveAmount('');
+  };
+
+  const handleSaveSchedule = () => {
+    if (!goal) return;
+    const result = setGoalAutoContribution(goal.id, autoContribution() ?? null);
+    setMessage({ success: result.success, text: result.message });
+  };
+
+  const handleClose = () => {
+    if (goal && window.confirm(t('confirmCloseGoal'))) {
+        closeSavingsGoal(goal.id);
+        onClose();
+    }
+  };
+
+  const inputClass = "w-full bg-slate-700 border border-slate-600 rounded-xl px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500";
+  const progress = goal ? getGoalProgress(goal) : null;
+
+  const scheduleFields = (
+    <div className="grid grid-cols-2 gap-2">
+        <select name="autoFrequency" value={formData.autoFrequency} onChange={handleChange} aria-label={t('autoContribution')} className={inputClass}>
+            <option value="none">{t('noAutoContribution')}</option>
+            <option value="weekly">{t('frequencyWeekly')}</option>
+            <option value="monthly">{t('frequencyMonthly')}</option>
+        </select>
+        <input name="autoAmount" type="number" min="0" value={formData.autoAmount} onChange={handleChange} disabled={formData.autoFrequency === 'none'} placeholder={`${t('amount')} (${currency})`} className={`${inputClass} disabled:opacity-50`} />
+    </div>
+  );
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ y: 50, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 50, opacity: 0 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+            className="bg-slate-800 w-full max-w-md max-h-[90vh] rounded-3xl flex flex-col overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <header className="p-4 border-b border-slate-700 flex items-center justify-between flex-shrink-0">
+              <h2 className="text-lg font-bold text-white">{goal ? goal.name : t('newGoal')}</h2>
+              <button onClick={onClose} className="text-slate-400 hover:text-white text-2xl">&times;</button>
+            </header>
+
+            <div className="p-6 text-sm space-y-4 overflow-y-auto">
+                {goal && progress ? (
+                    <>
+                        <div className="bg-slate-700/50 p-4 rounded-xl space-y-2">
+                            <p className="text-white font-semibold">{t('savedOfTarget', { saved: formatMoney(goal.saved), target: formatMoney(goal.targetAmount) })}</p>
+                            <div className="w-full bg-slate-600 rounded-full h-2">
+                                <div className="bg-green-500 h-2 rounded-full" style={{ width: `${progress.percent}%` }} />
+                            </div>
+                            {progress.isReached
+                                ? <p className="text-xs text-green-400">{t('goalReached')}</p>
+                                : goal.targetDate && progress.neededPerMonth && <p className="text-xs text-slate-400">{t('neededPerMonth', { amount: formatMoney(progress.neededPerMonth), date: formatDate(goal.targetDate) })}</p>}
+                        </div>
+
+                        {message && <p className={`text-xs ${message.success ? 'text-green-400' : 'text-red-400'}`}>{message.text}</p>}
+
+                        <div className="space-y-2">
+                            {availableSavings && <p className="text-xs text-slate-400">{t('availableSavings', { amount: formatMoney(availableSavings) })}</p>}
+                            <input type="number" min="0" value={moveAmount} onChange={(e) => setMoveAmount(e.target.value)} placeholder={`${t('amount')} (${currency})`} className={inputClass} />
+                            <div className="flex gap-2">
+                                <button onClick={() => handleMove('in')} className="flex-1 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 rounded-xl transition-colors">{t('addToGoal')}</button>
+                                <button onClick={() => handleMove('out')} className="flex-1 bg-slate-700 hover:bg-slate-600 text-white font-semibold py-2 rounded-xl transition-colors">{t('takeFromGoal')}</button>
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <h3 className="font-semibold text-slate-300">{t('autoContribution')}</h3>
+                            {scheduleFields}
+                            {goal.autoContribution && <p className="text-xs text-slate-400">{t('nextContribution', { date: formatDate(goal.autoContribution.nextRunDate) })}</p>}
+                            {goal.lastRunMessage && <p className="text-xs text-slate-500">{goal.lastRunMessage}</p>}
+                            <button onClick={handleSaveSchedule} className="w-full bg-slate-700 hover:bg-slate-600 text-white font-semibold py-2 rounded-xl transition-colors">{t('saveChanges')}</button>
+                        </div>
+
+                        <button onClick={handleClose} className="w-full bg-red-500/10 hover:bg-red-500/20 text-red-400 font-semibold py-2 rounded-xl transition-colors">{t('closeGoal')}</button>
+                    </>
+                ) : (
+                    <form onSubmit={handleCreate} className="space-y-3">
+                        <label className="block text-slate-300">
+                            {t('goalName')}
+                            <input name="name" value={formData.name} onChange={handleChange} placeholder={t('goalNamePlaceholder')} className={`${inputClass} mt-1`} />
+                        </label>
+                        <label className="block text-slate-300">
+                            {t('targetAmount')} ({currency})
+                            <input name="targetAmount" type="number" min="0" value={formData.targetAmount} onChange={handleChange} className={`${inputClass} mt-1`} />
+                        </label>
+                        <label className="block text-slate-300">
+                            {t('targetDateOptional')}
+                            <input name="targetDate" type="date" value={formData.targetDate} onChange={handleChange} className={`${inputClass} mt-1`} />
+                        </label>
+                        <div className="space-y-1 text-slate-300">
+                            <p>{t('autoContribution')}</p>
+                            {scheduleFields}
+                        </div>
+                        {message && <p className="text-xs text-red-400">{message.text}</p>}
+                        <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 rounded-xl transition-all">{t('createGoal')}</button>
+                    </form>
+                )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
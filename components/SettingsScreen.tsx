@@ -1,12 +1,87 @@
-import React, { useContext } from 'react';
+import React, { useContext, useState } from 'react';
 import { motion } from 'framer-motion';
 import { BankContext } from '../App';
 import { LogoutIcon } from './icons';
 import { useTranslation } from '../hooks/useTranslation';
+import { Money, fromMajor, toMajor } from '../services/money';
+import { TransferLimitUsage } from '../services/transferLimits';
+import { ApplicationsModal } from './ApplicationsModal';
+
+type EditableLimit = 'perTransaction' | 'daily' | 'monthly' | 'newPayeePerTransaction';
+
+const EDITABLE_LIMITS: EditableLimit[] = ['perTransaction', 'daily', 'monthly', 'newPayeePerTransaction'];
+
+const toInputs = (usage: TransferLimitUsage) =>
+    Object.fromEntries(EDITABLE_LIMITS.map(key => [key, String(toMajor(usage.limits[key]))])) as Record<EditableLimit, string>;
+
+const UsageBar = ({ label, used, limit }: { label: string; used: Money; limit: Money }) => {
+    const { formatMoney } = useTranslation();
+    const percentage = Math.min((used.amount / limit.amount) * 100, 100);
+    return (
+        <div>
+            <div className="flex justify-between text-xs text-slate-400 mb-1">
+                <span>{label}</span>
+                <span className="text-slate-300">{formatMoney(used)} / {formatMoney(limit)}</span>
+            </div>
+            <div className="w-full bg-slate-700 rounded-full h-2">
+                <div className="bg-indigo-500 h-2 rounded-full" style={{ width: `${percentage}%` }} />
+            </div>
+        </div>
+    );
+};
+
+const TransferLimitsPanel = ({ usage }: { usage: TransferLimitUsage }) => {
+    const { setTransferLimits } = useContext(BankContext);
+    const { t } = useTranslation();
+    const [inputs, setInputs] = useState(() => toInputs(usage));
+    const [message, setMessage] = useState('');
+    const currency = usage.limits.daily.currency;
+
+    const labels: Record<EditableLimit, string> = {
+        perTransaction: t('perTransferLimit'),
+        daily: t('dailyLimit'),
+        monthly: t('monthlyLimit'),
+        newPayeePerTransaction: t('newPayeeLimit', { hours: String(usage.limits.newPayeeCoolingOffHours) }),
+    };
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        const changes = Object.fromEntries(EDITABLE_LIMITS.map(key => [key, fromMajor(parseFloat(inputs[key]) || 0, currency)]));
+        setMessage(setTransferLimits(changes).message);
+    };
+
+    return (
+        <form onSubmit={handleSave} className="bg-slate-800 p-4 rounded-2xl space-y-4">
+            <h3 className="text-sm font-medium text-slate-300">{t('transferLimits')}</h3>
+            <UsageBar label={t('sentToday')} used={usage.sentToday} limit={usage.limits.daily} />
+            <UsageBar label={t('sentThisMonth')} used={usage.sentThisMonth} limit={usage.limits.monthly} />
+            <div className="grid grid-cols-2 gap-3">
+                {EDITABLE_LIMITS.map(key => (
+                    <div key={key}>
+                        <label htmlFor={`limit-${key}`} className="block text-xs text-slate-400 mb-1">{labels[key]} ({currency})</label>
+                        <input
+                            id={`limit-${key}`}
+                            type="number"
+                            min="0"
+                            value={inputs[key]}
+                            onChange={(e) => setInputs(prev => ({ ...prev, [key]: e.target.value }))}
+                            className="w-full bg-slate-700 border border-slate-600 rounded-xl px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                    </div>
+                ))}
+            </div>
+            {message && <p className="text-xs text-slate-400">{message}</p>}
+            <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 rounded-xl transition-all text-sm">
+                {t('saveLimits')}
+            </button>
+        </form>
+    );
+};
 
 export const SettingsScreen = () => {
-    const { currentUser, logout } = useContext(BankContext);
+    const { currentUser, logout, transferLimitUsage, applications } = useContext(BankContext);
     const { t, language, setLanguage } = useTranslation();
+    const [isApplicationsOpen, setIsApplicationsOpen] = useState(false);
 
     return (
         <div className="p-4 flex flex-col gap-6 text-white">
@@ -33,6 +108,13 @@ export const SettingsScreen = () => {
                 </select>
             </div>
 
+            {transferLimitUsage && <TransferLimitsPanel usage={transferLimitUsage} />}
+
+            <button onClick={() => setIsApplicationsOpen(true)} className="bg-slate-800 hover:bg-slate-700 p-4 rounded-2xl flex justify-between items-center text-sm font-medium text-slate-300 transition-colors">
+                <span>{t('myApplications')}</span>
+                <span className="text-slate-500">{applications.length}</span>
+            </button>
+
             <motion.button
                 onClick={logout}
                 whileHover={{ scale: 1.02 }}
@@ -42,6 +124,8 @@ export const SettingsScreen = () => {
                 <LogoutIcon className="w-5 h-5"/>
                 {t('signOut')}
             </motion.button>
+
+            <ApplicationsModal isOpen={isApplicationsOpen} onClose={() => setIsApplicationsOpen(false)} />
         </div>
     );
 };
\ No newline at end of file
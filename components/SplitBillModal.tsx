@@ -0,0 +1,184 @@
+import React, { useState, useContext, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BankContext } from '../App';
+import { Card, Transaction } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import { DEFAULT_CURRENCY, allocate, fromMajor, isPositive } from '../services/money';
+import { convert } from '../services/fx';
+import { BillSplitShareView } from '../services/billSplits';
+import { createIdempotencyKey } from '../services/idempotency';
+
+interface SplitBillModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  card: Card;
+  tx: Transaction | null;
+}
+
+const SplitShareItem: React.FC<{ share: BillSplitShareView }> = ({ share }) => {
+  const { t, formatMoney } = useTranslation();
+  const statusLabel = {
+      pending: t('requestStatusPending'),
+      partiallyPaid: t('requestStatusPartiallyPaid'),
+      paid: t('requestStatusPaid'),
+      declined: t('requestStatusDeclined'),
+      cancelled: t('requestStatusCancelled'),
+  }[share.status];
+  const statusClass = share.status === 'paid' ? 'text-green-400' : share.status === 'pending' || share.status === 'partiallyPaid' ? 'text-amber-400' : 'text-slate-500';
+
+  return (
+      <li className="flex justify-between items-center py-2">
+          <div>
+              <p className="font-semibold text-white">{share.name}</p>
+              {share.status === 'partiallyPaid' && <p className="text-xs text-slate-400">{t('requestOutstanding', { amount: formatMoney(share.outstanding) })}</p>}
+          </div>
+          <div className="text-right">
+              <p className="font-semibold text-white">{formatMoney(share.amount)}</p>
+              <p className={`text-xs ${statusClass}`}>{statusLabel}</p>
+          </div>
+      </li>
+  );
+};
+
+export const SplitBillModal: React.FC<SplitBillModalProps> = ({ isOpen, onClose, card, tx }) => {
+  const { currentUser, payees, billSplits, splitCardTransaction } = useContext(BankContext);
+  const { t, formatMoney } = useTranslation();
+  const currency = currentUser?.balance.currency ?? DEFAULT_CURRENCY;
+  const [method, setMethod] = useState<'equal' | 'custom'>('equal');
+  const [includeSelf, setIncludeSelf] = useState(true);
+  // Selected payees by account number, with the amount typed for custom splits.
+  const [selected, setSelected] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const idempotencyKey = useRef(createIdempotencyKey());
+
+  useEffect(() => {
+    if (isOpen) {
+        setMethod('equal');
+        setIncludeSelf(true);
+        setSelected({});
+        setError(null);
+        idempotencyKey.current = createIdempotencyKey();
+    }
+  }, [isOpen, tx?.id]);
+
+  const split = tx ? billSplits.find(s => s.transactionId === tx.id) : undefined;
+  const total = tx ? convert(tx.amount, currency) : undefined;
+  const accounts = Object.keys(selected);
+  // What each friend pays; any odd cent falls to the user, as in the split itself.
+  const allocation = total && accounts.length > 0 ? allocate(total, new Array(accounts.length + (includeSelf ? 1 : 0)).fill(1)) : [];
+  const equalShare = allocation[allocation.length - 1];
+
+  const toggle = (accountNumber: string) => {
+    setSelected(current => {
+        const next = { ...current };
+        if (accountNumber in next) delete next[accountNumber];
+        else next[accountNumber] = '';
+        return next;
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tx) return;
+    const result = splitCardTransaction({
+        cardNumber: card.cardNumber,
+        transactionId: tx.id,
+        method,
+        includeSelf,
+        participants: accounts.map(accountNumber => ({
+            payee: accountNumber,
+            amount: method === 'custom' ? fromMajor(parseFloat(selected[accountNumber]) || 0, currency) : undefined,
+        })),
+    }, idempotencyKey.current);
+    if (!result.success) setError(result.message);
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && tx && (
+        <motion.div
+          initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ y: 50, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 50, opacity: 0 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+            className="bg-slate-800 w-full max-w-md max-h-[90vh] rounded-3xl flex flex-col overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <header className="p-4 border-b border-slate-700 flex items-center justify-between flex-shrink-0">
+              <div>
+                <h2 className="text-lg font-bold text-white">{t('splitBill')}</h2>
+                <p className="text-xs text-slate-400">{tx.description} · {formatMoney(tx.amount)}</p>
+              </div>
+              <button onClick={onClose} className="text-slate-400 hover:text-white text-2xl">&times;</button>
+            </header>
+
+            {split ? (
+                <div className="p-6 text-sm space-y-3 overflow-y-auto">
+                    <div className="flex justify-between text-slate-300">
+                        <p>{t('splitSettled', { settled: String(split.settledCount), count: String(split.shares.length) })}</p>
+                        <p>{t('splitYourShare')}: <span className="font-semibold text-white">{formatMoney(split.ownShare)}</span></p>
+                    </div>
+                    <ul className="divide-y divide-slate-700">
+                        {split.shares.map(share => <SplitShareItem key={share.requestId} share={share} />)}
+                    </ul>
+                    {isPositive(split.outstanding) && <p className="text-xs text-amber-400">{t('splitOutstanding', { amount: formatMoney(split.outstanding) })}</p>}
+                </div>
+            ) : (
+                <form onSubmit={handleSubmit} className="p-6 text-sm space-y-3 overflow-y-auto">
+                    <div className="grid grid-cols-2 gap-2">
+                        {(['equal', 'custom'] as const).map(option => (
+                            <button
+                                key={option}
+                                type="button"
+                                onClick={() => setMethod(option)}
+                                className={`py-2 rounded-xl font-semibold transition-colors ${method === option ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                            >
+                                {option === 'equal' ? t('splitEqually') : t('splitCustom')}
+                            </button>
+                        ))}
+                    </div>
+                    {method === 'equal' && (
+                        <label className="flex items-center gap-2 text-slate-300">
+                            <input type="checkbox" checked={includeSelf} onChange={(e) => setIncludeSelf(e.target.checked)} className="accent-indigo-500" />
+                            {t('splitIncludeMe')}
+                        </label>
+                    )}
+                    <p className="text-slate-300">{t('splitWith')}</p>
+                    {payees.length > 0 ? (
+                        <ul className="space-y-2">
+                            {payees.map(payee => (
+                                <li key={payee.id} className="flex items-center gap-2">
+                                    <label className="flex-1 flex items-center gap-2 text-white">
+                                        <input type="checkbox" checked={payee.accountNumber in selected} onChange={() => toggle(payee.accountNumber)} className="accent-indigo-500" />
+                                        {payee.nickname}
+                                    </label>
+                                    {method === 'custom' && payee.accountNumber in selected && (
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            value={selected[payee.accountNumber]}
+                                            onChange={(e) => setSelected(current => ({ ...current, [payee.accountNumber]: e.target.value }))}
+                                            aria-label={t('amount')}
+                                            className="w-28 bg-slate-700 border border-slate-600 rounded-xl px-3 py-1 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                        />
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="text-slate-500">{t('splitNoPayees')}</p>
+                    )}
+                    {method === 'equal' && equalShare && <p className="text-xs text-slate-400">{t('splitEachPays', { amount: formatMoney(equalShare) })}</p>}
+                    {error && <p className="text-xs text-red-400">{error}</p>}
+                    <button type="submit" disabled={accounts.length === 0} className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 rounded-xl transition-all disabled:opacity-50">{t('splitSendRequests')}</button>
+                </form>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Card, CardStatement } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import { getNextStatementDate, getStatements } from '../services/statements';
+
+interface StatementArchiveModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  card: Card;
+}
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+const DetailRow = ({ label, value, strong = false }: { label: string; value: string; strong?: boolean }) => (
+    <p className={`flex justify-between ${strong ? 'font-bold text-white' : ''}`}><span>{label}</span><span>{value}</span></p>
+);
+
+const StatementItem: React.FC<{ statement: CardStatement; isExpanded: boolean; onToggle: () => void }> = ({ statement, isExpanded, onToggle }) => {
+    const { t, formatMoney } = useTranslation();
+    return (
+        <li className="bg-slate-700/40 rounded-xl">
+            <button onClick={onToggle} className="w-full p-3 flex justify-between items-center text-left">
+                <div>
+                    <p className="font-semibold text-white">{t('statementPeriod', { start: formatDate(statement.periodStart), end: formatDate(statement.periodEnd) })}</p>
+                    <p className="text-xs text-slate-400">{t('paymentDueDate')}: {formatDate(statement.dueDate)}</p>
+                </div>
+                <p className="font-bold text-white">{formatMoney(statement.closingBalance)}</p>
+            </button>
+            {isExpanded && (
+                <div className="px-3 pb-3 text-xs text-slate-300 space-y-1">
+                    <DetailRow label={t('openingBalance')} value={formatMoney(statement.openingBalance)} />
+                    <DetailRow label={t('purchases')} value={`+${formatMoney(statement.purchases)}`} />
+                    <DetailRow label={t('paymentsCredits')} value={`-${formatMoney(statement.payments)}`} />
+                    <DetailRow label={t('interestCharged')} value={`+${formatMoney(statement.interest)}`} />
+                    <DetailRow label={t('feesCharged')} value={`+${formatMoney(statement.fees)}`} />
+                    <DetailRow label={t('closingBalance')} value={formatMoney(statement.closingBalance)} strong />
+                    <DetailRow label={t('minimumDue')} value={formatMoney(statement.minimumDue)} />
+                </div>
+            )}
+        </li>
+    );
+};
+
+export const StatementArchiveModal: React.FC<StatementArchiveModalProps> = ({ isOpen, onClose, card }) => {
+  const { t } = useTranslation();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const statements = getStatements(card);
+
+  useEffect(() => {
+    if (isOpen) setExpandedId(null);
+  }, [isOpen]);
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ y: 50, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 50, opacity: 0 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+            className="bg-slate-800 w-full max-w-md max-h-[90vh] rounded-3xl flex flex-col overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <header className="p-4 border-b border-slate-700 flex items-center justify-between flex-shrink-0">
+              <h2 className="text-lg font-bold text-white">{t('pastStatements')}</h2>
+              <button onClick={onClose} className="text-slate-400 hover:text-white text-2xl">&times;</button>
+            </header>
+
+            <div className="p-6 text-sm overflow-y-auto">
+                <p className="text-center text-slate-400 mb-4">
+                    {t('forCardEndingIn')} <span className="font-mono text-slate-300">{card.cardNumber.slice(-4)}</span>
+                    {' · '}{t('nextStatementOn', { date: formatDate(getNextStatementDate(card).toISOString()) })}
+                </p>
+                {statements.length > 0 ? (
+                    <ul className="space-y-2">
+                        {statements.map(statement => (
+                            <StatementItem
+                                key={statement.id}
+                                statement={statement}
+                                isExpanded={expandedId === statement.id}
+                                onToggle={() => setExpandedId(expandedId === statement.id ? null : statement.id)}
+                            />
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-center text-slate-500 py-6">{t('noStatements')}</p>
+                )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -1,7 +1,12 @@
-import React from 'react';
+import React, { useState, useContext, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { BankContext } from '../App';
 import { Card } from '../types';
 import { useTranslation } from '../hooks/useTranslation';
+import { fromMajor, isPositive } from '../services/money';
+import { CardPaymentOption, resolveCardPaymentAmount } from '../services/cardPayments';
+import { getAccruedCardInterest, isInGracePeriod } from '../services/interest';
+import { createIdempotencyKey } from '../services/idempotency';
 
 interface StatementSummaryModalProps {
   isOpen: boolean;
@@ -9,7 +14,6 @@ interface StatementSummaryModalProps {
   card: Card;
 }
 
-const formatCurrency = (amount: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
 const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
 
 const InfoRow = ({ label, value }: { label: string; value: string }) => (
@@ -19,8 +23,41 @@ const InfoRow = ({ label, value }: { label: string; value: string }) => (
     </div>
 );
 
+const PAYMENT_OPTIONS: CardPaymentOption[] = ['minimum', 'statement', 'full', 'custom'];
+
 export const StatementSummaryModal: React.FC<StatementSummaryModalProps> = ({ isOpen, onClose, card }) => {
-  const { t } = useTranslation();
+  const { currentUser, payCardBalance } = useContext(BankContext);
+  const { t, formatMoney } = useTranslation();
+  const [option, setOption] = useState<CardPaymentOption>('statement');
+  const [customAmount, setCustomAmount] = useState('');
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+  // One key per payment, so a double click cannot pay the card twice.
+  const idempotencyKey = useRef(createIdempotencyKey());
+
+  useEffect(() => {
+    if (isOpen) {
+        setOption('statement');
+        setCustomAmount('');
+        setResult(null);
+        idempotencyKey.current = createIdempotencyKey();
+    }
+  }, [isOpen]);
+
+  const optionLabels: Record<CardPaymentOption, string> = {
+    minimum: t('payMinimum'),
+    statement: t('payStatement'),
+    full: t('payFull'),
+    custom: t('payCustom'),
+  };
+  const amount = resolveCardPaymentAmount(card, option, fromMajor(parseFloat(customAmount) || 0, card.creditBalance.currency));
+
+  const handlePay = () => {
+    if (!amount) return;
+    const paymentResult = payCardBalance({ cardNumber: card.cardNumber, option, amount: option === 'custom' ? amount : undefined }, idempotencyKey.current);
+    setResult(paymentResult);
+    if (paymentResult.success) idempotencyKey.current = createIdempotencyKey();
+  };
+
   return (
     <AnimatePresence>
       {isOpen && (
@@ -32,7 +69,7 @@ export const StatementSummaryModal: React.FC<StatementSummaryModalProps> = ({ is
           <motion.div
             initial={{ y: 50, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 50, opacity: 0 }}
             transition={{ type: 'spring', damping: 25, stiffness: 200 }}
-            className="bg-slate-800 w-full max-w-md rounded-3xl flex flex-col overflow-hidden"
+            className="bg-slate-800 w-full max-w-md max-h-[90vh] rounded-3xl flex flex-col overflow-hidden"
             onClick={(e) => e.stopPropagation()}
           >
             <header className="p-4 border-b border-slate-700 flex items-center justify-between flex-shrink-0">
@@ -40,14 +77,52 @@ export const StatementSummaryModal: React.FC<StatementSummaryModalProps> = ({ is
               <button onClick={onClose} className="text-slate-400 hover:text-white text-2xl">&times;</button>
             </header>
             
-            <div className="p-6 text-sm">
+            <div className="p-6 text-sm overflow-y-auto">
                 <p className="text-center text-slate-400 mb-4">
                     {t('forCardEndingIn')} <span className="font-mono text-slate-300">{card.cardNumber.slice(-4)}</span>
                 </p>
                 <div className="mb-4">
-                    <InfoRow label={t('statementBalance')} value={formatCurrency(card.statementBalance)} />
-                    <InfoRow label={t('minimumPaymentDue')} value={formatCurrency(card.minimumPayment)} />
+                    <InfoRow label={t('statementBalance')} value={formatMoney(card.statementBalance)} />
+                    <InfoRow label={t('minimumPaymentDue')} value={formatMoney(card.minimumPayment)} />
                     <InfoRow label={t('paymentDueDate')} value={formatDate(card.paymentDueDate)} />
+                    <InfoRow label={t('currentBalance')} value={formatMoney(card.creditBalance)} />
+                    <InfoRow label={t('interestAccrued')} value={formatMoney(getAccruedCardInterest(card))} />
+                    {isInGracePeriod(card) && <p className="text-xs text-green-400 pt-2">{t('gracePeriodActive')}</p>}
+                </div>
+
+                <div className="mb-4 space-y-2">
+                    <h4 className="font-bold text-sm text-slate-200">{t('payCard')}</h4>
+                    <div className="grid grid-cols-2 gap-2">
+                        {PAYMENT_OPTIONS.map(o => (
+                            <button
+                                key={o}
+                                onClick={() => setOption(o)}
+                                className={`p-2 rounded-xl text-left border transition-all ${option === o ? 'border-indigo-500 bg-indigo-500/10' : 'border-slate-700 bg-slate-700/30 hover:border-slate-500'}`}
+                            >
+                                <p className="text-xs text-slate-400">{optionLabels[o]}</p>
+                                {o !== 'custom' && <p className="font-semibold text-white">{formatMoney(resolveCardPaymentAmount(card, o)!)}</p>}
+                            </button>
+                        ))}
+                    </div>
+                    {option === 'custom' && (
+                        <input
+                            type="number"
+                            min="0"
+                            value={customAmount}
+                            onChange={(e) => setCustomAmount(e.target.value)}
+                            placeholder="e.g., 100"
+                            className="w-full bg-slate-800 border border-slate-700 rounded-xl px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                    )}
+                    {currentUser && <p className="text-xs text-slate-400">{t('payFromSavings', { balance: formatMoney(currentUser.balance) })}</p>}
+                    {result && <p className={`text-xs ${result.success ? 'text-green-400' : 'text-red-400'}`}>{result.message}</p>}
+                    <button
+                        onClick={handlePay}
+                        disabled={!amount || !isPositive(amount)}
+                        className="w-full bg-green-600 hover:bg-green-700 text-white font-bold py-3 rounded-xl transition-all disabled:opacity-50"
+                    >
+                        {t('payNow', { amount: amount ? formatMoney(amount) : '' })}
+                    </button>
                 </div>
 
                 <div className="bg-slate-700/50 p-3 rounded-xl text-xs text-slate-300 space-y-1">
@@ -55,7 +130,7 @@ export const StatementSummaryModal: React.FC<StatementSummaryModalProps> = ({ is
                     <p>{t('lateFeeWarning')}</p>
                 </div>
 
-                <button onClick={onClose} className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 rounded-xl transition-all mt-6">
+                <button onClick={onClose} className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 rounded-xl transition-all mt-4">
                     {t('gotIt')}
                 </button>
             </div>
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Transaction } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import { getTransactionStatus } from '../services/transactionStatus';
+
+const STATUS_STYLES = {
+    pending: 'bg-amber-500/10 text-amber-300',
+    reversed: 'bg-slate-600/40 text-slate-300',
+    failed: 'bg-red-500/10 text-red-300',
+};
+
+// Posted transactions are the normal case and get no badge.
+export const TransactionStatusBadge = ({ tx }: { tx: Transaction }) => {
+    const { t } = useTranslation();
+    const status = getTransactionStatus(tx);
+    if (status === 'posted') return null;
+
+    const label = { pending: t('transactionPending'), reversed: t('transactionReversed'), failed: t('transactionFailed') }[status];
+    return <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>{label}</span>;
+};
+
+// Amount styling shared by transaction lists: struck through when no money moved.
+export const amountClassForStatus = (tx: Transaction, postedClass: string) => {
+    switch (getTransactionStatus(tx)) {
+        case 'pending': return 'text-amber-300';
+        case 'reversed':
+        case 'failed': return 'text-slate-500 line-through';
+        default: return postedClass;
+    }
+};
@@ -0,0 +1,243 @@
+import React, { useState, useContext, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BankContext } from '../App';
+import { ScheduledTransfer, TransferFrequency } from '../types';
+import { CheckCircleIcon, XCircleIcon } from './icons';
+import { useTranslation } from '../hooks/useTranslation';
+import { CurrencyCode, DEFAULT_CURRENCY, fromMajor, toMajor, isPositive } from '../services/money';
+import { SUPPORTED_CURRENCIES } from '../services/fx';
+import { createIdempotencyKey } from '../services/idempotency';
+import { TransferRuleCode } from '../services/transferLimits';
+import { toDateInput } from '../services/dateUtils';
+
+interface TransferModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // When set, the form edits this scheduled payment instead of creating a new one.
+  scheduledTransfer?: ScheduledTransfer | null;
+}
+
+type TransferStatus = 'editing' | 'success' | 'failed';
+
+const LIMIT_REASON_KEYS: Record<TransferRuleCode, 'limitReasonPerTransaction' | 'limitReasonDaily' | 'limitReasonMonthly' | 'limitReasonNewPayee' | 'limitReasonVelocity'> = {
+    PER_TRANSACTION_LIMIT: 'limitReasonPerTransaction',
+    DAILY_LIMIT: 'limitReasonDaily',
+    MONTHLY_LIMIT: 'limitReasonMonthly',
+    NEW_PAYEE_LIMIT: 'limitReasonNewPayee',
+    VELOCITY_LIMIT: 'limitReasonVelocity',
+};
+
+const emptyForm = (currency: CurrencyCode) => ({
+    recipient: '',
+    amount: '',
+    currency,
+    date: toDateInput(new Date()),
+    frequency: 'once' as TransferFrequency,
+    endDate: '',
+    fromAccount: '', // Empty means the main account
+});
+
+export const TransferModal: React.FC<TransferModalProps> = ({ isOpen, onClose, scheduledTransfer }) => {
+  const { currentUser, accounts, payees, transferMoney, quoteTransfer, scheduleTransfer, updateScheduledTransfer } = useContext(BankContext);
+  const { t, formatMoney } = useTranslation();
+  const homeCurrency = currentUser?.balance.currency ?? DEFAULT_CURRENCY;
+  const [formData, setFormData] = useState(() => emptyForm(homeCurrency));
+  const [status, setStatus] = useState<TransferStatus>('editing');
+  const [message, setMessage] = useState('');
+  const [reasonCode, setReasonCode] = useState<TransferRuleCode | undefined>();
+  // One key per opened form, so a double submit cannot send the money twice.
+  const idempotencyKey = useRef(createIdempotencyKey());
+
+  useEffect(() => {
+    if (isOpen) {
+        setFormData(scheduledTransfer ? {
+            recipient: scheduledTransfer.recipientIdentifier,
+            amount: String(toMajor(scheduledTransfer.amount)),
+            currency: scheduledTransfer.amount.currency,
+            date: toDateInput(new Date(scheduledTransfer.nextRunDate)),
+            frequency: scheduledTransfer.frequency,
+            endDate: scheduledTransfer.endDate ? toDateInput(new Date(scheduledTransfer.endDate)) : '',
+            fromAccount: '',
+        } : emptyForm(homeCurrency));
+        setStatus('editing');
+        setMessage('');
+        setReasonCode(undefined);
+        idempotencyKey.current = createIdempotencyKey();
+    }
+  }, [isOpen, scheduledTransfer, homeCurrency]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const amount = fromMajor(parseFloat(formData.amount) || 0, formData.currency);
+  const recipientIdentifier = formData.recipient.trim();
+
+  const isImmediate = !scheduledTransfer && formData.frequency === 'once' && formData.date === toDateInput(new Date());
+
+  // Previewed before confirming, so conversion rates and fees are never a surprise.
+  const quoted = recipientIdentifier && isPositive(amount) ? quoteTransfer(recipientIdentifier, amount, isImmediate ? formData.fromAccount || undefined : undefined) : undefined;
+  const quote = quoted?.quote;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const request = {
+        recipientIdentifier,
+        amount,
+        frequency: formData.frequency,
+        startDate: formData.date,
+        endDate: formData.frequency !== 'once' && formData.endDate ? formData.endDate : undefined,
+    };
+
+    if (isImmediate) {
+        const result = transferMoney(recipientIdentifier, amount, idempotencyKey.current, formData.fromAccount || undefined);
+        setMessage(result.message);
+        setReasonCode(result.reasonCode);
+        setStatus(result.success ? 'success' : 'failed');
+        return;
+    }
+    const result = scheduledTransfer ? updateScheduledTransfer(scheduledTransfer.id, request) : scheduleTransfer(request);
+    setMessage(result.message);
+    setStatus(result.success ? 'success' : 'failed');
+  };
+
+  const renderForm = () => (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <InputField name="recipient" label={t('recipient')} value={formData.recipient} onChange={handleChange} placeholder={t('recipientPlaceholder')} list="payee-names" />
+      <datalist id="payee-names">
+        {payees.map(payee => <option key={payee.id} value={payee.nickname} />)}
+      </datalist>
+      {quoted?.candidates && (
+        <div className="space-y-2">
+          <p className="text-xs text-amber-400">{t('recipientAmbiguous')}</p>
+          <div className="flex flex-wrap gap-2">
+            {quoted.candidates.map(candidate => (
+              <button type="button" key={candidate.nickname} onClick={() => setFormData(prev => ({ ...prev, recipient: candidate.nickname }))} className="bg-slate-700 hover:bg-slate-600 text-white text-xs font-semibold px-3 py-2 rounded-xl transition-colors">
+                {candidate.nickname} &middot; {candidate.accountEnding}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <div className="flex-grow">
+          <InputField name="amount" label={t('amount')} value={formData.amount} onChange={handleChange} type="number" placeholder="e.g., 50" />
+        </div>
+        <div>
+          <label htmlFor="currency" className="block text-sm font-medium text-slate-300 mb-1">{t('currency')}</label>
+          <select name="currency" id="currency" value={formData.currency} onChange={handleChange} className="bg-slate-800 border border-slate-700 rounded-xl px-3 py-3 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500">
+            {SUPPORTED_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+          </select>
+        </div>
+      </div>
+      {quote?.rate !== undefined && (
+        <div className="bg-slate-700/50 p-3 rounded-xl text-xs text-slate-300 space-y-1">
+          <h4 className="font-bold text-sm text-slate-200">{t('currencyConversion')}</h4>
+          <p className="flex justify-between"><span>{t('recipientGets')}</span><span className="font-semibold">{formatMoney(quote.creditAmount)}</span></p>
+          <p className="flex justify-between"><span>{t('exchangeRate')}</span><span className="font-semibold">1 {quote.debitAmount.currency} = {quote.rate.toFixed(4)} {quote.creditAmount.currency}</span></p>
+          <p className="flex justify-between"><span>{t('fxFee')}</span><span className="font-semibold">{formatMoney(quote.fee)}</span></p>
+          <p className="flex justify-between"><span>{t('totalDebited')}</span><span className="font-semibold text-white">{formatMoney(quote.totalDebit)}</span></p>
+          {!isImmediate && <p className="text-slate-400">{t('ratesMayChange')}</p>}
+        </div>
+      )}
+      {isImmediate && accounts.length > 1 && (
+        <div>
+          <label htmlFor="fromAccount" className="block text-sm font-medium text-slate-300 mb-1">{t('payFrom')}</label>
+          <select name="fromAccount" id="fromAccount" value={formData.fromAccount} onChange={handleChange} className="w-full bg-slate-800 border border-slate-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500">
+            {accounts.map((account, i) => (
+              <option key={account.accountNumber} value={i === 0 ? '' : account.accountNumber}>{account.type === 'main' ? t('mainAccount') : account.name} &middot; {formatMoney(account.balance)}</option>
+            ))}
+          </select>
+        </div>
+      )}
+      <InputField name="date" label={t('paymentDate')} value={formData.date} onChange={handleChange} type="date" />
+      <div>
+        <label className="block text-sm font-medium text-slate-300 mb-1">{t('frequency')}</label>
+        <select name="frequency" value={formData.frequency} onChange={handleChange} className="w-full bg-slate-800 border border-slate-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500">
+            <option value="once">{t('frequencyOnce')}</option>
+            <option value="weekly">{t('frequencyWeekly')}</option>
+            <option value="monthly">{t('frequencyMonthly')}</option>
+        </select>
+      </div>
+      {formData.frequency !== 'once' && (
+        <InputField name="endDate" label={t('endDateOptional')} value={formData.endDate} onChange={handleChange} type="date" required={false} />
+      )}
+      <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 rounded-xl transition-all">
+        {isImmediate ? t('sendNow') : scheduledTransfer ? t('saveChanges') : t('schedulePayment')}
+      </button>
+    </form>
+  );
+
+  const renderResult = () => {
+      const isSuccess = status === 'success';
+      const Icon = isSuccess ? CheckCircleIcon : XCircleIcon;
+      const colorClass = isSuccess ? 'text-green-400' : 'text-red-400';
+
+      return (
+        <motion.div initial={{opacity: 0, scale: 0.8}} animate={{opacity: 1, scale: 1}} className="text-center flex flex-col items-center gap-4">
+            <Icon className={`w-20 h-20 ${colorClass}`} />
+            {reasonCode && <h3 className="text-lg font-bold text-white">{t(LIMIT_REASON_KEYS[reasonCode])}</h3>}
+            <p className="text-slate-300">{message}</p>
+            <button onClick={onClose} className="w-full bg-slate-700 hover:bg-slate-600 text-white font-bold py-3 rounded-xl transition-all mt-4">
+                {t('close')}
+            </button>
+        </motion.div>
+      );
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm z-40 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ y: 50, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 50, opacity: 0 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+            className="bg-slate-800 w-full max-w-md rounded-3xl flex flex-col overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <header className="p-4 border-b border-slate-700 flex items-center justify-between flex-shrink-0">
+              <h2 className="text-lg font-bold text-white">{scheduledTransfer ? t('editScheduledPayment') : t('sendMoney')}</h2>
+              <button onClick={onClose} className="text-slate-400 hover:text-white text-2xl">&times;</button>
+            </header>
+
+            <div className="p-6">
+                <AnimatePresence mode="wait">
+                    <motion.div
+                        key={status}
+                        initial={{ opacity: 0, x: 50 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        exit={{ opacity: 0, x: -50 }}
+                        transition={{ duration: 0.3 }}
+                    >
+                        {status === 'editing' ? renderForm() : renderResult()}
+                    </motion.div>
+                </AnimatePresence>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+const InputField = ({ name, label, value, onChange, type = 'text', placeholder = '', required = true, list } : { name: string, label: string, value: string, onChange: (e: React.ChangeEvent<HTMLInputElement>) => void, type?: string, placeholder?: string, required?: boolean, list?: string }) => (
+    <div>
+        <label htmlFor={name} className="block text-sm font-medium text-slate-300 mb-1">{label}</label>
+        <input
+            type={type}
+            name={name}
+            id={name}
+            value={value}
+            onChange={onChange}
+            placeholder={placeholder}
+            required={required}
+            list={list}
+            className="w-full bg-slate-800 border border-slate-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+    </div>
+);
@@ -1,8 +1,14 @@
-import { User, Transaction, Card, Loan } from './types';
+import { User, Transaction, Card, Loan, Payee } from './types';
+import { Money, CurrencyCode, DEFAULT_CURRENCY, fromMajor, toMajor, multiply, subtract, compare } from './services/money';
+import { calculateMonthlyPayment } from './services/loanCalculator';
+import { initialStatus } from './services/transactionStatus';
+import { STATEMENT_GRACE_DAYS, calculateMinimumPayment } from './services/statements';
+import { addDays, startOfDay } from './services/dateUtils';
 
 const generateMockCardTransactions = (card: Omit<Card, 'transactions'>): Transaction[] => {
     const transactions: Transaction[] = [];
     let usedBalance = card.creditBalance;
+    const currency = card.creditLimit.currency;
     const today = new Date();
 
     const merchantsByCategory: Record<string, string[]> = {
@@ -17,9 +23,9 @@ const generateMockCardTransactions = (card: Omit<Card, 'transactions'>): Transac
     const categories = Object.keys(merchantsByCategory);
 
     for (let i = 0; i < 25; i++) {
-        if (usedBalance < 10) break;
-        const amount = parseFloat((Math.random() * (Math.min(usedBalance * 0.2, 150)) + 5).toFixed(2));
-        usedBalance -= amount;
+        if (compare(usedBalance, fromMajor(10, currency)) < 0) break;
+        const amount = fromMajor(Math.random() * Math.min(toMajor(usedBalance) * 0.2, 150) + 5, currency);
+        usedBalance = subtract(usedBalance, amount);
         
         const transactionDate = new Date(today.getTime() - Math.random() * 30 * 24 * 60 * 60 * 1000); // within last 30 days
         const category = categories[Math.floor(Math.random() * categories.length)];
@@ -37,10 +43,32 @@ const generateMockCardTransactions = (card: Omit<Card, 'transactions'>): Transac
             cardId: card.cardNumber,
         });
     }
+
+    // A couple of recent purchases still awaiting settlement. Holds are not part of the
+    // credit balance yet; they post once the settlement period has passed.
+    for (let i = 0; i < 2; i++) {
+        const transactionDate = new Date(today.getTime() - Math.random() * 24 * 60 * 60 * 1000); // within the last day
+        const category = categories[Math.floor(Math.random() * categories.length)];
+        const merchant = merchantsByCategory[category][Math.floor(Math.random() * merchantsByCategory[category].length)];
+
+        transactions.push({
+            id: `tx-card-${card.cardNumber.slice(-4)}-hold-${i}`,
+            userId: 0,
+            type: 'debit',
+            amount: fromMajor(Math.random() * 45 + 5, currency),
+            description: merchant,
+            timestamp: transactionDate.toISOString(),
+            partyName: 'Merchant',
+            category,
+            cardId: card.cardNumber,
+            ...initialStatus('pending', transactionDate.toISOString()),
+        });
+    }
     return transactions.sort((a,b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
 };
 
-const generateMockCard = (): Card => {
+// Approved applications pass the terms the credit decision set; seeded cards get random ones.
+const generateMockCard = (currency: CurrencyCode = DEFAULT_CURRENCY, terms?: { creditLimit: Money; apr: number }): Card => {
   // FIX: Explicitly typed `cardType` to prevent type widening to `string`.
   const cardType: 'Visa' | 'Mastercard' = Math.random() > 0.5 ? 'Visa' : 'Mastercard';
   const cardNumber =
@@ -51,12 +79,12 @@ const generateMockCard = (): Card => {
   const expiryMonth = String(Math.floor(Math.random() * 12) + 1).padStart(2, '0');
   const expiryYear = String(new Date().getFullYear() + Math.floor(Math.random() * 5) + 2).slice(-2);
   
-  const creditLimit = [5000, 10000, 15000, 20000][Math.floor(Math.random() * 4)];
-  const creditBalance = parseFloat((Math.random() * creditLimit * 0.8).toFixed(2));
+  const creditLimit = terms?.creditLimit ?? fromMajor([5000, 10000, 15000, 20000][Math.floor(Math.random() * 4)], currency);
+  const creditBalance = multiply(creditLimit, Math.random() * 0.8);
   
-  const today = new Date();
-  const paymentDueDate = new Date(today.getFullYear(), today.getMonth() + 1, 15).toISOString(); // 15th of next month
-  const statementBalance = parseFloat((creditBalance * (0.9 + Math.random() * 0.1)).toFixed(2)); // 90-100% of current balance
+  const lastStatementDate = addDays(startOfDay(new Date()), -(Math.floor(Math.random() * 24) + 1)); // Cycle closed 1-24 days ago, so the payment is not yet due
+  const paymentDueDate = addDays(lastStatementDate, STATEMENT_GRACE_DAYS).toISOString();
+  const statementBalance = multiply(creditBalance, 0.9 + Math.random() * 0.1); // 90-100% of current balance
 
   const partialCard = {
     cardNumber,
@@ -65,10 +93,11 @@ const generateMockCard = (): Card => {
     cardType,
     creditLimit,
     creditBalance,
-    apr: parseFloat((Math.random() * 15 + 15).toFixed(2)), // e.g., 15% to 30%
+    apr: terms?.apr ?? parseFloat((Math.random() * 15 + 15).toFixed(2)), // e.g., 15% to 30%
     paymentDueDate,
     statementBalance,
-    minimumPayment: parseFloat(Math.max(25, statementBalance * 0.02).toFixed(2)), // 2% or $25
+    minimumPayment: calculateMinimumPayment(statementBalance),
+    lastStatementDate: lastStatementDate.toISOString(),
   };
   
   return {
@@ -77,13 +106,11 @@ const generateMockCard = (): Card => {
   };
 };
 
-const generateMockLoan = (userId: number): Loan => {
-    const loanAmount = [5000, 10000, 20000, 50000][Math.floor(Math.random() * 4)];
+const generateMockLoan = (userId: number, currency: CurrencyCode = DEFAULT_CURRENCY): Loan => {
+    const loanAmount = fromMajor([5000, 10000, 20000, 50000][Math.floor(Math.random() * 4)], currency);
     const interestRate = parseFloat((Math.random() * 10 + 3).toFixed(2)); // 3% to 13%
     const termMonths = [24, 36, 48, 60][Math.floor(Math.random() * 4)];
-    
-    const monthlyInterestRate = interestRate / 100 / 12;
-    const monthlyPayment = (loanAmount * monthlyInterestRate * Math.pow(1 + monthlyInterestRate, termMonths)) / (Math.pow(1 + monthlyInterestRate, termMonths) - 1);
+    const monthlyPayment = calculateMonthlyPayment(loanAmount, interestRate, termMonths);
     
     const today = new Date();
     const paymentDueDate = new Date(today.getFullYear(), today.getMonth() + 1, 1).toISOString(); // 1st of next month
@@ -94,8 +121,8 @@ const generateMockLoan = (userId: number): Loan => {
         loanAmount,
         interestRate,
         termMonths,
-        monthlyPayment: parseFloat(monthlyPayment.toFixed(2)),
-        remainingBalance: parseFloat((loanAmount * (0.5 + Math.random() * 0.4)).toFixed(2)), // Remaining balance between 50% and 90%
+        monthlyPayment,
+        remainingBalance: multiply(loanAmount, 0.5 + Math.random() * 0.4), // Remaining balance between 50% and 90%
         status: 'Active',
         startDate: new Date(Date.now() - 86400000 * Math.floor(Math.random() * 365)).toISOString(),
         paymentDueDate
@@ -108,34 +135,48 @@ const generateAccountNumber = (): string => {
 
 
 export const MOCK_USERS: User[] = [
-  { id: 1, name: 'Alice Johnson', username: 'alice', pin: '1234', balance: 5430.50, savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1011/100', cards: [generateMockCard()], loans: [generateMockLoan(1)] },
-  { id: 2, name: 'Bob Williams', username: 'bob', pin: '5678', balance: 1250.75, savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1012/100', cards: [generateMockCard()], loans: [] },
-  { id: 3, name: 'Charlie Brown', username: 'charlie', pin: '1111', balance: 8765.20, savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1013/100', cards: [generateMockCard(), generateMockCard()], loans: [generateMockLoan(3)] },
-  { id: 4, name: 'Diana Prince', username: 'diana', pin: '2222', balance: 15200.00, savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1014/100', cards: [generateMockCard()], loans: [] },
-  { id: 5, name: 'Ethan Hunt', username: 'ethan', pin: '3333', balance: 345.80, savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1015/100', cards: [generateMockCard()], loans: [] },
-  { id: 6, name: 'Fiona Glenanne', username: 'fiona', pin: '4444', balance: 9980.00, savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1016/100', cards: [generateMockCard()], loans: [generateMockLoan(6)] },
-  { id: 7, name: 'George Costanza', username: 'george', pin: '5555', balance: 12.30, savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1018/100', cards: [generateMockCard()], loans: [] },
-  { id: 8, name: 'Hannah Montana', username: 'hannah', pin: '6666', balance: 75000.00, savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1025/100', cards: [generateMockCard()], loans: [] },
-  { id: 9, name: 'Ian Malcolm', username: 'ian', pin: '7777', balance: 4242.42, savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1027/100', cards: [generateMockCard()], loans: [] },
-  { id: 10, name: 'Leila Organa', username: 'leila', pin: '1010', balance: 123456.78, savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1028/100', cards: [generateMockCard()], loans: [generateMockLoan(10)] },
-  { id: 11, name: 'Kyle Reese', username: 'kyle', pin: '1122', balance: 850.00, savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/103/100', cards: [generateMockCard()], loans: [] },
-  { id: 12, name: 'Jack Sparrow', username: 'jack', pin: '1313', balance: 13000.00, savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1040/100', cards: [generateMockCard()], loans: [] },
-  { id: 13, name: 'Michael Scott', username: 'michael', pin: '2424', balance: 430.10, savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1041/100', cards: [generateMockCard()], loans: [] },
-  { id: 14, name: 'Neo Anderson', username: 'neo', pin: '0101', balance: 9999.99, savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1043/100', cards: [generateMockCard()], loans: [generateMockLoan(14)] },
-  { id: 15, name: 'Olivia Pope', username: 'olivia', pin: '7521', balance: 250000.00, savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1044/100', cards: [generateMockCard()], loans: [] },
-  { id: 16, name: 'Peter Parker', username: 'peter', pin: '8888', balance: 50.25, savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1054/100', cards: [generateMockCard()], loans: [] },
-  { id: 17, name: 'Quentin Coldwater', username: 'quentin', pin: '9999', balance: 3210.00, savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1062/100', cards: [generateMockCard()], loans: [] },
-  { id: 18, name: 'Rachel Green', username: 'rachel', pin: '1212', balance: 6700.00, savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1064/100', cards: [generateMockCard()], loans: [] },
-  { id: 19, name: 'Steve Rogers', username: 'steve', pin: '1945', balance: 10500.00, savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1066/100', cards: [generateMockCard()], loans: [] },
-  { id: 20, name: 'Tony Stark', username: 'tony', pin: '2008', balance: 1000000.00, savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1074/100', cards: [generateMockCard()], loans: [generateMockLoan(20)] },
+  { id: 1, name: 'Alice Johnson', username: 'alice', pin: '1234', balance: fromMajor(5430.50), savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1011/100', cards: [generateMockCard()], loans: [generateMockLoan(1)] },
+  { id: 2, name: 'Bob Williams', username: 'bob', pin: '5678', balance: fromMajor(1250.75), savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1012/100', cards: [generateMockCard()], loans: [] },
+  { id: 3, name: 'Charlie Brown', username: 'charlie', pin: '1111', balance: fromMajor(8765.20), savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1013/100', cards: [generateMockCard(), generateMockCard()], loans: [generateMockLoan(3)] },
+  { id: 4, name: 'Diana Prince', username: 'diana', pin: '2222', balance: fromMajor(14000.00, 'EUR'), savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1014/100', cards: [generateMockCard('EUR')], loans: [] },
+  { id: 5, name: 'Ethan Hunt', username: 'ethan', pin: '3333', balance: fromMajor(345.80), savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1015/100', cards: [generateMockCard()], loans: [] },
+  { id: 6, name: 'Fiona Glenanne', username: 'fiona', pin: '4444', balance: fromMajor(9980.00), savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1016/100', cards: [generateMockCard()], loans: [generateMockLoan(6)] },
+  { id: 7, name: 'George Costanza', username: 'george', pin: '5555', balance: fromMajor(12.30), savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1018/100', cards: [generateMockCard()], loans: [] },
+  { id: 8, name: 'Hannah Montana', username: 'hannah', pin: '6666', balance: fromMajor(75000.00), savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1025/100', cards: [generateMockCard()], loans: [] },
+  { id: 9, name: 'Ian Malcolm', username: 'ian', pin: '7777', balance: fromMajor(4242.42), savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1027/100', cards: [generateMockCard()], loans: [] },
+  { id: 10, name: 'Leila Organa', username: 'leila', pin: '1010', balance: fromMajor(123456.78), savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1028/100', cards: [generateMockCard()], loans: [generateMockLoan(10)] },
+  { id: 11, name: 'Kyle Reese', username: 'kyle', pin: '1122', balance: fromMajor(850.00), savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/103/100', cards: [generateMockCard()], loans: [] },
+  { id: 12, name: 'Jack Sparrow', username: 'jack', pin: '1313', balance: fromMajor(10250.00, 'GBP'), savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1040/100', cards: [generateMockCard('GBP')], loans: [] },
+  { id: 13, name: 'Michael Scott', username: 'michael', pin: '2424', balance: fromMajor(430.10), savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1041/100', cards: [generateMockCard()], loans: [] },
+  { id: 14, name: 'Neo Anderson', username: 'neo', pin: '0101', balance: fromMajor(9999.99), savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1043/100', cards: [generateMockCard()], loans: [generateMockLoan(14)] },
+  { id: 15, name: 'Olivia Pope', username: 'olivia', pin: '7521', balance: fromMajor(250000.00), savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1044/100', cards: [generateMockCard()], loans: [] },
+  { id: 16, name: 'Peter Parker', username: 'peter', pin: '8888', balance: fromMajor(50.25), savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1054/100', cards: [generateMockCard()], loans: [] },
+  { id: 17, name: 'Quentin Coldwater', username: 'quentin', pin: '9999', balance: fromMajor(180000.00, 'PHP'), savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1062/100', cards: [generateMockCard('PHP')], loans: [] },
+  { id: 18, name: 'Rachel Green', username: 'rachel', pin: '1212', balance: fromMajor(245000.00, 'THB'), savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1064/100', cards: [generateMockCard('THB')], loans: [] },
+  { id: 19, name: 'Steve Rogers', username: 'steve', pin: '1945', balance: fromMajor(10500.00), savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1066/100', cards: [generateMockCard()], loans: [] },
+  { id: 20, name: 'Tony Stark', username: 'tony', pin: '2008', balance: fromMajor(1000000.00), savingsAccountNumber: generateAccountNumber(), avatarUrl: 'https://picsum.photos/id/1074/100', cards: [generateMockCard()], loans: [generateMockLoan(20)] },
 ];
 
 export const MOCK_TRANSACTIONS: Transaction[] = [
-  { id: 't1', userId: 1, type: 'debit', amount: 75.50, description: 'Grocery Shopping', timestamp: new Date(Date.now() - 86400000 * 2).toISOString(), partyName: 'SuperMart', category: 'Groceries' },
-  { id: 't2', userId: 1, type: 'credit', amount: 1200.00, description: 'Paycheck Deposit', timestamp: new Date(Date.now() - 86400000 * 5).toISOString(), partyName: 'ACME Corp', category: 'Income' },
-  { id: 't3', userId: 1, type: 'debit', amount: 12.00, description: 'Coffee', timestamp: new Date(Date.now() - 86400000 * 1).toISOString(), partyName: 'The Daily Grind', category: 'Food' },
-  { id: 't4', userId: 2, type: 'credit', amount: 500.00, description: 'Birthday Gift', timestamp: new Date(Date.now() - 86400000 * 10).toISOString(), partyName: 'Alice Johnson', category: 'Gifts' },
+  { id: 't1', userId: 1, type: 'debit', amount: fromMajor(75.50), description: 'Grocery Shopping', timestamp: new Date(Date.now() - 86400000 * 2).toISOString(), partyName: 'SuperMart', category: 'Groceries' },
+  { id: 't2', userId: 1, type: 'credit', amount: fromMajor(1200.00), description: 'Paycheck Deposit', timestamp: new Date(Date.now() - 86400000 * 5).toISOString(), partyName: 'ACME Corp', category: 'Income' },
+  { id: 't3', userId: 1, type: 'debit', amount: fromMajor(12.00), description: 'Coffee', timestamp: new Date(Date.now() - 86400000 * 1).toISOString(), partyName: 'The Daily Grind', category: 'Food' },
+  { id: 't4', userId: 2, type: 'credit', amount: fromMajor(500.00), description: 'Birthday Gift', timestamp: new Date(Date.now() - 86400000 * 10).toISOString(), partyName: 'Alice Johnson', category: 'Gifts' },
 ];
 
+// Every seeded customer starts with the next three customers saved as payees, under their first names.
+const generateMockPayees = (users: User[]): Payee[] =>
+    users.flatMap((user, i) => [1, 2, 3].map(offset => {
+        const payee = users[(i + offset) % users.length];
+        return {
+            id: `payee-${user.id}-${payee.id}`,
+            userId: user.id,
+            nickname: payee.name.split(' ')[0],
+            accountNumber: payee.savingsAccountNumber,
+            verifiedName: payee.name,
+            createdAt: new Date().toISOString(),
+        };
+    }));
+
 // Exporting the helper for use in the App registration logic
-export { generateMockCard, generateMockLoan, generateAccountNumber };
\ No newline at end of file
+export { generateMockCard, generateMockLoan, generateAccountNumber, generateMockPayees };
\ No newline at end of file
@@ -1,5 +1,6 @@
 
 import React, { createContext, useState, useContext, ReactNode, useEffect } from 'react';
+import { Money, formatMoney as formatMoneyInLocale } from '../services/money';
 
 const translations = {
   en: {
@@ -25,24 +26,86 @@ const translations = {
     loginError: "Invalid username or PIN. Please try again.",
     registerError: "Please fill all fields. PIN must be 4 digits.",
     registerErrorUsernameTaken: "Username already taken. Please choose another.",
+    accountCurrency: "Account currency",
     // Dashboard & Nav
     navHome: "Home",
+    navPayments: "Payments",
     navCards: "Cards",
     navLoans: "Loans",
     navSettings: "Settings",
     openAIAssistant: "Open AI Assistant",
     applyForNew: "Apply for a new {{type}}",
+    // Payments Screen
+    sendMoney: "Send Money",
+    scheduledPayments: "Scheduled Payments",
+    noScheduledPayments: "No scheduled payments.",
+    schedulePaymentHint: "Pick a future date or a weekly/monthly frequency to set one up.",
+    recipient: "Recipient",
+    recipientPlaceholder: "Name or account number",
+    amount: "Amount",
+    currency: "Currency",
+    currencyConversion: "Currency conversion",
+    recipientGets: "Recipient gets",
+    exchangeRate: "Exchange rate",
+    fxFee: "FX fee",
+    totalDebited: "Total taken from your account",
+    ratesMayChange: "The rate on the payment date will be used; it may differ from today's.",
+    paymentDate: "Payment date",
+    frequency: "Frequency",
+    frequencyOnce: "One-time",
+    frequencyWeekly: "Weekly",
+    frequencyMonthly: "Monthly",
+    endDateOptional: "End date (optional)",
+    sendNow: "Send Now",
+    schedulePayment: "Schedule Payment",
+    saveChanges: "Save Changes",
+    editScheduledPayment: "Edit Scheduled Payment",
+    statusActive: "Active",
+    statusCompleted: "Completed",
+    statusCancelled: "Cancelled",
+    endsOn: "Ends on",
+    lastRun: "Last run",
+    edit: "Edit",
+    cancelPayment: "Cancel Payment",
+    confirmCancelPayment: "Cancel the scheduled payment to {{name}}?",
     // Home Screen
     totalBalance: "Total Balance",
     recentActivity: "Recent Activity",
     vs: "vs.",
     noTransactions: "No transactions yet.",
+    transactionFailed: "Failed",
+    transactionPending: "Pending",
+    transactionReversed: "Reversed",
+    reverseTransfer: "Reverse",
+    confirmReverseTransfer: "Reverse this payment to {{name}}? The money will be returned to your account.",
     primaryCard: "Primary Card",
     savings: "Savings",
     investments: "Investments",
+    investmentAccount: "Investment account",
+    portfolioValue: "Portfolio value",
+    holdingsValue: "Invested",
+    uninvestedCash: "Cash to invest",
+    unrealizedGain: "Unrealized gain",
+    realizedGain: "Realized gain",
+    costBasis: "Cost basis",
+    holdings: "Holdings",
+    noHoldings: "You don't own any funds yet.",
+    sharesAt: "{{quantity}} shares at {{price}}",
+    moveMoney: "Move money",
+    addFromSavings: "Add from savings",
+    moveToSavings: "Move to savings",
+    trade: "Trade",
+    fund: "Fund",
+    buy: "Buy",
+    sell: "Sell",
+    placeOrder: "Place order",
+    recentOrders: "Recent orders",
+    simulatedPricesNote: "Prices come from a simulated market feed that updates daily.",
+    startInvestingHint: "Move money from savings to open your investment account.",
     cards: "Cards",
     loans: "Loans",
     spendingThisMonth: "Spending This Month",
+    ledgerMismatch: "Some balances are being reconciled and may be temporarily out of date.",
     // Cards Screen
     yourCards: "Your Cards",
     viewSummary: "View Summary",
@@ -52,6 +115,8 @@ const translations = {
     thisMonth: "This Month",
     noTransactionsPeriod: "No transactions found for this period.",
     creditUsage: "Credit Usage",
+    availableCredit: "Available",
+    pendingHolds: "Pending holds",
     // Data Screen (Shared)
     dataAnalytics: "Data Analytics",
     noSpendingData: "No spending data available for this month.",
@@ -64,8 +129,56 @@ const translations = {
     nextPayment: "Next payment",
     noActiveLoans: "No active loans.",
     applyForLoanHint: "Apply for one using the button in the corner!",
+    makeLoanPayment: "Make a payment",
+    payInstallment: "Monthly installment",
+    payExtra: "Extra payment",
+    payOffLoan: "Pay off",
+    interestPortion: "Interest",
+    principalPortion: "Principal",
+    lateFeesPortion: "Late fees",
+    // Loan quotes
+    checkYourRate: "Check your rate",
+    loanQuotes: "Loan rate quotes",
+    softCheckNote: "Checking your rate does not file an application or affect your credit.",
+    seeMyRates: "See my rates",
+    estimatedRate: "Est. rate",
+    totalInterestCost: "Total interest",
+    totalCost: "Total cost",
+    quoteNeedsReview: "Needs review",
+    quoteNotAvailable: "Not available",
+    balanceAfterPayment: "Balance after payment",
+    recentPayments: "Recent payments",
+    loanHistory: "Loan history",
+    paidOff: "Paid off",
+    paidOffOn: "Paid off on {{date}}",
+    totalInterestPaid: "Total interest paid",
+    viewSchedule: "View schedule",
+    amortizationSchedule: "Amortization schedule",
+    schedulePeriod: "#",
+    scheduleDue: "Due",
+    scheduleBalance: "Balance",
+    periodPaid: "Paid",
+    whatIfExtra: "What if I paid extra each month?",
+    extraPerMonth: "Extra per month",
+    interestSaved: "Interest saved",
+    newPayoffDate: "New payoff date",
+    currentPayoffDate: "Current payoff date",
+    monthsSooner: "{{months}} months sooner",
     // Settings Screen
     language: "Language",
+    transferLimits: "Transfer limits",
+    perTransferLimit: "Per transfer",
+    dailyLimit: "Daily limit",
+    monthlyLimit: "Monthly limit",
+    newPayeeLimit: "New payees (first {{hours}} hours)",
+    sentToday: "Sent today",
+    sentThisMonth: "Sent this month",
+    saveLimits: "Save limits",
+    limitReasonPerTransaction: "Over the per-transfer limit",
+    limitReasonDaily: "Daily limit reached",
+    limitReasonMonthly: "Monthly limit reached",
+    limitReasonNewPayee: "New payee limit",
+    limitReasonVelocity: "Too many transfers in a short time",
     signOut: "Sign Out",
     // Chat Modal
     aiAssistant: "AI Assistant",
@@ -104,6 +217,20 @@ const translations = {
     submitApplication: "Submit Application",
     approved: "Approved!",
     applicationDenied: "Application Denied",
+    applicationReferred: "Under Review",
+    // My applications
+    myApplications: "My applications",
+    noApplications: "You haven't applied for a card or loan yet.",
+    creditCardApplication: "Credit card",
+    loanApplication: "{{amount}} loan",
+    submittedOn: "Submitted {{date}}",
+    applicationStatusSubmitted: "Submitted",
+    applicationStatusUnderReview: "Under review",
+    applicationStatusApproved: "Approved",
+    applicationStatusDeclined: "Declined",
+    applicationStatusWithdrawn: "Withdrawn",
+    withdrawApplication: "Withdraw application",
+    confirmWithdrawApplication: "Withdraw this application?",
     close: "Close",
     // Statement Summary Modal
     statementSummary: "Statement Summary",
@@ -114,6 +241,151 @@ const translations = {
     importantInformation: "Important Information",
     lateFeeWarning: "To avoid a late fee of up to $40 and a penalty APR, please pay at least the minimum amount by the due date.",
     gotIt: "Got it",
+    pastStatements: "Statements",
+    noStatements: "No statements yet. The first one is issued when the current billing cycle closes.",
+    nextStatementOn: "Next statement on {{date}}",
+    statementPeriod: "{{start}} – {{end}}",
+    openingBalance: "Opening balance",
+    purchases: "Purchases",
+    paymentsCredits: "Payments",
+    interestCharged: "Interest",
+    feesCharged: "Fees",
+    closingBalance: "Closing balance",
+    minimumDue: "Minimum due",
+    payCard: "Make a payment",
+    payMinimum: "Minimum payment",
+    payStatement: "Statement balance",
+    payFull: "Current balance",
+    payCustom: "Other amount",
+    payFromSavings: "Paid from your savings account ({{balance}} available).",
+    payNow: "Pay {{amount}}",
+    currentBalance: "Current balance",
+    interestAccrued: "Interest accrued this cycle",
+    gracePeriodActive: "Your last statement is paid in full, so new purchases are not charged interest.",
+    savingsApyEarning: "Earning {{apy}}% APY · {{amount}} interest so far this month",
+    // Savings goals
+    savingsGoals: "Savings goals",
+    newGoal: "New goal",
+    noSavingsGoals: "Set money aside for something you're saving towards.",
+    goalName: "Goal name",
+    goalNamePlaceholder: "e.g., Vacation",
+    targetAmount: "Target amount",
+    targetDateOptional: "Target date (optional)",
+    savedOfTarget: "{{saved}} of {{target}}",
+    goalReached: "Goal reached!",
+    neededPerMonth: "Save {{amount}}/month to reach it by {{date}}",
+    availableSavings: "Not set aside: {{amount}}",
+    addToGoal: "Set aside",
+    takeFromGoal: "Release",
+    autoContribution: "Automatic contribution",
+    noAutoContribution: "None",
+    nextContribution: "Next on {{date}}",
+    createGoal: "Create goal",
+    closeGoal: "Close goal",
+    confirmCloseGoal: "Close this goal? Its money will be available to spend again.",
+    // Budgets
+    budgets: "Budgets",
+    setBudget: "Set budget",
+    noBudgets: "Set a monthly limit for a category to track your spending against it.",
+    budgetCategory: "Category",
+    monthlyBudget: "Monthly budget",
+    budgetRollover: "At the end of the month",
+    rolloverNone: "Start afresh",
+    rolloverSurplus: "Carry over what's left",
+    rolloverFull: "Carry over what's left or overspent",
+    spentOfBudget: "{{spent}} of {{available}}",
+    budgetLeft: "{{amount}} left",
+    budgetOver: "{{amount}} over budget",
+    budgetCarriedOver: "Includes {{amount}} carried over",
+    removeBudget: "Remove budget",
+    confirmRemoveBudget: "Remove the {{category}} budget?",
+    // Payees
+    payees: "Payees",
+    addPayee: "Add payee",
+    noPayees: "People you pay are saved here.",
+    payeeNickname: "Nickname (optional)",
+    payeeNicknamePlaceholder: "e.g., Mom",
+    payeeAccountNumber: "Account number",
+    payeeAccountEnding: "{{name}} · account ending {{last4}}",
+    payeeLastPaid: "Last paid {{date}}",
+    removePayee: "Remove payee",
+    confirmRemovePayee: "Remove {{name}} from your payees?",
+    recipientAmbiguous: "Several payees match this name. Which one do you mean?",
+    // Money requests
+    moneyRequests: "Requests",
+    requestMoney: "Request money",
+    noMoneyRequests: "Ask someone to pay you back and track it here.",
+    requestFrom: "From",
+    requestNote: "Note (optional)",
+    requestNotePlaceholder: "e.g., Dinner on Friday",
+    sendRequest: "Send request",
+    requestedFromYou: "{{name}} requested {{amount}}",
+    youRequested: "You requested {{amount}} from {{name}}",
+    requestOutstanding: "{{amount}} outstanding",
+    payRequest: "Pay",
+    declineRequest: "Decline",
+    cancelRequest: "Cancel request",
+    confirmDeclineRequest: "Decline {{name}}'s request?",
+    requestStatusPending: "Pending",
+    requestStatusPartiallyPaid: "Partly paid",
+    requestStatusPaid: "Paid",
+    requestStatusDeclined: "Declined",
+    requestStatusCancelled: "Cancelled",
+    // Bill splitting
+    splitBill: "Split bill",
+    splitBadge: "Split",
+    splitEqually: "Equally",
+    splitCustom: "Custom amounts",
+    splitIncludeMe: "Include my share",
+    splitWith: "Split with",
+    splitNoPayees: "Add payees on the Payments screen to split bills with them.",
+    splitEachPays: "Each person pays {{amount}}",
+    splitYourShare: "Your share",
+    splitSendRequests: "Send requests",
+    splitSettled: "{{settled}} of {{count}} settled",
+    splitOutstanding: "{{amount}} still to collect",
+    // Deposit accounts
+    accounts: "Accounts",
+    mainAccount: "Main account",
+    openAccount: "Open account",
+    accountEndingIn: "Account ending in {{last4}}",
+    jointWith: "Joint with {{names}}",
+    moveTo: "Move to",
+    noAccountTransactions: "No transactions in this account yet.",
+    closeAccount: "Close account",
+    confirmCloseAccount: "Close {{name}}? This cannot be undone.",
+    accountType: "Account type",
+    accountTypeChecking: "Checking",
+    accountTypeSavings: "Savings",
+    accountTypeJoint: "Joint",
+    accountName: "Account name",
+    accountNamePlaceholder: "e.g. Holiday fund",
+    jointHolder: "Share with",
+    payFrom: "Pay from",
+    // Card controls
+    cardControls: "Controls",
+    cardFrozen: "Frozen",
+    freezeCard: "Freeze card",
+    onlinePurchases: "Online purchases",
+    internationalPurchases: "International purchases",
+    spendingLimits: "Spending limits",
+    perPurchaseLimit: "Per purchase",
+    monthlyCardLimit: "Per month",
+    noLimit: "No limit",
+    spentThisMonth: "{{amount}} spent this month",
+    blockedCategories: "Blocked categories",
+    budgetAlert80: "You've used {{percent}}% of your {{category}} budget.",
+    budgetAlert100: "You've used all of your {{category}} budget.",
+    // Delinquency
+    delinquencyPastDue: "Past due",
+    delinquencyPastDue30: "30+ days past due",
+    delinquencyPastDue60: "60+ days past due",
+    delinquencyChargedOff: "Charged off",
+    delinquencyCardAccount: "Card ending in {{last4}}",
+    delinquencyLoanAccount: "Loan {{id}}",
+    delinquencyWarning: "{{account}} is {{days}} days past due. Pay {{amount}} to bring it current and avoid further late fees.",
+    chargedOffWarning: "{{account}} was charged off after {{days}} days of missed payments. Please contact us to arrange repayment.",
+    penaltyAprWarning: "A penalty APR of {{apr}}% applies until the card is current.",
   },
   es: {
     // Welcome/Onboarding
@@ -138,24 +410,86 @@ const translations = {
     loginError: "Usuario o PIN inválido. Por favor, inténtalo de nuevo.",
     registerError: "Por favor, llena todos los campos. El PIN debe ser de 4 dígitos.",
     registerErrorUsernameTaken: "El nombre de usuario ya está en uso. Por favor, elige otro.",
+    accountCurrency: "Moneda de la cuenta",
     // Dashboard & Nav
     navHome: "Inicio",
+    navPayments: "Pagos",
     navCards: "Tarjetas",
     navLoans: "Préstamos",
     navSettings: "Ajustes",
     openAIAssistant: "Abrir Asistente de IA",
     applyForNew: "Solicitar nuevo {{type}}",
+    // Payments Screen
+    sendMoney: "Enviar dinero",
+    scheduledPayments: "Pagos programados",
+    noScheduledPayments: "No hay pagos programados.",
+    schedulePaymentHint: "Elige una fecha futura o una frecuencia semanal/mensual para crear uno.",
+    recipient: "Destinatario",
+    recipientPlaceholder: "Nombre o número de cuenta",
+    amount: "Monto",
+    currency: "Moneda",
+    currencyConversion: "Conversión de moneda",
+    recipientGets: "El destinatario recibe",
+    exchangeRate: "Tipo de cambio",
+    fxFee: "Comisión de cambio",
+    totalDebited: "Total cargado a tu cuenta",
+    ratesMayChange: "Se usará el tipo de cambio de la fecha de pago; puede diferir del de hoy.",
+    paymentDate: "Fecha de pago",
+    frequency: "Frecuencia",
+    frequencyOnce: "Único",
+    frequencyWeekly: "Semanal",
+    frequencyMonthly: "Mensual",
+    endDateOptional: "Fecha de fin (opcional)",
+    sendNow: "Enviar ahora",
+    schedulePayment: "Programar pago",
+    saveChanges: "Guardar cambios",
+    editScheduledPayment: "Editar pago programado",
+    statusActive: "Activo",
+    statusCompleted: "Completado",
+    statusCancelled: "Cancelado",
+    endsOn: "Termina el",
+    lastRun: "Última ejecución",
+    edit: "Editar",
+    cancelPayment: "Cancelar pago",
+    confirmCancelPayment: "¿Cancelar el pago programado a {{name}}?",
     // Home Screen
     totalBalance: "Balance Total",
     recentActivity: "Actividad Reciente",
     vs: "vs.",
     noTransactions: "Aún no hay transacciones.",
+    transactionFailed: "Fallido",
+    transactionPending: "Pendiente",
+    transactionReversed: "Revertido",
+    reverseTransfer: "Revertir",
+    confirmReverseTransfer: "¿Revertir este pago a {{name}}? El dinero volverá a tu cuenta.",
     primaryCard: "Tarjeta Principal",
     savings: "Ahorros",
     investments: "Inversiones",
+    investmentAccount: "Cuenta de inversión",
+    portfolioValue: "Valor de la cartera",
+    holdingsValue: "Invertido",
+    uninvestedCash: "Efectivo para invertir",
+    unrealizedGain: "Ganancia no realizada",
+    realizedGain: "Ganancia realizada",
+    costBasis: "Costo base",
+    holdings: "Posiciones",
+    noHoldings: "Todavía no tienes fondos.",
+    sharesAt: "{{quantity}} acciones a {{price}}",
+    moveMoney: "Mover dinero",
+    addFromSavings: "Añadir desde ahorros",
+    moveToSavings: "Pasar a ahorros",
+    trade: "Operar",
+    fund: "Fondo",
+    buy: "Comprar",
+    sell: "Vender",
+    placeOrder: "Enviar orden",
+    recentOrders: "Órdenes recientes",
+    simulatedPricesNote: "Los precios provienen de un mercado simulado que se actualiza a diario.",
+    startInvestingHint: "Mueve dinero desde tus ahorros para abrir tu cuenta de inversión.",
     cards: "Tarjetas",
     loans: "Préstamos",
     spendingThisMonth: "Gastos de este mes",
+    ledgerMismatch: "Algunos saldos se están conciliando y pueden estar desactualizados temporalmente.",
     // Cards Screen
     yourCards: "Tus Tarjetas",
     viewSummary: "Ver Resumen",
@@ -165,6 +499,8 @@ const translations = {
     thisMonth: "Este Mes",
     noTransactionsPeriod: "No se encontraron transacciones para este período.",
     creditUsage: "Uso de Crédito",
+    availableCredit: "Disponible",
+    pendingHolds: "Retenciones pendientes",
     // Data Screen
     dataAnalytics: "Análisis de Datos",
     noSpendingData: "No hay datos de gastos disponibles para este mes.",
@@ -177,8 +513,56 @@ const translations = {
     nextPayment: "Próximo pago",
     noActiveLoans: "No hay préstamos activos.",
     applyForLoanHint: "¡Solicita uno usando el botón en la esquina!",
+    makeLoanPayment: "Realizar un pago",
+    payInstallment: "Cuota mensual",
+    payExtra: "Pago adicional",
+    payOffLoan: "Liquidar",
+    interestPortion: "Intereses",
+    principalPortion: "Capital",
+    lateFeesPortion: "Cargos por mora",
+    // Loan quotes
+    checkYourRate: "Consulta tu tasa",
+    loanQuotes: "Cotizaciones de préstamo",
+    softCheckNote: "Consultar tu tasa no presenta una solicitud ni afecta tu crédito.",
+    seeMyRates: "Ver mis tasas",
+    estimatedRate: "Tasa est.",
+    totalInterestCost: "Intereses totales",
+    totalCost: "Costo total",
+    quoteNeedsReview: "Requiere revisión",
+    quoteNotAvailable: "No disponible",
+    balanceAfterPayment: "Saldo tras el pago",
+    recentPayments: "Pagos recientes",
+    loanHistory: "Historial de préstamos",
+    paidOff: "Liquidado",
+    paidOffOn: "Liquidado el {{date}}",
+    totalInterestPaid: "Intereses pagados en total",
+    viewSchedule: "Ver calendario",
+    amortizationSchedule: "Tabla de amortización",
+    schedulePeriod: "#",
+    scheduleDue: "Vence",
+    scheduleBalance: "Saldo",
+    periodPaid: "Pagado",
+    whatIfExtra: "¿Y si pagara más cada mes?",
+    extraPerMonth: "Extra al mes",
+    interestSaved: "Intereses ahorrados",
+    newPayoffDate: "Nueva fecha de liquidación",
+    currentPayoffDate: "Fecha de liquidación actual",
+    monthsSooner: "{{months}} meses antes",
     // Settings Screen
     language: "Idioma",
+    transferLimits: "Límites de transferencia",
+    perTransferLimit: "Por transferencia",
+    dailyLimit: "Límite diario",
+    monthlyLimit: "Límite mensual",
+    newPayeeLimit: "Nuevos destinatarios (primeras {{hours}} horas)",
+    sentToday: "Enviado hoy",
+    sentThisMonth: "Enviado este mes",
+    saveLimits: "Guardar límites",
+    limitReasonPerTransaction: "Supera el límite por transferencia",
+    limitReasonDaily: "Límite diario alcanzado",
+    limitReasonMonthly: "Límite mensual alcanzado",
+    limitReasonNewPayee: "Límite para nuevos destinatarios",
+    limitReasonVelocity: "Demasiadas transferencias en poco tiempo",
     signOut: "Cerrar Sesión",
     // Chat Modal
     aiAssistant: "Asistente de IA",
@@ -217,6 +601,20 @@ const translations = {
     submitApplication: "Enviar Solicitud",
     approved: "¡Aprobada!",
     applicationDenied: "Solicitud Denegada",
+    applicationReferred: "En Revisión",
+    // My applications
+    myApplications: "Mis solicitudes",
+    noApplications: "Aún no has solicitado una tarjeta o un préstamo.",
+    creditCardApplication: "Tarjeta de crédito",
+    loanApplication: "Préstamo de {{amount}}",
+    submittedOn: "Enviada el {{date}}",
+    applicationStatusSubmitted: "Enviada",
+    applicationStatusUnderReview: "En revisión",
+    applicationStatusApproved: "Aprobada",
+    applicationStatusDeclined: "Rechazada",
+    applicationStatusWithdrawn: "Retirada",
+    withdrawApplication: "Retirar solicitud",
+    confirmWithdrawApplication: "¿Retirar esta solicitud?",
     close: "Cerrar",
     // Statement Summary Modal
     statementSummary: "Resumen de Estado de Cuenta",
@@ -227,6 +625,151 @@ const translations = {
     importantInformation: "Información Importante",
     lateFeeWarning: "Para evitar un cargo por pago atrasado de hasta $40 y una TAE de penalización, por favor paga al menos el monto mínimo antes de la fecha de vencimiento.",
     gotIt: "Entendido",
+    pastStatements: "Estados de cuenta",
+    noStatements: "Aún no hay estados de cuenta. El primero se emite al cerrar el ciclo de facturación actual.",
+    nextStatementOn: "Próximo estado de cuenta el {{date}}",
+    statementPeriod: "{{start}} – {{end}}",
+    openingBalance: "Saldo inicial",
+    purchases: "Compras",
+    paymentsCredits: "Pagos",
+    interestCharged: "Intereses",
+    feesCharged: "Comisiones",
+    closingBalance: "Saldo final",
+    minimumDue: "Pago mínimo",
+    payCard: "Realizar un pago",
+    payMinimum: "Pago mínimo",
+    payStatement: "Saldo del estado de cuenta",
+    payFull: "Saldo actual",
+    payCustom: "Otro monto",
+    payFromSavings: "Se paga desde tu cuenta de ahorros ({{balance}} disponible).",
+    payNow: "Pagar {{amount}}",
+    currentBalance: "Saldo actual",
+    interestAccrued: "Intereses acumulados en este ciclo",
+    gracePeriodActive: "Tu último estado de cuenta está pagado por completo, así que las compras nuevas no generan intereses.",
+    savingsApyEarning: "Ganando {{apy}}% TAE · {{amount}} de intereses en lo que va del mes",
+    // Savings goals
+    savingsGoals: "Metas de ahorro",
+    newGoal: "Nueva meta",
+    noSavingsGoals: "Aparta dinero para algo por lo que estés ahorrando.",
+    goalName: "Nombre de la meta",
+    goalNamePlaceholder: "p. ej., Vacaciones",
+    targetAmount: "Monto objetivo",
+    targetDateOptional: "Fecha objetivo (opcional)",
+    savedOfTarget: "{{saved}} de {{target}}",
+    goalReached: "¡Meta alcanzada!",
+    neededPerMonth: "Ahorra {{amount}}/mes para lograrla antes del {{date}}",
+    availableSavings: "Sin apartar: {{amount}}",
+    addToGoal: "Apartar",
+    takeFromGoal: "Liberar",
+    autoContribution: "Aporte automático",
+    noAutoContribution: "Ninguno",
+    nextContribution: "Próximo el {{date}}",
+    createGoal: "Crear meta",
+    closeGoal: "Cerrar meta",
+    confirmCloseGoal: "¿Cerrar esta meta? Su dinero volverá a estar disponible.",
+    // Budgets
+    budgets: "Presupuestos",
+    setBudget: "Fijar presupuesto",
+    noBudgets: "Fija un límite mensual para una categoría y sigue tus gastos frente a él.",
+    budgetCategory: "Categoría",
+    monthlyBudget: "Presupuesto mensual",
+    budgetRollover: "Al final del mes",
+    rolloverNone: "Empezar de cero",
+    rolloverSurplus: "Trasladar lo que sobre",
+    rolloverFull: "Trasladar lo que sobre o se exceda",
+    spentOfBudget: "{{spent}} de {{available}}",
+    budgetLeft: "Quedan {{amount}}",
+    budgetOver: "{{amount}} por encima del presupuesto",
+    budgetCarriedOver: "Incluye {{amount}} trasladados",
+    removeBudget: "Eliminar presupuesto",
+    confirmRemoveBudget: "¿Eliminar el presupuesto de {{category}}?",
+    // Payees
+    payees: "Beneficiarios",
+    addPayee: "Añadir beneficiario",
+    noPayees: "Las personas a las que pagas se guardan aquí.",
+    payeeNickname: "Apodo (opcional)",
+    payeeNicknamePlaceholder: "p. ej., Mamá",
+    payeeAccountNumber: "Número de cuenta",
+    payeeAccountEnding: "{{name}} · cuenta terminada en {{last4}}",
+    payeeLastPaid: "Último pago el {{date}}",
+    removePayee: "Eliminar beneficiario",
+    confirmRemovePayee: "¿Eliminar a {{name}} de tus beneficiarios?",
+    recipientAmbiguous: "Varios beneficiarios coinciden con este nombre. ¿A cuál te refieres?",
+    // Money requests
+    moneyRequests: "Solicitudes",
+    requestMoney: "Solicitar dinero",
+    noMoneyRequests: "Pide a alguien que te devuelva el dinero y síguelo aquí.",
+    requestFrom: "A quién",
+    requestNote: "Nota (opcional)",
+    requestNotePlaceholder: "p. ej., Cena del viernes",
+    sendRequest: "Enviar solicitud",
+    requestedFromYou: "{{name}} te solicitó {{amount}}",
+    youRequested: "Solicitaste {{amount}} a {{name}}",
+    requestOutstanding: "{{amount}} pendiente",
+    payRequest: "Pagar",
+    declineRequest: "Rechazar",
+    cancelRequest: "Cancelar solicitud",
+    confirmDeclineRequest: "¿Rechazar la solicitud de {{name}}?",
+    requestStatusPending: "Pendiente",
+    requestStatusPartiallyPaid: "Pagada en parte",
+    requestStatusPaid: "Pagada",
+    requestStatusDeclined: "Rechazada",
+    requestStatusCancelled: "Cancelada",
+    // Bill splitting
+    splitBill: "Dividir cuenta",
+    splitBadge: "Dividida",
+    splitEqually: "A partes iguales",
+    splitCustom: "Importes personalizados",
+    splitIncludeMe: "Incluir mi parte",
+    splitWith: "Dividir con",
+    splitNoPayees: "Añade beneficiarios en la pantalla de Pagos para dividir cuentas con ellos.",
+    splitEachPays: "Cada persona paga {{amount}}",
+    splitYourShare: "Tu parte",
+    splitSendRequests: "Enviar solicitudes",
+    splitSettled: "{{settled}} de {{count}} saldadas",
+    splitOutstanding: "Faltan {{amount}} por cobrar",
+    // Deposit accounts
+    accounts: "Cuentas",
+    mainAccount: "Cuenta principal",
+    openAccount: "Abrir cuenta",
+    accountEndingIn: "Cuenta terminada en {{last4}}",
+    jointWith: "Conjunta con {{names}}",
+    moveTo: "Mover a",
+    noAccountTransactions: "Todavía no hay transacciones en esta cuenta.",
+    closeAccount: "Cerrar cuenta",
+    confirmCloseAccount: "¿Cerrar {{name}}? Esta acción no se puede deshacer.",
+    accountType: "Tipo de cuenta",
+    accountTypeChecking: "Corriente",
+    accountTypeSavings: "Ahorros",
+    accountTypeJoint: "Conjunta",
+    accountName: "Nombre de la cuenta",
+    accountNamePlaceholder: "p. ej. Fondo de vacaciones",
+    jointHolder: "Compartir con",
+    payFrom: "Pagar desde",
+    // Card controls
+    cardControls: "Controles",
+    cardFrozen: "Congelada",
+    freezeCard: "Congelar tarjeta",
+    onlinePurchases: "Compras en línea",
+    internationalPurchases: "Compras internacionales",
+    spendingLimits: "Límites de gasto",
+    perPurchaseLimit: "Por compra",
+    monthlyCardLimit: "Por mes",
+    noLimit: "Sin límite",
+    spentThisMonth: "{{amount}} gastado este mes",
+    blockedCategories: "Categorías bloqueadas",
+    budgetAlert80: "Has usado el {{percent}}% de tu presupuesto de {{category}}.",
+    budgetAlert100: "Has usado todo tu presupuesto de {{category}}.",
+    // Delinquency
+    delinquencyPastDue: "Vencido",
+    delinquencyPastDue30: "Más de 30 días vencido",
+    delinquencyPastDue60: "Más de 60 días vencido",
+    delinquencyChargedOff: "Castigado",
+    delinquencyCardAccount: "La tarjeta terminada en {{last4}}",
+    delinquencyLoanAccount: "El préstamo {{id}}",
+    delinquencyWarning: "{{account}} tiene {{days}} días de atraso. Paga {{amount}} para ponerte al día y evitar más cargos por mora.",
+    chargedOffWarning: "{{account}} fue castigado tras {{days}} días de pagos atrasados. Contáctanos para acordar el pago.",
+    penaltyAprWarning: "Se aplica una TAE de penalización del {{apr}}% hasta que la tarjeta esté al día.",
   },
   th: {
     // Welcome/Onboarding
@@ -251,22 +794,84 @@ const translations = {
     loginError: "ชื่อผู้ใช้หรือ PIN ไม่ถูกต้อง กรุณาลองใหม่",
     registerError: "กรุณากรอกข้อมูลทุกช่อง PIN ต้องมี 4 หลัก",
     registerErrorUsernameTaken: "ชื่อผู้ใช้นี้มีคนใช้แล้ว กรุณาเลือกชื่ออื่น",
+    accountCurrency: "สกุลเงินของบัญชี",
     navHome: "หน้าแรก",
+    navPayments: "การชำระเงิน",
     navCards: "บัตร",
     navLoans: "สินเชื่อ",
     navSettings: "ตั้งค่า",
     openAIAssistant: "เปิดผู้ช่วย AI",
     applyForNew: "สมัคร {{type}} ใหม่",
+    // Payments Screen
+    sendMoney: "โอนเงิน",
+    scheduledPayments: "รายการชำระล่วงหน้า",
+    noScheduledPayments: "ไม่มีรายการชำระล่วงหน้า",
+    schedulePaymentHint: "เลือกวันที่ในอนาคตหรือความถี่รายสัปดาห์/รายเดือนเพื่อตั้งค่า",
+    recipient: "ผู้รับ",
+    recipientPlaceholder: "ชื่อหรือเลขที่บัญชี",
+    amount: "จำนวนเงิน",
+    currency: "สกุลเงิน",
+    currencyConversion: "การแปลงสกุลเงิน",
+    recipientGets: "ผู้รับจะได้รับ",
+    exchangeRate: "อัตราแลกเปลี่ยน",
+    fxFee: "ค่าธรรมเนียมแลกเปลี่ยน",
+    totalDebited: "ยอดที่หักจากบัญชีของคุณ",
+    ratesMayChange: "จะใช้อัตราแลกเปลี่ยน ณ วันที่ชำระ ซึ่งอาจแตกต่างจากวันนี้",
+    paymentDate: "วันที่ชำระ",
+    frequency: "ความถี่",
+    frequencyOnce: "ครั้งเดียว",
+    frequencyWeekly: "รายสัปดาห์",
+    frequencyMonthly: "รายเดือน",
+    endDateOptional: "วันสิ้นสุด (ไม่บังคับ)",
+    sendNow: "โอนทันที",
+    schedulePayment: "ตั้งเวลาชำระ",
+    saveChanges: "บันทึกการเปลี่ยนแปลง",
+    editScheduledPayment: "แก้ไขรายการชำระล่วงหน้า",
+    statusActive: "ใช้งานอยู่",
+    statusCompleted: "เสร็จสิ้น",
+    statusCancelled: "ยกเลิกแล้ว",
+    endsOn: "สิ้นสุดวันที่",
+    lastRun: "ดำเนินการล่าสุด",
+    edit: "แก้ไข",
+    cancelPayment: "ยกเลิกการชำระ",
+    confirmCancelPayment: "ยกเลิกรายการชำระล่วงหน้าให้ {{name}} หรือไม่?",
     totalBalance: "ยอดเงินรวม",
     recentActivity: "กิจกรรมล่าสุด",
     vs: "เทียบกับ",
     noTransactions: "ยังไม่มีธุรกรรม",
+    transactionFailed: "ไม่สำเร็จ",
+    transactionPending: "รอดำเนินการ",
+    transactionReversed: "ยกเลิกรายการแล้ว",
+    reverseTransfer: "ยกเลิกรายการ",
+    confirmReverseTransfer: "ยกเลิกการโอนเงินให้ {{name}} หรือไม่? เงินจะถูกคืนเข้าบัญชีของคุณ",
     primaryCard: "บัตรหลัก",
     savings: "เงินออม",
     investments: "การลงทุน",
+    investmentAccount: "บัญชีการลงทุน",
+    portfolioValue: "มูลค่าพอร์ต",
+    holdingsValue: "เงินลงทุน",
+    uninvestedCash: "เงินสดพร้อมลงทุน",
+    unrealizedGain: "กำไรที่ยังไม่รับรู้",
+    realizedGain: "กำไรที่รับรู้แล้ว",
+    costBasis: "ต้นทุน",
+    holdings: "สินทรัพย์ที่ถือ",
+    noHoldings: "คุณยังไม่มีกองทุนใดๆ",
+    sharesAt: "{{quantity}} หน่วย ที่ {{price}}",
+    moveMoney: "โอนเงิน",
+    addFromSavings: "เพิ่มจากบัญชีออมทรัพย์",
+    moveToSavings: "โอนกลับบัญชีออมทรัพย์",
+    trade: "ซื้อขาย",
+    fund: "กองทุน",
+    buy: "ซื้อ",
+    sell: "ขาย",
+    placeOrder: "ส่งคำสั่ง",
+    recentOrders: "คำสั่งล่าสุด",
+    simulatedPricesNote: "ราคามาจากตลาดจำลองที่อัปเดตทุกวัน",
+    startInvestingHint: "โอนเงินจากบัญชีออมทรัพย์เพื่อเปิดบัญชีการลงทุน",
     cards: "บัตร",
     loans: "สินเชื่อ",
     spendingThisMonth: "ค่าใช้จ่ายเดือนนี้",
+    ledgerMismatch: "ยอดเงินบางรายการกำลังถูกกระทบยอดและอาจยังไม่เป็นปัจจุบันชั่วคราว",
     yourCards: "บัตรของคุณ",
     viewSummary: "ดูสรุป",
     transactionHistory: "ประวัติธุรกรรม",
@@ -275,6 +880,8 @@ const translations = {
     thisMonth: "เดือนนี้",
     noTransactionsPeriod: "ไม่พบธุรกรรมในช่วงเวลานี้",
     creditUsage: "การใช้วงเงินสินเชื่อ",
+    availableCredit: "วงเงินคงเหลือ",
+    pendingHolds: "ยอดที่รอดำเนินการ",
     dataAnalytics: "การวิเคราะห์ข้อมูล",
     noSpendingData: "ไม่มีข้อมูลค่าใช้จ่ายสำหรับเดือนนี้",
     yourLoans: "สินเชื่อของคุณ",
@@ -285,7 +892,55 @@ const translations = {
     nextPayment: "ชำระครั้งถัดไป",
     noActiveLoans: "ไม่มีสินเชื่อที่ใช้งานอยู่",
     applyForLoanHint: "สมัครสินเชื่อโดยใช้ปุ่มที่มุม!",
+    makeLoanPayment: "ชำระเงิน",
+    payInstallment: "ค่างวดรายเดือน",
+    payExtra: "ชำระเพิ่มเติม",
+    payOffLoan: "ปิดยอด",
+    interestPortion: "ดอกเบี้ย",
+    principalPortion: "เงินต้น",
+    lateFeesPortion: "ค่าปรับชำระล่าช้า",
+    // Loan quotes
+    checkYourRate: "ตรวจสอบอัตราดอกเบี้ย",
+    loanQuotes: "ใบเสนออัตราสินเชื่อ",
+    softCheckNote: "การตรวจสอบอัตราดอกเบี้ยไม่ใช่การยื่นใบสมัครและไม่กระทบเครดิตของคุณ",
+    seeMyRates: "ดูอัตราของฉัน",
+    estimatedRate: "อัตราโดยประมาณ",
+    totalInterestCost: "ดอกเบี้ยรวม",
+    totalCost: "ค่าใช้จ่ายรวม",
+    quoteNeedsReview: "ต้องพิจารณาเพิ่มเติม",
+    quoteNotAvailable: "ไม่พร้อมให้บริการ",
+    balanceAfterPayment: "ยอดคงเหลือหลังชำระ",
+    recentPayments: "การชำระล่าสุด",
+    loanHistory: "ประวัติสินเชื่อ",
+    paidOff: "ชำระครบแล้ว",
+    paidOffOn: "ชำระครบเมื่อ {{date}}",
+    totalInterestPaid: "ดอกเบี้ยที่ชำระทั้งหมด",
+    viewSchedule: "ดูตารางผ่อน",
+    amortizationSchedule: "ตารางผ่อนชำระ",
+    schedulePeriod: "#",
+    scheduleDue: "ครบกำหนด",
+    scheduleBalance: "ยอดคงเหลือ",
+    periodPaid: "ชำระแล้ว",
+    whatIfExtra: "ถ้าฉันจ่ายเพิ่มทุกเดือนล่ะ?",
+    extraPerMonth: "จ่ายเพิ่มต่อเดือน",
+    interestSaved: "ดอกเบี้ยที่ประหยัดได้",
+    newPayoffDate: "วันที่ปิดยอดใหม่",
+    currentPayoffDate: "วันที่ปิดยอดปัจจุบัน",
+    monthsSooner: "เร็วขึ้น {{months}} เดือน",
     language: "ภาษา",
+    transferLimits: "วงเงินการโอน",
+    perTransferLimit: "ต่อการโอน",
+    dailyLimit: "วงเงินรายวัน",
+    monthlyLimit: "วงเงินรายเดือน",
+    newPayeeLimit: "ผู้รับเงินใหม่ ({{hours}} ชั่วโมงแรก)",
+    sentToday: "โอนวันนี้",
+    sentThisMonth: "โอนเดือนนี้",
+    saveLimits: "บันทึกวงเงิน",
+    limitReasonPerTransaction: "เกินวงเงินต่อการโอน",
+    limitReasonDaily: "ถึงวงเงินรายวันแล้ว",
+    limitReasonMonthly: "ถึงวงเงินรายเดือนแล้ว",
+    limitReasonNewPayee: "วงเงินสำหรับผู้รับเงินใหม่",
+    limitReasonVelocity: "โอนบ่อยเกินไปในเวลาสั้นๆ",
     signOut: "ออกจากระบบ",
     aiAssistant: "ผู้ช่วย AI",
     chatGreeting: "สวัสดี {{name}}! มีอะไรให้ช่วยไหม?",
@@ -322,6 +977,20 @@ const translations = {
     submitApplication: "ส่งใบสมัคร",
     approved: "อนุมัติแล้ว!",
     applicationDenied: "ใบสมัครถูกปฏิเสธ",
+    applicationReferred: "อยู่ระหว่างพิจารณา",
+    // My applications
+    myApplications: "ใบสมัครของฉัน",
+    noApplications: "คุณยังไม่ได้สมัครบัตรหรือสินเชื่อ",
+    creditCardApplication: "บัตรเครดิต",
+    loanApplication: "สินเชื่อ {{amount}}",
+    submittedOn: "ส่งเมื่อ {{date}}",
+    applicationStatusSubmitted: "ส่งแล้ว",
+    applicationStatusUnderReview: "กำลังพิจารณา",
+    applicationStatusApproved: "อนุมัติแล้ว",
+    applicationStatusDeclined: "ถูกปฏิเสธ",
+    applicationStatusWithdrawn: "ถอนแล้ว",
+    withdrawApplication: "ถอนใบสมัคร",
+    confirmWithdrawApplication: "ถอนใบสมัครนี้หรือไม่?",
     close: "ปิด",
     statementSummary: "สรุปใบแจ้งยอด",
     forCardEndingIn: "สำหรับบัตรที่ลงท้ายด้วย",
@@ -331,6 +1000,151 @@ const translations = {
     importantInformation: "ข้อมูลสำคัญ",
     lateFeeWarning: "เพื่อหลีกเลี่ยงค่าธรรมเนียมการชำระล่าช้าสูงสุด $40 และ APR บทลงโทษ กรุณาชำระอย่างน้อยยอดขั้นต่ำภายในวันครบกำหนด",
     gotIt: "เข้าใจแล้ว",
+    pastStatements: "ใบแจ้งยอด",
+    noStatements: "ยังไม่มีใบแจ้งยอด ใบแรกจะออกเมื่อรอบบัญชีปัจจุบันปิด",
+    nextStatementOn: "ใบแจ้งยอดถัดไปวันที่ {{date}}",
+    statementPeriod: "{{start}} – {{end}}",
+    openingBalance: "ยอดยกมา",
+    purchases: "ยอดใช้จ่าย",
+    paymentsCredits: "ยอดชำระ",
+    interestCharged: "ดอกเบี้ย",
+    feesCharged: "ค่าธรรมเนียม",
+    closingBalance: "ยอดปิดรอบ",
+    minimumDue: "ยอดชำระขั้นต่ำ",
+    payCard: "ชำระเงิน",
+    payMinimum: "ยอดชำระขั้นต่ำ",
+    payStatement: "ยอดตามใบแจ้งยอด",
+    payFull: "ยอดคงค้างปัจจุบัน",
+    payCustom: "จำนวนอื่น",
+    payFromSavings: "ชำระจากบัญชีออมทรัพย์ของคุณ (ใช้ได้ {{balance}})",
+    payNow: "ชำระ {{amount}}",
+    currentBalance: "ยอดคงค้างปัจจุบัน",
+    interestAccrued: "ดอกเบี้ยสะสมรอบนี้",
+    gracePeriodActive: "ใบแจ้งยอดล่าสุดชำระเต็มจำนวนแล้ว การซื้อใหม่จึงไม่มีดอกเบี้ย",
+    savingsApyEarning: "รับผลตอบแทน {{apy}}% ต่อปี · ดอกเบี้ยเดือนนี้ {{amount}}",
+    // Savings goals
+    savingsGoals: "เป้าหมายการออม",
+    newGoal: "เป้าหมายใหม่",
+    noSavingsGoals: "กันเงินไว้สำหรับสิ่งที่คุณกำลังออมเพื่อไปให้ถึง",
+    goalName: "ชื่อเป้าหมาย",
+    goalNamePlaceholder: "เช่น ท่องเที่ยว",
+    targetAmount: "จำนวนเงินเป้าหมาย",
+    targetDateOptional: "วันที่เป้าหมาย (ไม่บังคับ)",
+    savedOfTarget: "{{saved}} จาก {{target}}",
+    goalReached: "ถึงเป้าหมายแล้ว!",
+    neededPerMonth: "ออม {{amount}}/เดือน เพื่อให้ถึงภายใน {{date}}",
+    availableSavings: "ยังไม่ได้กันไว้: {{amount}}",
+    addToGoal: "กันเงิน",
+    takeFromGoal: "ปล่อยเงิน",
+    autoContribution: "การออมอัตโนมัติ",
+    noAutoContribution: "ไม่มี",
+    nextContribution: "ครั้งถัดไป {{date}}",
+    createGoal: "สร้างเป้าหมาย",
+    closeGoal: "ปิดเป้าหมาย",
+    confirmCloseGoal: "ปิดเป้าหมายนี้หรือไม่? เงินจะกลับมาใช้จ่ายได้อีกครั้ง",
+    // Budgets
+    budgets: "งบประมาณ",
+    setBudget: "ตั้งงบประมาณ",
+    noBudgets: "ตั้งวงเงินรายเดือนให้หมวดหมู่เพื่อติดตามการใช้จ่ายของคุณ",
+    budgetCategory: "หมวดหมู่",
+    monthlyBudget: "งบประมาณรายเดือน",
+    budgetRollover: "เมื่อสิ้นเดือน",
+    rolloverNone: "เริ่มใหม่",
+    rolloverSurplus: "ยกยอดส่วนที่เหลือ",
+    rolloverFull: "ยกยอดส่วนที่เหลือหรือส่วนที่ใช้เกิน",
+    spentOfBudget: "{{spent}} จาก {{available}}",
+    budgetLeft: "เหลือ {{amount}}",
+    budgetOver: "เกินงบ {{amount}}",
+    budgetCarriedOver: "รวมยอดยกมา {{amount}}",
+    removeBudget: "ลบงบประมาณ",
+    confirmRemoveBudget: "ลบงบประมาณ {{category}} หรือไม่?",
+    // Payees
+    payees: "ผู้รับเงิน",
+    addPayee: "เพิ่มผู้รับเงิน",
+    noPayees: "ผู้ที่คุณโอนเงินให้จะถูกบันทึกไว้ที่นี่",
+    payeeNickname: "ชื่อเล่น (ไม่บังคับ)",
+    payeeNicknamePlaceholder: "เช่น แม่",
+    payeeAccountNumber: "เลขที่บัญชี",
+    payeeAccountEnding: "{{name}} · บัญชีลงท้าย {{last4}}",
+    payeeLastPaid: "โอนล่าสุด {{date}}",
+    removePayee: "ลบผู้รับเงิน",
+    confirmRemovePayee: "ลบ {{name}} ออกจากผู้รับเงินหรือไม่?",
+    recipientAmbiguous: "มีผู้รับเงินหลายคนที่ตรงกับชื่อนี้ คุณหมายถึงคนไหน?",
+    // Money requests
+    moneyRequests: "คำขอเงิน",
+    requestMoney: "ขอเงิน",
+    noMoneyRequests: "ขอให้ใครสักคนคืนเงินคุณและติดตามได้ที่นี่",
+    requestFrom: "ขอจาก",
+    requestNote: "บันทึก (ไม่บังคับ)",
+    requestNotePlaceholder: "เช่น ค่าอาหารเย็นวันศุกร์",
+    sendRequest: "ส่งคำขอ",
+    requestedFromYou: "{{name}} ขอเงิน {{amount}}",
+    youRequested: "คุณขอเงิน {{amount}} จาก {{name}}",
+    requestOutstanding: "ค้างอยู่ {{amount}}",
+    payRequest: "จ่าย",
+    declineRequest: "ปฏิเสธ",
+    cancelRequest: "ยกเลิกคำขอ",
+    confirmDeclineRequest: "ปฏิเสธคำขอของ {{name}} หรือไม่?",
+    requestStatusPending: "รอดำเนินการ",
+    requestStatusPartiallyPaid: "จ่ายบางส่วน",
+    requestStatusPaid: "จ่ายแล้ว",
+    requestStatusDeclined: "ถูกปฏิเสธ",
+    requestStatusCancelled: "ยกเลิกแล้ว",
+    // Bill splitting
+    splitBill: "แบ่งจ่ายบิล",
+    splitBadge: "แบ่งจ่ายแล้ว",
+    splitEqually: "แบ่งเท่ากัน",
+    splitCustom: "กำหนดจำนวนเอง",
+    splitIncludeMe: "รวมส่วนของฉัน",
+    splitWith: "แบ่งกับ",
+    splitNoPayees: "เพิ่มผู้รับเงินในหน้าการชำระเงินเพื่อแบ่งบิลกับพวกเขา",
+    splitEachPays: "แต่ละคนจ่าย {{amount}}",
+    splitYourShare: "ส่วนของคุณ",
+    splitSendRequests: "ส่งคำขอ",
+    splitSettled: "ชำระแล้ว {{settled}} จาก {{count}}",
+    splitOutstanding: "ยังต้องเก็บอีก {{amount}}",
+    // Deposit accounts
+    accounts: "บัญชี",
+    mainAccount: "บัญชีหลัก",
+    openAccount: "เปิดบัญชี",
+    accountEndingIn: "บัญชีลงท้ายด้วย {{last4}}",
+    jointWith: "บัญชีร่วมกับ {{names}}",
+    moveTo: "โอนไปยัง",
+    noAccountTransactions: "ยังไม่มีรายการในบัญชีนี้",
+    closeAccount: "ปิดบัญชี",
+    confirmCloseAccount: "ปิด {{name}} หรือไม่? ไม่สามารถยกเลิกได้",
+    accountType: "ประเภทบัญชี",
+    accountTypeChecking: "กระแสรายวัน",
+    accountTypeSavings: "ออมทรัพย์",
+    accountTypeJoint: "บัญชีร่วม",
+    accountName: "ชื่อบัญชี",
+    accountNamePlaceholder: "เช่น เงินเที่ยววันหยุด",
+    jointHolder: "ใช้ร่วมกับ",
+    payFrom: "ชำระจาก",
+    // Card controls
+    cardControls: "การควบคุม",
+    cardFrozen: "ระงับชั่วคราว",
+    freezeCard: "ระงับบัตรชั่วคราว",
+    onlinePurchases: "การซื้อออนไลน์",
+    internationalPurchases: "การซื้อในต่างประเทศ",
+    spendingLimits: "วงเงินการใช้จ่าย",
+    perPurchaseLimit: "ต่อการซื้อ",
+    monthlyCardLimit: "ต่อเดือน",
+    noLimit: "ไม่จำกัด",
+    spentThisMonth: "ใช้ไปแล้ว {{amount}} ในเดือนนี้",
+    blockedCategories: "หมวดหมู่ที่บล็อก",
+    budgetAlert80: "คุณใช้งบประมาณ {{category}} ไปแล้ว {{percent}}%",
+    budgetAlert100: "คุณใช้งบประมาณ {{category}} หมดแล้ว",
+    // Delinquency
+    delinquencyPastDue: "ค้างชำระ",
+    delinquencyPastDue30: "ค้างชำระเกิน 30 วัน",
+    delinquencyPastDue60: "ค้างชำระเกิน 60 วัน",
+    delinquencyChargedOff: "ตัดเป็นหนี้สูญ",
+    delinquencyCardAccount: "บัตรที่ลงท้ายด้วย {{last4}}",
+    delinquencyLoanAccount: "สินเชื่อ {{id}}",
+    delinquencyWarning: "{{account}} ค้างชำระมา {{days}} วัน ชำระ {{amount}} เพื่อให้บัญชีเป็นปกติและหลีกเลี่ยงค่าปรับเพิ่มเติม",
+    chargedOffWarning: "{{account}} ถูกตัดเป็นหนี้สูญหลังค้างชำระ {{days}} วัน โปรดติดต่อเราเพื่อตกลงการชำระคืน",
+    penaltyAprWarning: "มีการใช้อัตราดอกเบี้ยปรับ {{apr}}% ต่อปีจนกว่าบัตรจะกลับเป็นปกติ",
   },
   tl: {
     // Welcome/Onboarding
@@ -355,22 +1169,84 @@ const translations = {
     loginError: "Di-wasto ang username o PIN. Pakisubukang muli.",
     registerError: "Pakipunan ang lahat ng field. Ang PIN ay dapat 4 na digit.",
     registerErrorUsernameTaken: "May gumagamit na ng username. Pumili ng iba.",
+    accountCurrency: "Pera ng account",
     navHome: "Home",
+    navPayments: "Bayad",
     navCards: "Mga Card",
     navLoans: "Mga Loan",
     navSettings: "Mga Setting",
     openAIAssistant: "Buksan ang AI Assistant",
     applyForNew: "Mag-apply para sa bagong {{type}}",
+    // Payments Screen
+    sendMoney: "Magpadala ng Pera",
+    scheduledPayments: "Mga Naka-iskedyul na Bayad",
+    noScheduledPayments: "Walang naka-iskedyul na bayad.",
+    schedulePaymentHint: "Pumili ng petsa sa hinaharap o lingguhan/buwanang dalas para mag-set up.",
+    recipient: "Tatanggap",
+    recipientPlaceholder: "Pangalan o account number",
+    amount: "Halaga",
+    currency: "Pera",
+    currencyConversion: "Pagpapalit ng pera",
+    recipientGets: "Matatanggap ng tatanggap",
+    exchangeRate: "Palitan",
+    fxFee: "Bayad sa palitan",
+    totalDebited: "Kabuuang kukunin sa iyong account",
+    ratesMayChange: "Gagamitin ang palitan sa petsa ng bayad; maaaring iba ito sa ngayon.",
+    paymentDate: "Petsa ng bayad",
+    frequency: "Dalas",
+    frequencyOnce: "Isang beses",
+    frequencyWeekly: "Lingguhan",
+    frequencyMonthly: "Buwanan",
+    endDateOptional: "Petsa ng pagtatapos (opsyonal)",
+    sendNow: "Ipadala Ngayon",
+    schedulePayment: "I-iskedyul ang Bayad",
+    saveChanges: "I-save ang mga Pagbabago",
+    editScheduledPayment: "I-edit ang Naka-iskedyul na Bayad",
+    statusActive: "Aktibo",
+    statusCompleted: "Tapos na",
+    statusCancelled: "Kinansela",
+    endsOn: "Matatapos sa",
+    lastRun: "Huling takbo",
+    edit: "I-edit",
+    cancelPayment: "Kanselahin ang Bayad",
+    confirmCancelPayment: "Kanselahin ang naka-iskedyul na bayad kay {{name}}?",
     totalBalance: "Kabuuang Balanse",
     recentActivity: "Kamakailang Aktibidad",
     vs: "vs.",
     noTransactions: "Wala pang mga transaksyon.",
+    transactionFailed: "Nabigo",
+    transactionPending: "Nakabinbin",
+    transactionReversed: "Binawi",
+    reverseTransfer: "Bawiin",
+    confirmReverseTransfer: "Bawiin ang bayad na ito kay {{name}}? Ibabalik ang pera sa iyong account.",
     primaryCard: "Pangunahing Card",
     savings: "Ipon",
     investments: "Pamumuhunan",
+    investmentAccount: "Investment account",
+    portfolioValue: "Halaga ng portfolio",
+    holdingsValue: "Naka-invest",
+    uninvestedCash: "Cash na mai-invest",
+    unrealizedGain: "Hindi pa natatanggap na kita",
+    realizedGain: "Natanggap na kita",
+    costBasis: "Halaga ng pagbili",
+    holdings: "Mga hawak",
+    noHoldings: "Wala ka pang pag-aaring fund.",
+    sharesAt: "{{quantity}} shares sa {{price}}",
+    moveMoney: "Maglipat ng pera",
+    addFromSavings: "Magdagdag mula sa savings",
+    moveToSavings: "Ilipat sa savings",
+    trade: "Mag-trade",
+    fund: "Fund",
+    buy: "Bumili",
+    sell: "Magbenta",
+    placeOrder: "Ilagay ang order",
+    recentOrders: "Mga kamakailang order",
+    simulatedPricesNote: "Ang mga presyo ay mula sa simulated na market feed na nag-a-update araw-araw.",
+    startInvestingHint: "Maglipat ng pera mula sa savings para buksan ang iyong investment account.",
     cards: "Mga Card",
     loans: "Mga Loan",
     spendingThisMonth: "Gastusin Ngayong Buwan",
+    ledgerMismatch: "Ang ilang balanse ay kasalukuyang nire-reconcile at maaaring pansamantalang hindi updated.",
     yourCards: "Iyong Mga Card",
     viewSummary: "Tingnan ang Buod",
     transactionHistory: "Kasaysayan ng Transaksyon",
@@ -379,6 +1255,8 @@ const translations = {
     thisMonth: "Ngayong Buwan",
     noTransactionsPeriod: "Walang nakitang transaksyon para sa panahong ito.",
     creditUsage: "Paggamit ng Credit",
+    availableCredit: "Magagamit",
+    pendingHolds: "Mga nakabinbing hold",
     dataAnalytics: "Pagsusuri ng Datos",
     noSpendingData: "Walang data ng gastusin para sa buwang ito.",
     yourLoans: "Iyong Mga Loan",
@@ -389,7 +1267,55 @@ const translations = {
     nextPayment: "Susunod na bayad",
     noActiveLoans: "Walang aktibong mga loan.",
     applyForLoanHint: "Mag-apply gamit ang button sa sulok!",
+    makeLoanPayment: "Magbayad",
+    payInstallment: "Buwanang hulog",
+    payExtra: "Dagdag na bayad",
+    payOffLoan: "Bayaran nang buo",
+    interestPortion: "Interes",
+    principalPortion: "Prinsipal",
+    lateFeesPortion: "Mga late fee",
+    // Loan quotes
+    checkYourRate: "Alamin ang rate mo",
+    loanQuotes: "Mga quote ng loan rate",
+    softCheckNote: "Ang pag-alam ng rate mo ay hindi nagsusumite ng aplikasyon at hindi nakaaapekto sa credit mo.",
+    seeMyRates: "Tingnan ang mga rate ko",
+    estimatedRate: "Tantyang rate",
+    totalInterestCost: "Kabuuang interes",
+    totalCost: "Kabuuang gastos",
+    quoteNeedsReview: "Kailangang suriin",
+    quoteNotAvailable: "Hindi available",
+    balanceAfterPayment: "Balanse pagkatapos magbayad",
+    recentPayments: "Mga kamakailang bayad",
+    loanHistory: "Kasaysayan ng loan",
+    paidOff: "Bayad na",
+    paidOffOn: "Nabayaran noong {{date}}",
+    totalInterestPaid: "Kabuuang interes na binayaran",
+    viewSchedule: "Tingnan ang iskedyul",
+    amortizationSchedule: "Iskedyul ng amortisasyon",
+    schedulePeriod: "#",
+    scheduleDue: "Takdang petsa",
+    scheduleBalance: "Balanse",
+    periodPaid: "Bayad na",
+    whatIfExtra: "Paano kung magbayad ako ng dagdag bawat buwan?",
+    extraPerMonth: "Dagdag bawat buwan",
+    interestSaved: "Natipid na interes",
+    newPayoffDate: "Bagong petsa ng pagbabayad nang buo",
+    currentPayoffDate: "Kasalukuyang petsa ng pagbabayad nang buo",
+    monthsSooner: "{{months}} buwang mas maaga",
     language: "Wika",
+    transferLimits: "Mga limitasyon sa transfer",
+    perTransferLimit: "Bawat transfer",
+    dailyLimit: "Araw-araw na limitasyon",
+    monthlyLimit: "Buwanang limitasyon",
+    newPayeeLimit: "Bagong payee (unang {{hours}} oras)",
+    sentToday: "Naipadala ngayong araw",
+    sentThisMonth: "Naipadala ngayong buwan",
+    saveLimits: "I-save ang mga limitasyon",
+    limitReasonPerTransaction: "Lampas sa limitasyon bawat transfer",
+    limitReasonDaily: "Naabot na ang araw-araw na limitasyon",
+    limitReasonMonthly: "Naabot na ang buwanang limitasyon",
+    limitReasonNewPayee: "Limitasyon para sa bagong payee",
+    limitReasonVelocity: "Masyadong maraming transfer sa maikling panahon",
     signOut: "Mag-sign Out",
     aiAssistant: "AI Assistant",
     chatGreeting: "Hi {{name}}! Paano ako makakatulong?",
@@ -426,6 +1352,20 @@ const translations = {
     submitApplication: "Ipasa ang Aplikasyon",
     approved: "Aprubado!",
     applicationDenied: "Tinatanggihan ang Aplikasyon",
+    applicationReferred: "Sinusuri Pa",
+    // My applications
+    myApplications: "Aking mga aplikasyon",
+    noApplications: "Hindi ka pa nag-a-apply para sa card o loan.",
+    creditCardApplication: "Credit card",
+    loanApplication: "Loan na {{amount}}",
+    submittedOn: "Isinumite noong {{date}}",
+    applicationStatusSubmitted: "Naisumite",
+    applicationStatusUnderReview: "Sinusuri",
+    applicationStatusApproved: "Aprubado",
+    applicationStatusDeclined: "Tinanggihan",
+    applicationStatusWithdrawn: "Binawi",
+    withdrawApplication: "Bawiin ang aplikasyon",
+    confirmWithdrawApplication: "Bawiin ang aplikasyong ito?",
     close: "Isara",
     statementSummary: "Buod ng Statement",
     forCardEndingIn: "Para sa card na nagtatapos sa",
@@ -435,15 +1375,169 @@ const translations = {
     importantInformation: "Mahalagang Impormasyon",
     lateFeeWarning: "Upang maiwasan ang late fee na hanggang $40 at penalty APR, mangyaring bayaran kahit man lang ang minimum na halaga bago ang takdang petsa.",
     gotIt: "Nakuha ko",
+    pastStatements: "Mga statement",
+    noStatements: "Wala pang statement. Ilalabas ang una kapag nagsara ang kasalukuyang billing cycle.",
+    nextStatementOn: "Susunod na statement sa {{date}}",
+    statementPeriod: "{{start}} – {{end}}",
+    openingBalance: "Panimulang balanse",
+    purchases: "Mga binili",
+    paymentsCredits: "Mga bayad",
+    interestCharged: "Interes",
+    feesCharged: "Mga singil",
+    closingBalance: "Pangwakas na balanse",
+    minimumDue: "Minimum na dapat bayaran",
+    payCard: "Magbayad",
+    payMinimum: "Minimum na bayad",
+    payStatement: "Balanse ng statement",
+    payFull: "Kasalukuyang balanse",
+    payCustom: "Ibang halaga",
+    payFromSavings: "Babayaran mula sa iyong savings account ({{balance}} ang available).",
+    payNow: "Magbayad ng {{amount}}",
+    currentBalance: "Kasalukuyang balanse",
+    interestAccrued: "Naipong interes ngayong cycle",
+    gracePeriodActive: "Bayad nang buo ang huling statement mo, kaya walang interes ang mga bagong bili.",
+    savingsApyEarning: "Kumikita ng {{apy}}% APY · {{amount}} na interes ngayong buwan",
+    // Savings goals
+    savingsGoals: "Mga layunin sa pag-iipon",
+    newGoal: "Bagong layunin",
+    noSavingsGoals: "Magtabi ng pera para sa isang bagay na pinag-iipunan mo.",
+    goalName: "Pangalan ng layunin",
+    goalNamePlaceholder: "hal., Bakasyon",
+    targetAmount: "Target na halaga",
+    targetDateOptional: "Target na petsa (opsyonal)",
+    savedOfTarget: "{{saved}} sa {{target}}",
+    goalReached: "Naabot ang layunin!",
+    neededPerMonth: "Mag-ipon ng {{amount}}/buwan para maabot ito bago ang {{date}}",
+    availableSavings: "Hindi nakatabi: {{amount}}",
+    addToGoal: "Itabi",
+    takeFromGoal: "Ilabas",
+    autoContribution: "Awtomatikong hulog",
+    noAutoContribution: "Wala",
+    nextContribution: "Susunod sa {{date}}",
+    createGoal: "Gumawa ng layunin",
+    closeGoal: "Isara ang layunin",
+    confirmCloseGoal: "Isara ang layuning ito? Magagamit muli ang pera nito.",
+    // Budgets
+    budgets: "Mga Badyet",
+    setBudget: "Magtakda ng badyet",
+    noBudgets: "Magtakda ng buwanang limitasyon para sa isang kategorya para masubaybayan ang iyong gastos.",
+    budgetCategory: "Kategorya",
+    monthlyBudget: "Buwanang badyet",
+    budgetRollover: "Sa katapusan ng buwan",
+    rolloverNone: "Magsimula muli",
+    rolloverSurplus: "Ilipat ang natira",
+    rolloverFull: "Ilipat ang natira o sobrang nagastos",
+    spentOfBudget: "{{spent}} sa {{available}}",
+    budgetLeft: "{{amount}} ang natitira",
+    budgetOver: "{{amount}} lampas sa badyet",
+    budgetCarriedOver: "Kasama ang {{amount}} na inilipat",
+    removeBudget: "Alisin ang badyet",
+    confirmRemoveBudget: "Alisin ang badyet para sa {{category}}?",
+    // Payees
+    payees: "Mga Payee",
+    addPayee: "Magdagdag ng payee",
+    noPayees: "Dito nase-save ang mga taong binabayaran mo.",
+    payeeNickname: "Palayaw (opsyonal)",
+    payeeNicknamePlaceholder: "hal., Nanay",
+    payeeAccountNumber: "Numero ng account",
+    payeeAccountEnding: "{{name}} · account na nagtatapos sa {{last4}}",
+    payeeLastPaid: "Huling binayaran noong {{date}}",
+    removePayee: "Alisin ang payee",
+    confirmRemovePayee: "Alisin si {{name}} sa iyong mga payee?",
+    recipientAmbiguous: "Maraming payee ang tugma sa pangalang ito. Alin ang ibig mong sabihin?",
+    // Money requests
+    moneyRequests: "Mga Hiling",
+    requestMoney: "Humiling ng pera",
+    noMoneyRequests: "Hilingin sa isang tao na bayaran ka at subaybayan ito rito.",
+    requestFrom: "Kanino",
+    requestNote: "Tala (opsyonal)",
+    requestNotePlaceholder: "hal., Hapunan noong Biyernes",
+    sendRequest: "Ipadala ang hiling",
+    requestedFromYou: "Humiling si {{name}} ng {{amount}}",
+    youRequested: "Humiling ka ng {{amount}} kay {{name}}",
+    requestOutstanding: "{{amount}} ang kulang pa",
+    payRequest: "Bayaran",
+    declineRequest: "Tanggihan",
+    cancelRequest: "Kanselahin ang hiling",
+    confirmDeclineRequest: "Tanggihan ang hiling ni {{name}}?",
+    requestStatusPending: "Nakabinbin",
+    requestStatusPartiallyPaid: "Bahagyang bayad",
+    requestStatusPaid: "Bayad na",
+    requestStatusDeclined: "Tinanggihan",
+    requestStatusCancelled: "Kinansela",
+    // Bill splitting
+    splitBill: "Hatiin ang bill",
+    splitBadge: "Hinati",
+    splitEqually: "Pantay-pantay",
+    splitCustom: "Sariling halaga",
+    splitIncludeMe: "Isama ang aking bahagi",
+    splitWith: "Hatiin kasama si",
+    splitNoPayees: "Magdagdag ng mga payee sa Payments screen para makapaghati ng bill sa kanila.",
+    splitEachPays: "Bawat isa ay magbabayad ng {{amount}}",
+    splitYourShare: "Iyong bahagi",
+    splitSendRequests: "Ipadala ang mga request",
+    splitSettled: "{{settled}} sa {{count}} ang bayad na",
+    splitOutstanding: "{{amount}} pa ang sisingilin",
+    // Deposit accounts
+    accounts: "Mga Account",
+    mainAccount: "Pangunahing account",
+    openAccount: "Magbukas ng account",
+    accountEndingIn: "Account na nagtatapos sa {{last4}}",
+    jointWith: "Kasama si {{names}}",
+    moveTo: "Ilipat sa",
+    noAccountTransactions: "Wala pang transaksyon sa account na ito.",
+    closeAccount: "Isara ang account",
+    confirmCloseAccount: "Isara ang {{name}}? Hindi na ito maibabalik.",
+    accountType: "Uri ng account",
+    accountTypeChecking: "Checking",
+    accountTypeSavings: "Savings",
+    accountTypeJoint: "Joint",
+    accountName: "Pangalan ng account",
+    accountNamePlaceholder: "hal. Pondo para sa bakasyon",
+    jointHolder: "Ibahagi kay",
+    payFrom: "Magbayad mula sa",
+    // Card controls
+    cardControls: "Mga Kontrol",
+    cardFrozen: "Naka-freeze",
+    freezeCard: "I-freeze ang card",
+    onlinePurchases: "Pagbili online",
+    internationalPurchases: "Pagbili sa ibang bansa",
+    spendingLimits: "Mga limitasyon sa paggastos",
+    perPurchaseLimit: "Bawat pagbili",
+    monthlyCardLimit: "Bawat buwan",
+    noLimit: "Walang limitasyon",
+    spentThisMonth: "{{amount}} ang nagastos ngayong buwan",
+    blockedCategories: "Mga naka-block na kategorya",
+    budgetAlert80: "Nagamit mo na ang {{percent}}% ng iyong badyet para sa {{category}}.",
+    budgetAlert100: "Nagamit mo na ang buong badyet mo para sa {{category}}.",
+    // Delinquency
+    delinquencyPastDue: "Lampas sa takdang petsa",
+    delinquencyPastDue30: "Lampas 30+ araw",
+    delinquencyPastDue60: "Lampas 60+ araw",
+    delinquencyChargedOff: "Na-charge off",
+    delinquencyCardAccount: "Ang card na nagtatapos sa {{last4}}",
+    delinquencyLoanAccount: "Ang loan {{id}}",
+    delinquencyWarning: "{{account}} ay {{days}} araw nang lampas sa takdang petsa. Magbayad ng {{amount}} para maging updated ito at maiwasan ang dagdag na late fee.",
+    chargedOffWarning: "{{account}} ay na-charge off matapos ang {{days}} araw ng hindi pagbabayad. Makipag-ugnayan sa amin para sa pagbabayad.",
+    penaltyAprWarning: "May penalty APR na {{apr}}% hanggang maging updated ang card.",
   }
 };
 
 type Language = 'en' | 'es' | 'th' | 'tl';
 
+// Number and currency formatting follows the UI language; the currency itself comes from the amount.
+const LOCALES: Record<Language, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  th: 'th-TH',
+  tl: 'fil-PH',
+};
+
 interface LanguageContextType {
   language: Language;
   setLanguage: (language: Language) => void;
   t: (key: keyof typeof translations.en, options?: Record<string, string>) => string;
+  formatMoney: (amount: Money) => string;
 }
 
 const LanguageContext = createContext<LanguageContextType>(null!);
@@ -473,8 +1567,10 @@ export const LanguageProvider = ({ children }: { children: ReactNode }) => {
     return text;
   };
 
+  const formatMoney = (amount: Money) => formatMoneyInLocale(amount, LOCALES[language]);
+
   // FIX: Replaced JSX with React.createElement to allow its use within a .ts file, resolving parsing errors.
-  return React.createElement(LanguageContext.Provider, { value: { language, setLanguage, t } }, children);
+  return React.createElement(LanguageContext.Provider, { value: { language, setLanguage, t, formatMoney } }, children);
 };
 
 export const useTranslation = () => {
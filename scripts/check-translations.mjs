@@ -0,0 +1,61 @@
+// Checks hooks/useTranslation.ts against the t() calls in the app: t() only replaces
+// {{name}} placeholders, so a translation must use that form for every option it is given,
+// in every language.
+import { readFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+
+const root = new URL('..', import.meta.url).pathname;
+const LANGUAGES = ['en', 'es', 'th', 'tl'];
+
+const translations = {};
+let language;
+for (const line of readFileSync(join(root, 'hooks/useTranslation.ts'), 'utf8').split('\n')) {
+    const block = /^  (\w+): \{$/.exec(line);
+    if (block && LANGUAGES.includes(block[1])) {
+        language = block[1];
+        translations[language] = {};
+    } else if (/^  \}/.test(line)) {
+        language = undefined;
+    } else if (language) {
+        const entry = /^    (\w+): (".*"),?$/.exec(line);
+        if (entry) translations[language][entry[1]] = JSON.parse(entry[2]);
+    }
+}
+
+const sourceFiles = dir => readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    if (entry.isDirectory()) return entry.name === 'node_modules' || entry.name.startsWith('.') ? [] : sourceFiles(join(dir, entry.name));
+    return /\.tsx?$/.test(entry.name) ? [join(dir, entry.name)] : [];
+});
+
+const errors = [];
+
+for (const lang of LANGUAGES) {
+    for (const [key, text] of Object.entries(translations[lang] ?? {})) {
+        for (const [placeholder] of text.matchAll(/(?<!\{)\{\w+\}(?!\})/g)) {
+            errors.push(`${lang}.${key}: ${placeholder} is never replaced; use {${placeholder}}.`);
+        }
+    }
+}
+
+for (const file of sourceFiles(root)) {
+    const source = readFileSync(file, 'utf8');
+    for (const [, key, options] of source.matchAll(/\bt\('(\w+)',\s*\{([^{}]*)\}\s*\)/g)) {
+        const names = [...options.matchAll(/(?:^|,)\s*(\w+)\s*(?=[:,]|$)/g)].map(match => match[1]);
+        for (const lang of LANGUAGES) {
+            const text = translations[lang]?.[key];
+            if (text === undefined) {
+                errors.push(`${lang}.${key}: missing (used in ${file.slice(root.length)}).`);
+                continue;
+            }
+            for (const name of names) {
+                if (!text.includes(`{{${name}}}`)) errors.push(`${lang}.${key}: no {{${name}}} placeholder (passed in ${file.slice(root.length)}).`);
+            }
+        }
+    }
+}
+
+if (errors.length > 0) {
+    console.error(errors.join('\n'));
+    process.exit(1);
+}
+console.log(`Translations OK: ${LANGUAGES.map(lang => `${Object.keys(translations[lang] ?? {}).length} ${lang}`).join(', ')} strings.`);
@@ -0,0 +1,90 @@
+import { ApplicationProduct, ApplicationRecord, ApplicationStatus, CardApplicationDetails, LoanApplicationDetails } from '../types';
+import { BankState, BankOperation, OperationResult, unchanged } from './bankService';
+import { CreditDecision, CreditDecisionOutcome } from './creditDecision';
+import { formatMoney } from './money';
+
+// Every card and loan application is kept with the details it was submitted with, its
+// status and the reasons behind the decision, so users (and the assistant) can follow up.
+
+export interface ApplicationResult extends OperationResult {
+    application?: ApplicationRecord;
+}
+
+// Which status an application may move to from each status. Approved, declined and withdrawn are final.
+const ALLOWED_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+    submitted: ['underReview', 'approved', 'declined', 'withdrawn'],
+    underReview: ['approved', 'declined', 'withdrawn'],
+    approved: [],
+    declined: [],
+    withdrawn: [],
+};
+
+const STATUS_FOR_OUTCOME: Record<CreditDecisionOutcome, ApplicationStatus> = {
+    approve: 'approved',
+    decline: 'declined',
+    refer: 'underReview',
+};
+
+export const isApplicationOpen = (application: ApplicationRecord): boolean => ALLOWED_TRANSITIONS[application.status].length > 0;
+
+export const describeApplication = (application: ApplicationRecord): string => {
+    if (application.product === 'card') return 'credit card';
+    return `${formatMoney((application.details as LoanApplicationDetails).loanAmount)} loan`;
+};
+
+const transitionApplication = (application: ApplicationRecord, status: ApplicationStatus, timestamp: string): ApplicationRecord => {
+    if (!ALLOWED_TRANSITIONS[application.status].includes(status)) {
+        throw new Error(`Application ${application.id} cannot move from ${application.status} to ${status}.`);
+    }
+    return { ...application, status, statusHistory: [...application.statusHistory, { status, timestamp }], updatedAt: timestamp };
+};
+
+const replaceApplication = (state: BankState, updated: ApplicationRecord): BankState => ({
+    ...state,
+    applications: state.applications.map(a => a.id === updated.id ? updated : a),
+});
+
+// Records a submitted application together with the credit decision made on it.
+export const recordApplication = (
+    state: BankState,
+    userId: number,
+    product: ApplicationProduct,
+    details: CardApplicationDetails | LoanApplicationDetails,
+    decision: CreditDecision,
+    accountId?: string,
+    now: Date = new Date(),
+): { state: BankState; application: ApplicationRecord } => {
+    const timestamp = now.toISOString();
+    const submitted: ApplicationRecord = {
+        id: `app-${userId}-${now.getTime()}-${state.applications.length}`,
+        userId,
+        product,
+        details,
+        status: 'submitted',
+        statusHistory: [{ status: 'submitted', timestamp }],
+        submittedAt: timestamp,
+        updatedAt: timestamp,
+        reasons: decision.reasons,
+        score: decision.score,
+        accountId,
+    };
+    const application = transitionApplication(submitted, STATUS_FOR_OUTCOME[decision.outcome], timestamp);
+    return { state: { ...state, applications: [...state.applications, application] }, application };
+};
+
+export const getApplications = (state: BankState, userId: number): ApplicationRecord[] =>
+    state.applications
+        .filter(a => a.userId === userId)
+        .sort((a, b) => new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime());
+
+export const withdrawApplication = (state: BankState, userId: number, id: string, now: Date = new Date()): BankOperation<ApplicationResult> => {
+    const existing = state.applications.find(a => a.id === id && a.userId === userId);
+    if (!existing) return unchanged(state, { success: false, message: `Error: Application ${id} not found.` });
+    if (!isApplicationOpen(existing)) return unchanged(state, { success: false, message: `Error: This application has already been ${existing.status}.` });
+
+    const withdrawn = transitionApplication(existing, 'withdrawn', now.toISOString());
+    return {
+        state: replaceApplication(state, withdrawn),
+        result: { success: true, message: `Your ${describeApplication(existing)} application has been withdrawn.`, application: withdrawn },
+    };
+};
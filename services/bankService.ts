@@ -0,0 +1,536 @@
+import { User, Transaction, Card, Loan, JournalEntry, CardApplicationDetails, LoanApplicationDetails, IdempotencyRecord, ScheduledTransfer, ApplicationRecord, SavingsGoal, CategoryBudget, Payee, MoneyRequest, BillSplit, DepositAccount } from '../types';
+import { generateMockCard, generateAccountNumber, generateMockPayees } from '../constants';
+import { Money, CurrencyCode, DEFAULT_CURRENCY, fromMajor, add, compare, negate, isPositive, formatMoney, zero } from './money';
+import { FxRateSource, staticRateSource, convert, conversionFee, isSupportedCurrency } from './fx';
+import { calculateMonthlyPayment } from './loanCalculator';
+import { fingerprintRequest, findIdempotencyRecord, pruneIdempotencyRecords } from './idempotency';
+import { createJournalEntry, createOpeningEntries, createCardOpeningEntries, depositTransferPostings, convertedTransferPostings, reversalPostings, savingsAccountId, loanAccountId } from './ledger';
+import { getTransactionStatus, initialStatus, transitionTransaction } from './transactionStatus';
+import { TransferRuleCode, evaluateTransferRules } from './transferLimits';
+import { CreditDecision, decideCardApplication, decideLoanApplication, describeCreditReasons } from './creditDecision';
+import { startOfDay } from './dateUtils';
+import { recordApplication } from './applications';
+import { PayeeCandidate, recordPayeeUse, resolveRecipient } from './payees';
+import { accountLedgerId, adjustAccountBalance, findAccount, findDepositAccount } from './depositAccounts';
+import { undoRequestPayment } from './moneyRequests';
+
+// The banking domain layer. Every operation takes the current state and returns the
+// next state plus a result, without touching React, storage or the network, so the
+// same rules can back the UI, the chat assistant and headless scripts.
+
+export interface BankState {
+    users: User[];
+    transactions: Transaction[];
+    journal: JournalEntry[];
+    idempotencyRecords: IdempotencyRecord[];
+    scheduledTransfers: ScheduledTransfer[];
+    applications: ApplicationRecord[];
+    savingsGoals: SavingsGoal[];
+    budgets: CategoryBudget[];
+    payees: Payee[];
+    moneyRequests: MoneyRequest[];
+    billSplits: BillSplit[];
+    depositAccounts: DepositAccount[];
+    interestAccruedThrough: string; // Local midnight up to which daily interest has accrued
+}
+
+export interface BankOperation<R> {
+    state: BankState;
+    result: R;
+}
+
+export interface OperationResult {
+    success: boolean;
+    message: string;
+    replayed?: boolean; // Set when an idempotency key matched an earlier request
+}
+
+export interface TransferResult extends OperationResult {
+    reasonCode?: TransferRuleCode; // Set when a transfer limit or velocity rule blocked the payment
+    candidates?: PayeeCandidate[]; // Set when the recipient's name matched several payees
+    transactionId?: string; // The sender's payment, on success
+}
+
+export interface CardApplicationResult extends OperationResult {
+    newCard?: Card;
+    decision?: CreditDecision;
+    application?: ApplicationRecord;
+}
+
+export interface LoanApplicationResult extends OperationResult {
+    newLoan?: Loan;
+    decision?: CreditDecision;
+    application?: ApplicationRecord;
+}
+
+export interface PaymentExtensionResult extends OperationResult {
+    newDueDate?: string;
+}
+
+// State persisted before amounts became Money held plain major-unit numbers.
+const asMoney = (value: Money | number): Money => typeof value === 'number' ? fromMajor(value) : value;
+
+const upgradeCard = (card: Card): Card => ({
+    ...card,
+    creditLimit: asMoney(card.creditLimit),
+    creditBalance: asMoney(card.creditBalance),
+    statementBalance: asMoney(card.statementBalance),
+    minimumPayment: asMoney(card.minimumPayment),
+    transactions: card.transactions.map(upgradeTransaction),
+});
+
+const upgradeLoan = (loan: Loan): Loan => ({
+    ...loan,
+    loanAmount: asMoney(loan.loanAmount),
+    monthlyPayment: asMoney(loan.monthlyPayment),
+    remainingBalance: asMoney(loan.remainingBalance),
+});
+
+const upgradeTransaction = (tx: Transaction): Transaction => ({ ...tx, amount: asMoney(tx.amount) });
+
+const upgradeUser = (user: User): User => ({
+    ...user,
+    balance: asMoney(user.balance),
+    cards: user.cards.map(upgradeCard),
+    loans: user.loans.map(upgradeLoan),
+});
+
+const upgradeJournalEntry = (entry: JournalEntry): JournalEntry => ({
+    ...entry,
+    postings: entry.postings.map(p => ({ ...p, amount: asMoney(p.amount) })),
+});
+
+export const createBankState = (saved: Partial<BankState> & Pick<BankState, 'users' | 'transactions'>): BankState => {
+    const users = saved.users.map(upgradeUser);
+    return {
+        users,
+        transactions: saved.transactions.map(upgradeTransaction),
+        journal: saved.journal ? saved.journal.map(upgradeJournalEntry) : createOpeningEntries(users),
+        idempotencyRecords: saved.idempotencyRecords ?? [],
+        scheduledTransfers: (saved.scheduledTransfers ?? []).map(st => ({ ...st, amount: asMoney(st.amount) })),
+        applications: saved.applications ?? [],
+        savingsGoals: saved.savingsGoals ?? [],
+        budgets: saved.budgets ?? [],
+        payees: saved.payees ?? generateMockPayees(users),
+        moneyRequests: saved.moneyRequests ?? [],
+        billSplits: saved.billSplits ?? [],
+        depositAccounts: (saved.depositAccounts ?? []).map(a => ({ ...a, balance: asMoney(a.balance) })),
+        interestAccruedThrough: saved.interestAccruedThrough ?? startOfDay(new Date()).toISOString(),
+    };
+};
+
+export const unchanged = <R>(state: BankState, result: R): BankOperation<R> => ({ state, result });
+
+// Runs `execute` at most once per idempotency key. Replaying a key for the same
+// request returns the outcome recorded the first time and leaves state untouched.
+export const withIdempotency = <R extends OperationResult>(
+    state: BankState,
+    idempotencyKey: string | undefined,
+    userId: number,
+    operation: string,
+    request: unknown,
+    execute: (state: BankState) => BankOperation<R>,
+): BankOperation<R> => {
+    if (!idempotencyKey) return execute(state);
+
+    const now = new Date();
+    const fingerprint = fingerprintRequest(request);
+    const existing = findIdempotencyRecord(state.idempotencyRecords, idempotencyKey, userId, now);
+    if (existing) {
+        if (existing.operation !== operation || existing.fingerprint !== fingerprint) {
+            return unchanged(state, { success: false, message: 'Error: This request key was already used for a different request.' } as R);
+        }
+        return unchanged(state, { ...(existing.result as R), replayed: true });
+    }
+
+    const { state: next, result } = execute(state);
+    const record: IdempotencyRecord = { key: idempotencyKey, userId, operation, fingerprint, result, createdAt: now.toISOString() };
+    return {
+        state: { ...next, idempotencyRecords: [...pruneIdempotencyRecords(next.idempotencyRecords, now), record] },
+        result,
+    };
+};
+
+export const replaceUsers = (users: User[], ...updated: User[]): User[] =>
+    users.map(u => updated.find(v => v.id === u.id) ?? u);
+
+export const findUserByCredentials = (state: BankState, username: string, pin: string): User | undefined =>
+    state.users.find(u => u.username.toLowerCase() === username.toLowerCase() && u.pin === pin);
+
+export const registerUser = (state: BankState, name: string, username: string, pin: string, currency: CurrencyCode = DEFAULT_CURRENCY): BankOperation<{ success: boolean; user?: User }> => {
+    const existingUser = state.users.find(u => u.username.toLowerCase() === username.toLowerCase());
+    if (existingUser) {
+        return unchanged(state, { success: false }); // Username taken
+    }
+
+    const newUser: User = {
+        id: state.users.length + 1,
+        name,
+        username,
+        pin,
+        balance: fromMajor(1000, currency), // Starting balance
+        savingsAccountNumber: generateAccountNumber(),
+        avatarUrl: `https://picsum.photos/seed/${username}/100`,
+        cards: [generateMockCard(currency)],
+        loans: [],
+    };
+
+    return {
+        state: {
+            ...state,
+            users: [...state.users, newUser],
+            journal: [...state.journal, ...createOpeningEntries([newUser])],
+        },
+        result: { success: true, user: newUser },
+    };
+};
+
+export interface TransferQuote {
+    recipientName: string;
+    debitAmount: Money;   // Leaves the sender's account, in the sender's currency, before fees
+    creditAmount: Money;  // Arrives in the recipient's account, in the recipient's currency
+    fee: Money;           // Conversion fee, in the sender's currency
+    totalDebit: Money;
+    rate?: number;        // Sender's currency to recipient's currency; absent when nothing is converted
+}
+
+export interface TransferQuoteResult extends OperationResult {
+    quote?: TransferQuote;
+    candidates?: PayeeCandidate[];
+}
+
+// Works out what a transfer will cost and deliver without moving any money. `amount` may
+// be in the sending account's, the recipient's or a third currency: an amount in the
+// recipient's currency is what they receive, any other amount is what the sender sends.
+export const quoteTransfer = (state: BankState, senderId: number, recipientIdentifier: string, amount: Money, rateSource: FxRateSource = staticRateSource, fromAccountNumber?: string): TransferQuoteResult => {
+    if (!isPositive(amount)) return { success: false, message: 'Error: Payment amount must be positive.' };
+    if (!isSupportedCurrency(amount.currency)) return { success: false, message: `Error: Currency ${amount.currency} is not supported.` };
+
+    const sender = state.users.find(u => u.id === senderId);
+    if (!sender) return { success: false, message: 'Error: Current user not found.' };
+    const { recipient, account, candidates, message: notFound } = resolveRecipient(state, senderId, recipientIdentifier);
+    if (!recipient) return { success: false, message: notFound!, candidates };
+    if (account?.ownerIds.includes(sender.id)) return { success: false, message: 'Error: That is one of your own accounts. Move money between your accounts instead.' };
+    if (!account && sender.id === recipient.id) return { success: false, message: 'Error: Cannot send money to yourself.' };
+    const source = findAccount(state, senderId, fromAccountNumber);
+    if (!source) return { success: false, message: 'Error: The account to pay from was not found.' };
+
+    const senderCurrency = source.balance.currency;
+    const recipientCurrency = (account ?? recipient).balance.currency;
+    const debitAmount = convert(amount, senderCurrency, rateSource);
+    const creditAmount = amount.currency === recipientCurrency ? amount : debitAmount && convert(debitAmount, recipientCurrency, rateSource);
+    if (!debitAmount || !creditAmount) {
+        return { success: false, message: `Error: No exchange rate is available for ${amount.currency}, ${senderCurrency} and ${recipientCurrency}.` };
+    }
+
+    const isConverted = senderCurrency !== recipientCurrency;
+    const fee = isConverted ? conversionFee(debitAmount) : zero(senderCurrency);
+    const quote: TransferQuote = {
+        recipientName: recipient.name,
+        debitAmount,
+        creditAmount,
+        fee,
+        totalDebit: add(debitAmount, fee),
+        rate: isConverted ? rateSource.getRate(senderCurrency, recipientCurrency) : undefined,
+    };
+    const message = isConverted
+        ? `Sending ${formatMoney(debitAmount)} to ${recipient.name}, who receives ${formatMoney(creditAmount)} (1 ${senderCurrency} = ${quote.rate!.toFixed(4)} ${recipientCurrency}). An FX fee of ${formatMoney(fee)} applies, so ${formatMoney(quote.totalDebit)} will be taken from your account.`
+        : `Sending ${formatMoney(debitAmount)} to ${recipient.name}. No fees apply.`;
+    return { success: true, message, quote };
+};
+
+// Pays from the sender's main account unless `fromAccountNumber` names another of their accounts.
+const executeTransfer = (state: BankState, senderId: number, recipientIdentifier: string, amount: Money, rateSource: FxRateSource, fromAccountNumber?: string): BankOperation<TransferResult> => {
+    const quoted = quoteTransfer(state, senderId, recipientIdentifier, amount, rateSource, fromAccountNumber);
+    if (!quoted.quote) return unchanged(state, quoted);
+    const source = findAccount(state, senderId, fromAccountNumber)!;
+    const { debitAmount, creditAmount, fee, totalDebit } = quoted.quote;
+
+    const sender = state.users.find(u => u.id === senderId)!;
+    const { recipient, account: destination } = resolveRecipient(state, senderId, recipientIdentifier);
+    if (!recipient) return unchanged(state, quoted);
+    // Transfer limits are set in the main account's currency.
+    const violation = evaluateTransferRules(state, sender, recipient.name, convert(debitAmount, sender.balance.currency, rateSource) ?? debitAmount);
+    if (violation) return unchanged(state, { success: false, message: violation.message, reasonCode: violation.code });
+    if (compare(source.balance, totalDebit) < 0) {
+        return unchanged(state, { success: false, message: `Error: Insufficient funds. ${source.account ? `${source.name} holds` : 'Your balance is'} ${formatMoney(source.balance)}.` });
+    }
+
+    const isConverted = debitAmount.currency !== creditAmount.currency;
+    const newTransactionId = `t${state.transactions.length + 1}`;
+    const now = new Date();
+    const timestamp = now.toISOString();
+    const fromLedgerId = accountLedgerId(sender.id, source.account);
+    const toLedgerId = accountLedgerId(recipient.id, destination);
+    const postings = isConverted
+        ? convertedTransferPostings(fromLedgerId, toLedgerId, debitAmount, creditAmount, fee)
+        : depositTransferPostings(fromLedgerId, toLedgerId, debitAmount);
+    const journalEntry = createJournalEntry(`Payment from ${sender.name} to ${recipient.name}`, postings, timestamp);
+
+    const senderTransaction: Transaction = {
+        id: newTransactionId,
+        userId: sender.id,
+        type: 'debit',
+        amount: debitAmount,
+        description: `Payment to ${recipient.name}`,
+        timestamp,
+        partyName: recipient.name,
+        category: 'Transfers',
+        journalEntryId: journalEntry.id,
+        counterAmount: isConverted ? creditAmount : undefined,
+        accountNumber: source.account?.accountNumber,
+        ...initialStatus('posted', timestamp),
+    };
+    const recipientTransaction: Transaction = {
+        id: `${newTransactionId}-r`,
+        userId: recipient.id,
+        type: 'credit',
+        amount: creditAmount,
+        description: `Payment from ${sender.name}`,
+        timestamp,
+        partyName: sender.name,
+        category: 'Transfers',
+        journalEntryId: journalEntry.id,
+        counterAmount: isConverted ? debitAmount : undefined,
+        accountNumber: destination?.accountNumber,
+        ...initialStatus('posted', timestamp),
+    };
+    const feeTransactions: Transaction[] = isPositive(fee) ? [{
+        id: `${newTransactionId}-fee`,
+        userId: sender.id,
+        type: 'debit',
+        amount: fee,
+        description: `FX fee for payment to ${recipient.name}`,
+        timestamp,
+        partyName: 'Nova Bank',
+        category: 'Fees',
+        journalEntryId: journalEntry.id,
+        accountNumber: source.account?.accountNumber,
+        ...initialStatus('posted', timestamp),
+    }] : [];
+
+    const message = isConverted
+        ? `Success! You sent ${formatMoney(debitAmount)} to ${recipient.name}, who received ${formatMoney(creditAmount)}. FX fee: ${formatMoney(fee)}.`
+        : `Success! You sent ${formatMoney(debitAmount)} to ${recipient.name}.`;
+
+    const paid = adjustAccountBalance(recordPayeeUse(state, sender.id, destination?.accountNumber ?? recipient.savingsAccountNumber, now), sender.id, source.account, negate(totalDebit));
+    return {
+        state: {
+            ...adjustAccountBalance(paid, recipient.id, destination, creditAmount),
+            transactions: [...state.transactions, senderTransaction, recipientTransaction, ...feeTransactions],
+            journal: [...state.journal, journalEntry],
+        },
+        result: { success: true, message, transactionId: senderTransaction.id },
+    };
+};
+
+export const transferMoney = (state: BankState, senderId: number, recipientIdentifier: string, amount: Money, idempotencyKey?: string, rateSource: FxRateSource = staticRateSource, fromAccountNumber?: string): BankOperation<TransferResult> =>
+    withIdempotency(state, idempotencyKey, senderId, 'transferMoney', { recipientIdentifier, amount, fromAccountNumber },
+        current => executeTransfer(current, senderId, recipientIdentifier, amount, rateSource, fromAccountNumber));
+
+// How long after sending a transfer the sender can still take it back.
+const TRANSFER_REVERSAL_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export const isReversibleTransfer = (tx: Transaction, now: Date = new Date()) =>
+    tx.type === 'debit' && tx.category === 'Transfers' && !!tx.journalEntryId &&
+    getTransactionStatus(tx) === 'posted' &&
+    now.getTime() - new Date(tx.timestamp).getTime() <= TRANSFER_REVERSAL_WINDOW_MS;
+
+// Undoes a posted transfer with a reversing journal entry, refunding any FX fee. Both
+// sides of the transfer stay in the history, marked as reversed.
+export const reverseTransfer = (state: BankState, userId: number, transactionId: string, now: Date = new Date()): BankOperation<OperationResult> => {
+    const transaction = state.transactions.find(tx => tx.id === transactionId && tx.userId === userId);
+    if (!transaction || transaction.type !== 'debit' || transaction.category !== 'Transfers' || !transaction.journalEntryId) {
+        return unchanged(state, { success: false, message: `Error: Transfer ${transactionId} not found.` });
+    }
+    const status = getTransactionStatus(transaction);
+    if (status === 'reversed') return unchanged(state, { success: false, message: 'Error: This transfer has already been reversed.' });
+    if (status !== 'posted') return unchanged(state, { success: false, message: `Error: This transfer is ${status} and cannot be reversed.` });
+    if (now.getTime() - new Date(transaction.timestamp).getTime() > TRANSFER_REVERSAL_WINDOW_MS) {
+        return unchanged(state, { success: false, message: 'Error: Transfers can only be reversed within 24 hours of being sent.' });
+    }
+
+    const entry = state.journal.find(e => e.id === transaction.journalEntryId);
+    // The transfer's transactions: the sender's payment, the recipient's credit and any FX fee.
+    const related = state.transactions.filter(tx => tx.journalEntryId === transaction.journalEntryId);
+    const counterpart = related.find(tx => tx.type === 'credit');
+    const sender = state.users.find(u => u.id === userId);
+    const recipient = counterpart && state.users.find(u => u.id === counterpart.userId);
+    // Either side may be a checking, savings or joint account rather than a main account.
+    const senderAccount = transaction.accountNumber ? findDepositAccount(state, transaction.accountNumber) : undefined;
+    const recipientAccount = counterpart?.accountNumber ? findDepositAccount(state, counterpart.accountNumber) : undefined;
+    const senderPosting = entry?.postings.find(p => p.accountId === accountLedgerId(userId, senderAccount));
+    if (!entry || !counterpart || !sender || !recipient || !senderPosting
+        || (transaction.accountNumber && !senderAccount) || (counterpart.accountNumber && !recipientAccount)) {
+        return unchanged(state, { success: false, message: 'Error: The records for this transfer are incomplete, so it cannot be reversed.' });
+    }
+    if (compare((recipientAccount ?? recipient).balance, counterpart.amount) < 0) {
+        return unchanged(state, { success: false, message: `Error: ${recipient.name} no longer has enough funds for this transfer to be reversed.` });
+    }
+
+    const timestamp = now.toISOString();
+    const reversalEntry = createJournalEntry(`Reversal of ${entry.description}`, reversalPostings(entry), timestamp);
+    const reverse = (tx: Transaction): Transaction => ({ ...transitionTransaction(tx, 'reversed', timestamp), reversalJournalEntryId: reversalEntry.id });
+
+    const refunded = adjustAccountBalance(state, sender.id, senderAccount, senderPosting.amount); // Includes any refunded fee
+    // A payment towards a money request no longer counts once it is reversed.
+    const paidRequest = state.moneyRequests.some(r => r.payments.some(p => p.transactionId === transaction.id));
+    return {
+        state: undoRequestPayment({
+            ...adjustAccountBalance(refunded, recipient.id, recipientAccount, negate(counterpart.amount)),
+            transactions: state.transactions.map(tx => related.includes(tx) ? reverse(tx) : tx),
+            journal: [...state.journal, reversalEntry],
+        }, transaction.id, now),
+        result: { success: true, message: `Done! Your payment of ${formatMoney(transaction.amount)} to ${recipient.name} has been reversed.${paidRequest ? ` It no longer counts towards ${recipient.name}'s request.` : ''}` },
+    };
+};
+
+const declinedApplicationMessage = (fullName: string, product: string, decision: CreditDecision): string =>
+    decision.outcome === 'refer'
+        ? `Thank you, ${fullName}. Your ${product} application needs a closer look from our credit team, and we will be in touch within two business days. ${describeCreditReasons(decision)}`
+        : `We're sorry, ${fullName}, but we were unable to approve your ${product} application. ${describeCreditReasons(decision)}`;
+
+const executeCardApplication = (state: BankState, userId: number, details: CardApplicationDetails): BankOperation<CardApplicationResult> => {
+    const user = state.users.find(u => u.id === userId);
+    if (!user) return unchanged(state, { success: false, message: 'Error: Current user not found.' });
+
+    const decision = decideCardApplication(user, details);
+    if (decision.outcome !== 'approve') {
+        const { state: next, application } = recordApplication(state, userId, 'card', details, decision);
+        return { state: next, result: { success: false, message: declinedApplicationMessage(details.fullName, 'credit card', decision), decision, application } };
+    }
+
+    const newCard = generateMockCard(user.balance.currency, { creditLimit: decision.creditLimit!, apr: decision.apr! });
+    const { state: next, application } = recordApplication({
+        ...state,
+        users: replaceUsers(state.users, { ...user, cards: [...user.cards, newCard] }),
+        journal: [...state.journal, ...createCardOpeningEntries(newCard)],
+    }, userId, 'card', details, decision, newCard.cardNumber);
+
+    return {
+        state: next,
+        result: { success: true, message: `Congratulations, ${details.fullName}! Your new ${newCard.cardType} card has been approved with a ${formatMoney(newCard.creditLimit)} limit at ${newCard.apr}% APR.`, newCard, decision, application },
+    };
+};
+
+export const addCardToUser = (state: BankState, userId: number, details: CardApplicationDetails, idempotencyKey?: string): BankOperation<CardApplicationResult> =>
+    withIdempotency(state, idempotencyKey, userId, 'addCardToUser', details,
+        current => executeCardApplication(current, userId, details));
+
+const executeLoanApplication = (state: BankState, userId: number, details: LoanApplicationDetails): BankOperation<LoanApplicationResult> => {
+    const user = state.users.find(u => u.id === userId);
+    if (!user) return unchanged(state, { success: false, message: 'Error: Current user not found.' });
+
+    if (details.loanAmount.currency !== user.balance.currency) {
+        return unchanged(state, { success: false, message: `Error: Loans are issued in your account currency, ${user.balance.currency}.` });
+    }
+
+    if (!isPositive(details.loanAmount) || details.loanTerm <= 0) {
+        return unchanged(state, { success: false, message: 'Error: Please enter a loan amount and term.' });
+    }
+
+    const decision = decideLoanApplication(user, details);
+    if (decision.outcome !== 'approve') {
+        const { state: next, application } = recordApplication(state, userId, 'loan', details, decision);
+        return { state: next, result: { success: false, message: declinedApplicationMessage(details.fullName, `${formatMoney(details.loanAmount)} loan`, decision), decision, application } };
+    }
+
+    const { loanAmount, loanTerm } = details;
+    const interestRate = decision.interestRate!;
+    const monthlyPayment = calculateMonthlyPayment(loanAmount, interestRate, loanTerm);
+
+    const today = new Date();
+    const paymentDueDate = new Date(today.getFullYear(), today.getMonth() + 1, 1).toISOString(); // 1st of next month
+
+    const newLoan: Loan = {
+        id: `loan-${user.id}-${Date.now()}`,
+        userId: user.id,
+        loanAmount,
+        interestRate,
+        termMonths: loanTerm,
+        monthlyPayment,
+        remainingBalance: loanAmount,
+        status: 'Active',
+        startDate: today.toISOString(),
+        paymentDueDate,
+    };
+
+    const disbursementTimestamp = today.toISOString();
+    const disbursementEntry = createJournalEntry(`Loan disbursement for ${newLoan.id}`, [
+        ...depositTransferPostings(loanAccountId(newLoan.id), savingsAccountId(user.id), loanAmount),
+    ], disbursementTimestamp);
+    const loanCreditTransaction: Transaction = {
+        id: `t-loan-${newLoan.id}`,
+        userId: user.id,
+        type: 'credit',
+        amount: loanAmount,
+        description: `Loan Disbursement`,
+        timestamp: disbursementTimestamp,
+        partyName: "Nova Bank Loans",
+        category: 'Income',
+        journalEntryId: disbursementEntry.id,
+        ...initialStatus('posted', disbursementTimestamp),
+    };
+
+    const { state: next, application } = recordApplication({
+        ...state,
+        users: replaceUsers(state.users, {
+            ...user,
+            balance: add(user.balance, loanAmount),
+            loans: [...user.loans, newLoan],
+        }),
+        transactions: [...state.transactions, loanCreditTransaction],
+        journal: [...state.journal, disbursementEntry],
+    }, userId, 'loan', details, decision, newLoan.id);
+
+    return {
+        state: next,
+        result: { success: true, message: `Congratulations! Your loan for ${formatMoney(loanAmount)} has been approved at ${interestRate}% interest. The funds are now available in your account.`, newLoan, decision, application },
+    };
+};
+
+export const addLoanToUser = (state: BankState, userId: number, details: LoanApplicationDetails, idempotencyKey?: string): BankOperation<LoanApplicationResult> =>
+    withIdempotency(state, idempotencyKey, userId, 'addLoanToUser', details,
+        current => executeLoanApplication(current, userId, details));
+
+const extendDueDate = (dueDate: string) => {
+    const date = new Date(dueDate);
+    date.setDate(date.getDate() + 14);
+    return date;
+};
+
+export const requestPaymentExtension = (state: BankState, userId: number, accountId: string, type: 'card' | 'loan'): BankOperation<PaymentExtensionResult> => {
+    const user = state.users.find(u => u.id === userId);
+    if (!user) return unchanged(state, { success: false, message: 'Error: Current user not found.' });
+
+    if (Math.random() < 0.1) { // 10% rejection rate
+        return unchanged(state, { success: false, message: `We're sorry, but we were unable to process a payment extension for this account at this time.` });
+    }
+
+    let newDueDate: Date;
+    let message: string;
+    let updatedUser: User;
+
+    if (type === 'card') {
+        const card = user.cards.find(c => c.cardNumber.slice(-4) === accountId);
+        if (!card) return unchanged(state, { success: false, message: `Error: Card ending in ${accountId} not found.` });
+        newDueDate = extendDueDate(card.paymentDueDate);
+        updatedUser = { ...user, cards: user.cards.map(c => c === card ? { ...c, paymentDueDate: newDueDate.toISOString() } : c) };
+        message = `Success! Your payment due date for the card ending in ${accountId} has been extended to`;
+    } else if (type === 'loan') {
+        const loan = user.loans.find(l => l.id === accountId);
+        if (!loan) return unchanged(state, { success: false, message: `Error: Loan with ID ${accountId} not found.` });
+        newDueDate = extendDueDate(loan.paymentDueDate);
+        updatedUser = { ...user, loans: user.loans.map(l => l === loan ? { ...l, paymentDueDate: newDueDate.toISOString() } : l) };
+        message = `Success! Your payment due date for loan ${accountId} has been extended to`;
+    } else {
+        return unchanged(state, { success: false, message: `Invalid account type.` });
+    }
+
+    const formattedDate = newDueDate.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+    return {
+        state: { ...state, users: replaceUsers(state.users, updatedUser) },
+        result: { success: true, message: `${message} ${formattedDate}.`, newDueDate: newDueDate.toISOString() },
+    };
+};
@@ -0,0 +1,155 @@
+import { BillSplit, BillSplitShare, MoneyRequestStatus, Transaction, User } from '../types';
+import { BankState, BankOperation, OperationResult, unchanged, withIdempotency } from './bankService';
+import { Money, add, subtract, allocate, isPositive, isZero, formatMoney, zero } from './money';
+import { convert } from './fx';
+import { isInEffect } from './transactionStatus';
+import { resolveRecipient } from './payees';
+import { getOutstanding, requestMoney } from './moneyRequests';
+
+// Splitting a card purchase with other people. Each participant is sent an ordinary money
+// request for their share; the split itself only records who owes what for which purchase.
+
+export interface BillSplitParticipant {
+    payee: string; // Payee nickname, name or account number
+    amount?: Money; // Required for custom splits, in the user's account currency
+}
+
+export interface BillSplitRequest {
+    cardNumber: string;
+    transactionId: string;
+    method: 'equal' | 'custom';
+    participants: BillSplitParticipant[];
+    includeSelf?: boolean; // Equal splits only: whether the user takes a share too (default true)
+}
+
+export interface BillSplitResult extends OperationResult {
+    split?: BillSplit;
+}
+
+export interface BillSplitShareView extends BillSplitShare {
+    status: MoneyRequestStatus;
+    paid: Money;
+    outstanding: Money;
+}
+
+export interface BillSplitView extends BillSplit {
+    shares: BillSplitShareView[];
+    settledCount: number;
+    collected: Money;
+    outstanding: Money;
+}
+
+// Only open shares are still to collect; declined and cancelled ones are not, but are not settled either.
+const isShareOpen = (share: BillSplitShareView) => share.status === 'pending' || share.status === 'partiallyPaid';
+
+const toView = (state: BankState, split: BillSplit): BillSplitView => {
+    const shares = split.shares.map(share => {
+        const request = state.moneyRequests.find(r => r.id === share.requestId);
+        return {
+            ...share,
+            status: request?.status ?? 'cancelled',
+            paid: request?.paid ?? zero(share.amount.currency),
+            outstanding: request ? getOutstanding(request) : zero(share.amount.currency),
+        };
+    });
+    const collected = shares.reduce((total, s) => add(total, s.paid), zero(split.total.currency));
+    return {
+        ...split,
+        shares,
+        settledCount: shares.filter(s => s.status === 'paid').length,
+        collected,
+        outstanding: shares.filter(isShareOpen).reduce((total, s) => add(total, s.outstanding), zero(split.total.currency)),
+    };
+};
+
+// The user's splits, newest first.
+export const getBillSplits = (state: BankState, userId: number): BillSplitView[] =>
+    state.billSplits
+        .filter(s => s.userId === userId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(s => toView(state, s));
+
+export const isSplittable = (tx: Transaction) => tx.type === 'debit' && isInEffect(tx);
+
+export const describeBillSplit = (split: BillSplitView): string => {
+    const shares = split.shares.map(s => `${s.name} ${formatMoney(s.amount)} (${s.status === 'partiallyPaid' ? `${formatMoney(s.paid)} paid` : s.status})`).join(', ');
+    return `${split.description}, ${formatMoney(split.total)}: ${shares}. ${split.settledCount} of ${split.shares.length} settled.`;
+};
+
+const executeSplit = (state: BankState, userId: number, request: BillSplitRequest, now: Date): BankOperation<BillSplitResult> => {
+    const user = state.users.find(u => u.id === userId);
+    if (!user) return unchanged(state, { success: false, message: 'Error: Current user not found.' });
+    const card = user.cards.find(c => c.cardNumber === request.cardNumber);
+    if (!card) return unchanged(state, { success: false, message: 'Error: Card not found.' });
+    const tx = card.transactions.find(t => t.id === request.transactionId);
+    if (!tx || !isSplittable(tx)) return unchanged(state, { success: false, message: 'Error: Only purchases that have not been reversed can be split.' });
+    if (state.billSplits.some(s => s.transactionId === tx.id)) {
+        return unchanged(state, { success: false, message: `Error: ${tx.description} has already been split.` });
+    }
+    if (request.participants.length === 0) return unchanged(state, { success: false, message: 'Error: Choose at least one person to split with.' });
+
+    // Requests are made in the account currency, so a purchase abroad is split at today's rate.
+    const total = convert(tx.amount, user.balance.currency);
+    if (!total) return unchanged(state, { success: false, message: `Error: ${tx.amount.currency} cannot be converted to ${user.balance.currency}.` });
+
+    const payers: { recipient: User; amount?: Money }[] = [];
+    for (const participant of request.participants) {
+        const { recipient, message } = resolveRecipient(state, userId, participant.payee);
+        if (!recipient) return unchanged(state, { success: false, message: message! });
+        if (recipient.id === userId) return unchanged(state, { success: false, message: 'Error: You cannot split a bill with yourself.' });
+        if (payers.some(p => p.recipient.id === recipient.id)) return unchanged(state, { success: false, message: `Error: ${recipient.name} is in the split more than once.` });
+        payers.push({ recipient, amount: participant.amount });
+    }
+
+    let amounts: Money[];
+    let ownShare: Money;
+    if (request.method === 'equal') {
+        const includeSelf = request.includeSelf ?? true;
+        // The user's share comes first, so any odd cent is theirs rather than a friend's.
+        const allocation = allocate(total, new Array(payers.length + (includeSelf ? 1 : 0)).fill(1));
+        ownShare = includeSelf ? allocation[0] : zero(total.currency);
+        amounts = includeSelf ? allocation.slice(1) : allocation;
+    } else {
+        const invalid = payers.find(p => !p.amount || !isPositive(p.amount) || p.amount.currency !== total.currency);
+        if (invalid) return unchanged(state, { success: false, message: `Error: Enter a positive amount in ${total.currency} for ${invalid.recipient.name}.` });
+        amounts = payers.map(p => p.amount!);
+        ownShare = subtract(total, amounts.reduce((sum, a) => add(sum, a), zero(total.currency)));
+        if (ownShare.amount < 0) return unchanged(state, { success: false, message: `Error: The shares add up to more than the ${formatMoney(total)} purchase.` });
+    }
+    if (amounts.some(a => !isPositive(a))) return unchanged(state, { success: false, message: 'Error: This purchase is too small to split between that many people.' });
+
+    let next = state;
+    const shares: BillSplitShare[] = [];
+    for (const [i, { recipient }] of payers.entries()) {
+        const sent = requestMoney(next, userId, recipient.savingsAccountNumber, amounts[i], tx.description, undefined, now);
+        if (!sent.result.success) return unchanged(state, sent.result);
+        next = sent.state;
+        shares.push({ payerId: recipient.id, name: recipient.name, amount: amounts[i], requestId: sent.result.request!.id });
+    }
+
+    const split: BillSplit = {
+        id: `split-${userId}-${now.getTime()}-${state.billSplits.length}`,
+        userId,
+        cardNumber: card.cardNumber,
+        transactionId: tx.id,
+        description: tx.description,
+        total,
+        ownShare,
+        method: request.method,
+        shares,
+        createdAt: now.toISOString(),
+    };
+    const owed = shares.map(s => `${s.name} ${formatMoney(s.amount)}`).join(', ');
+    return {
+        state: { ...next, billSplits: [...next.billSplits, split] },
+        result: {
+            success: true,
+            message: `Done! ${tx.description} (${formatMoney(total)}) is split: ${owed}.${isZero(ownShare) ? '' : ` Your share is ${formatMoney(ownShare)}.`} Each person has been sent a request.`,
+            split,
+        },
+    };
+};
+
+export const splitCardTransaction = (state: BankState, userId: number, request: BillSplitRequest, idempotencyKey?: string, now: Date = new Date()): BankOperation<BillSplitResult> =>
+    withIdempotency(state, idempotencyKey, userId, 'splitCardTransaction', request,
+        current => executeSplit(current, userId, request, now));
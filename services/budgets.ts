@@ -0,0 +1,215 @@
+import { BudgetRollover, CategoryBudget, Transaction, User } from '../types';
+import { BankState, BankOperation, OperationResult, unchanged } from './bankService';
+import { Money, add, subtract, max, isPositive, isNegative, formatMoney, zero } from './money';
+import { convert } from './fx';
+import { isInEffect } from './transactionStatus';
+import { CARD_PAYMENT_CATEGORY } from './cardPayments';
+import { INVESTMENT_TRANSFER_CATEGORY } from './investments';
+import { INTERNAL_TRANSFER_CATEGORY } from './depositAccounts';
+
+// Monthly spending limits per category. Spending is measured on the same transactions the
+// spending chart is drawn from: this month's debits from savings and every card, less card
+// payments and investment transfers, which only move the customer's own money around.
+
+export interface BudgetRequest {
+    category: string;
+    limit: Money;
+    rollover?: BudgetRollover;
+}
+
+export interface BudgetResult extends OperationResult {
+    budget?: CategoryBudget;
+}
+
+export interface BudgetStatus {
+    budget: CategoryBudget;
+    spent: Money;
+    available: Money; // This month's limit plus anything carried over
+    remaining: Money; // Negative once the budget is exceeded
+    percent: number; // Of `available` spent; may exceed 100
+    level?: 80 | 100; // Highest alert threshold reached
+}
+
+export const BUDGET_ALERT_THRESHOLDS = [80, 100] as const;
+
+// A long absence should not replay years of months; older months are not carried.
+const MAX_ROLLOVER_MONTHS = 12;
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+const monthStart = (key: string) => {
+    const [year, month] = key.split('-').map(Number);
+    return new Date(year, month - 1, 1);
+};
+
+const nextMonthKey = (key: string) => {
+    const start = monthStart(key);
+    return monthKey(new Date(start.getFullYear(), start.getMonth() + 1, 1));
+};
+
+const replaceBudget = (state: BankState, updated: CategoryBudget): BankState => ({
+    ...state,
+    budgets: state.budgets.map(b => b.id === updated.id ? updated : b),
+});
+
+// Categories offered when setting a budget, besides those the customer has spent in.
+export const SUGGESTED_BUDGET_CATEGORIES = ['Groceries', 'Food', 'Transport', 'Shopping', 'Entertainment', 'Bills'];
+
+export const getMonthlySpendingTransactions = (transactions: Transaction[], user: User, now: Date = new Date()): Transaction[] => {
+    const month = monthKey(now);
+    return [
+        ...transactions.filter(tx => tx.userId === user.id),
+        ...user.cards.flatMap(c => c.transactions),
+    ].filter(tx => tx.type === 'debit'
+        && tx.category !== CARD_PAYMENT_CATEGORY
+        && tx.category !== INVESTMENT_TRANSFER_CATEGORY
+        && tx.category !== INTERNAL_TRANSFER_CATEGORY
+        && isInEffect(tx)
+        && monthKey(new Date(tx.timestamp)) === month);
+};
+
+// Spending per category in the account currency, largest first.
+export const getCategorySpending = (transactions: Transaction[], user: User, now: Date = new Date()): { category: string; amount: Money }[] => {
+    const currency = user.balance.currency;
+    const totals = new Map<string, { category: string; amount: Money }>();
+    for (const tx of getMonthlySpendingTransactions(transactions, user, now)) {
+        // Card spending in another currency counts at today's rate.
+        const amount = convert(tx.amount, currency);
+        if (!amount) continue;
+        const key = tx.category.toLowerCase();
+        const total = totals.get(key);
+        totals.set(key, { category: total?.category ?? tx.category, amount: total ? add(total.amount, amount) : amount });
+    }
+    return [...totals.values()].sort((a, b) => b.amount.amount - a.amount.amount);
+};
+
+const spentInCategory = (state: BankState, user: User, category: string, now: Date): Money =>
+    getCategorySpending(state.transactions, user, now).find(s => s.category.toLowerCase() === category.toLowerCase())?.amount ?? zero(user.balance.currency);
+
+const thresholdReached = (percent: number) =>
+    [...BUDGET_ALERT_THRESHOLDS].reverse().find(threshold => percent >= threshold);
+
+const statusFor = (state: BankState, user: User, budget: CategoryBudget, now: Date): BudgetStatus => {
+    // Until the scheduler rolls a budget into the new month its carry-over is stale.
+    const carriedOver = budget.month === monthKey(now) ? budget.carriedOver : zero(budget.limit.currency);
+    const available = max(add(budget.limit, carriedOver), zero(budget.limit.currency));
+    const spent = spentInCategory(state, user, budget.category, now);
+    const percent = isPositive(available) ? (spent.amount / available.amount) * 100 : (isPositive(spent) ? 100 : 0);
+    return { budget, spent, available, remaining: subtract(available, spent), percent, level: thresholdReached(percent) };
+};
+
+export const getBudgets = (state: BankState, userId: number): CategoryBudget[] =>
+    state.budgets.filter(b => b.userId === userId);
+
+// Budgets can be named in chat, so they are looked up by ID or by category.
+export const findBudget = (state: BankState, userId: number, identifier: string): CategoryBudget | undefined => {
+    const key = identifier.trim().toLowerCase();
+    return getBudgets(state, userId).find(b => b.id === identifier || b.category.toLowerCase() === key);
+};
+
+export const getBudgetStatuses = (state: BankState, userId: number, now: Date = new Date()): BudgetStatus[] => {
+    const user = state.users.find(u => u.id === userId);
+    if (!user) return [];
+    return getBudgets(state, userId)
+        .map(budget => statusFor(state, user, budget, now))
+        .sort((a, b) => b.percent - a.percent);
+};
+
+export const describeBudgetStatus = (status: BudgetStatus): string => {
+    const { budget, spent, available, remaining } = status;
+    const carriedOver = subtract(available, budget.limit);
+    const carried = isPositive(carriedOver) ? `, including ${formatMoney(carriedOver)} carried over` : '';
+    return isNegative(remaining)
+        ? `${budget.category}: ${formatMoney(spent)} spent of ${formatMoney(available)}${carried}. You are ${formatMoney(subtract(spent, available))} over budget.`
+        : `${budget.category}: ${formatMoney(spent)} spent of ${formatMoney(available)}${carried}. ${formatMoney(remaining)} left this month.`;
+};
+
+// Creates the budget for a category, or changes the limit and rollover of an existing one.
+export const setCategoryBudget = (state: BankState, userId: number, request: BudgetRequest, now: Date = new Date()): BankOperation<BudgetResult> => {
+    const user = state.users.find(u => u.id === userId);
+    if (!user) return unchanged(state, { success: false, message: 'Error: Current user not found.' });
+    // Use the spelling the transactions use, so "groceries" becomes "Groceries".
+    const known = [...getCategorySpending(state.transactions, user, now).map(s => s.category), ...SUGGESTED_BUDGET_CATEGORIES];
+    const category = known.find(c => c.toLowerCase() === request.category.trim().toLowerCase()) ?? request.category.trim();
+    if (!category) return unchanged(state, { success: false, message: 'Error: Please choose a spending category.' });
+    if (!isPositive(request.limit)) return unchanged(state, { success: false, message: 'Error: The monthly budget must be positive.' });
+    if (request.limit.currency !== user.balance.currency) return unchanged(state, { success: false, message: `Error: Budgets are set in your account currency, ${user.balance.currency}.` });
+
+    const existing = findBudget(state, userId, category);
+    const budget: CategoryBudget = existing
+        ? { ...existing, limit: request.limit, rollover: request.rollover ?? existing.rollover }
+        : {
+            id: `budget-${userId}-${now.getTime()}-${state.budgets.length}`,
+            userId,
+            category,
+            limit: request.limit,
+            rollover: request.rollover ?? 'none',
+            month: monthKey(now),
+            carriedOver: zero(request.limit.currency),
+            createdAt: now.toISOString(),
+        };
+    const status = statusFor(state, user, budget, now);
+    return {
+        state: existing ? replaceBudget(state, budget) : { ...state, budgets: [...state.budgets, budget] },
+        result: {
+            success: true,
+            message: `Your ${budget.category} budget is ${formatMoney(budget.limit)} a month. ${describeBudgetStatus(status)}`,
+            budget,
+        },
+    };
+};
+
+export const removeCategoryBudget = (state: BankState, userId: number, budgetId: string): BankOperation<BudgetResult> => {
+    const budget = findBudget(state, userId, budgetId);
+    if (!budget) return unchanged(state, { success: false, message: `Error: No budget found for "${budgetId}".` });
+    return {
+        state: { ...state, budgets: state.budgets.filter(b => b.id !== budget.id) },
+        result: { success: true, message: `Your ${budget.category} budget has been removed.`, budget },
+    };
+};
+
+const carryOver = (budget: CategoryBudget, leftover: Money): Money => {
+    if (budget.rollover === 'full') return leftover;
+    if (budget.rollover === 'surplus') return max(leftover, zero(leftover.currency));
+    return zero(leftover.currency);
+};
+
+// Moves budgets into the current month, carrying leftovers as their rollover option says,
+// then records an alert the first time each threshold is reached in the month. Returns the
+// same state when nothing changed.
+export const updateBudgets = (state: BankState, now: Date = new Date()): BankState => {
+    const currentMonth = monthKey(now);
+    let next = state;
+    for (const original of state.budgets) {
+        const user = next.users.find(u => u.id === original.userId);
+        if (!user) continue;
+        let budget = original;
+        if (budget.month < currentMonth) {
+            let carriedOver = budget.carriedOver;
+            let month = budget.month;
+            for (let months = 0; month < currentMonth; months++) {
+                if (months >= MAX_ROLLOVER_MONTHS) {
+                    carriedOver = zero(budget.limit.currency);
+                    break;
+                }
+                // Spending is measured at the last moment of the month being closed.
+                const monthEnd = new Date(monthStart(nextMonthKey(month)).getTime() - 1);
+                const spent = spentInCategory(next, user, budget.category, monthEnd);
+                carriedOver = carryOver(budget, subtract(add(budget.limit, carriedOver), spent));
+                month = nextMonthKey(month);
+            }
+            budget = { ...budget, month: currentMonth, carriedOver, alertLevel: undefined, alertedAt: undefined };
+        }
+
+        const status = statusFor(next, user, budget, now);
+        if (status.level && status.level > (budget.alertLevel ?? 0)) {
+            budget = {
+                ...budget,
+                alertLevel: status.level,
+                alertedAt: now.toISOString(),
+            };
+        }
+        if (budget !== original) next = replaceBudget(next, budget);
+    }
+    return next;
+};
@@ -0,0 +1,101 @@
+import { Card, CardControls, Transaction } from '../types';
+import { BankState, BankOperation, OperationResult, replaceUsers, unchanged } from './bankService';
+import { Money, add, subtract, sum, max, compare, isPositive, formatMoney, zero } from './money';
+import { isInEffect } from './transactionStatus';
+import { FEES_CATEGORY, INTEREST_CATEGORY } from './statements';
+import { CardPurchaseRequest } from './cardHolds';
+
+// Controls the cardholder sets on a card: freezing it, turning off online or international
+// use, capping spending and blocking merchant categories. They are checked when a purchase
+// is authorized; charges the bank itself makes (interest, fees) are not affected.
+
+export interface CardControlsResult extends OperationResult {
+    controls?: CardControls;
+}
+
+export const DEFAULT_CARD_CONTROLS: CardControls = {
+    frozen: false,
+    onlineEnabled: true,
+    internationalEnabled: true,
+    blockedCategories: [],
+};
+
+export const getCardControls = (card: Card): CardControls => card.controls ?? DEFAULT_CARD_CONTROLS;
+
+const startOfMonth = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), 1);
+
+const isPurchase = (tx: Transaction) =>
+    tx.type === 'debit' && tx.category !== INTEREST_CATEGORY && tx.category !== FEES_CATEGORY && isInEffect(tx);
+
+// Purchases this calendar month, pending holds included.
+export const getMonthlyCardSpend = (card: Card, now: Date = new Date()): Money =>
+    sum(card.transactions.filter(tx => isPurchase(tx) && new Date(tx.timestamp) >= startOfMonth(now)).map(tx => tx.amount), card.creditLimit.currency);
+
+const isBlocked = (controls: CardControls, category: string) =>
+    controls.blockedCategories.some(c => c.toLowerCase() === category.trim().toLowerCase());
+
+// Why the card's controls decline a purchase, or null when they allow it.
+export const checkCardControls = (card: Card, request: CardPurchaseRequest, now: Date = new Date()): string | null => {
+    const controls = getCardControls(card);
+    const last4 = card.cardNumber.slice(-4);
+    if (controls.frozen) return `The card ending in ${last4} is frozen. Unfreeze it to use it again.`;
+    if (request.online && !controls.onlineEnabled) return `Online purchases are turned off for the card ending in ${last4}.`;
+    if (request.international && !controls.internationalEnabled) return `International purchases are turned off for the card ending in ${last4}.`;
+    if (isBlocked(controls, request.category)) return `${request.category} purchases are blocked on the card ending in ${last4}.`;
+    if (controls.perTransactionLimit && compare(request.amount, controls.perTransactionLimit) > 0) {
+        return `A single purchase on the card ending in ${last4} can be at most ${formatMoney(controls.perTransactionLimit)}.`;
+    }
+    if (controls.monthlyLimit) {
+        const spent = getMonthlyCardSpend(card, now);
+        if (compare(add(spent, request.amount), controls.monthlyLimit) > 0) {
+            return `This would exceed the monthly limit of ${formatMoney(controls.monthlyLimit)} on the card ending in ${last4}. You can spend ${formatMoney(max(subtract(controls.monthlyLimit, spent), zero(spent.currency)))} more this month.`;
+        }
+    }
+    return null;
+};
+
+export const describeCardControls = (card: Card): string => {
+    const controls = getCardControls(card);
+    const parts = [
+        controls.frozen ? 'frozen' : 'active',
+        `online purchases ${controls.onlineEnabled ? 'on' : 'off'}`,
+        `international purchases ${controls.internationalEnabled ? 'on' : 'off'}`,
+        controls.perTransactionLimit ? `at most ${formatMoney(controls.perTransactionLimit)} per purchase` : 'no per-purchase limit',
+        controls.monthlyLimit ? `at most ${formatMoney(controls.monthlyLimit)} per month` : 'no monthly limit',
+        controls.blockedCategories.length > 0 ? `blocked: ${controls.blockedCategories.join(', ')}` : 'no blocked categories',
+    ];
+    return `The card ending in ${card.cardNumber.slice(-4)} is ${parts.join('; ')}.`;
+};
+
+const validateControls = (controls: CardControls, card: Card): string | null => {
+    const caps = [controls.perTransactionLimit, controls.monthlyLimit].filter((m): m is Money => Boolean(m));
+    if (caps.some(m => m.currency !== card.creditLimit.currency)) return `Error: Card limits must be in the card currency (${card.creditLimit.currency}).`;
+    if (caps.some(m => !isPositive(m))) return 'Error: Card limits must be positive.';
+    if (controls.perTransactionLimit && controls.monthlyLimit && compare(controls.perTransactionLimit, controls.monthlyLimit) > 0) {
+        return 'Error: The per-purchase limit cannot be higher than the monthly limit.';
+    }
+    return null;
+};
+
+// Changes some of a card's controls. A limit given as undefined is removed.
+export const setCardControls = (state: BankState, userId: number, cardNumber: string, changes: Partial<CardControls>): BankOperation<CardControlsResult> => {
+    const user = state.users.find(u => u.id === userId);
+    if (!user) return unchanged(state, { success: false, message: 'Error: Current user not found.' });
+    const card = user.cards.find(c => c.cardNumber === cardNumber);
+    if (!card) return unchanged(state, { success: false, message: 'Error: Card not found.' });
+
+    const merged: CardControls = { ...getCardControls(card), ...changes };
+    // Categories are matched case-insensitively, so keep one spelling of each.
+    const blockedCategories = (merged.blockedCategories ?? [])
+        .map(c => c.trim())
+        .filter((c, i, all) => c && all.findIndex(other => other.toLowerCase() === c.toLowerCase()) === i);
+    const controls: CardControls = { ...merged, blockedCategories };
+    const error = validateControls(controls, card);
+    if (error) return unchanged(state, { success: false, message: error });
+
+    const updated: Card = { ...card, controls };
+    return {
+        state: { ...state, users: replaceUsers(state.users, { ...user, cards: user.cards.map(c => c === card ? updated : c) }) },
+        result: { success: true, message: `Done! ${describeCardControls(updated)}`, controls },
+    };
+};
@@ -0,0 +1,149 @@
+import { Card, Transaction, User } from '../types';
+import { BankState, BankOperation, OperationResult, replaceUsers, unchanged, withIdempotency } from './bankService';
+import { Money, add, subtract, negate, sum, compare, isPositive, formatMoney } from './money';
+import { CARD_SETTLEMENT_ACCOUNT, cardAccountId, createJournalEntry } from './ledger';
+import { getTransactionStatus, initialStatus, transitionTransaction } from './transactionStatus';
+import { isChargedOff } from './delinquency';
+import { DAY_MS } from './dateUtils';
+import { checkCardControls } from './cardControls';
+
+// Card purchases are authorized first: the amount is held against the card's available
+// credit as a pending transaction and only reaches the ledger once the merchant settles.
+
+export interface CardPurchaseRequest {
+    cardNumber: string;
+    amount: Money;
+    merchant: string;
+    category: string;
+    online?: boolean; // Card not present, e.g. a web shop
+    international?: boolean; // The merchant is abroad
+}
+
+export interface CardAuthorizationResult extends OperationResult {
+    transaction?: Transaction;
+}
+
+// Merchants normally settle within a couple of days; holds still pending after that are posted.
+export const CARD_HOLD_SETTLEMENT_MS = 2 * DAY_MS;
+
+export const getPendingHolds = (card: Card): Money =>
+    sum(card.transactions.filter(tx => getTransactionStatus(tx) === 'pending').map(tx => tx.amount), card.creditLimit.currency);
+
+export const getAvailableCredit = (card: Card): Money =>
+    subtract(subtract(card.creditLimit, card.creditBalance), getPendingHolds(card));
+
+const findCard = (state: BankState, cardNumber: string): { user: User; card: Card } | undefined => {
+    for (const user of state.users) {
+        const card = user.cards.find(c => c.cardNumber === cardNumber);
+        if (card) return { user, card };
+    }
+    return undefined;
+};
+
+const replaceCard = (state: BankState, user: User, card: Card): BankState => ({
+    ...state,
+    users: replaceUsers(state.users, { ...user, cards: user.cards.map(c => c.cardNumber === card.cardNumber ? card : c) }),
+});
+
+export const authorizeCardPurchase = (state: BankState, request: CardPurchaseRequest, now: Date = new Date()): BankOperation<CardAuthorizationResult> => {
+    if (!isPositive(request.amount)) return unchanged(state, { success: false, message: 'Error: Purchase amount must be positive.' });
+
+    const found = findCard(state, request.cardNumber);
+    if (!found) return unchanged(state, { success: false, message: `Error: Card ending in ${request.cardNumber.slice(-4)} not found.` });
+    const { user, card } = found;
+    if (isChargedOff(card)) return unchanged(state, { success: false, message: `Error: The card ending in ${card.cardNumber.slice(-4)} has been closed after missed payments.` });
+
+    // Purchases the cardholder's controls decline are still recorded, as failed, so they show up on the card.
+    const blocked = checkCardControls(card, request, now);
+    const timestamp = now.toISOString();
+    const available = getAvailableCredit(card);
+    const approved = !blocked && compare(available, request.amount) >= 0;
+    const transaction: Transaction = {
+        id: `tx-card-${card.cardNumber.slice(-4)}-${now.getTime()}-${card.transactions.length}`,
+        userId: user.id,
+        type: 'debit',
+        amount: request.amount,
+        description: request.merchant,
+        timestamp,
+        partyName: request.merchant,
+        category: request.category,
+        cardId: card.cardNumber,
+        ...initialStatus(approved ? 'pending' : 'failed', timestamp),
+    };
+
+    return {
+        state: replaceCard(state, user, { ...card, transactions: [transaction, ...card.transactions] }),
+        result: approved
+            ? { success: true, message: `Authorized ${formatMoney(request.amount)} at ${request.merchant}. The amount is on hold until the purchase posts.`, transaction }
+            : { success: false, message: blocked ? `Declined: ${blocked}` : `Declined: ${formatMoney(request.amount)} exceeds the available credit of ${formatMoney(available)}.`, transaction },
+    };
+};
+
+// A purchase the cardholder makes on one of their own cards.
+export const purchaseWithCard = (state: BankState, userId: number, request: CardPurchaseRequest, idempotencyKey?: string, now: Date = new Date()): BankOperation<CardAuthorizationResult> =>
+    withIdempotency(state, idempotencyKey, userId, 'purchaseWithCard', request, current => {
+        const user = current.users.find(u => u.id === userId);
+        if (!user?.cards.some(c => c.cardNumber === request.cardNumber)) return unchanged(current, { success: false, message: 'Error: Card not found.' });
+        return authorizeCardPurchase(current, request, now);
+    });
+
+const findPendingHold = (state: BankState, cardNumber: string, transactionId: string) => {
+    const found = findCard(state, cardNumber);
+    const transaction = found?.card.transactions.find(tx => tx.id === transactionId);
+    if (!found || !transaction) return { error: `Error: Card transaction ${transactionId} not found.` };
+    const status = getTransactionStatus(transaction);
+    if (status !== 'pending') return { error: `Error: This card transaction is already ${status}.` };
+    return { ...found, transaction };
+};
+
+// The merchant settled: the held amount becomes part of the card balance.
+export const postCardHold = (state: BankState, cardNumber: string, transactionId: string, now: Date = new Date()): BankOperation<OperationResult> => {
+    const hold = findPendingHold(state, cardNumber, transactionId);
+    if ('error' in hold) return unchanged(state, { success: false, message: hold.error });
+    const { user, card, transaction } = hold;
+
+    const timestamp = now.toISOString();
+    const entry = createJournalEntry(`Card purchase at ${transaction.description}`, [
+        { accountId: cardAccountId(card.cardNumber), amount: transaction.amount },
+        { accountId: CARD_SETTLEMENT_ACCOUNT, amount: negate(transaction.amount) },
+    ], timestamp);
+    const posted: Transaction = { ...transitionTransaction(transaction, 'posted', timestamp), journalEntryId: entry.id };
+
+    const next = replaceCard(state, user, {
+        ...card,
+        creditBalance: add(card.creditBalance, transaction.amount),
+        transactions: card.transactions.map(tx => tx === transaction ? posted : tx),
+    });
+    return {
+        state: { ...next, journal: [...next.journal, entry] },
+        result: { success: true, message: `Your purchase of ${formatMoney(transaction.amount)} at ${transaction.description} has posted.` },
+    };
+};
+
+// The merchant cancelled the authorization: the hold disappears without touching the ledger.
+export const releaseCardHold = (state: BankState, cardNumber: string, transactionId: string, now: Date = new Date()): BankOperation<OperationResult> => {
+    const hold = findPendingHold(state, cardNumber, transactionId);
+    if ('error' in hold) return unchanged(state, { success: false, message: hold.error });
+    const { user, card, transaction } = hold;
+
+    const released = transitionTransaction(transaction, 'reversed', now.toISOString());
+    return {
+        state: replaceCard(state, user, { ...card, transactions: card.transactions.map(tx => tx === transaction ? released : tx) }),
+        result: { success: true, message: `The hold of ${formatMoney(transaction.amount)} from ${transaction.description} has been released.` },
+    };
+};
+
+// Posts every hold that has been pending for longer than the settlement period.
+export const settleCardHolds = (state: BankState, now: Date = new Date()): BankState => {
+    let next = state;
+    for (const user of state.users) {
+        for (const card of user.cards) {
+            for (const tx of card.transactions) {
+                if (getTransactionStatus(tx) === 'pending' && now.getTime() - new Date(tx.timestamp).getTime() >= CARD_HOLD_SETTLEMENT_MS) {
+                    next = postCardHold(next, card.cardNumber, tx.id, now).state;
+                }
+            }
+        }
+    }
+    return next;
+};
@@ -0,0 +1,124 @@
+import { Card, Transaction } from '../types';
+import { BankState, BankOperation, OperationResult, replaceUsers, unchanged, withIdempotency } from './bankService';
+import { Money, subtract, negate, min, max, compare, isPositive, formatMoney, zero } from './money';
+import { cardAccountId, createJournalEntry, savingsAccountId } from './ledger';
+import { initialStatus } from './transactionStatus';
+import { applyCardPaymentToDelinquency } from './delinquency';
+
+// Paying down a credit card from the user's savings account.
+
+export type CardPaymentOption = 'minimum' | 'statement' | 'full' | 'custom';
+
+export interface CardPaymentRequest {
+    cardNumber: string;
+    option: CardPaymentOption;
+    amount?: Money; // Required for 'custom'
+}
+
+export interface CardPaymentResult extends OperationResult {
+    amountPaid?: Money;
+    remainingBalance?: Money;
+}
+
+// Moving money to a card is not spending, so spending analysis leaves these out.
+export const CARD_PAYMENT_CATEGORY = 'Card Payment';
+
+// What each option would pay right now; undefined when a custom amount is missing.
+export const resolveCardPaymentAmount = (card: Card, option: CardPaymentOption, amount?: Money): Money | undefined => {
+    switch (option) {
+        case 'minimum': return min(card.minimumPayment, card.creditBalance);
+        case 'statement': return min(card.statementBalance, card.creditBalance);
+        case 'full': return card.creditBalance;
+        case 'custom': return amount;
+    }
+};
+
+const executeCardPayment = (state: BankState, userId: number, request: CardPaymentRequest, now: Date): BankOperation<CardPaymentResult> => {
+    const user = state.users.find(u => u.id === userId);
+    if (!user) return unchanged(state, { success: false, message: 'Error: Current user not found.' });
+    const card = user.cards.find(c => c.cardNumber === request.cardNumber);
+    if (!card) return unchanged(state, { success: false, message: `Error: Card ending in ${request.cardNumber.slice(-4)} not found.` });
+
+    const amount = resolveCardPaymentAmount(card, request.option, request.amount);
+    if (!amount) return unchanged(state, { success: false, message: 'Error: Please enter the amount you want to pay.' });
+    if (amount.currency !== card.creditBalance.currency || amount.currency !== user.balance.currency) {
+        return unchanged(state, { success: false, message: `Error: Card payments must be made in ${card.creditBalance.currency} from an account in the same currency.` });
+    }
+    if (!isPositive(amount)) {
+        return unchanged(state, { success: false, message: request.option === 'custom' ? 'Error: Payment amount must be positive.' : `There is nothing to pay on the card ending in ${card.cardNumber.slice(-4)}.` });
+    }
+    if (compare(amount, card.creditBalance) > 0) {
+        return unchanged(state, { success: false, message: `Error: You can pay at most the current balance of ${formatMoney(card.creditBalance)}.` });
+    }
+    if (compare(user.balance, amount) < 0) {
+        return unchanged(state, { success: false, message: `Error: Insufficient funds. Your balance is ${formatMoney(user.balance)}.` });
+    }
+
+    const last4 = card.cardNumber.slice(-4);
+    const timestamp = now.toISOString();
+    // The deposit is a liability to the bank and the card a receivable, so both shrink.
+    const entry = createJournalEntry(`Payment to card ending in ${last4}`, [
+        { accountId: savingsAccountId(user.id), amount },
+        { accountId: cardAccountId(card.cardNumber), amount: negate(amount) },
+    ], timestamp);
+
+    const id = `t-cardpay-${last4}-${now.getTime()}`;
+    const savingsTransaction: Transaction = {
+        id,
+        userId: user.id,
+        type: 'debit',
+        amount,
+        description: `Payment to card ending in ${last4}`,
+        timestamp,
+        partyName: `${card.cardType} ...${last4}`,
+        category: CARD_PAYMENT_CATEGORY,
+        journalEntryId: entry.id,
+        ...initialStatus('posted', timestamp),
+    };
+    const cardTransaction: Transaction = {
+        id: `${id}-card`,
+        userId: user.id,
+        type: 'credit',
+        amount,
+        description: 'Payment received - thank you',
+        timestamp,
+        partyName: 'Savings account',
+        category: CARD_PAYMENT_CATEGORY,
+        cardId: card.cardNumber,
+        journalEntryId: entry.id,
+        ...initialStatus('posted', timestamp),
+    };
+
+    const currency = amount.currency;
+    const updatedCard: Card = {
+        ...card,
+        creditBalance: subtract(card.creditBalance, amount),
+        statementBalance: max(subtract(card.statementBalance, amount), zero(currency)),
+        minimumPayment: max(subtract(card.minimumPayment, amount), zero(currency)),
+        delinquency: applyCardPaymentToDelinquency(card.delinquency, amount),
+        transactions: [cardTransaction, ...card.transactions],
+    };
+
+    return {
+        state: {
+            ...state,
+            users: replaceUsers(state.users, {
+                ...user,
+                balance: subtract(user.balance, amount),
+                cards: user.cards.map(c => c === card ? updatedCard : c),
+            }),
+            transactions: [...state.transactions, savingsTransaction],
+            journal: [...state.journal, entry],
+        },
+        result: {
+            success: true,
+            message: `Done! You paid ${formatMoney(amount)} towards your card ending in ${last4}. The remaining balance is ${formatMoney(updatedCard.creditBalance)}.`,
+            amountPaid: amount,
+            remainingBalance: updatedCard.creditBalance,
+        },
+    };
+};
+
+export const payCardBalance = (state: BankState, userId: number, request: CardPaymentRequest, idempotencyKey?: string, now: Date = new Date()): BankOperation<CardPaymentResult> =>
+    withIdempotency(state, idempotencyKey, userId, 'payCardBalance', request,
+        current => executeCardPayment(current, userId, request, now));
@@ -0,0 +1,203 @@
+import { CardApplicationDetails, LoanApplicationDetails, User } from '../types';
+import { Money, CurrencyCode, DEFAULT_CURRENCY, fromMajor, toMajor, multiply, sum } from './money';
+import { convert } from './fx';
+import { calculateMonthlyPayment } from './loanCalculator';
+import { getDelinquency } from './delinquency';
+
+// Rule-based underwriting for card and loan applications. An application is scored from
+// income, employment, age and debt-to-income; a few rules decline or refer it outright.
+// Approved applications are priced from the score, and anything short of approval carries
+// reason codes the UI and the assistant can explain.
+
+export type CreditDecisionOutcome = 'approve' | 'decline' | 'refer';
+
+export type CreditReasonCode =
+    | 'UNDERAGE'
+    | 'INVALID_DATE_OF_BIRTH'
+    | 'NO_INCOME'
+    | 'LOW_INCOME'
+    | 'UNEMPLOYED'
+    | 'HIGH_DEBT_TO_INCOME'
+    | 'ELEVATED_DEBT_TO_INCOME'
+    | 'LOAN_AMOUNT_HIGH'
+    | 'DELINQUENT_ACCOUNT'
+    | 'LOW_SCORE';
+
+export interface CreditReason {
+    code: CreditReasonCode;
+    message: string;
+}
+
+export interface CreditDecision {
+    outcome: CreditDecisionOutcome;
+    score: number; // 0-100
+    reasons: CreditReason[]; // Empty when approved
+    debtToIncome: number; // Monthly debt payments over monthly income, including the new product
+    creditLimit?: Money; // Approved cards
+    apr?: number; // Approved cards
+    interestRate?: number; // Approved loans
+}
+
+const MINIMUM_AGE = 18;
+const BASE_SCORE = 40;
+const APPROVE_AT = 60;
+const DECLINE_BELOW = 45;
+const MAX_DEBT_TO_INCOME = 0.5;
+const REFER_DEBT_TO_INCOME = 0.4;
+
+// Existing cards are assumed to need this share of their limit every month.
+const CARD_PAYMENT_RATE = 0.03;
+
+// Better scores earn rates towards the bottom of each range.
+const CARD_APR_RANGE = { min: 15, max: 30 };
+const LOAN_RATE_RANGE = { min: 3, max: 13 };
+// Each year of term beyond the shortest adds to the loan rate.
+const LOAN_TERM_PREMIUM_PER_YEAR = 0.25;
+const SHORTEST_LOAN_TERM_MONTHS = 24;
+
+// Card limits in USD, converted for accounts held in other currencies.
+const CARD_LIMIT_USD = { min: 500, max: 20000, step: 500 };
+
+const REASON_MESSAGES: Record<CreditReasonCode, string> = {
+    UNDERAGE: `Applicants must be at least ${MINIMUM_AGE} years old.`,
+    INVALID_DATE_OF_BIRTH: 'We could not verify the date of birth provided.',
+    NO_INCOME: 'No annual income was provided.',
+    LOW_INCOME: 'Your income is below what we look for on this product.',
+    UNEMPLOYED: 'You do not have current employment income.',
+    HIGH_DEBT_TO_INCOME: 'Your debt payments would be too high compared to your income.',
+    ELEVATED_DEBT_TO_INCOME: 'Your debt payments would be a large share of your income.',
+    LOAN_AMOUNT_HIGH: 'The loan amount is more than your annual income.',
+    DELINQUENT_ACCOUNT: 'One of your existing accounts is past due.',
+    LOW_SCORE: 'Your overall credit score is below our approval threshold.',
+};
+
+const DECLINE_CODES: CreditReasonCode[] = ['UNDERAGE', 'NO_INCOME', 'HIGH_DEBT_TO_INCOME', 'DELINQUENT_ACCOUNT'];
+const REFER_CODES: CreditReasonCode[] = ['INVALID_DATE_OF_BIRTH', 'ELEVATED_DEBT_TO_INCOME', 'LOAN_AMOUNT_HIGH'];
+
+interface ScoreFactor {
+    points: number;
+    reason?: CreditReasonCode;
+}
+
+const toUsd = (amount: Money): number => toMajor(convert(amount, DEFAULT_CURRENCY) ?? amount);
+
+// Converted limits are rounded down to whole hundreds of the local currency.
+const limitFromUsd = (usd: number, currency: CurrencyCode): Money => {
+    const converted = convert(fromMajor(usd, DEFAULT_CURRENCY), currency) ?? fromMajor(usd, currency);
+    return fromMajor(Math.floor(toMajor(converted) / 100) * 100, currency);
+};
+
+export const getAge = (dateOfBirth: string, now: Date = new Date()): number | undefined => {
+    const birth = new Date(dateOfBirth);
+    if (isNaN(birth.getTime()) || birth > now) return undefined;
+    const hadBirthday = now.getMonth() > birth.getMonth() || (now.getMonth() === birth.getMonth() && now.getDate() >= birth.getDate());
+    return now.getFullYear() - birth.getFullYear() - (hadBirthday ? 0 : 1);
+};
+
+// Form and assistant input both arrive as free text ("Self-Employed", "self employed").
+const normalizeEmployment = (status: string): string => status.toLowerCase().replace(/[^a-z]/g, '');
+
+const ageFactor = (age: number | undefined): ScoreFactor => {
+    if (age === undefined) return { points: 0, reason: 'INVALID_DATE_OF_BIRTH' };
+    if (age < MINIMUM_AGE) return { points: 0, reason: 'UNDERAGE' };
+    if (age < 21) return { points: -5 };
+    return { points: age >= 30 ? 5 : 0 };
+};
+
+const incomeFactor = (annualIncomeUsd: number): ScoreFactor => {
+    if (annualIncomeUsd <= 0) return { points: 0, reason: 'NO_INCOME' };
+    if (annualIncomeUsd < 15000) return { points: -20, reason: 'LOW_INCOME' };
+    if (annualIncomeUsd < 30000) return { points: -5 };
+    if (annualIncomeUsd < 60000) return { points: 5 };
+    return { points: annualIncomeUsd < 100000 ? 15 : 25 };
+};
+
+const employmentFactor = (status: string): ScoreFactor => {
+    switch (normalizeEmployment(status)) {
+        case 'employed': return { points: 15 };
+        case 'selfemployed':
+        case 'retired': return { points: 5 };
+        case 'student': return { points: -5 };
+        case 'unemployed': return { points: -20, reason: 'UNEMPLOYED' };
+        default: return { points: 0 };
+    }
+};
+
+const debtToIncomeFactor = (ratio: number): ScoreFactor => {
+    if (ratio >= MAX_DEBT_TO_INCOME) return { points: 0, reason: 'HIGH_DEBT_TO_INCOME' };
+    if (ratio >= REFER_DEBT_TO_INCOME) return { points: -15, reason: 'ELEVATED_DEBT_TO_INCOME' };
+    if (ratio >= 0.3) return { points: -5 };
+    return { points: ratio < 0.2 ? 15 : 5 };
+};
+
+// Monthly payments the applicant already owes the bank, in USD.
+const existingMonthlyDebtUsd = (user: User): number => toUsd(sum([
+    ...user.loans.filter(loan => loan.status === 'Active').map(loan => loan.monthlyPayment),
+    ...user.cards.map(card => multiply(card.creditLimit, CARD_PAYMENT_RATE)),
+], user.balance.currency));
+
+const hasDelinquentAccount = (user: User): boolean =>
+    [...user.cards, ...user.loans].some(account => getDelinquency(account).status !== 'current');
+
+// Linear in the score between the approval threshold and a perfect score.
+const priceFromScore = (score: number, range: { min: number; max: number }): number =>
+    parseFloat((range.max - ((score - APPROVE_AT) / (100 - APPROVE_AT)) * (range.max - range.min)).toFixed(2));
+
+const decide = (factors: ScoreFactor[], extraReasons: CreditReasonCode[], debtToIncome: number): CreditDecision => {
+    const score = Math.max(0, Math.min(100, factors.reduce((total, f) => total + f.points, BASE_SCORE)));
+    const codes = [...factors.flatMap(f => f.reason ? [f.reason] : []), ...extraReasons];
+    const reasons = (list: CreditReasonCode[]) => list.map(code => ({ code, message: REASON_MESSAGES[code] }));
+
+    if (codes.some(code => DECLINE_CODES.includes(code)) || score < DECLINE_BELOW) {
+        return { outcome: 'decline', score, reasons: reasons(score < DECLINE_BELOW ? [...codes, 'LOW_SCORE'] : codes), debtToIncome };
+    }
+    if (codes.some(code => REFER_CODES.includes(code)) || score < APPROVE_AT) {
+        return { outcome: 'refer', score, reasons: reasons(score < APPROVE_AT ? [...codes, 'LOW_SCORE'] : codes), debtToIncome };
+    }
+    return { outcome: 'approve', score, reasons: [], debtToIncome };
+};
+
+const commonFactors = (user: User, details: CardApplicationDetails, newMonthlyDebtUsd: number, now: Date): { factors: ScoreFactor[]; extraReasons: CreditReasonCode[]; debtToIncome: number } => {
+    const incomeUsd = toUsd(details.annualIncome);
+    const monthlyIncomeUsd = incomeUsd / 12;
+    const debtToIncome = monthlyIncomeUsd > 0 ? (existingMonthlyDebtUsd(user) + newMonthlyDebtUsd) / monthlyIncomeUsd : Infinity;
+    return {
+        factors: [
+            ageFactor(getAge(details.dateOfBirth, now)),
+            incomeFactor(incomeUsd),
+            employmentFactor(details.employmentStatus),
+            ...(monthlyIncomeUsd > 0 ? [debtToIncomeFactor(debtToIncome)] : []),
+        ],
+        extraReasons: hasDelinquentAccount(user) ? ['DELINQUENT_ACCOUNT'] : [],
+        debtToIncome,
+    };
+};
+
+export const decideCardApplication = (user: User, details: CardApplicationDetails, now: Date = new Date()): CreditDecision => {
+    const { factors, extraReasons, debtToIncome } = commonFactors(user, details, 0, now);
+    const decision = decide(factors, extraReasons, debtToIncome);
+    if (decision.outcome !== 'approve') return decision;
+
+    // Stronger applicants get a larger share of their income as a limit.
+    const incomeShare = decision.score >= 85 ? 0.3 : decision.score >= 70 ? 0.2 : 0.1;
+    const limitUsd = Math.floor((toUsd(details.annualIncome) * incomeShare) / CARD_LIMIT_USD.step) * CARD_LIMIT_USD.step;
+    return {
+        ...decision,
+        creditLimit: limitFromUsd(Math.max(CARD_LIMIT_USD.min, Math.min(CARD_LIMIT_USD.max, limitUsd)), user.balance.currency),
+        apr: priceFromScore(decision.score, CARD_APR_RANGE),
+    };
+};
+
+export const decideLoanApplication = (user: User, details: LoanApplicationDetails, now: Date = new Date()): CreditDecision => {
+    // Affordability is tested at the highest rate we offer, before the rate is known.
+    const newPaymentUsd = toUsd(calculateMonthlyPayment(details.loanAmount, LOAN_RATE_RANGE.max, details.loanTerm));
+    const { factors, extraReasons, debtToIncome } = commonFactors(user, details, newPaymentUsd, now);
+    const amountReasons: CreditReasonCode[] = toUsd(details.loanAmount) > toUsd(details.annualIncome) ? ['LOAN_AMOUNT_HIGH'] : [];
+    const decision = decide(factors, [...extraReasons, ...amountReasons], debtToIncome);
+    if (decision.outcome !== 'approve') return decision;
+    const termPremium = Math.max(0, (details.loanTerm - SHORTEST_LOAN_TERM_MONTHS) / 12) * LOAN_TERM_PREMIUM_PER_YEAR;
+    return { ...decision, interestRate: parseFloat((priceFromScore(decision.score, LOAN_RATE_RANGE) + termPremium).toFixed(2)) };
+};
+
+export const describeCreditReasons = (decision: CreditDecision): string =>
+    decision.reasons.map(reason => reason.message).join(' ');
@@ -0,0 +1,198 @@
+import { Card, Delinquency, DelinquencyStatus, JournalEntry, Loan, Transaction, User } from '../types';
+import { BankState } from './bankService';
+import { Money, add, subtract, negate, multiply, min, max, fromMajor, isPositive, zero } from './money';
+import { FEE_INCOME_ACCOUNT, cardAccountId, createJournalEntry } from './ledger';
+import { initialStatus } from './transactionStatus';
+import { FEES_CATEGORY } from './statements';
+import { DAY_MS, addDays, addMonths, startOfDay } from './dateUtils';
+
+// Missed payments. A card is late when its due date passes with part of the minimum payment
+// unpaid; a loan when an installment date passes without the installment. Every missed due
+// date costs a late fee, and the account moves through the delinquency states by the age of
+// its oldest unpaid due date until it is brought current or charged off.
+
+export interface DelinquencyPolicy {
+    cardLateFee: number; // In major units of the card currency; never more than the missed minimum
+    loanLateFee: number; // In major units of the loan currency
+    penaltyApr: number; // Replaces the card APR once a payment is this late...
+    penaltyAprAfterDays: number; // ...and stays until the card is current again
+    chargeOffAfterDays: number;
+}
+
+export const DEFAULT_DELINQUENCY_POLICY: DelinquencyPolicy = {
+    cardLateFee: 30,
+    loanLateFee: 25,
+    penaltyApr: 29.99,
+    penaltyAprAfterDays: 60,
+    chargeOffAfterDays: 180,
+};
+
+export interface DelinquentAccount {
+    kind: 'card' | 'loan';
+    id: string; // Card number or loan ID
+    delinquency: Delinquency;
+    daysPastDue: number;
+}
+
+const currentDelinquency = (currency: Money['currency']): Delinquency => ({
+    status: 'current',
+    pastDueAmount: zero(currency),
+    lateFees: zero(currency),
+    penaltyApr: false,
+});
+
+export const getDelinquency = (account: Card | Loan): Delinquency =>
+    account.delinquency ?? currentDelinquency('creditBalance' in account ? account.creditBalance.currency : account.remainingBalance.currency);
+
+// Any time after the due date counts as a day late.
+export const getDaysPastDue = (delinquency: Delinquency, now: Date = new Date()): number =>
+    delinquency.pastDueSince ? Math.max(0, Math.ceil((now.getTime() - new Date(delinquency.pastDueSince).getTime()) / DAY_MS)) : 0;
+
+const statusForDays = (days: number, policy: DelinquencyPolicy): DelinquencyStatus => {
+    if (days <= 0) return 'current';
+    if (days >= policy.chargeOffAfterDays) return 'chargedOff';
+    if (days >= 60) return 'pastDue60';
+    if (days >= 30) return 'pastDue30';
+    return 'pastDue';
+};
+
+// Payments are accepted until the end of the due date.
+const isOverdue = (dueDate: Date, now: Date): boolean => addDays(startOfDay(dueDate), 1) <= now;
+
+export const isChargedOff = (account: Card | Loan): boolean => account.delinquency?.status === 'chargedOff';
+
+export const getEffectiveApr = (card: Card, policy: DelinquencyPolicy = DEFAULT_DELINQUENCY_POLICY): number =>
+    card.delinquency?.penaltyApr ? Math.max(card.apr, policy.penaltyApr) : card.apr;
+
+const withStatus = (delinquency: Delinquency, now: Date, policy: DelinquencyPolicy): Delinquency => {
+    const days = getDaysPastDue(delinquency, now);
+    return {
+        ...delinquency,
+        status: statusForDays(days, policy),
+        penaltyApr: delinquency.penaltyApr || (delinquency.pastDueSince !== undefined && days >= policy.penaltyAprAfterDays),
+    };
+};
+
+const sameDelinquency = (a: Delinquency | undefined, b: Delinquency): boolean =>
+    !!a && a.status === b.status && a.penaltyApr === b.penaltyApr && a.pastDueSince === b.pastDueSince
+    && a.lastMissedDueDate === b.lastMissedDueDate && a.pastDueAmount.amount === b.pastDueAmount.amount;
+
+// Card payments go to the past-due amount first; clearing it brings the card current.
+export const applyCardPaymentToDelinquency = (delinquency: Delinquency | undefined, amount: Money): Delinquency | undefined => {
+    if (!delinquency || delinquency.status === 'current') return delinquency;
+    const pastDueAmount = max(subtract(delinquency.pastDueAmount, amount), zero(amount.currency));
+    if (isPositive(pastDueAmount) || delinquency.status === 'chargedOff') return { ...delinquency, pastDueAmount };
+    return { ...delinquency, status: 'current', pastDueSince: undefined, pastDueAmount, penaltyApr: false };
+};
+
+const assessCard = (card: Card, userId: number, now: Date, policy: DelinquencyPolicy): { card: Card; entry?: JournalEntry } => {
+    let delinquency = getDelinquency(card);
+    if (delinquency.status === 'chargedOff') return { card };
+
+    let updated = card;
+    let entry: JournalEntry | undefined;
+    const missed = isOverdue(new Date(card.paymentDueDate), now) && isPositive(card.minimumPayment) && delinquency.lastMissedDueDate !== card.paymentDueDate;
+    if (missed) {
+        const fee = min(fromMajor(policy.cardLateFee, card.creditBalance.currency), card.minimumPayment);
+        const timestamp = card.paymentDueDate;
+        entry = createJournalEntry(`Late fee on card ${card.cardNumber.slice(-4)}`, [
+            { accountId: cardAccountId(card.cardNumber), amount: fee },
+            { accountId: FEE_INCOME_ACCOUNT, amount: negate(fee) },
+        ], timestamp);
+        const transaction: Transaction = {
+            id: `tx-fee-${card.cardNumber.slice(-4)}-${new Date(timestamp).getTime()}`,
+            userId,
+            type: 'debit',
+            amount: fee,
+            description: 'Late payment fee',
+            timestamp,
+            partyName: 'Nova Bank',
+            category: FEES_CATEGORY,
+            cardId: card.cardNumber,
+            journalEntryId: entry.id,
+            ...initialStatus('posted', timestamp),
+        };
+        updated = { ...card, creditBalance: add(card.creditBalance, fee), transactions: [transaction, ...card.transactions] };
+        delinquency = {
+            ...delinquency,
+            pastDueSince: delinquency.pastDueSince ?? card.paymentDueDate,
+            pastDueAmount: card.minimumPayment,
+            lastMissedDueDate: card.paymentDueDate,
+            lateFees: add(delinquency.lateFees, fee),
+        };
+    }
+
+    const next = withStatus(delinquency, now, policy);
+    if (!missed && (next.status === 'current' ? !card.delinquency || card.delinquency.status === 'current' : sameDelinquency(card.delinquency, next))) {
+        return { card };
+    }
+    return { card: { ...updated, delinquency: next }, entry };
+};
+
+// Installment dates that have passed without the installment being paid.
+const missedInstallmentDates = (loan: Loan, now: Date): Date[] => {
+    const dates: Date[] = [];
+    for (let due = new Date(loan.paymentDueDate); isOverdue(due, now); due = addMonths(new Date(loan.paymentDueDate), dates.length)) {
+        dates.push(due);
+    }
+    return dates;
+};
+
+// A loan's arrears follow from its due date alone, so payments only need to re-run this.
+export const refreshLoanDelinquency = (loan: Loan, now: Date = new Date(), policy: DelinquencyPolicy = DEFAULT_DELINQUENCY_POLICY): Loan => {
+    const delinquency = getDelinquency(loan);
+    if (loan.status !== 'Active' || delinquency.status === 'chargedOff') return loan;
+    const missed = missedInstallmentDates(loan, now);
+    const next = withStatus({
+        ...delinquency,
+        pastDueSince: missed.length > 0 ? loan.paymentDueDate : undefined,
+        pastDueAmount: multiply(loan.monthlyPayment, missed.length),
+        penaltyApr: false,
+    }, now, policy);
+    if (next.status === 'current' && (!loan.delinquency || loan.delinquency.status === 'current')) return loan;
+    return sameDelinquency(loan.delinquency, next) ? loan : { ...loan, delinquency: next };
+};
+
+const assessLoan = (loan: Loan, now: Date, policy: DelinquencyPolicy): Loan => {
+    let delinquency = getDelinquency(loan);
+    if (loan.status !== 'Active' || delinquency.status === 'chargedOff') return loan;
+
+    const lastAssessed = delinquency.lastMissedDueDate ? new Date(delinquency.lastMissedDueDate) : undefined;
+    const unassessed = missedInstallmentDates(loan, now).filter(due => !lastAssessed || due > lastAssessed);
+    if (unassessed.length === 0) return refreshLoanDelinquency(loan, now, policy);
+
+    const fees = multiply(fromMajor(policy.loanLateFee, loan.remainingBalance.currency), unassessed.length);
+    delinquency = {
+        ...delinquency,
+        lastMissedDueDate: unassessed[unassessed.length - 1].toISOString(),
+        lateFees: add(delinquency.lateFees, fees),
+        feesDue: add(delinquency.feesDue ?? zero(fees.currency), fees),
+    };
+    return refreshLoanDelinquency({ ...loan, delinquency }, now, policy);
+};
+
+// Assesses every account for missed payments. Returns the same state object when nothing changed.
+export const updateDelinquency = (state: BankState, now: Date = new Date(), policy: DelinquencyPolicy = DEFAULT_DELINQUENCY_POLICY): BankState => {
+    let changed = false;
+    const entries: JournalEntry[] = [];
+    const users = state.users.map(user => {
+        const cards = user.cards.map(card => {
+            const assessed = assessCard(card, user.id, now, policy);
+            if (assessed.entry) entries.push(assessed.entry);
+            return assessed.card;
+        });
+        const loans = user.loans.map(loan => assessLoan(loan, now, policy));
+        if (cards.every((c, i) => c === user.cards[i]) && loans.every((l, i) => l === user.loans[i])) return user;
+        changed = true;
+        return { ...user, cards, loans };
+    });
+    if (!changed) return state;
+    return { ...state, users, journal: entries.length > 0 ? [...state.journal, ...entries] : state.journal };
+};
+
+export const getDelinquentAccounts = (user: User, now: Date = new Date()): DelinquentAccount[] => [
+    ...user.cards.map(card => ({ kind: 'card' as const, id: card.cardNumber, delinquency: getDelinquency(card) })),
+    ...user.loans.filter(loan => loan.status === 'Active').map(loan => ({ kind: 'loan' as const, id: loan.id, delinquency: getDelinquency(loan) })),
+]
+    .filter(account => account.delinquency.status !== 'current')
+    .map(account => ({ ...account, daysPastDue: getDaysPastDue(account.delinquency, now) }));
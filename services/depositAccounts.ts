@@ -0,0 +1,222 @@
+import { DepositAccount, DepositAccountType, Transaction, User } from '../types';
+import { generateAccountNumber } from '../constants';
+import { BankState, BankOperation, OperationResult, replaceUsers, unchanged, withIdempotency } from './bankService';
+import { Money, add, compare, negate, isPositive, isZero, formatMoney, zero } from './money';
+import { createJournalEntry, depositAccountId, depositTransferPostings, savingsAccountId } from './ledger';
+import { initialStatus } from './transactionStatus';
+import { resolveRecipient } from './payees';
+
+// Deposit accounts. Every user has a main account, kept on the User itself; they can open
+// checking and savings accounts besides it, and joint accounts shared with another customer.
+// Money moves between them with internal transfers, and payments can be sent from any of them.
+
+// Moving money between the user's own accounts is not spending.
+export const INTERNAL_TRANSFER_CATEGORY = 'Internal Transfer';
+
+const MAX_ACCOUNTS_PER_USER = 5;
+
+export interface OpenAccountRequest {
+    type: DepositAccountType;
+    name?: string; // Defaults to the account type
+    jointHolder?: string; // Joint accounts only: the other owner's payee nickname, name or account number
+}
+
+export interface DepositAccountResult extends OperationResult {
+    account?: DepositAccount;
+}
+
+// Any of a user's accounts, the main one included.
+export interface AccountView {
+    accountNumber: string;
+    name: string;
+    type: 'main' | DepositAccountType;
+    balance: Money;
+    ownerIds: number[];
+    ownerNames: string[];
+    account?: DepositAccount; // Absent for the main account
+}
+
+const DEFAULT_NAMES: Record<DepositAccountType, string> = {
+    checking: 'Checking',
+    savings: 'Savings',
+    joint: 'Joint account',
+};
+
+const isOpen = (account: DepositAccount) => !account.closedAt;
+
+const ownerNames = (state: BankState, ownerIds: number[]) =>
+    ownerIds.map(id => state.users.find(u => u.id === id)?.name ?? 'Unknown');
+
+const mainAccountView = (user: User): AccountView => ({
+    accountNumber: user.savingsAccountNumber,
+    name: 'Main account',
+    type: 'main',
+    balance: user.balance,
+    ownerIds: [user.id],
+    ownerNames: [user.name],
+});
+
+const toView = (state: BankState, account: DepositAccount): AccountView => ({
+    accountNumber: account.accountNumber,
+    name: account.name,
+    type: account.type,
+    balance: account.balance,
+    ownerIds: account.ownerIds,
+    ownerNames: ownerNames(state, account.ownerIds),
+    account,
+});
+
+// The other deposit accounts the user owns or shares, other than the main one.
+export const getOwnedDepositAccounts = (state: BankState, userId: number): DepositAccount[] =>
+    state.depositAccounts.filter(a => isOpen(a) && a.ownerIds.includes(userId));
+
+// The user's open accounts: the main one first, then the others in the order they were opened.
+export const getAccounts = (state: BankState, userId: number): AccountView[] => {
+    const user = state.users.find(u => u.id === userId);
+    if (!user) return [];
+    return [
+        mainAccountView(user),
+        ...getOwnedDepositAccounts(state, userId).map(a => toView(state, a)),
+    ];
+};
+
+// One of the user's accounts; no account number means the main one.
+export const findAccount = (state: BankState, userId: number, accountNumber?: string): AccountView | undefined =>
+    accountNumber ? getAccounts(state, userId).find(a => a.accountNumber === accountNumber) : getAccounts(state, userId)[0];
+
+// An open checking, savings or joint account by number; main accounts are not deposit accounts.
+export const findDepositAccount = (state: BankState, accountNumber: string): DepositAccount | undefined =>
+    state.depositAccounts.find(a => isOpen(a) && a.accountNumber === accountNumber);
+
+// Whoever holds an account number, with the deposit account when it is not a main account.
+// A joint account is addressed to its first owner.
+export const findAccountHolder = (state: BankState, accountNumber: string): { holder: User; holderName: string; account?: DepositAccount } | undefined => {
+    const user = state.users.find(u => u.savingsAccountNumber === accountNumber);
+    if (user) return { holder: user, holderName: user.name };
+    const account = findDepositAccount(state, accountNumber);
+    const holder = account && state.users.find(u => u.id === account.ownerIds[0]);
+    return account && holder ? { holder, holderName: ownerNames(state, account.ownerIds).join(' & '), account } : undefined;
+};
+
+export const accountLedgerId = (userId: number, account?: DepositAccount) =>
+    account ? depositAccountId(account.id) : savingsAccountId(userId);
+
+// Adds `amount` (negative to take money out) to an account; without a deposit account it is
+// the main account of `userId`.
+export const adjustAccountBalance = (state: BankState, userId: number, account: DepositAccount | undefined, amount: Money): BankState => {
+    if (account) {
+        return {
+            ...state,
+            depositAccounts: state.depositAccounts.map(a => a.id === account.id ? { ...a, balance: add(a.balance, amount) } : a),
+        };
+    }
+    const user = state.users.find(u => u.id === userId)!;
+    return { ...state, users: replaceUsers(state.users, { ...user, balance: add(user.balance, amount) }) };
+};
+
+// The account's transactions, newest first. A joint account shows both owners' transactions.
+export const getAccountTransactions = (state: BankState, userId: number, accountNumber: string): Transaction[] => {
+    const view = findAccount(state, userId, accountNumber);
+    if (!view) return [];
+    return state.transactions
+        .filter(tx => view.account ? tx.accountNumber === view.accountNumber : tx.userId === userId && !tx.accountNumber)
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+};
+
+export const openDepositAccount = (state: BankState, userId: number, request: OpenAccountRequest, now: Date = new Date()): BankOperation<DepositAccountResult> => {
+    const user = state.users.find(u => u.id === userId);
+    if (!user) return unchanged(state, { success: false, message: 'Error: Current user not found.' });
+    if (!DEFAULT_NAMES[request.type]) return unchanged(state, { success: false, message: 'Error: Choose a checking, savings or joint account.' });
+    if (getOwnedDepositAccounts(state, userId).length >= MAX_ACCOUNTS_PER_USER) {
+        return unchanged(state, { success: false, message: `Error: You can hold up to ${MAX_ACCOUNTS_PER_USER} accounts besides your main account.` });
+    }
+
+    const ownerIds = [userId];
+    if (request.type === 'joint') {
+        if (!request.jointHolder?.trim()) return unchanged(state, { success: false, message: 'Error: Choose who to share the joint account with.' });
+        const { recipient: coOwner, message } = resolveRecipient(state, userId, request.jointHolder);
+        if (!coOwner) return unchanged(state, { success: false, message: message! });
+        if (coOwner.id === userId) return unchanged(state, { success: false, message: 'Error: A joint account needs another owner.' });
+        if (coOwner.balance.currency !== user.balance.currency) {
+            return unchanged(state, { success: false, message: `Error: Joint accounts are held in one currency, and ${coOwner.name} banks in ${coOwner.balance.currency}.` });
+        }
+        ownerIds.push(coOwner.id);
+    }
+
+    const name = request.name?.trim() || DEFAULT_NAMES[request.type];
+    if (getAccounts(state, userId).some(a => a.name.toLowerCase() === name.toLowerCase())) {
+        return unchanged(state, { success: false, message: `Error: You already have an account called ${name}. Please choose another name.` });
+    }
+
+    const account: DepositAccount = {
+        id: `acct-${userId}-${now.getTime()}-${state.depositAccounts.length}`,
+        accountNumber: generateAccountNumber(),
+        type: request.type,
+        name,
+        ownerIds,
+        balance: zero(user.balance.currency),
+        openedAt: now.toISOString(),
+    };
+    const shared = ownerIds.length > 1 ? `, shared with ${ownerNames(state, ownerIds.slice(1)).join(' & ')}` : '';
+    return {
+        state: { ...state, depositAccounts: [...state.depositAccounts, account] },
+        result: { success: true, message: `Done! "${name}" is open${shared}. Its account number is ${account.accountNumber}.`, account },
+    };
+};
+
+// Either owner can close an account once it is empty.
+export const closeDepositAccount = (state: BankState, userId: number, accountNumber: string, now: Date = new Date()): BankOperation<DepositAccountResult> => {
+    const account = findAccount(state, userId, accountNumber)?.account;
+    if (!account) return unchanged(state, { success: false, message: 'Error: Account not found. Your main account cannot be closed.' });
+    if (!isZero(account.balance)) {
+        return unchanged(state, { success: false, message: `Error: ${account.name} still holds ${formatMoney(account.balance)}. Move it to another account first.` });
+    }
+    const closed: DepositAccount = { ...account, closedAt: now.toISOString() };
+    return {
+        state: { ...state, depositAccounts: state.depositAccounts.map(a => a.id === account.id ? closed : a) },
+        result: { success: true, message: `"${account.name}" has been closed.`, account: closed },
+    };
+};
+
+const executeInternalTransfer = (state: BankState, userId: number, fromAccountNumber: string, toAccountNumber: string, amount: Money, now: Date): BankOperation<OperationResult> => {
+    const user = state.users.find(u => u.id === userId);
+    if (!user) return unchanged(state, { success: false, message: 'Error: Current user not found.' });
+    const from = findAccount(state, userId, fromAccountNumber);
+    const to = findAccount(state, userId, toAccountNumber);
+    if (!from || !to) return unchanged(state, { success: false, message: 'Error: Account not found.' });
+    if (from.accountNumber === to.accountNumber) return unchanged(state, { success: false, message: 'Error: Choose two different accounts.' });
+    if (!isPositive(amount)) return unchanged(state, { success: false, message: 'Error: Transfer amount must be positive.' });
+    if (amount.currency !== from.balance.currency) return unchanged(state, { success: false, message: `Error: ${from.name} is held in ${from.balance.currency}.` });
+    if (compare(from.balance, amount) < 0) return unchanged(state, { success: false, message: `Error: Insufficient funds. ${from.name} holds ${formatMoney(from.balance)}.` });
+
+    const timestamp = now.toISOString();
+    const entry = createJournalEntry(`Transfer from ${from.name} to ${to.name} for ${user.name}`,
+        depositTransferPostings(accountLedgerId(userId, from.account), accountLedgerId(userId, to.account), amount), timestamp);
+    const transaction = (type: Transaction['type'], account: AccountView, other: AccountView, suffix: string): Transaction => ({
+        id: `t-int-${userId}-${now.getTime()}-${state.transactions.length}${suffix}`,
+        userId,
+        type,
+        amount,
+        description: type === 'debit' ? `Transfer to ${other.name}` : `Transfer from ${other.name}`,
+        timestamp,
+        partyName: user.name,
+        category: INTERNAL_TRANSFER_CATEGORY,
+        journalEntryId: entry.id,
+        accountNumber: account.account?.accountNumber,
+        ...initialStatus('posted', timestamp),
+    });
+
+    const withdrawn = adjustAccountBalance(state, userId, from.account, negate(amount));
+    return {
+        state: {
+            ...adjustAccountBalance(withdrawn, userId, to.account, amount),
+            transactions: [...state.transactions, transaction('debit', from, to, ''), transaction('credit', to, from, '-r')],
+            journal: [...state.journal, entry],
+        },
+        result: { success: true, message: `Done! ${formatMoney(amount)} moved from ${from.name} to ${to.name}.` },
+    };
+};
+
+export const transferBetweenAccounts = (state: BankState, userId: number, fromAccountNumber: string, toAccountNumber: string, amount: Money, idempotencyKey?: string, now: Date = new Date()): BankOperation<OperationResult> =>
+    withIdempotency(state, idempotencyKey, userId, 'transferBetweenAccounts', { fromAccountNumber, toAccountNumber, amount },
+        current => executeInternalTransfer(current, userId, fromAccountNumber, toAccountNumber, amount, now));
@@ -0,0 +1,49 @@
+import { Money, CurrencyCode, fromMajor, toMajor, multiply } from './money';
+
+// Foreign exchange. Rates come from a pluggable source; the bundled static table keeps
+// conversions working offline and is the default everywhere.
+
+export interface FxRateSource {
+    name: string;
+    // Units of `to` per unit of `from`, or undefined when the pair is not quoted.
+    getRate: (from: CurrencyCode, to: CurrencyCode) => number | undefined;
+}
+
+// Builds a source from a table of rates against one base currency.
+export const createStaticRateSource = (name: string, ratesPerBase: Record<CurrencyCode, number>): FxRateSource => ({
+    name,
+    getRate: (from, to) => {
+        if (from === to) return 1;
+        const fromRate = ratesPerBase[from];
+        const toRate = ratesPerBase[to];
+        return fromRate && toRate ? toRate / fromRate : undefined;
+    },
+});
+
+// Indicative mid-market rates per 1 USD.
+const STATIC_USD_RATES: Record<CurrencyCode, number> = {
+    USD: 1,
+    EUR: 0.92,
+    GBP: 0.79,
+    MXN: 17.1,
+    THB: 36.5,
+    PHP: 56.2,
+    JPY: 149.5,
+};
+
+export const SUPPORTED_CURRENCIES: CurrencyCode[] = Object.keys(STATIC_USD_RATES);
+
+export const staticRateSource = createStaticRateSource('Offline rate table', STATIC_USD_RATES);
+
+// Charged on the sending side of every conversion.
+export const FX_FEE_RATE = 0.01;
+
+export const isSupportedCurrency = (currency: CurrencyCode) => SUPPORTED_CURRENCIES.includes(currency);
+
+export const convert = (amount: Money, to: CurrencyCode, rateSource: FxRateSource = staticRateSource): Money | undefined => {
+    if (amount.currency === to) return amount;
+    const rate = rateSource.getRate(amount.currency, to);
+    return rate === undefined ? undefined : fromMajor(toMajor(amount) * rate, to);
+};
+
+export const conversionFee = (amount: Money): Money => multiply(amount, FX_FEE_RATE);
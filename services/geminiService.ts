@@ -2,6 +2,15 @@
 
 import { GoogleGenAI, FunctionDeclaration, Type, Chat, GenerateContentResponse } from '@google/genai';
 import { Transaction } from '../types';
+import { CurrencyCode, formatMoney } from './money';
+import { SUPPORTED_CURRENCIES } from './fx';
+import { LOAN_QUOTE_TERMS } from './loanQuotes';
+import { toDateInput } from './dateUtils';
+import { isInEffect } from './transactionStatus';
+import { CARD_PAYMENT_CATEGORY } from './cardPayments';
+import { INVESTMENT_TRANSFER_CATEGORY } from './investments';
+import { INTERNAL_TRANSFER_CATEGORY } from './depositAccounts';
+import { DEFAULT_SAVINGS_APY } from './interest';
 
 const API_KEY = process.env.API_KEY;
 
@@ -19,7 +28,7 @@ const initiatePaymentFunctionDeclaration: FunctionDeclaration = {
         properties: {
             recipientName: {
                 type: Type.STRING,
-                description: "The full name or first name of the person to receive the money. This must be one of the available contacts. Use this OR recipientAccountNumber.",
+                description: "The nickname or name of the payee to receive the money, as listed in the user's payees. Use this OR recipientAccountNumber.",
             },
             recipientAccountNumber: {
                 type: Type.STRING,
@@ -29,11 +38,85 @@ const initiatePaymentFunctionDeclaration: FunctionDeclaration = {
                 type: Type.NUMBER,
                 description: 'The amount of money to send.',
             },
+            currency: {
+                type: Type.STRING,
+                description: "ISO 4217 code of the amount, e.g. 'USD', 'EUR', 'THB'. Defaults to the user's account currency.",
+            },
+            fromAccount: {
+                type: Type.STRING,
+                description: "Optional. The name or last 4 digits of the user's account to pay from. Defaults to the main account.",
+            },
         },
         required: ['amount'],
     },
 };
 
+const getTransferQuoteFunctionDeclaration: FunctionDeclaration = {
+    name: 'getTransferQuote',
+    description: 'Previews a payment without sending it: the amount the recipient receives, the exchange rate, any FX fee and the total taken from the account.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            recipientName: { type: Type.STRING, description: "The nickname or name of the payee, as listed in the user's payees. Use this OR recipientAccountNumber." },
+            recipientAccountNumber: { type: Type.STRING, description: "The 10-digit account number of the recipient. Use this OR recipientName." },
+            amount: { type: Type.NUMBER, description: 'The amount of money to send.' },
+            currency: { type: Type.STRING, description: "ISO 4217 code of the amount. Defaults to the user's account currency." },
+            fromAccount: { type: Type.STRING, description: "Optional. The name or last 4 digits of the user's account to pay from. Defaults to the main account." },
+        },
+        required: ['amount'],
+    },
+};
+
+const getTransferLimitsFunctionDeclaration: FunctionDeclaration = {
+    name: 'getTransferLimits',
+    description: "Gets the user's transfer limits (per transfer, daily, monthly, new payee, velocity) and how much they have already sent today and this month.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {},
+        required: [],
+    },
+};
+
+const schedulePaymentFunctionDeclaration: FunctionDeclaration = {
+    name: 'schedulePayment',
+    description: 'Schedules a payment for a future date, or sets up a recurring weekly or monthly standing order.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            recipientName: { type: Type.STRING, description: "The nickname or name of the payee, as listed in the user's payees. Use this OR recipientAccountNumber." },
+            recipientAccountNumber: { type: Type.STRING, description: "The 10-digit account number of the recipient. Use this OR recipientName." },
+            amount: { type: Type.NUMBER, description: 'The amount of money to send on each payment date.' },
+            currency: { type: Type.STRING, description: "ISO 4217 code of the amount. Defaults to the user's account currency." },
+            startDate: { type: Type.STRING, description: "The date of the (first) payment as YYYY-MM-DD." },
+            frequency: { type: Type.STRING, description: "How often to pay: 'once', 'weekly' or 'monthly'." },
+            endDate: { type: Type.STRING, description: "Optional last date (YYYY-MM-DD) for a recurring payment. Omit for payments that continue until cancelled." },
+        },
+        required: ['amount', 'startDate', 'frequency'],
+    },
+};
+
+const listScheduledPaymentsFunctionDeclaration: FunctionDeclaration = {
+    name: 'listScheduledPayments',
+    description: "Lists the user's scheduled and recurring payments, including their IDs, next payment dates and the result of the last run.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {},
+        required: [],
+    },
+};
+
+const cancelScheduledPaymentFunctionDeclaration: FunctionDeclaration = {
+    name: 'cancelScheduledPayment',
+    description: 'Cancels a scheduled or recurring payment so that no further payments are made.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            scheduledPaymentId: { type: Type.STRING, description: "The ID of the scheduled payment, as returned by 'listScheduledPayments'." },
+        },
+        required: ['scheduledPaymentId'],
+    },
+};
+
 const getCardStatementDetailsFunctionDeclaration: FunctionDeclaration = {
     name: 'getCardStatementDetails',
     description: "Retrieves the current statement details for a user's credit card, including balance, minimum payment, and due date.",
@@ -46,6 +129,59 @@ const getCardStatementDetailsFunctionDeclaration: FunctionDeclaration = {
     },
 };
 
+const payCardBalanceFunctionDeclaration: FunctionDeclaration = {
+    name: 'payCardBalance',
+    description: "Pays down a credit card from the user's savings account.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            cardLast4: { type: Type.STRING, description: "The last 4 digits of the card to pay. If not provided, defaults to the user's primary card." },
+            paymentOption: {
+                type: Type.STRING,
+                description: "'minimum' for the minimum payment, 'statement' for the statement balance, 'full' for the whole current balance, or 'custom' for a specific amount.",
+            },
+            amount: { type: Type.NUMBER, description: "The amount to pay, in the card's currency. Only used with 'custom'." },
+        },
+        required: ['paymentOption'],
+    },
+};
+
+const makeCardPurchaseFunctionDeclaration: FunctionDeclaration = {
+    name: 'makeCardPurchase',
+    description: "Pays a merchant with one of the user's credit cards. The amount is held against the card's available credit until the merchant settles.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            cardLast4: { type: Type.STRING, description: "The last 4 digits of the card to pay with. If not provided, defaults to the user's primary card." },
+            merchant: { type: Type.STRING, description: 'The name of the merchant.' },
+            amount: { type: Type.NUMBER, description: "The purchase amount, in the card's currency." },
+            category: { type: Type.STRING, description: "The spending category, e.g. 'Groceries', 'Food', 'Shopping'. Defaults to 'Shopping'." },
+            online: { type: Type.BOOLEAN, description: "Optional. true for an online purchase, such as a web shop." },
+            international: { type: Type.BOOLEAN, description: "Optional. true when the merchant is abroad." },
+        },
+        required: ['merchant', 'amount'],
+    },
+};
+
+const setCardControlsFunctionDeclaration: FunctionDeclaration = {
+    name: 'setCardControls',
+    description: "Changes a card's controls: freezing it, turning online or international purchases on or off, spending caps and blocked merchant categories. Only the given settings change; call it with none to read the current controls.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            cardLast4: { type: Type.STRING, description: "The last 4 digits of the card. If not provided, defaults to the user's primary card." },
+            frozen: { type: Type.BOOLEAN, description: "Optional. true to freeze the card, false to unfreeze it." },
+            onlineEnabled: { type: Type.BOOLEAN, description: "Optional. Whether online purchases are allowed." },
+            internationalEnabled: { type: Type.BOOLEAN, description: "Optional. Whether purchases from merchants abroad are allowed." },
+            perTransactionLimit: { type: Type.NUMBER, description: "Optional. The most a single purchase may cost, in the card's currency. 0 removes the cap." },
+            monthlyLimit: { type: Type.NUMBER, description: "Optional. The most the card may spend per calendar month, in the card's currency. 0 removes the cap." },
+            blockCategories: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Optional. Merchant categories to block, e.g. 'Entertainment'." },
+            unblockCategories: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Optional. Blocked categories to allow again." },
+        },
+        required: [],
+    },
+};
+
 const getCardTransactionsFunctionDeclaration: FunctionDeclaration = {
     name: 'getCardTransactions',
     description: 'Fetches the recent transaction history for a specified credit card.',
@@ -59,6 +195,56 @@ const getCardTransactionsFunctionDeclaration: FunctionDeclaration = {
     },
 };
 
+const splitCardTransactionFunctionDeclaration: FunctionDeclaration = {
+    name: 'splitCardTransaction',
+    description: "Splits a card purchase with other people and sends each of them a money request for their share. Splits equally unless amounts are given.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            cardLast4: { type: Type.STRING, description: "The last 4 digits of the card the purchase was made on. If not provided, defaults to the primary card." },
+            transactionDescription: { type: Type.STRING, description: "The merchant or description of the purchase, e.g., 'Pizza Palace'. The most recent matching purchase is split." },
+            participants: { type: Type.ARRAY, items: { type: Type.STRING }, description: "The nicknames or names of the payees to split with, not including the user." },
+            amounts: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "Optional. For uneven splits, what each participant owes in the user's account currency, in the same order as 'participants'. The user pays the rest." },
+            includeSelf: { type: Type.BOOLEAN, description: "Optional, for equal splits. Whether the user takes a share too. Defaults to true." },
+        },
+        required: ['transactionDescription', 'participants'],
+    },
+};
+
+const getBillSplitsFunctionDeclaration: FunctionDeclaration = {
+    name: 'getBillSplits',
+    description: "Lists the card purchases the user has split, with each person's share and whether they have paid it.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {},
+        required: [],
+    },
+};
+
+const getAccountsFunctionDeclaration: FunctionDeclaration = {
+    name: 'getAccounts',
+    description: "Lists the user's deposit accounts (main, checking, savings and joint) with their balances.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {},
+        required: [],
+    },
+};
+
+const transferBetweenAccountsFunctionDeclaration: FunctionDeclaration = {
+    name: 'transferBetweenAccounts',
+    description: "Moves money between two of the user's own deposit accounts.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            fromAccount: { type: Type.STRING, description: "The name or last 4 digits of the account to take the money from. Use 'main' for the main account." },
+            toAccount: { type: Type.STRING, description: "The name or last 4 digits of the account to put the money in. Use 'main' for the main account." },
+            amount: { type: Type.NUMBER, description: 'The amount to move, in the account currency.' },
+        },
+        required: ['fromAccount', 'toAccount', 'amount'],
+    },
+};
+
 const requestPaymentExtensionFunctionDeclaration: FunctionDeclaration = {
     name: 'requestPaymentExtension',
     description: 'Requests a 14-day payment extension for a credit card or loan.',
@@ -97,6 +283,31 @@ const applyForCreditCardFunctionDeclaration: FunctionDeclaration = {
     },
 };
 
+const getLoanQuoteFunctionDeclaration: FunctionDeclaration = {
+    name: 'getLoanQuote',
+    description: "Soft pre-qualification for a loan: returns the estimated rate, monthly payment and total cost for 24, 36, 48 and 60 month terms. Does not apply for a loan or affect the user's credit.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            loanAmount: { type: Type.NUMBER, description: "The amount the user would like to borrow, in their account currency." },
+            annualIncome: { type: Type.NUMBER, description: "The user's total annual income." },
+            employmentStatus: { type: Type.STRING, description: "e.g., Employed, Self-Employed, Unemployed, Student." },
+            dateOfBirth: { type: Type.STRING, description: "The user's date of birth (e.g., YYYY-MM-DD)." },
+        },
+        required: ['loanAmount', 'annualIncome', 'employmentStatus', 'dateOfBirth'],
+    },
+};
+
+const listApplicationsFunctionDeclaration: FunctionDeclaration = {
+    name: 'listApplications',
+    description: "Lists the user's card and loan applications with their status (submitted, underReview, approved, declined, withdrawn), submission date and the reasons behind any decline or review.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {},
+        required: [],
+    },
+};
+
 const applyForLoanFunctionDeclaration: FunctionDeclaration = {
     name: 'applyForLoan',
     description: 'Processes a new loan application for the user after collecting necessary personal and financial information.',
@@ -108,6 +319,7 @@ const applyForLoanFunctionDeclaration: FunctionDeclaration = {
                 description: "Object containing all user-provided loan application details.",
                 properties: {
                     loanAmount: { type: Type.NUMBER, description: "The amount of money the user wants to borrow." },
+                    loanTerm: { type: Type.NUMBER, description: `The repayment term in months: one of ${LOAN_QUOTE_TERMS.join(', ')}.` },
                     // Re-use personal details for simplicity. The AI should collect these as well.
                     fullName: { type: Type.STRING, description: "The user's full legal name." },
                     address: { type: Type.STRING, description: "The user's full residential address." },
@@ -115,13 +327,127 @@ const applyForLoanFunctionDeclaration: FunctionDeclaration = {
                     employmentStatus: { type: Type.STRING, description: "e.g., Employed, Self-Employed, Unemployed." },
                     annualIncome: { type: Type.NUMBER, description: "The user's total annual income." },
                 },
-                required: ['loanAmount', 'fullName', 'address', 'dateOfBirth', 'employmentStatus', 'annualIncome']
+                required: ['loanAmount', 'loanTerm', 'fullName', 'address', 'dateOfBirth', 'employmentStatus', 'annualIncome']
             }
         },
         required: ['applicationDetails'],
     },
 };
 
+const createSavingsGoalFunctionDeclaration: FunctionDeclaration = {
+    name: 'createSavingsGoal',
+    description: "Creates a named savings goal that sets part of the user's savings balance aside, optionally with a target date and an automatic weekly or monthly contribution.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            name: { type: Type.STRING, description: "What the user is saving for, e.g., 'Vacation'." },
+            targetAmount: { type: Type.NUMBER, description: "The amount to save, in the user's account currency." },
+            targetDate: { type: Type.STRING, description: "Optional. When the user wants to reach the target, as YYYY-MM-DD." },
+            autoContributionAmount: { type: Type.NUMBER, description: "Optional. Amount to set aside automatically on each run." },
+            autoContributionFrequency: { type: Type.STRING, description: "Required with autoContributionAmount. 'weekly' or 'monthly'." },
+        },
+        required: ['name', 'targetAmount'],
+    },
+};
+
+const getSavingsGoalsFunctionDeclaration: FunctionDeclaration = {
+    name: 'getSavingsGoals',
+    description: "Lists the user's savings goals with how much is saved, the target, progress, the monthly amount needed to reach any target date and automatic contributions.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {},
+        required: [],
+    },
+};
+
+const moveSavingsGoalMoneyFunctionDeclaration: FunctionDeclaration = {
+    name: 'moveSavingsGoalMoney',
+    description: "Sets money aside for a savings goal ('in') or releases money from a goal so it can be spent again ('out'). The money stays in the savings account either way.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            goalName: { type: Type.STRING, description: "The name of the goal." },
+            amount: { type: Type.NUMBER, description: "The amount to move, in the user's account currency." },
+            direction: { type: Type.STRING, description: "'in' to add to the goal, 'out' to take money out of it." },
+        },
+        required: ['goalName', 'amount', 'direction'],
+    },
+};
+
+const getPortfolioFunctionDeclaration: FunctionDeclaration = {
+    name: 'getPortfolio',
+    description: "Gets the user's investment portfolio: uninvested cash, each fund held with its shares, price, market value, cost basis and unrealized gain, plus realized gains from sales.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {},
+        required: [],
+    },
+};
+
+const addPayeeFunctionDeclaration: FunctionDeclaration = {
+    name: 'addPayee',
+    description: "Saves an account to the user's payees under a nickname, after checking who holds the account.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            accountNumber: { type: Type.STRING, description: "The 10-digit account number of the payee." },
+            nickname: { type: Type.STRING, description: "Optional. What the user wants to call the payee, e.g., 'Mom'. Defaults to the account holder's name." },
+        },
+        required: ['accountNumber'],
+    },
+};
+
+const requestMoneyFunctionDeclaration: FunctionDeclaration = {
+    name: 'requestMoney',
+    description: "Asks another customer to pay the user an amount, with an optional note. The request appears in their inbox, where they can pay it in full or in part, or decline it.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            payerName: { type: Type.STRING, description: "The nickname or name of the payee to request money from. Use this OR payerAccountNumber." },
+            payerAccountNumber: { type: Type.STRING, description: "The 10-digit account number of the person to request money from. Use this OR payerName." },
+            amount: { type: Type.NUMBER, description: "The amount to request, in the user's account currency." },
+            note: { type: Type.STRING, description: "Optional. What the money is for, e.g., 'Concert tickets'." },
+        },
+        required: ['amount'],
+    },
+};
+
+const listPendingRequestsFunctionDeclaration: FunctionDeclaration = {
+    name: 'listPendingRequests',
+    description: "Lists open money requests: those other people have sent the user and those the user has sent, with the amount, note, how much has been paid and what is outstanding.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {},
+        required: [],
+    },
+};
+
+const getBudgetStatusFunctionDeclaration: FunctionDeclaration = {
+    name: 'getBudgetStatus',
+    description: "Gets the user's monthly category budgets with how much has been spent this month, how much is left and any amount carried over from last month.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            category: { type: Type.STRING, description: "Optional. The budget category to check, e.g., 'Groceries'. Omit to list every budget." },
+        },
+        required: [],
+    },
+};
+
+const setBudgetFunctionDeclaration: FunctionDeclaration = {
+    name: 'setBudget',
+    description: "Sets or changes the monthly budget for a spending category.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            category: { type: Type.STRING, description: "The spending category, e.g., 'Groceries', 'Transport', 'Entertainment', 'Shopping', 'Food' or 'Bills'." },
+            monthlyLimit: { type: Type.NUMBER, description: "The monthly budget, in the user's account currency." },
+            rollover: { type: Type.STRING, description: "Optional. 'none' to start each month afresh, 'surplus' to carry unspent budget into next month, or 'full' to also take overspending off next month." },
+        },
+        required: ['category', 'monthlyLimit'],
+    },
+};
+
 const getSpendingAnalysisFunctionDeclaration: FunctionDeclaration = {
     name: 'getSpendingAnalysis',
     description: 'Analyzes the user\'s spending habits over a specified period using AI. Covers both bank and card transactions.',
@@ -138,7 +464,7 @@ const getSpendingAnalysisFunctionDeclaration: FunctionDeclaration = {
 };
 
 
-export const createChatSession = (userFullName: string, contacts: string[], language: 'en' | 'es' | 'th' | 'tl'): Chat => {
+export const createChatSession = (userFullName: string, payees: string[], currency: CurrencyCode, language: 'en' | 'es' | 'th' | 'tl'): Chat => {
     const model = 'gemini-2.5-flash';
     const langNameMap = {
         en: 'English',
@@ -149,21 +475,39 @@ export const createChatSession = (userFullName: string, contacts: string[], lang
     const langName = langNameMap[language];
 
     const systemInstruction = `You are a world-class banking assistant named Nova for a user named ${userFullName}.
-Your capabilities include initiating payments, providing card information, analyzing spending, processing applications, and handling payment extensions.
+Your capabilities include initiating and scheduling payments, providing card information, analyzing spending, processing applications, and handling payment extensions.
 
 1.  **Payments**:
     - If the user asks to "send", "pay", "transfer", or similar, you MUST use the 'initiatePayment' tool.
     - You must have a recipient and an amount. The recipient can be identified by their name OR their account number. Prioritize using the account number if provided.
-    - Available contacts by name are: ${contacts.join(', ')}. If a name doesn't match, inform the user. Do not hallucinate contacts.
+    - The user's saved payees are: ${payees.length > 0 ? payees.join(', ') : 'none yet'}. If a name doesn't match a payee, ask for the person's full name or account number. Do not hallucinate payees.
+    - If a payment result includes 'candidates', the name matched several payees. List them and ask which one the user means, then retry with that payee's nickname. Never pick one yourself.
+    - If the user wants someone to pay them ("ask Bob for $20 for lunch"), use the 'requestMoney' tool. Use 'listPendingRequests' when they ask about requests they have sent or received. Requests they have received are paid or declined from the Payments screen.
+    - To save someone as a payee, use the 'addPayee' tool with their account number and, optionally, a nickname. People the user pays are saved automatically.
+    - The user's account is in ${currency}. If they name another currency ("send 50 euros"), pass it as 'currency'. Supported currencies: ${SUPPORTED_CURRENCIES.join(', ')}.
+    - Contacts may hold accounts in other currencies. Before any payment that involves a currency conversion, you MUST call 'getTransferQuote', tell the user what the recipient receives, the rate and the FX fee, and only call 'initiatePayment' after they confirm.
+    - Payments are subject to transfer limits. If a payment fails with a 'reasonCode', explain in plain words which limit blocked it and what the user can do (send a smaller amount, wait, or raise the limit in Settings). Use 'getTransferLimits' when they ask how much they can still send.
+    - If the user wants to pay on a later date or regularly ("every week", "on the 1st of each month"), you MUST use the 'schedulePayment' tool instead. Today's date is ${toDateInput(new Date())}; convert relative dates to YYYY-MM-DD.
+    - To show or cancel scheduled payments, use 'listScheduledPayments' and 'cancelScheduledPayment'. If the user does not give an ID, list the payments first and confirm which one they mean.
+    - Users can hold checking, savings and joint accounts besides their main account. Savings accounts earn ${DEFAULT_SAVINGS_APY}% APY, credited monthly; checking and joint accounts earn no interest. Use 'getAccounts' for their balances, 'transferBetweenAccounts' to move money between their own accounts, and pass 'fromAccount' to 'initiatePayment' when they want to pay from an account other than the main one.
 
 2.  **Spending Analysis**:
     - If the user asks "how much did I spend", "what's my spending breakdown", "show my expenses", or similar, you MUST use the 'getSpendingAnalysis' tool.
     - This tool uses AI to provide a categorical breakdown of their spending from all their accounts for a given period.
+    - If the user asks how much is left in a budget, or whether they are over budget ("how much is left in my groceries budget"), you MUST use the 'getBudgetStatus' tool. Use 'setBudget' when they want to set or change a monthly budget for a category.
 
 3.  **Card & Account Information**:
     - If the user asks about their "bill," "statement," "due date," or "minimum payment," you MUST use the 'getCardStatementDetails' tool.
+    - Card interest accrues daily and is charged when the statement closes ('accruedInterest'). When 'inGracePeriod' is true the last statement was paid in full and new purchases are not charged interest; otherwise explain that paying the statement balance in full stops interest on new purchases.
+    - If 'delinquency.status' is not 'current', start your answer by warning the user that the card is past due (use 'daysPastDue' and 'delinquency.pastDueAmount'), that late fees apply for every missed due date and, if 'delinquency.penaltyApr' is true, that the penalty rate 'effectiveApr' applies until the card is current. Offer to help them pay with 'payCardBalance'.
     - If the user asks for their "recent transactions," "spending history," or similar on a card, you MUST use the 'getCardTransactions' tool.
+    - If the user wants to share the cost of a card purchase ("split the Pizza Palace bill with Bob and Carol"), use the 'splitCardTransaction' tool. Each person is sent a money request for their share. Use 'getBillSplits' when they ask who has paid them back.
+    - If the user wants to pay a merchant with their card ("pay the $40 at Green Grocer with my Visa"), use the 'makeCardPurchase' tool. The purchase is pending until the merchant settles it.
+    - If the user wants to freeze or unfreeze a card, turn online or international purchases on or off, cap what a card can spend, or block categories of merchants, use the 'setCardControls' tool. 'makeCardPurchase' checks every purchase against these controls; when one is declined, explain the reason it returns and that the attempt is shown on the card as failed.
+    - If the user wants to "pay my card," "pay off my balance," or similar, you MUST use the 'payCardBalance' tool. If they do not say how much, ask whether they want to pay the minimum, the statement balance, the full balance or a specific amount, and confirm before paying.
     - If a card is not specified, assume they mean their primary (first) card.
+    - If the user wants to save for something ("help me save for a vacation"), use the 'createSavingsGoal' tool. Ask for a target amount, and offer a target date and an automatic contribution. Use 'getSavingsGoals' for progress questions and 'moveSavingsGoalMoney' to add money to a goal or take it out.
+    - If the user asks about their "investments," "portfolio," "holdings" or "gains," you MUST use the 'getPortfolio' tool. Prices come from a simulated feed; never give investment advice.
 
 4.  **Payment Extensions**:
     - If the user says they "can't pay," "need more time," or asks for an "extension" on a bill or loan, you MUST use the 'requestPaymentExtension' tool.
@@ -176,8 +520,11 @@ Your capabilities include initiating payments, providing card information, analy
 
 6.  **Loan Application**:
     - If the user wants to "apply for a loan," you MUST use the 'applyForLoan' tool.
-    - Before calling the tool, collect the desired loan amount and the same personal/financial details as a credit card application.
+    - Before calling the tool, collect the desired loan amount, the term (${LOAN_QUOTE_TERMS.join(', ')} months; if they picked one from a quote, use that) and the same personal/financial details as a credit card application.
     - Ask for missing information conversationally.
+    - If the user asks what rate they could get, what a loan would cost, or wants to compare terms, use the 'getLoanQuote' tool. It is a soft check that does not apply for a loan or affect their credit; say so, and offer 'applyForLoan' if they want to go ahead.
+    - If the user asks about the status of an application or why it was declined, use the 'listApplications' tool and explain the reasons it returns.
+    - Applications are decided by the bank's credit rules. The tool result includes a 'decision' with an 'outcome' ('approve', 'decline' or 'refer' for manual review) and 'reasons'. Explain the reasons plainly, never promise a different outcome, and for 'refer' tell the user the credit team will follow up.
 
 7.  **General Conversation**:
     - For any other queries, provide polite, brief, and helpful responses.
@@ -186,11 +533,34 @@ Your capabilities include initiating payments, providing card information, analy
 
     const functionDeclarations = [
         initiatePaymentFunctionDeclaration,
+        getTransferQuoteFunctionDeclaration,
+        getTransferLimitsFunctionDeclaration,
+        addPayeeFunctionDeclaration,
+        requestMoneyFunctionDeclaration,
+        listPendingRequestsFunctionDeclaration,
+        schedulePaymentFunctionDeclaration,
+        listScheduledPaymentsFunctionDeclaration,
+        cancelScheduledPaymentFunctionDeclaration,
         getCardStatementDetailsFunctionDeclaration,
+        payCardBalanceFunctionDeclaration,
+        makeCardPurchaseFunctionDeclaration,
+        setCardControlsFunctionDeclaration,
         getCardTransactionsFunctionDeclaration,
+        splitCardTransactionFunctionDeclaration,
+        getBillSplitsFunctionDeclaration,
+        getAccountsFunctionDeclaration,
+        transferBetweenAccountsFunctionDeclaration,
         requestPaymentExtensionFunctionDeclaration,
         applyForCreditCardFunctionDeclaration,
+        getLoanQuoteFunctionDeclaration,
         applyForLoanFunctionDeclaration,
+        listApplicationsFunctionDeclaration,
+        createSavingsGoalFunctionDeclaration,
+        getSavingsGoalsFunctionDeclaration,
+        moveSavingsGoalMoneyFunctionDeclaration,
+        getPortfolioFunctionDeclaration,
+        getBudgetStatusFunctionDeclaration,
+        setBudgetFunctionDeclaration,
         getSpendingAnalysisFunctionDeclaration
     ];
 
@@ -262,8 +632,8 @@ export const analyzeSpendingWithAI = async (transactions: Transaction[], languag
     const languageName = langNameMap[language];
 
     const expenseTransactions = transactions
-        .filter(tx => tx.type === 'debit')
-        .map(tx => `- ${tx.description}: $${tx.amount.toFixed(2)} on ${new Date(tx.timestamp).toLocaleDateString()}`)
+        .filter(tx => tx.type === 'debit' && tx.category !== CARD_PAYMENT_CATEGORY && tx.category !== INVESTMENT_TRANSFER_CATEGORY && tx.category !== INTERNAL_TRANSFER_CATEGORY && isInEffect(tx))
+        .map(tx => `- ${tx.description}: ${formatMoney(tx.amount)} on ${new Date(tx.timestamp).toLocaleDateString()}`)
         .join('\n');
     
     if (!expenseTransactions) {
@@ -0,0 +1,27 @@
+import { IdempotencyRecord } from '../types';
+
+// Keys are remembered long enough to cover client and assistant retries, and the
+// store is capped so it cannot grow without bound in localStorage.
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+const MAX_RECORDS = 200;
+
+export const createIdempotencyKey = (): string =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `idem-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+// Serializes a request with sorted object keys so equal requests always match.
+export const fingerprintRequest = (request: unknown): string =>
+    JSON.stringify(request, (_key, value) =>
+        value && typeof value === 'object' && !Array.isArray(value)
+            ? Object.fromEntries(Object.keys(value).sort().map(k => [k, value[k]]))
+            : value
+    );
+
+export const pruneIdempotencyRecords = (records: IdempotencyRecord[], now: Date): IdempotencyRecord[] =>
+    records
+        .filter(r => now.getTime() - new Date(r.createdAt).getTime() < RETENTION_MS)
+        .slice(-MAX_RECORDS);
+
+export const findIdempotencyRecord = (records: IdempotencyRecord[], key: string, userId: number, now: Date): IdempotencyRecord | undefined =>
+    pruneIdempotencyRecords(records, now).find(r => r.key === key && r.userId === userId);
@@ -0,0 +1,171 @@
+import { Card, DepositAccount, Loan, Transaction, User, JournalEntry } from '../types';
+import { BankState } from './bankService';
+import { Money, add, negate, multiply, isPositive, zero } from './money';
+import { INTEREST_EXPENSE_ACCOUNT, createJournalEntry, depositAccountId, savingsAccountId } from './ledger';
+import { initialStatus } from './transactionStatus';
+import { getAccruedLoanInterest } from './loanPayments';
+import { getEffectiveApr, isChargedOff } from './delinquency';
+import { INTEREST_CATEGORY } from './statements';
+import { addDays, startOfDay } from './dateUtils';
+
+// Daily-balance interest. Each day's interest is worked out on the balance at the end of
+// that day and collected in the account's accrued amount until it is due:
+// - cards charge it when the billing cycle closes, and only while a balance is carried
+//   (a statement paid in full leaves new purchases interest-free until the next one),
+//   at the penalty APR while seriously delinquent;
+// - loans settle it with the next repayment (see loanPayments);
+// - savings, on the main account and on savings-type deposit accounts, are credited once a month.
+
+// Annual percentage yield on savings when the account does not set its own.
+export const DEFAULT_SAVINGS_APY = 2;
+
+// A long absence should not produce an unbounded batch; the rest accrue on later runs.
+const MAX_DAYS_PER_RUN = 366;
+
+const DAYS_PER_YEAR = 365;
+
+export const getSavingsApy = (user: User): number => user.savingsApy ?? DEFAULT_SAVINGS_APY;
+
+// The APY already includes compounding, so the daily rate is its 365th root.
+const dailySavingsRate = (apy: number): number => Math.pow(1 + apy / 100, 1 / DAYS_PER_YEAR) - 1;
+
+const dailyRate = (annualPercentage: number): number => annualPercentage / 100 / DAYS_PER_YEAR;
+
+export const isInGracePeriod = (card: Card): boolean => !isPositive(card.statementBalance);
+
+export const getAccruedCardInterest = (card: Card): Money => card.accruedInterest ?? zero(card.creditBalance.currency);
+
+export const getAccruedSavingsInterest = (user: User): Money => user.accruedSavingsInterest ?? zero(user.balance.currency);
+
+export const getAccruedAccountInterest = (account: DepositAccount): Money => account.accruedInterest ?? zero(account.balance.currency);
+
+const accrueCard = (card: Card): Card => {
+    if (isInGracePeriod(card) || isChargedOff(card) || !isPositive(card.creditBalance)) return card;
+    return { ...card, accruedInterest: add(getAccruedCardInterest(card), multiply(card.creditBalance, dailyRate(getEffectiveApr(card)))) };
+};
+
+const accrueLoan = (loan: Loan, dayStart: Date): Loan => {
+    if (loan.status !== 'Active' || isChargedOff(loan)) return loan;
+    return { ...loan, accruedInterest: add(getAccruedLoanInterest(loan, dayStart), multiply(loan.remainingBalance, dailyRate(loan.interestRate))) };
+};
+
+const creditSavingsInterest = (user: User, timestamp: string): { user: User; transaction?: Transaction; entry?: JournalEntry } => {
+    const interest = getAccruedSavingsInterest(user);
+    if (!isPositive(interest)) return { user };
+    const entry = createJournalEntry(`Savings interest for ${user.username}`, [
+        { accountId: INTEREST_EXPENSE_ACCOUNT, amount: interest },
+        { accountId: savingsAccountId(user.id), amount: negate(interest) },
+    ], timestamp);
+    const transaction: Transaction = {
+        id: `t-int-${user.id}-${new Date(timestamp).getTime()}`,
+        userId: user.id,
+        type: 'credit',
+        amount: interest,
+        description: `Interest earned at ${getSavingsApy(user)}% APY`,
+        timestamp,
+        partyName: 'Nova Bank',
+        category: INTEREST_CATEGORY,
+        journalEntryId: entry.id,
+        ...initialStatus('posted', timestamp),
+    };
+    return {
+        user: { ...user, balance: add(user.balance, interest), accruedSavingsInterest: zero(user.balance.currency) },
+        transaction,
+        entry,
+    };
+};
+
+// Savings-type deposit accounts earn the standard rate; checking and joint accounts earn nothing.
+const earnsInterest = (account: DepositAccount) => account.type === 'savings' && !account.closedAt;
+
+const creditAccountInterest = (account: DepositAccount, timestamp: string): { account: DepositAccount; transaction?: Transaction; entry?: JournalEntry } => {
+    const interest = getAccruedAccountInterest(account);
+    if (!isPositive(interest)) return { account };
+    const entry = createJournalEntry(`Savings interest on ${account.name}`, [
+        { accountId: INTEREST_EXPENSE_ACCOUNT, amount: interest },
+        { accountId: depositAccountId(account.id), amount: negate(interest) },
+    ], timestamp);
+    const transaction: Transaction = {
+        id: `t-int-${account.id}-${new Date(timestamp).getTime()}`,
+        userId: account.ownerIds[0],
+        type: 'credit',
+        amount: interest,
+        description: `Interest earned at ${DEFAULT_SAVINGS_APY}% APY`,
+        timestamp,
+        partyName: 'Nova Bank',
+        category: INTEREST_CATEGORY,
+        journalEntryId: entry.id,
+        accountNumber: account.accountNumber,
+        ...initialStatus('posted', timestamp),
+    };
+    return {
+        account: { ...account, balance: add(account.balance, interest), accruedInterest: zero(account.balance.currency) },
+        transaction,
+        entry,
+    };
+};
+
+// Accrues one day of interest on every account. `dayStart` is local midnight of the day.
+export const accrueDailyInterest = (state: BankState, dayStart: Date): BankState => {
+    const dayEnd = addDays(dayStart, 1);
+    const isMonthEnd = dayEnd.getDate() === 1;
+    const transactions: Transaction[] = [];
+    const entries: JournalEntry[] = [];
+
+    const users = state.users.map(original => {
+        let user: User = {
+            ...original,
+            cards: original.cards.map(accrueCard),
+            loans: original.loans.map(loan => accrueLoan(loan, dayStart)),
+        };
+        if (isPositive(user.balance)) {
+            user = { ...user, accruedSavingsInterest: add(getAccruedSavingsInterest(user), multiply(user.balance, dailySavingsRate(getSavingsApy(user)))) };
+        }
+        if (isMonthEnd) {
+            const credited = creditSavingsInterest(user, dayEnd.toISOString());
+            user = credited.user;
+            if (credited.transaction && credited.entry) {
+                transactions.push(credited.transaction);
+                entries.push(credited.entry);
+            }
+        }
+        return user;
+    });
+
+    const depositAccounts = state.depositAccounts.map(original => {
+        if (!earnsInterest(original)) return original;
+        let account = original;
+        if (isPositive(account.balance)) {
+            account = { ...account, accruedInterest: add(getAccruedAccountInterest(account), multiply(account.balance, dailySavingsRate(DEFAULT_SAVINGS_APY))) };
+        }
+        if (isMonthEnd) {
+            const credited = creditAccountInterest(account, dayEnd.toISOString());
+            account = credited.account;
+            if (credited.transaction && credited.entry) {
+                transactions.push(credited.transaction);
+                entries.push(credited.entry);
+            }
+        }
+        return account;
+    });
+
+    return {
+        ...state,
+        users,
+        depositAccounts,
+        transactions: transactions.length > 0 ? [...state.transactions, ...transactions] : state.transactions,
+        journal: entries.length > 0 ? [...state.journal, ...entries] : state.journal,
+        interestAccruedThrough: dayEnd.toISOString(),
+    };
+};
+
+// The local midnights of every whole day that has ended since interest last accrued.
+export const getPendingAccrualDays = (state: BankState, now: Date = new Date()): Date[] => {
+    const days: Date[] = [];
+    let day = startOfDay(new Date(state.interestAccruedThrough));
+    while (addDays(day, 1) <= now && days.length < MAX_DAYS_PER_RUN) {
+        days.push(day);
+        day = addDays(day, 1);
+    }
+    return days;
+};
@@ -0,0 +1,242 @@
+import { Holding, InvestmentAccount, InvestmentOrder, Transaction, User } from '../types';
+import { generateAccountNumber } from '../constants';
+import { BankState, BankOperation, OperationResult, replaceUsers, unchanged, withIdempotency } from './bankService';
+import { Money, add, subtract, negate, multiply, sum, compare, isPositive, formatMoney, toMajor, zero } from './money';
+import { SECURITIES_SETTLEMENT_ACCOUNT, createJournalEntry, depositTransferPostings, investmentCashAccountId, savingsAccountId } from './ledger';
+import { initialStatus } from './transactionStatus';
+import { PriceSource, findInstrument, getSharePrice, simulatedPriceSource } from './marketData';
+
+// The investment account: cash moved over from savings, fund shares bought and sold with it
+// at the current price, and gains measured against the average cost of the shares held.
+
+export interface InvestmentTransferResult extends OperationResult {
+    cash?: Money; // Uninvested cash afterwards
+}
+
+export interface InvestmentOrderRequest {
+    symbol: string;
+    side: 'buy' | 'sell';
+    quantity?: number; // Shares; give either this...
+    amount?: Money;    // ...or an amount to buy or sell
+}
+
+export interface InvestmentOrderResult extends OperationResult {
+    order?: InvestmentOrder;
+}
+
+export interface HoldingValuation extends Holding {
+    name: string;
+    price?: Money; // Absent when the feed has no price
+    marketValue: Money;
+    unrealizedGain: Money;
+}
+
+export interface Portfolio {
+    cash: Money;
+    holdings: HoldingValuation[];
+    holdingsValue: Money;
+    totalValue: Money; // Holdings plus cash
+    costBasis: Money;
+    unrealizedGain: Money;
+    realizedGain: Money;
+}
+
+// Moving money between savings and investments is not spending.
+export const INVESTMENT_TRANSFER_CATEGORY = 'Investment Transfer';
+
+const QUANTITY_DECIMALS = 4;
+// Orders are rounded down to whole ten-thousandths of a share; sums are rounded to the same precision.
+const roundQuantity = (quantity: number) => Math.floor(quantity * 10 ** QUANTITY_DECIMALS) / 10 ** QUANTITY_DECIMALS;
+const normalizeQuantity = (quantity: number) => Math.round(quantity * 10 ** QUANTITY_DECIMALS) / 10 ** QUANTITY_DECIMALS;
+
+const emptyAccount = (user: User, now: Date): InvestmentAccount => ({
+    cash: zero(user.balance.currency),
+    holdings: [],
+    orders: [],
+    realizedGain: zero(user.balance.currency),
+    openedAt: now.toISOString(),
+});
+
+export const getPortfolio = (user: User, priceSource: PriceSource = simulatedPriceSource, now: Date = new Date()): Portfolio | null => {
+    const account = user.investmentAccount;
+    if (!account) return null;
+    const currency = account.cash.currency;
+    const holdings = account.holdings.map(holding => {
+        const price = getSharePrice(holding.symbol, currency, priceSource, now);
+        // Unpriced holdings are carried at cost rather than dropped from the total.
+        const marketValue = price ? multiply(price, holding.quantity) : holding.costBasis;
+        return {
+            ...holding,
+            name: findInstrument(holding.symbol)?.name ?? holding.symbol,
+            price,
+            marketValue,
+            unrealizedGain: subtract(marketValue, holding.costBasis),
+        };
+    });
+    const holdingsValue = sum(holdings.map(h => h.marketValue), currency);
+    const costBasis = sum(holdings.map(h => h.costBasis), currency);
+    return {
+        cash: account.cash,
+        holdings,
+        holdingsValue,
+        totalValue: add(holdingsValue, account.cash),
+        costBasis,
+        unrealizedGain: subtract(holdingsValue, costBasis),
+        realizedGain: account.realizedGain,
+    };
+};
+
+const executeInvestmentTransfer = (state: BankState, userId: number, amount: Money, direction: 'in' | 'out', now: Date): BankOperation<InvestmentTransferResult> => {
+    const user = state.users.find(u => u.id === userId);
+    if (!user) return unchanged(state, { success: false, message: 'Error: Current user not found.' });
+    if (!isPositive(amount)) return unchanged(state, { success: false, message: 'Error: Transfer amount must be positive.' });
+    if (amount.currency !== user.balance.currency) {
+        return unchanged(state, { success: false, message: `Error: Investment transfers must be in your account currency, ${user.balance.currency}.` });
+    }
+
+    const account = user.investmentAccount ?? emptyAccount(user, now);
+    if (direction === 'in' && compare(user.balance, amount) < 0) {
+        return unchanged(state, { success: false, message: `Error: Insufficient funds. Your balance is ${formatMoney(user.balance)}.` });
+    }
+    if (direction === 'out' && compare(account.cash, amount) < 0) {
+        return unchanged(state, { success: false, message: `Error: You have ${formatMoney(account.cash)} of uninvested cash available to withdraw.` });
+    }
+
+    const timestamp = now.toISOString();
+    const description = direction === 'in' ? 'Transfer to investment account' : 'Transfer from investment account';
+    const entry = createJournalEntry(description, direction === 'in'
+        ? depositTransferPostings(savingsAccountId(user.id), investmentCashAccountId(user.id), amount)
+        : depositTransferPostings(investmentCashAccountId(user.id), savingsAccountId(user.id), amount), timestamp);
+    const transaction: Transaction = {
+        id: `t-invest-${direction}-${user.id}-${now.getTime()}`,
+        userId: user.id,
+        type: direction === 'in' ? 'debit' : 'credit',
+        amount,
+        description,
+        timestamp,
+        partyName: 'Investment account',
+        category: INVESTMENT_TRANSFER_CATEGORY,
+        journalEntryId: entry.id,
+        ...initialStatus('posted', timestamp),
+    };
+    const cash = direction === 'in' ? add(account.cash, amount) : subtract(account.cash, amount);
+
+    return {
+        state: {
+            ...state,
+            users: replaceUsers(state.users, {
+                ...user,
+                balance: direction === 'in' ? subtract(user.balance, amount) : add(user.balance, amount),
+                investmentAccountNumber: user.investmentAccountNumber ?? generateAccountNumber(),
+                investmentAccount: { ...account, cash },
+            }),
+            transactions: [...state.transactions, transaction],
+            journal: [...state.journal, entry],
+        },
+        result: {
+            success: true,
+            message: direction === 'in'
+                ? `Done! ${formatMoney(amount)} has been moved to your investment account, ready to invest.`
+                : `Done! ${formatMoney(amount)} has been moved back to your savings account.`,
+            cash,
+        },
+    };
+};
+
+export const fundInvestmentAccount = (state: BankState, userId: number, amount: Money, idempotencyKey?: string, now: Date = new Date()): BankOperation<InvestmentTransferResult> =>
+    withIdempotency(state, idempotencyKey, userId, 'fundInvestmentAccount', amount,
+        current => executeInvestmentTransfer(current, userId, amount, 'in', now));
+
+export const withdrawFromInvestmentAccount = (state: BankState, userId: number, amount: Money, idempotencyKey?: string, now: Date = new Date()): BankOperation<InvestmentTransferResult> =>
+    withIdempotency(state, idempotencyKey, userId, 'withdrawFromInvestmentAccount', amount,
+        current => executeInvestmentTransfer(current, userId, amount, 'out', now));
+
+const executeInvestmentOrder = (state: BankState, userId: number, request: InvestmentOrderRequest, priceSource: PriceSource, now: Date): BankOperation<InvestmentOrderResult> => {
+    const user = state.users.find(u => u.id === userId);
+    if (!user) return unchanged(state, { success: false, message: 'Error: Current user not found.' });
+    const account = user.investmentAccount;
+    if (!account) return unchanged(state, { success: false, message: 'Error: Move money into your investment account before placing an order.' });
+
+    const instrument = findInstrument(request.symbol);
+    if (!instrument) return unchanged(state, { success: false, message: `Error: We do not offer a fund with the symbol "${request.symbol}".` });
+    const currency = account.cash.currency;
+    const price = getSharePrice(instrument.symbol, currency, priceSource, now);
+    if (!price) return unchanged(state, { success: false, message: `Error: No price is available for ${instrument.symbol} right now.` });
+    if (request.amount && request.amount.currency !== currency) {
+        return unchanged(state, { success: false, message: `Error: Orders are placed in your account currency, ${currency}.` });
+    }
+
+    const holding = account.holdings.find(h => h.symbol === instrument.symbol);
+    const requested = request.quantity ?? (request.amount ? toMajor(request.amount) / toMajor(price) : 0);
+    // Asking to sell at least what is held (e.g. the whole current value) sells everything.
+    const quantity = request.side === 'sell' && holding && requested >= holding.quantity ? holding.quantity : roundQuantity(requested);
+    if (quantity <= 0) return unchanged(state, { success: false, message: 'Error: Please enter how many shares, or how much, to trade.' });
+
+    const amount = multiply(price, quantity);
+    const timestamp = now.toISOString();
+    let holdings: Holding[];
+    let cash: Money;
+    let realizedGain: Money | undefined;
+
+    if (request.side === 'buy') {
+        if (compare(account.cash, amount) < 0) {
+            return unchanged(state, { success: false, message: `Error: Insufficient cash. You have ${formatMoney(account.cash)} available to invest.` });
+        }
+        cash = subtract(account.cash, amount);
+        holdings = holding
+            ? account.holdings.map(h => h === holding ? { ...h, quantity: normalizeQuantity(h.quantity + quantity), costBasis: add(h.costBasis, amount) } : h)
+            : [...account.holdings, { symbol: instrument.symbol, quantity, costBasis: amount }];
+    } else {
+        if (!holding || quantity > holding.quantity) {
+            return unchanged(state, { success: false, message: `Error: You hold ${holding?.quantity ?? 0} shares of ${instrument.symbol}.` });
+        }
+        const soldCost = quantity === holding.quantity ? holding.costBasis : multiply(holding.costBasis, quantity / holding.quantity);
+        realizedGain = subtract(amount, soldCost);
+        cash = add(account.cash, amount);
+        holdings = quantity === holding.quantity
+            ? account.holdings.filter(h => h !== holding)
+            : account.holdings.map(h => h === holding ? { ...h, quantity: normalizeQuantity(h.quantity - quantity), costBasis: subtract(h.costBasis, soldCost) } : h);
+    }
+
+    const verb = request.side === 'buy' ? 'Bought' : 'Sold';
+    const entry = createJournalEntry(`${verb} ${quantity} ${instrument.symbol} for investment account ${user.investmentAccountNumber}`, request.side === 'buy'
+        ? [{ accountId: investmentCashAccountId(user.id), amount }, { accountId: SECURITIES_SETTLEMENT_ACCOUNT, amount: negate(amount) }]
+        : [{ accountId: SECURITIES_SETTLEMENT_ACCOUNT, amount }, { accountId: investmentCashAccountId(user.id), amount: negate(amount) }], timestamp);
+    const order: InvestmentOrder = {
+        id: `ord-${user.id}-${now.getTime()}-${account.orders.length}`,
+        side: request.side,
+        symbol: instrument.symbol,
+        quantity,
+        price,
+        amount,
+        realizedGain,
+        timestamp,
+    };
+
+    return {
+        state: {
+            ...state,
+            users: replaceUsers(state.users, {
+                ...user,
+                investmentAccount: {
+                    ...account,
+                    cash,
+                    holdings,
+                    orders: [order, ...account.orders],
+                    realizedGain: realizedGain ? add(account.realizedGain, realizedGain) : account.realizedGain,
+                },
+            }),
+            journal: [...state.journal, entry],
+        },
+        result: {
+            success: true,
+            message: `${verb} ${quantity} shares of ${instrument.symbol} at ${formatMoney(price)} for ${formatMoney(amount)}.`
+                + (realizedGain ? ` Realized ${isPositive(realizedGain) ? 'gain' : 'loss'}: ${formatMoney(realizedGain)}.` : ''),
+            order,
+        },
+    };
+};
+
+export const placeInvestmentOrder = (state: BankState, userId: number, request: InvestmentOrderRequest, idempotencyKey?: string, priceSource: PriceSource = simulatedPriceSource, now: Date = new Date()): BankOperation<InvestmentOrderResult> =>
+    withIdempotency(state, idempotencyKey, userId, 'placeInvestmentOrder', request,
+        current => executeInvestmentOrder(current, userId, request, priceSource, now));
@@ -0,0 +1,171 @@
+import { Card, DepositAccount, JournalEntry, Posting, User } from '../types';
+import { Money, CurrencyCode, add, negate, zero, isZero, sum } from './money';
+
+// Ledger accounts are viewed from the bank's side: customer deposits are liabilities
+// (credit-normal), card and loan balances are receivables (debit-normal).
+export const OPENING_BALANCE_ACCOUNT = 'equity:opening-balances';
+// Amounts owed to merchants for card purchases that have posted.
+export const CARD_SETTLEMENT_ACCOUNT = 'clearing:card-settlement';
+// Currency bought and sold when converting transfers; holds one balance per currency.
+export const FX_CONVERSION_ACCOUNT = 'fx:conversion';
+export const FEE_INCOME_ACCOUNT = 'income:fees';
+export const INTEREST_INCOME_ACCOUNT = 'income:interest';
+// Interest paid out to savers.
+export const INTEREST_EXPENSE_ACCOUNT = 'expense:interest';
+// Cash paid to and received from the market for fund shares bought and sold for customers.
+export const SECURITIES_SETTLEMENT_ACCOUNT = 'clearing:securities-settlement';
+
+export const savingsAccountId = (userId: number) => `deposit:${userId}:savings`;
+export const cardAccountId = (cardNumber: string) => `card:${cardNumber}`;
+export const loanAccountId = (loanId: string) => `loan:${loanId}`;
+// Uninvested cash in the user's investment account; a deposit like savings.
+export const investmentCashAccountId = (userId: number) => `deposit:${userId}:investment-cash`;
+// Checking, savings and joint accounts opened besides the main one; joint ones have two owners.
+export const depositAccountId = (accountId: string) => `deposit:account:${accountId}`;
+
+// Postings must net to zero separately in every currency they touch.
+const unbalancedCurrencies = (postings: Posting[]): CurrencyCode[] => {
+    const totals = new Map<CurrencyCode, number>();
+    for (const { amount } of postings) {
+        totals.set(amount.currency, (totals.get(amount.currency) ?? 0) + amount.amount);
+    }
+    return [...totals].filter(([, total]) => total !== 0).map(([currency]) => currency);
+};
+
+let entrySequence = 0;
+
+export const createJournalEntry = (description: string, postings: Posting[], timestamp: string = new Date().toISOString()): JournalEntry => {
+    const nonZeroPostings = postings.filter(p => !isZero(p.amount));
+    if (nonZeroPostings.length < 2) {
+        throw new Error(`Journal entry "${description}" needs at least two postings.`);
+    }
+    if (unbalancedCurrencies(nonZeroPostings).length > 0) {
+        throw new Error(`Journal entry "${description}" is unbalanced.`);
+    }
+    return {
+        id: `je-${Date.now()}-${entrySequence++}`,
+        timestamp,
+        description,
+        postings: nonZeroPostings,
+    };
+};
+
+// Moves `amount` from one customer deposit account to another.
+export const depositTransferPostings = (fromAccountId: string, toAccountId: string, amount: Money): Posting[] => [
+    { accountId: fromAccountId, amount },
+    { accountId: toAccountId, amount: negate(amount) },
+];
+
+// Moves money between deposit accounts in different currencies. `debit` and `fee` are in
+// the sender's currency, `credit` in the recipient's; each currency balances on its own.
+export const convertedTransferPostings = (fromAccountId: string, toAccountId: string, debit: Money, credit: Money, fee: Money): Posting[] => [
+    { accountId: fromAccountId, amount: add(debit, fee) },
+    { accountId: FX_CONVERSION_ACCOUNT, amount: negate(debit) },
+    { accountId: FEE_INCOME_ACCOUNT, amount: negate(fee) },
+    { accountId: FX_CONVERSION_ACCOUNT, amount: credit },
+    { accountId: toAccountId, amount: negate(credit) },
+];
+
+// Undoes an entry by posting the same amounts to the same accounts with the opposite sign.
+export const reversalPostings = (entry: JournalEntry): Posting[] =>
+    entry.postings.map(p => ({ accountId: p.accountId, amount: negate(p.amount) }));
+
+export const getAccountBalance = (journal: JournalEntry[], accountId: string, currency: CurrencyCode): Money => {
+    let balance = zero(currency);
+    for (const entry of journal) {
+        for (const posting of entry.postings) {
+            if (posting.accountId === accountId) balance = add(balance, posting.amount);
+        }
+    }
+    return balance;
+};
+
+// Customer-facing balances (what the user owns or owes), derived purely from the journal.
+// `accounts` are the user's other deposit accounts, joint ones included.
+export const getUserLedgerBalances = (journal: JournalEntry[], user: User, accounts: DepositAccount[] = []) => ({
+    savings: negate(getAccountBalance(journal, savingsAccountId(user.id), user.balance.currency)),
+    accounts: sum(accounts.map(account => negate(getAccountBalance(journal, depositAccountId(account.id), account.balance.currency))), user.balance.currency),
+    cards: sum(user.cards.map(card => getAccountBalance(journal, cardAccountId(card.cardNumber), card.creditBalance.currency)), user.balance.currency),
+    loans: sum(user.loans.map(loan => getAccountBalance(journal, loanAccountId(loan.id), loan.remainingBalance.currency)), user.balance.currency),
+});
+
+// Opening entries carry balances that existed before the journal did (mock data,
+// persisted state or freshly issued cards) into the ledger.
+export const createCardOpeningEntries = (card: Card): JournalEntry[] => isZero(card.creditBalance) ? [] : [
+    createJournalEntry(`Opening balance for card ending in ${card.cardNumber.slice(-4)}`, [
+        { accountId: cardAccountId(card.cardNumber), amount: card.creditBalance },
+        { accountId: OPENING_BALANCE_ACCOUNT, amount: negate(card.creditBalance) },
+    ]),
+];
+
+export const createOpeningEntries = (users: User[]): JournalEntry[] => {
+    const entries: JournalEntry[] = [];
+    for (const user of users) {
+        if (!isZero(user.balance)) {
+            entries.push(createJournalEntry(`Opening balance for ${user.name}`, depositTransferPostings(OPENING_BALANCE_ACCOUNT, savingsAccountId(user.id), user.balance)));
+        }
+        for (const card of user.cards) {
+            entries.push(...createCardOpeningEntries(card));
+        }
+        for (const loan of user.loans) {
+            if (isZero(loan.remainingBalance)) continue;
+            entries.push(createJournalEntry(`Opening balance for loan ${loan.id}`, [
+                { accountId: loanAccountId(loan.id), amount: loan.remainingBalance },
+                { accountId: OPENING_BALANCE_ACCOUNT, amount: negate(loan.remainingBalance) },
+            ]));
+        }
+    }
+    return entries;
+};
+
+export interface LedgerDiscrepancy {
+    accountId: string;
+    recorded: Money; // Value held on the User object or deposit account
+    ledger: Money;   // Value derived from the journal
+}
+
+export interface ReconciliationReport {
+    isConsistent: boolean;
+    unbalancedEntryIds: string[];
+    discrepancies: LedgerDiscrepancy[];
+}
+
+// Proves that every entry balances and that the balances stored on the user
+// (and shown in the UI) match what the postings say they should be.
+export const reconcileUser = (journal: JournalEntry[], user: User, accounts: DepositAccount[] = []): ReconciliationReport => {
+    const unbalancedEntryIds = journal
+        .filter(entry => unbalancedCurrencies(entry.postings).length > 0)
+        .map(entry => entry.id);
+
+    const checks: LedgerDiscrepancy[] = [
+        { accountId: savingsAccountId(user.id), recorded: user.balance, ledger: negate(getAccountBalance(journal, savingsAccountId(user.id), user.balance.currency)) },
+        ...user.cards.map(card => ({
+            accountId: cardAccountId(card.cardNumber),
+            recorded: card.creditBalance,
+            ledger: getAccountBalance(journal, cardAccountId(card.cardNumber), card.creditBalance.currency),
+        })),
+        ...user.loans.map(loan => ({
+            accountId: loanAccountId(loan.id),
+            recorded: loan.remainingBalance,
+            ledger: getAccountBalance(journal, loanAccountId(loan.id), loan.remainingBalance.currency),
+        })),
+        ...(user.investmentAccount ? [{
+            accountId: investmentCashAccountId(user.id),
+            recorded: user.investmentAccount.cash,
+            ledger: negate(getAccountBalance(journal, investmentCashAccountId(user.id), user.investmentAccount.cash.currency)),
+        }] : []),
+        ...accounts.map(account => ({
+            accountId: depositAccountId(account.id),
+            recorded: account.balance,
+            ledger: negate(getAccountBalance(journal, depositAccountId(account.id), account.balance.currency)),
+        })),
+    ];
+
+    const discrepancies = checks.filter(check => check.recorded.amount !== check.ledger.amount || check.recorded.currency !== check.ledger.currency);
+
+    return {
+        isConsistent: unbalancedEntryIds.length === 0 && discrepancies.length === 0,
+        unbalancedEntryIds,
+        discrepancies,
+    };
+};
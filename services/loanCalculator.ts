@@ -0,0 +1,69 @@
+import { Loan } from '../types';
+import { Money, add, subtract, multiply, min, sum, isPositive, zero } from './money';
+import { addMonths } from './dateUtils';
+
+// Standard annuity formula: the fixed monthly payment that repays `principal` over
+// `termMonths` at `annualRate` percent, rounded to the nearest minor unit.
+export const calculateMonthlyPayment = (principal: Money, annualRate: number, termMonths: number): Money => {
+    const monthlyInterestRate = annualRate / 100 / 12;
+    if (monthlyInterestRate === 0) return multiply(principal, 1 / termMonths);
+    const growth = Math.pow(1 + monthlyInterestRate, termMonths);
+    return multiply(principal, (monthlyInterestRate * growth) / (growth - 1));
+};
+
+export interface AmortizationPeriod {
+    period: number; // 1-based
+    dueDate: string;
+    payment: Money;
+    interest: Money;
+    principal: Money;
+    remainingBalance: Money;
+}
+
+// Safety net for payments too small to ever cover the interest.
+const MAX_PERIODS = 1200;
+
+// Period-by-period repayment of `principal` with a fixed monthly payment (plus an optional
+// extra amount each month). Interest is charged monthly on the balance; the last payment
+// is trimmed so the balance ends at exactly zero.
+export const buildAmortizationSchedule = (principal: Money, annualRate: number, monthlyPayment: Money, firstDueDate: Date, extraMonthly: Money = zero(principal.currency)): AmortizationPeriod[] => {
+    const monthlyInterestRate = annualRate / 100 / 12;
+    const periods: AmortizationPeriod[] = [];
+    let balance = principal;
+    for (let period = 1; isPositive(balance) && period <= MAX_PERIODS; period++) {
+        const interest = multiply(balance, monthlyInterestRate);
+        const payment = min(add(monthlyPayment, extraMonthly), add(balance, interest));
+        const principalPaid = subtract(payment, interest);
+        if (!isPositive(principalPaid)) break;
+        balance = subtract(balance, principalPaid);
+        periods.push({
+            period,
+            dueDate: addMonths(firstDueDate, period - 1).toISOString(),
+            payment,
+            interest,
+            principal: principalPaid,
+            remainingBalance: balance,
+        });
+    }
+    return periods;
+};
+
+// The original schedule, from the loan's terms: first payment one month after the start.
+export const getLoanSchedule = (loan: Loan): AmortizationPeriod[] =>
+    buildAmortizationSchedule(loan.loanAmount, loan.interestRate, calculateMonthlyPayment(loan.loanAmount, loan.interestRate, loan.termMonths), addMonths(new Date(loan.startDate), 1));
+
+export interface PayoffProjection {
+    payoffDate?: string;
+    totalInterest: Money;
+    periods: number;
+}
+
+// What is left to pay from today's balance, optionally with an extra amount every month.
+export const projectLoanPayoff = (loan: Loan, extraMonthly: Money = zero(loan.remainingBalance.currency)): PayoffProjection => {
+    const schedule = buildAmortizationSchedule(loan.remainingBalance, loan.interestRate, loan.monthlyPayment, new Date(loan.paymentDueDate), extraMonthly);
+    return {
+        payoffDate: schedule[schedule.length - 1]?.dueDate,
+        totalInterest: sum(schedule.map(p => p.interest), loan.remainingBalance.currency),
+        periods: schedule.length,
+    };
+};
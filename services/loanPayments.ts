@@ -0,0 +1,154 @@
+import { Loan, LoanPayment, LoanPaymentKind, Transaction } from '../types';
+import { BankState, BankOperation, OperationResult, replaceUsers, unchanged, withIdempotency } from './bankService';
+import { Money, add, subtract, negate, multiply, min, compare, isPositive, isZero, formatMoney, zero } from './money';
+import { FEE_INCOME_ACCOUNT, INTEREST_INCOME_ACCOUNT, createJournalEntry, loanAccountId, savingsAccountId } from './ledger';
+import { initialStatus } from './transactionStatus';
+import { refreshLoanDelinquency } from './delinquency';
+import { DAY_MS, addMonths } from './dateUtils';
+
+// Loan repayments from savings. Interest accrues daily on the outstanding balance (see
+// interest.ts); every payment settles any late fees and that interest first and the rest
+// reduces principal.
+
+export interface LoanPaymentRequest {
+    loanId: string;
+    kind: LoanPaymentKind;
+    amount?: Money; // Required for 'extra'
+}
+
+export interface LoanPaymentSplit {
+    amount: Money;
+    fees: Money;
+    interest: Money;
+    principal: Money;
+    remainingBalance: Money;
+}
+
+export interface LoanPaymentResult extends OperationResult {
+    payment?: LoanPayment;
+    loan?: Loan;
+}
+
+export const LOAN_PAYMENT_CATEGORY = 'Loan Payment';
+
+// Loans that predate the accrual engine estimate their interest from the last payment or,
+// before the first one, from a month before the due date.
+const interestStartDate = (loan: Loan): Date => {
+    const lastPayment = loan.payments?.[loan.payments.length - 1];
+    if (lastPayment) return new Date(lastPayment.timestamp);
+    const periodStart = addMonths(new Date(loan.paymentDueDate), -1);
+    const startDate = new Date(loan.startDate);
+    return periodStart > startDate ? periodStart : startDate;
+};
+
+export const getAccruedLoanInterest = (loan: Loan, now: Date = new Date()): Money => {
+    if (loan.accruedInterest) return loan.accruedInterest;
+    const days = Math.max(0, Math.floor((now.getTime() - interestStartDate(loan).getTime()) / DAY_MS));
+    return multiply(loan.remainingBalance, (loan.interestRate / 100) * (days / 365));
+};
+
+export const getLoanFeesDue = (loan: Loan): Money => loan.delinquency?.feesDue ?? zero(loan.remainingBalance.currency);
+
+export const getLoanPayoffAmount = (loan: Loan, now: Date = new Date()): Money =>
+    add(add(loan.remainingBalance, getAccruedLoanInterest(loan, now)), getLoanFeesDue(loan));
+
+// How a payment would be split right now, or an error message when it cannot be made.
+export const previewLoanPayment = (loan: Loan, kind: LoanPaymentKind, amount?: Money, now: Date = new Date()): LoanPaymentSplit | string => {
+    if (loan.status !== 'Active') return `Error: Loan ${loan.id} is already paid off.`;
+    const fees = getLoanFeesDue(loan);
+    const interest = getAccruedLoanInterest(loan, now);
+    const payoff = getLoanPayoffAmount(loan, now);
+
+    let paymentAmount: Money;
+    switch (kind) {
+        case 'installment': paymentAmount = min(add(loan.monthlyPayment, fees), payoff); break;
+        case 'payoff': paymentAmount = payoff; break;
+        default:
+            if (!amount || !isPositive(amount)) return 'Error: Payment amount must be positive.';
+            if (amount.currency !== loan.remainingBalance.currency) return `Error: Loan payments must be made in ${loan.remainingBalance.currency}.`;
+            if (compare(amount, payoff) > 0) return `Error: The most you can pay today is the payoff amount of ${formatMoney(payoff)}.`;
+            paymentAmount = amount;
+    }
+
+    const feesPaid = min(fees, paymentAmount);
+    const interestPaid = min(interest, subtract(paymentAmount, feesPaid));
+    const principal = subtract(subtract(paymentAmount, feesPaid), interestPaid);
+    return { amount: paymentAmount, fees: feesPaid, interest: interestPaid, principal, remainingBalance: subtract(loan.remainingBalance, principal) };
+};
+
+const executeLoanPayment = (state: BankState, userId: number, request: LoanPaymentRequest, now: Date): BankOperation<LoanPaymentResult> => {
+    const user = state.users.find(u => u.id === userId);
+    if (!user) return unchanged(state, { success: false, message: 'Error: Current user not found.' });
+    const loan = user.loans.find(l => l.id === request.loanId);
+    if (!loan) return unchanged(state, { success: false, message: `Error: Loan with ID ${request.loanId} not found.` });
+
+    const split = previewLoanPayment(loan, request.kind, request.amount, now);
+    if (typeof split === 'string') return unchanged(state, { success: false, message: split });
+    if (split.amount.currency !== user.balance.currency) {
+        return unchanged(state, { success: false, message: `Error: Loan payments must come from an account in ${split.amount.currency}.` });
+    }
+    if (compare(user.balance, split.amount) < 0) {
+        return unchanged(state, { success: false, message: `Error: Insufficient funds. Your balance is ${formatMoney(user.balance)}.` });
+    }
+
+    const timestamp = now.toISOString();
+    const entry = createJournalEntry(`Payment on loan ${loan.id}`, [
+        { accountId: savingsAccountId(user.id), amount: split.amount },
+        { accountId: loanAccountId(loan.id), amount: negate(split.principal) },
+        { accountId: INTEREST_INCOME_ACCOUNT, amount: negate(split.interest) },
+        { accountId: FEE_INCOME_ACCOUNT, amount: negate(split.fees) },
+    ], timestamp);
+
+    const paymentId = `lp-${loan.id}-${(loan.payments?.length ?? 0) + 1}`;
+    const transaction: Transaction = {
+        id: `t-${paymentId}`,
+        userId: user.id,
+        type: 'debit',
+        amount: split.amount,
+        description: `Loan payment (${formatMoney(split.principal)} principal, ${formatMoney(split.interest)} interest${isPositive(split.fees) ? `, ${formatMoney(split.fees)} late fees` : ''})`,
+        timestamp,
+        partyName: 'Nova Bank Loans',
+        category: LOAN_PAYMENT_CATEGORY,
+        journalEntryId: entry.id,
+        ...initialStatus('posted', timestamp),
+    };
+    const payment: LoanPayment = { id: paymentId, timestamp, kind: request.kind, ...split, transactionId: transaction.id };
+
+    const isPaidOff = isZero(split.remainingBalance);
+    const paidLoan: Loan = {
+        ...loan,
+        remainingBalance: split.remainingBalance,
+        accruedInterest: subtract(getAccruedLoanInterest(loan, now), split.interest),
+        payments: [...(loan.payments ?? []), payment],
+        paymentDueDate: request.kind === 'installment' ? addMonths(new Date(loan.paymentDueDate), 1).toISOString() : loan.paymentDueDate,
+        status: isPaidOff ? 'Paid Off' : 'Active',
+        paidOffDate: isPaidOff ? timestamp : undefined,
+        delinquency: loan.delinquency && { ...loan.delinquency, feesDue: subtract(getLoanFeesDue(loan), split.fees) },
+    };
+    const updatedLoan = refreshLoanDelinquency(paidLoan, now);
+
+    const message = isPaidOff
+        ? `Congratulations! Your payment of ${formatMoney(split.amount)} paid off loan ${loan.id}.`
+        : `Done! You paid ${formatMoney(split.amount)} on loan ${loan.id}: ${formatMoney(split.principal)} principal and ${formatMoney(split.interest)} interest${isPositive(split.fees) ? `, plus ${formatMoney(split.fees)} in late fees` : ''}. The remaining balance is ${formatMoney(split.remainingBalance)}.`;
+
+    return {
+        state: {
+            ...state,
+            users: replaceUsers(state.users, {
+                ...user,
+                balance: subtract(user.balance, split.amount),
+                loans: user.loans.map(l => l === loan ? updatedLoan : l),
+            }),
+            transactions: [...state.transactions, transaction],
+            journal: [...state.journal, entry],
+        },
+        result: { success: true, message, payment, loan: updatedLoan },
+    };
+};
+
+export const payLoan = (state: BankState, userId: number, request: LoanPaymentRequest, idempotencyKey?: string, now: Date = new Date()): BankOperation<LoanPaymentResult> =>
+    withIdempotency(state, idempotencyKey, userId, 'payLoan', request,
+        current => executeLoanPayment(current, userId, request, now));
+
+export const getTotalInterestPaid = (loan: Loan): Money =>
+    (loan.payments ?? []).reduce((total, p) => add(total, p.interest), zero(loan.remainingBalance.currency));
@@ -0,0 +1,56 @@
+import { User } from '../types';
+import { Money, subtract, multiply, isPositive } from './money';
+import { CreditDecisionOutcome, CreditReason, decideLoanApplication } from './creditDecision';
+import { calculateMonthlyPayment } from './loanCalculator';
+
+// Soft pre-qualification: runs the loan decision for each standard term without filing an
+// application or creating a loan, so users can compare rates and costs before applying.
+
+export const LOAN_QUOTE_TERMS = [24, 36, 48, 60];
+
+export interface LoanQuoteRequest {
+    loanAmount: Money;
+    annualIncome: Money;
+    employmentStatus: string;
+    dateOfBirth: string;
+}
+
+export interface LoanQuote {
+    termMonths: number;
+    outcome: CreditDecisionOutcome;
+    reasons: CreditReason[]; // Why the term would not be approved as is
+    interestRate?: number; // The rest are set for approvable terms
+    monthlyPayment?: Money;
+    totalInterest?: Money;
+    totalCost?: Money;
+}
+
+// Quotes for every standard term, or an error message when the request is incomplete.
+export const getLoanQuotes = (user: User, request: LoanQuoteRequest, now: Date = new Date()): LoanQuote[] | string => {
+    if (!isPositive(request.loanAmount)) return 'Error: Please enter the amount you would like to borrow.';
+    if (request.loanAmount.currency !== user.balance.currency) return `Error: Loans are issued in your account currency, ${user.balance.currency}.`;
+
+    return LOAN_QUOTE_TERMS.map(termMonths => {
+        const decision = decideLoanApplication(user, {
+            fullName: user.name,
+            address: '',
+            employer: '',
+            ...request,
+            loanTerm: termMonths,
+        }, now);
+        if (decision.outcome !== 'approve' || decision.interestRate === undefined) {
+            return { termMonths, outcome: decision.outcome, reasons: decision.reasons };
+        }
+        const monthlyPayment = calculateMonthlyPayment(request.loanAmount, decision.interestRate, termMonths);
+        const totalCost = multiply(monthlyPayment, termMonths);
+        return {
+            termMonths,
+            outcome: decision.outcome,
+            reasons: [],
+            interestRate: decision.interestRate,
+            monthlyPayment,
+            totalInterest: subtract(totalCost, request.loanAmount),
+            totalCost,
+        };
+    });
+};
@@ -0,0 +1,79 @@
+import { Money, CurrencyCode, DEFAULT_CURRENCY, fromMajor } from './money';
+import { convert } from './fx';
+import { DAY_MS, startOfDay } from './dateUtils';
+
+// Prices for the funds customers can hold in an investment account. Like FX rates they come
+// from a pluggable source; the bundled simulated feed needs no network and moves once a day.
+
+export interface Instrument {
+    symbol: string;
+    name: string;
+    basePrice: number; // USD, on the simulation's first day
+    dailyVolatility: number; // Standard deviation of the daily return
+}
+
+export interface PriceSource {
+    name: string;
+    // Price of one share in USD at `at`, or undefined for an unknown symbol.
+    getPrice: (symbol: string, at: Date) => number | undefined;
+}
+
+export const INSTRUMENTS: Instrument[] = [
+    { symbol: 'NVTM', name: 'Nova Total Market Index Fund', basePrice: 250, dailyVolatility: 0.01 },
+    { symbol: 'NVIN', name: 'Nova International Index Fund', basePrice: 60, dailyVolatility: 0.011 },
+    { symbol: 'NVBD', name: 'Nova Aggregate Bond Fund', basePrice: 75, dailyVolatility: 0.003 },
+    { symbol: 'NVTC', name: 'Nova Technology Sector Fund', basePrice: 180, dailyVolatility: 0.018 },
+    { symbol: 'NVGE', name: 'Nova Clean Energy Fund', basePrice: 45, dailyVolatility: 0.022 },
+];
+
+export const findInstrument = (symbol: string): Instrument | undefined =>
+    INSTRUMENTS.find(i => i.symbol === symbol.trim().toUpperCase());
+
+export const createStaticPriceSource = (name: string, prices: Record<string, number>): PriceSource => ({
+    name,
+    getPrice: symbol => prices[symbol],
+});
+
+// Small deterministic generator (mulberry32), so every session sees the same price history.
+const seededRandom = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const hashSymbol = (symbol: string) => [...symbol].reduce((hash, ch) => Math.imul(hash, 31) + ch.charCodeAt(0), 7);
+
+// A random walk with one step per day since `epoch`. Daily returns are uniform with the
+// instrument's volatility, plus a small upward drift.
+export const createRandomWalkPriceSource = (name: string, instruments: Instrument[], epoch: Date, dailyDrift = 0.0003): PriceSource => {
+    const histories = new Map<string, number[]>();
+    return {
+        name,
+        getPrice: (symbol, at) => {
+            const instrument = instruments.find(i => i.symbol === symbol);
+            if (!instrument) return undefined;
+            const day = Math.max(0, Math.round((startOfDay(at).getTime() - startOfDay(epoch).getTime()) / DAY_MS));
+            let history = histories.get(symbol);
+            if (!history) {
+                history = [instrument.basePrice];
+                histories.set(symbol, history);
+            }
+            while (history.length <= day) {
+                // Seeded by symbol and day, so the path does not depend on which days were asked for first.
+                const random = seededRandom(hashSymbol(symbol) + history.length)();
+                const step = (random * 2 - 1) * Math.sqrt(3) * instrument.dailyVolatility;
+                history.push(history[history.length - 1] * (1 + dailyDrift + step));
+            }
+            return parseFloat(history[day].toFixed(2));
+        },
+    };
+};
+
+export const simulatedPriceSource = createRandomWalkPriceSource('Simulated market feed', INSTRUMENTS, new Date(2024, 0, 1));
+
+// Share price in the account currency, or undefined when it cannot be priced.
+export const getSharePrice = (symbol: string, currency: CurrencyCode, priceSource: PriceSource = simulatedPriceSource, at: Date = new Date()): Money | undefined => {
+    const usd = priceSource.getPrice(symbol, at);
+    return usd === undefined ? undefined : convert(fromMajor(usd, DEFAULT_CURRENCY), currency);
+};
@@ -0,0 +1,103 @@
+// Money is stored as an integer number of minor units (e.g. cents) together with its
+// ISO 4217 currency code, so repeated arithmetic never accumulates float rounding drift.
+
+export type CurrencyCode = string;
+
+export interface Money {
+    amount: number; // Integer minor units
+    currency: CurrencyCode;
+}
+
+export const isMoney = (value: unknown): value is Money =>
+    typeof value === 'object' && value !== null &&
+    typeof (value as Money).amount === 'number' && typeof (value as Money).currency === 'string';
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+const MINOR_UNIT_DIGITS: Record<CurrencyCode, number> = {
+    JPY: 0,
+    KRW: 0,
+};
+
+export const minorUnitDigits = (currency: CurrencyCode) => MINOR_UNIT_DIGITS[currency] ?? 2;
+
+const assertInteger = (amount: number) => {
+    if (!Number.isInteger(amount)) {
+        throw new Error(`Money amounts must be whole minor units, got ${amount}.`);
+    }
+};
+
+const assertSameCurrency = (a: Money, b: Money) => {
+    if (a.currency !== b.currency) {
+        throw new Error(`Cannot combine ${a.currency} with ${b.currency}.`);
+    }
+};
+
+export const money = (amount: number, currency: CurrencyCode = DEFAULT_CURRENCY): Money => {
+    assertInteger(amount);
+    return { amount, currency };
+};
+
+export const zero = (currency: CurrencyCode = DEFAULT_CURRENCY): Money => ({ amount: 0, currency });
+
+// Converts a major-unit value (e.g. 12.34 dollars, as typed by a user or returned by the AI).
+export const fromMajor = (value: number, currency: CurrencyCode = DEFAULT_CURRENCY): Money =>
+    ({ amount: Math.round(value * Math.pow(10, minorUnitDigits(currency))), currency });
+
+export const toMajor = (m: Money): number => m.amount / Math.pow(10, minorUnitDigits(m.currency));
+
+export const add = (a: Money, b: Money): Money => {
+    assertSameCurrency(a, b);
+    return { amount: a.amount + b.amount, currency: a.currency };
+};
+
+export const subtract = (a: Money, b: Money): Money => {
+    assertSameCurrency(a, b);
+    return { amount: a.amount - b.amount, currency: a.currency };
+};
+
+export const negate = (m: Money): Money => ({ amount: -m.amount, currency: m.currency });
+
+// Multiplies by an arbitrary factor (a rate, a percentage), rounding half away from zero.
+export const multiply = (m: Money, factor: number): Money => {
+    const raw = m.amount * factor;
+    return { amount: Math.sign(raw) * Math.round(Math.abs(raw)), currency: m.currency };
+};
+
+export const sum = (items: Money[], currency: CurrencyCode = DEFAULT_CURRENCY): Money =>
+    items.reduce(add, zero(currency));
+
+export const compare = (a: Money, b: Money): number => {
+    assertSameCurrency(a, b);
+    return a.amount - b.amount;
+};
+
+export const isZero = (m: Money) => m.amount === 0;
+export const isPositive = (m: Money) => m.amount > 0;
+export const isNegative = (m: Money) => m.amount < 0;
+export const min = (a: Money, b: Money): Money => compare(a, b) <= 0 ? a : b;
+export const max = (a: Money, b: Money): Money => compare(a, b) >= 0 ? a : b;
+
+// Splits an amount in proportion to `ratios` without losing or inventing a single minor
+// unit: leftover units go to the shares with the largest remainders.
+export const allocate = (m: Money, ratios: number[]): Money[] => {
+    const total = ratios.reduce((s, r) => s + r, 0);
+    if (ratios.length === 0 || total <= 0) {
+        throw new Error('Allocation needs at least one positive ratio.');
+    }
+    const sign = Math.sign(m.amount) || 1;
+    const absolute = Math.abs(m.amount);
+    const exact = ratios.map(r => absolute * r / total);
+    const shares = exact.map(Math.floor);
+    let remainder = absolute - shares.reduce((s, v) => s + v, 0);
+    const byRemainder = exact
+        .map((value, i) => ({ i, fraction: value - shares[i] }))
+        .sort((a, b) => b.fraction - a.fraction || a.i - b.i);
+    for (let k = 0; remainder > 0; k = (k + 1) % byRemainder.length, remainder--) {
+        shares[byRemainder[k].i] += 1;
+    }
+    return shares.map(amount => ({ amount: sign * amount || 0, currency: m.currency }));
+};
+
+export const formatMoney = (m: Money, locale: string = 'en-US'): string =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency: m.currency }).format(toMajor(m));
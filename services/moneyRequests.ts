@@ -0,0 +1,178 @@
+import { MoneyRequest, MoneyRequestStatus } from '../types';
+import { BankState, BankOperation, OperationResult, transferMoney, unchanged, withIdempotency } from './bankService';
+import { Money, add, subtract, compare, isPositive, isZero, formatMoney, zero } from './money';
+import { resolveRecipient } from './payees';
+
+// Requests for money between customers. The requester asks for an amount in their own
+// currency; the payer pays it, in full or in parts, with an ordinary transfer, or declines.
+
+export interface MoneyRequestResult extends OperationResult {
+    request?: MoneyRequest;
+}
+
+export interface MoneyRequestView extends MoneyRequest {
+    requesterName: string;
+    payerName: string;
+    outstanding: Money;
+}
+
+const OPEN_STATUSES: MoneyRequestStatus[] = ['pending', 'partiallyPaid'];
+
+export const isRequestOpen = (request: MoneyRequest) => OPEN_STATUSES.includes(request.status);
+
+export const getOutstanding = (request: MoneyRequest): Money => subtract(request.amount, request.paid);
+
+const replaceRequest = (state: BankState, updated: MoneyRequest): BankState => ({
+    ...state,
+    moneyRequests: state.moneyRequests.map(r => r.id === updated.id ? updated : r),
+});
+
+const toView = (state: BankState, request: MoneyRequest): MoneyRequestView => ({
+    ...request,
+    requesterName: state.users.find(u => u.id === request.requesterId)?.name ?? 'Unknown',
+    payerName: state.users.find(u => u.id === request.payerId)?.name ?? 'Unknown',
+    outstanding: getOutstanding(request),
+});
+
+// Requests others have sent the user, newest first.
+export const getIncomingRequests = (state: BankState, userId: number): MoneyRequestView[] =>
+    state.moneyRequests
+        .filter(r => r.payerId === userId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(r => toView(state, r));
+
+// Requests the user has sent, newest first.
+export const getOutgoingRequests = (state: BankState, userId: number): MoneyRequestView[] =>
+    state.moneyRequests
+        .filter(r => r.requesterId === userId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(r => toView(state, r));
+
+export const describeRequest = (request: MoneyRequestView, userId: number): string => {
+    const note = request.note ? ` for "${request.note}"` : '';
+    const progress = isPositive(request.paid) && !isZero(request.outstanding) ? ` (${formatMoney(request.paid)} paid, ${formatMoney(request.outstanding)} outstanding)` : '';
+    return request.requesterId === userId
+        ? `You asked ${request.payerName} for ${formatMoney(request.amount)}${note}${progress}`
+        : `${request.requesterName} asked you for ${formatMoney(request.amount)}${note}${progress}`;
+};
+
+const executeRequestMoney = (state: BankState, requesterId: number, payerIdentifier: string, amount: Money, note: string | undefined, now: Date): BankOperation<MoneyRequestResult> => {
+    const requester = state.users.find(u => u.id === requesterId);
+    if (!requester) return unchanged(state, { success: false, message: 'Error: Current user not found.' });
+    if (!isPositive(amount)) return unchanged(state, { success: false, message: 'Error: The amount requested must be positive.' });
+    if (amount.currency !== requester.balance.currency) {
+        return unchanged(state, { success: false, message: `Error: Requests are made in your account currency, ${requester.balance.currency}.` });
+    }
+    const { recipient: payer, message } = resolveRecipient(state, requesterId, payerIdentifier);
+    if (!payer) return unchanged(state, { success: false, message: message! });
+    if (payer.id === requesterId) return unchanged(state, { success: false, message: 'Error: You cannot request money from yourself.' });
+
+    const timestamp = now.toISOString();
+    const request: MoneyRequest = {
+        id: `req-${requesterId}-${now.getTime()}-${state.moneyRequests.length}`,
+        requesterId,
+        payerId: payer.id,
+        amount,
+        paid: zero(amount.currency),
+        note: note?.trim() || undefined,
+        status: 'pending',
+        payments: [],
+        createdAt: timestamp,
+        updatedAt: timestamp,
+    };
+    return {
+        state: { ...state, moneyRequests: [...state.moneyRequests, request] },
+        result: { success: true, message: `Done! ${payer.name} has been asked for ${formatMoney(amount)}${request.note ? ` for "${request.note}"` : ''}.`, request },
+    };
+};
+
+export const requestMoney = (state: BankState, requesterId: number, payerIdentifier: string, amount: Money, note?: string, idempotencyKey?: string, now: Date = new Date()): BankOperation<MoneyRequestResult> =>
+    withIdempotency(state, idempotencyKey, requesterId, 'requestMoney', { payerIdentifier, amount, note },
+        current => executeRequestMoney(current, requesterId, payerIdentifier, amount, note, now));
+
+const findOpenRequest = (state: BankState, requestId: string, userId: number, side: 'payer' | 'requester'): MoneyRequest | string => {
+    const request = state.moneyRequests.find(r => r.id === requestId && (side === 'payer' ? r.payerId : r.requesterId) === userId);
+    if (!request) return `Error: Money request ${requestId} not found.`;
+    if (!isRequestOpen(request)) return `Error: This request has already been ${request.status}.`;
+    return request;
+};
+
+// Pays all of what is outstanding, or part of it when `amount` is given.
+const executePayRequest = (state: BankState, payerId: number, requestId: string, amount: Money | undefined, now: Date): BankOperation<MoneyRequestResult> => {
+    const request = findOpenRequest(state, requestId, payerId, 'payer');
+    if (typeof request === 'string') return unchanged(state, { success: false, message: request });
+    const requester = state.users.find(u => u.id === request.requesterId);
+    if (!requester) return unchanged(state, { success: false, message: 'Error: The account that sent this request is no longer open.' });
+
+    const outstanding = getOutstanding(request);
+    const payment = amount ?? outstanding;
+    if (!isPositive(payment)) return unchanged(state, { success: false, message: 'Error: Payment amount must be positive.' });
+    if (payment.currency !== request.amount.currency) return unchanged(state, { success: false, message: `Error: This request is in ${request.amount.currency}.` });
+    if (compare(payment, outstanding) > 0) return unchanged(state, { success: false, message: `Error: Only ${formatMoney(outstanding)} is outstanding on this request.` });
+
+    // The request is in the requester's currency, so this is what they receive.
+    const transfer = transferMoney(state, payerId, requester.savingsAccountNumber, payment);
+    if (!transfer.result.success) return unchanged(state, transfer.result);
+
+    const paid = add(request.paid, payment);
+    const timestamp = now.toISOString();
+    const updated: MoneyRequest = {
+        ...request,
+        paid,
+        status: compare(paid, request.amount) >= 0 ? 'paid' : 'partiallyPaid',
+        payments: [...request.payments, { transactionId: transfer.result.transactionId!, amount: payment, timestamp }],
+        updatedAt: timestamp,
+    };
+    return {
+        state: replaceRequest(transfer.state, updated),
+        result: {
+            success: true,
+            message: updated.status === 'paid'
+                ? `${transfer.result.message} ${requester.name}'s request is now paid in full.`
+                : `${transfer.result.message} ${formatMoney(getOutstanding(updated))} of ${requester.name}'s request is still outstanding.`,
+            request: updated,
+        },
+    };
+};
+
+export const payMoneyRequest = (state: BankState, payerId: number, requestId: string, amount?: Money, idempotencyKey?: string, now: Date = new Date()): BankOperation<MoneyRequestResult> =>
+    withIdempotency(state, idempotencyKey, payerId, 'payMoneyRequest', { requestId, amount },
+        current => executePayRequest(current, payerId, requestId, amount, now));
+
+// Undoes a payment towards a request when its transfer is reversed, so the request is owed again.
+export const undoRequestPayment = (state: BankState, transactionId: string, now: Date = new Date()): BankState => {
+    const request = state.moneyRequests.find(r => r.payments.some(p => p.transactionId === transactionId));
+    if (!request) return state;
+    const payment = request.payments.find(p => p.transactionId === transactionId)!;
+    const paid = subtract(request.paid, payment.amount);
+    return replaceRequest(state, {
+        ...request,
+        paid,
+        status: isRequestOpen(request) || request.status === 'paid' ? (isZero(paid) ? 'pending' : 'partiallyPaid') : request.status,
+        payments: request.payments.filter(p => p !== payment),
+        updatedAt: now.toISOString(),
+    });
+};
+
+const closeRequest = (state: BankState, userId: number, requestId: string, side: 'payer' | 'requester', now: Date): BankOperation<MoneyRequestResult> => {
+    const request = findOpenRequest(state, requestId, userId, side);
+    if (typeof request === 'string') return unchanged(state, { success: false, message: request });
+    const updated: MoneyRequest = { ...request, status: side === 'payer' ? 'declined' : 'cancelled', updatedAt: now.toISOString() };
+    const other = state.users.find(u => u.id === (side === 'payer' ? request.requesterId : request.payerId))?.name ?? 'the other person';
+    return {
+        state: replaceRequest(state, updated),
+        result: {
+            success: true,
+            message: side === 'payer'
+                ? `You declined ${other}'s request for ${formatMoney(request.amount)}.`
+                : `Your request to ${other} for ${formatMoney(request.amount)} has been cancelled.`,
+            request: updated,
+        },
+    };
+};
+
+export const declineMoneyRequest = (state: BankState, payerId: number, requestId: string, now: Date = new Date()): BankOperation<MoneyRequestResult> =>
+    closeRequest(state, payerId, requestId, 'payer', now);
+
+export const cancelMoneyRequest = (state: BankState, requesterId: number, requestId: string, now: Date = new Date()): BankOperation<MoneyRequestResult> =>
+    closeRequest(state, requesterId, requestId, 'requester', now);
@@ -0,0 +1,160 @@
+import { DepositAccount, Payee, User } from '../types';
+import { BankState, BankOperation, OperationResult, unchanged } from './bankService';
+import { findAccountHolder } from './depositAccounts';
+
+// Each user's payee book: the people they pay, under a nickname of their choosing, checked
+// against the account holder's name when saved. Payments are addressed through it, so a
+// nickname or first name only ever means someone the user has paid or saved.
+
+export interface PayeeRequest {
+    nickname?: string; // Defaults to the account holder's name
+    accountNumber: string;
+}
+
+export interface PayeeResult extends OperationResult {
+    payee?: Payee;
+}
+
+// One of several payees a name could refer to.
+export interface PayeeCandidate {
+    nickname: string;
+    verifiedName: string;
+    accountEnding: string;
+}
+
+export interface RecipientMatch {
+    recipient?: User;
+    account?: DepositAccount; // Set when the payment goes to a checking, savings or joint account rather than a main one
+    payee?: Payee;
+    candidates?: PayeeCandidate[]; // Set when the name matched more than one payee
+    message?: string; // Why no recipient was found
+}
+
+export const accountEnding = (accountNumber: string) => accountNumber.slice(-4);
+
+const firstName = (name: string) => name.trim().split(/\s+/)[0].toLowerCase();
+
+const replacePayee = (state: BankState, updated: Payee): BankState => ({
+    ...state,
+    payees: state.payees.map(p => p.id === updated.id ? updated : p),
+});
+
+const newPayee = (state: BankState, userId: number, nickname: string, accountNumber: string, verifiedName: string, now: Date): Payee => ({
+    id: `payee-${userId}-${now.getTime()}-${state.payees.length}`,
+    userId,
+    nickname,
+    accountNumber,
+    verifiedName,
+    createdAt: now.toISOString(),
+});
+
+// Most recently used first; payees never paid follow in alphabetical order.
+export const getPayees = (state: BankState, userId: number): Payee[] =>
+    state.payees
+        .filter(p => p.userId === userId)
+        .sort((a, b) => (b.lastUsedAt ?? '').localeCompare(a.lastUsedAt ?? '') || a.nickname.localeCompare(b.nickname));
+
+const findPayee = (state: BankState, userId: number, payeeId: string): Payee | undefined =>
+    state.payees.find(p => p.id === payeeId && p.userId === userId);
+
+const toCandidate = (payee: Payee): PayeeCandidate => ({
+    nickname: payee.nickname,
+    verifiedName: payee.verifiedName,
+    accountEnding: accountEnding(payee.accountNumber),
+});
+
+const describeCandidate = (candidate: PayeeCandidate) =>
+    candidate.nickname === candidate.verifiedName
+        ? `${candidate.nickname} (account ending ${candidate.accountEnding})`
+        : `${candidate.nickname} (${candidate.verifiedName}, account ending ${candidate.accountEnding})`;
+
+// Works out who a payment is for. An account number always works; a name is matched against
+// the sender's payees (nickname, then full or first name), and only then against the full
+// names of other customers. A name that fits several payees is never guessed.
+export const resolveRecipient = (state: BankState, senderId: number, identifier: string): RecipientMatch => {
+    const key = identifier.trim().toLowerCase();
+    const payees = getPayees(state, senderId);
+    const accountNumber = identifier.trim();
+
+    const byAccount = findAccountHolder(state, accountNumber);
+    if (byAccount) return { recipient: byAccount.holder, account: byAccount.account, payee: payees.find(p => p.accountNumber === accountNumber) };
+
+    const byNickname = payees.filter(p => p.nickname.toLowerCase() === key);
+    const matches = byNickname.length > 0 ? byNickname : payees.filter(p =>
+        p.verifiedName.toLowerCase() === key || firstName(p.nickname) === key || firstName(p.verifiedName) === key);
+    if (matches.length > 1) {
+        const candidates = matches.map(toCandidate);
+        return {
+            candidates,
+            message: `Error: "${identifier}" matches more than one of your payees: ${candidates.map(describeCandidate).join('; ')}. Which one do you mean?`,
+        };
+    }
+    if (matches.length === 1) {
+        const holder = findAccountHolder(state, matches[0].accountNumber);
+        return holder
+            ? { recipient: holder.holder, account: holder.account, payee: matches[0] }
+            : { message: `Error: The account saved for ${matches[0].nickname} is no longer open.` };
+    }
+
+    const byName = state.users.filter(u => u.id !== senderId && u.name.toLowerCase() === key);
+    if (byName.length === 1) return { recipient: byName[0] };
+    if (byName.length > 1) return { message: `Error: More than one customer is called ${identifier}. Please use their account number.` };
+    return { message: `Error: "${identifier}" is not one of your payees. Use their full name or account number, or add them as a payee.` };
+};
+
+export const addPayee = (state: BankState, userId: number, request: PayeeRequest, now: Date = new Date()): BankOperation<PayeeResult> => {
+    const accountNumber = request.accountNumber.trim();
+    const holder = findAccountHolder(state, accountNumber);
+    if (!holder) return unchanged(state, { success: false, message: `Error: No account with the number ${accountNumber} was found.` });
+    if ((holder.account?.ownerIds ?? [holder.holder.id]).includes(userId)) return unchanged(state, { success: false, message: 'Error: You cannot add your own account as a payee.' });
+
+    const payees = getPayees(state, userId);
+    const existing = payees.find(p => p.accountNumber === accountNumber);
+    if (existing) return unchanged(state, { success: false, message: `Error: This account is already saved as ${existing.nickname}.` });
+    const nickname = request.nickname?.trim() || holder.holderName;
+    if (payees.some(p => p.nickname.toLowerCase() === nickname.toLowerCase())) {
+        return unchanged(state, { success: false, message: `Error: You already have a payee called ${nickname}. Please choose another nickname.` });
+    }
+
+    const payee = newPayee(state, userId, nickname, accountNumber, holder.holderName, now);
+    return {
+        state: { ...state, payees: [...state.payees, payee] },
+        result: { success: true, message: `${nickname} has been added to your payees. The account ending ${accountEnding(accountNumber)} belongs to ${holder.holderName}.`, payee },
+    };
+};
+
+export const renamePayee = (state: BankState, userId: number, payeeId: string, nickname: string): BankOperation<PayeeResult> => {
+    const payee = findPayee(state, userId, payeeId);
+    if (!payee) return unchanged(state, { success: false, message: 'Error: Payee not found.' });
+    const trimmed = nickname.trim();
+    if (!trimmed) return unchanged(state, { success: false, message: 'Error: Please enter a nickname.' });
+    if (getPayees(state, userId).some(p => p.id !== payeeId && p.nickname.toLowerCase() === trimmed.toLowerCase())) {
+        return unchanged(state, { success: false, message: `Error: You already have a payee called ${trimmed}. Please choose another nickname.` });
+    }
+    const updated: Payee = { ...payee, nickname: trimmed };
+    return {
+        state: replacePayee(state, updated),
+        result: { success: true, message: `${payee.nickname} is now saved as ${trimmed}.`, payee: updated },
+    };
+};
+
+export const removePayee = (state: BankState, userId: number, payeeId: string): BankOperation<PayeeResult> => {
+    const payee = findPayee(state, userId, payeeId);
+    if (!payee) return unchanged(state, { success: false, message: 'Error: Payee not found.' });
+    return {
+        state: { ...state, payees: state.payees.filter(p => p.id !== payeeId) },
+        result: { success: true, message: `${payee.nickname} has been removed from your payees.`, payee },
+    };
+};
+
+// After a payment: marks the payee as used, saving any account paid for the first time.
+export const recordPayeeUse = (state: BankState, senderId: number, accountNumber: string, now: Date): BankState => {
+    const payee = getPayees(state, senderId).find(p => p.accountNumber === accountNumber);
+    if (payee) return replacePayee(state, { ...payee, lastUsedAt: now.toISOString() });
+    const holder = findAccountHolder(state, accountNumber);
+    if (!holder) return state;
+    // Nicknames stay unique, so any payee can be told apart by name.
+    const taken = getPayees(state, senderId).some(p => p.nickname.toLowerCase() === holder.holderName.toLowerCase());
+    const nickname = taken ? `${holder.holderName} (${accountEnding(accountNumber)})` : holder.holderName;
+    return { ...state, payees: [...state.payees, { ...newPayee(state, senderId, nickname, accountNumber, holder.holderName, now), lastUsedAt: now.toISOString() }] };
+};
@@ -0,0 +1,239 @@
+import { SavingsGoal, TransferFrequency, User } from '../types';
+import { BankState, BankOperation, OperationResult, unchanged } from './bankService';
+import { Money, add, subtract, sum, min, max, compare, isPositive, isZero, formatMoney, multiply, zero } from './money';
+import { addDays, addMonths, parseDateInput, startOfDay } from './dateUtils';
+
+// Savings goals set part of the savings balance aside under a name, a target and an optional
+// target date. Contributions only move money between "available" and a goal inside savings,
+// so they need no ledger entries; spending below what is set aside draws the goals down.
+
+export type GoalFrequency = Exclude<TransferFrequency, 'once'>;
+
+export interface SavingsGoalRequest {
+    name: string;
+    targetAmount: Money;
+    targetDate?: string; // YYYY-MM-DD
+    autoContribution?: { amount: Money; frequency: GoalFrequency; startDate?: string };
+}
+
+export interface SavingsGoalResult extends OperationResult {
+    goal?: SavingsGoal;
+}
+
+export interface GoalProgress {
+    percent: number; // 0-100
+    remaining: Money;
+    isReached: boolean;
+    monthsLeft?: number; // Until the target date
+    neededPerMonth?: Money; // To reach the target by the target date
+}
+
+// A long absence should not sweep the whole balance in one go; the rest catches up later.
+const MAX_CONTRIBUTIONS_PER_RUN = 12;
+
+const nextOccurrence = (date: Date, frequency: GoalFrequency): Date =>
+    frequency === 'weekly' ? addDays(date, 7) : addMonths(date, 1);
+
+const replaceGoal = (state: BankState, updated: SavingsGoal): BankState => ({
+    ...state,
+    savingsGoals: state.savingsGoals.map(g => g.id === updated.id ? updated : g),
+});
+
+export const getSavingsGoals = (state: BankState, userId: number): SavingsGoal[] =>
+    state.savingsGoals.filter(g => g.userId === userId && g.status === 'active');
+
+// Goals can be named in chat, so they are looked up by ID or by name.
+export const findSavingsGoal = (state: BankState, userId: number, identifier: string): SavingsGoal | undefined => {
+    const key = identifier.trim().toLowerCase();
+    return getSavingsGoals(state, userId).find(g => g.id === identifier || g.name.toLowerCase() === key);
+};
+
+export const getAllocatedSavings = (state: BankState, user: User): Money =>
+    sum(getSavingsGoals(state, user.id).map(g => g.saved), user.balance.currency);
+
+// Savings not set aside for any goal.
+export const getAvailableSavings = (state: BankState, user: User): Money =>
+    max(subtract(user.balance, getAllocatedSavings(state, user)), zero(user.balance.currency));
+
+export const getGoalProgress = (goal: SavingsGoal, now: Date = new Date()): GoalProgress => {
+    const remaining = max(subtract(goal.targetAmount, goal.saved), zero(goal.targetAmount.currency));
+    const percent = isPositive(goal.targetAmount) ? Math.min(100, (goal.saved.amount / goal.targetAmount.amount) * 100) : 100;
+    if (!goal.targetDate) return { percent, remaining, isReached: isZero(remaining) };
+    const target = new Date(goal.targetDate);
+    const monthsLeft = Math.max(0, (target.getFullYear() - now.getFullYear()) * 12 + target.getMonth() - now.getMonth());
+    return {
+        percent,
+        remaining,
+        isReached: isZero(remaining),
+        monthsLeft,
+        neededPerMonth: monthsLeft > 0 ? multiply(remaining, 1 / monthsLeft) : remaining,
+    };
+};
+
+const validateRequest = (user: User, request: SavingsGoalRequest, now: Date): string | null => {
+    if (!request.name.trim()) return 'Error: Please give the goal a name.';
+    if (!isPositive(request.targetAmount)) return 'Error: The target amount must be positive.';
+    if (request.targetAmount.currency !== user.balance.currency) return `Error: Goals are saved in your account currency, ${user.balance.currency}.`;
+    if (request.targetDate) {
+        const targetDate = parseDateInput(request.targetDate);
+        if (!targetDate) return 'Error: Please provide the target date as YYYY-MM-DD.';
+        if (targetDate <= startOfDay(now)) return 'Error: The target date must be in the future.';
+    }
+    if (request.autoContribution) {
+        if (!isPositive(request.autoContribution.amount)) return 'Error: The automatic contribution must be positive.';
+        if (request.autoContribution.amount.currency !== user.balance.currency) return `Error: Contributions are made in your account currency, ${user.balance.currency}.`;
+        if (request.autoContribution.startDate && !parseDateInput(request.autoContribution.startDate)) return 'Error: Please provide the first contribution date as YYYY-MM-DD.';
+    }
+    return null;
+};
+
+const toAutoContribution = (request: NonNullable<SavingsGoalRequest['autoContribution']>, now: Date): SavingsGoal['autoContribution'] => ({
+    amount: request.amount,
+    frequency: request.frequency,
+    nextRunDate: (request.startDate ? parseDateInput(request.startDate)! : startOfDay(now)).toISOString(),
+});
+
+export const createSavingsGoal = (state: BankState, userId: number, request: SavingsGoalRequest, now: Date = new Date()): BankOperation<SavingsGoalResult> => {
+    const user = state.users.find(u => u.id === userId);
+    if (!user) return unchanged(state, { success: false, message: 'Error: Current user not found.' });
+    const error = validateRequest(user, request, now);
+    if (error) return unchanged(state, { success: false, message: error });
+    if (findSavingsGoal(state, userId, request.name)) return unchanged(state, { success: false, message: `Error: You already have a goal called "${request.name.trim()}".` });
+
+    const goal: SavingsGoal = {
+        id: `goal-${userId}-${now.getTime()}-${state.savingsGoals.length}`,
+        userId,
+        name: request.name.trim(),
+        targetAmount: request.targetAmount,
+        targetDate: request.targetDate ? parseDateInput(request.targetDate)!.toISOString() : undefined,
+        saved: zero(request.targetAmount.currency),
+        autoContribution: request.autoContribution && toAutoContribution(request.autoContribution, now),
+        status: 'active',
+        createdAt: now.toISOString(),
+    };
+    const schedule = goal.autoContribution ? ` ${formatMoney(goal.autoContribution.amount)} will be set aside ${goal.autoContribution.frequency}.` : '';
+    return {
+        state: { ...state, savingsGoals: [...state.savingsGoals, goal] },
+        result: { success: true, message: `Your "${goal.name}" goal of ${formatMoney(goal.targetAmount)} has been created.${schedule}`, goal },
+    };
+};
+
+export const setGoalAutoContribution = (state: BankState, userId: number, goalId: string, autoContribution: SavingsGoalRequest['autoContribution'] | null, now: Date = new Date()): BankOperation<SavingsGoalResult> => {
+    const user = state.users.find(u => u.id === userId);
+    const goal = findSavingsGoal(state, userId, goalId);
+    if (!user || !goal) return unchanged(state, { success: false, message: `Error: Savings goal "${goalId}" not found.` });
+    if (autoContribution) {
+        const error = validateRequest(user, { name: goal.name, targetAmount: goal.targetAmount, autoContribution }, now);
+        if (error) return unchanged(state, { success: false, message: error });
+    }
+
+    const updated: SavingsGoal = { ...goal, autoContribution: autoContribution ? toAutoContribution(autoContribution, now) : undefined };
+    return {
+        state: replaceGoal(state, updated),
+        result: {
+            success: true,
+            message: updated.autoContribution
+                ? `${formatMoney(updated.autoContribution.amount)} will be set aside for "${goal.name}" ${updated.autoContribution.frequency}.`
+                : `Automatic contributions to "${goal.name}" have been stopped.`,
+            goal: updated,
+        },
+    };
+};
+
+// Sets available savings aside for a goal, or releases money set aside back to available.
+const moveGoalMoney = (state: BankState, userId: number, goalId: string, amount: Money, direction: 'in' | 'out', now: Date): BankOperation<SavingsGoalResult> => {
+    const user = state.users.find(u => u.id === userId);
+    const goal = findSavingsGoal(state, userId, goalId);
+    if (!user || !goal) return unchanged(state, { success: false, message: `Error: Savings goal "${goalId}" not found.` });
+    if (!isPositive(amount)) return unchanged(state, { success: false, message: 'Error: Amount must be positive.' });
+    if (amount.currency !== goal.saved.currency) return unchanged(state, { success: false, message: `Error: Goals are saved in ${goal.saved.currency}.` });
+
+    if (direction === 'in') {
+        const available = getAvailableSavings(state, user);
+        if (compare(available, amount) < 0) {
+            return unchanged(state, { success: false, message: `Error: You have ${formatMoney(available)} of savings that is not already set aside.` });
+        }
+    } else if (compare(goal.saved, amount) < 0) {
+        return unchanged(state, { success: false, message: `Error: Only ${formatMoney(goal.saved)} is saved in "${goal.name}".` });
+    }
+
+    const updated: SavingsGoal = { ...goal, saved: direction === 'in' ? add(goal.saved, amount) : subtract(goal.saved, amount) };
+    const progress = getGoalProgress(updated, now);
+    return {
+        state: replaceGoal(state, updated),
+        result: {
+            success: true,
+            message: (direction === 'in'
+                ? `${formatMoney(amount)} has been set aside for "${goal.name}".`
+                : `${formatMoney(amount)} from "${goal.name}" is available to spend again.`)
+                + ` You have saved ${formatMoney(updated.saved)} of ${formatMoney(updated.targetAmount)} (${Math.floor(progress.percent)}%).`,
+            goal: updated,
+        },
+    };
+};
+
+export const contributeToGoal = (state: BankState, userId: number, goalId: string, amount: Money, now: Date = new Date()): BankOperation<SavingsGoalResult> =>
+    moveGoalMoney(state, userId, goalId, amount, 'in', now);
+
+export const withdrawFromGoal = (state: BankState, userId: number, goalId: string, amount: Money, now: Date = new Date()): BankOperation<SavingsGoalResult> =>
+    moveGoalMoney(state, userId, goalId, amount, 'out', now);
+
+// Closing a goal releases whatever was set aside for it.
+export const closeSavingsGoal = (state: BankState, userId: number, goalId: string): BankOperation<SavingsGoalResult> => {
+    const goal = findSavingsGoal(state, userId, goalId);
+    if (!goal) return unchanged(state, { success: false, message: `Error: Savings goal "${goalId}" not found.` });
+    const closed: SavingsGoal = { ...goal, status: 'closed', autoContribution: undefined };
+    return {
+        state: replaceGoal(state, closed),
+        result: { success: true, message: `Your "${goal.name}" goal has been closed and its ${formatMoney(goal.saved)} is available to spend again.`, goal: closed },
+    };
+};
+
+// Makes every automatic contribution that has fallen due, never more than the goal still
+// needs or than is available. A skipped contribution is recorded and the schedule moves on.
+export const executeDueGoalContributions = (state: BankState, now: Date = new Date()): BankState => {
+    let next = state;
+    for (const original of state.savingsGoals) {
+        let goal = original;
+        for (let runs = 0; goal.status === 'active' && goal.autoContribution && new Date(goal.autoContribution.nextRunDate) <= now && runs < MAX_CONTRIBUTIONS_PER_RUN; runs++) {
+            const auto = goal.autoContribution;
+            const user = next.users.find(u => u.id === goal.userId);
+            const amount = min(auto.amount, getGoalProgress(goal, now).remaining);
+            let message: string;
+            if (!user || !isPositive(amount)) {
+                message = `"${goal.name}" has reached its target.`;
+            } else {
+                const operation = contributeToGoal(next, goal.userId, goal.id, amount, now);
+                next = operation.state;
+                goal = next.savingsGoals.find(g => g.id === goal.id)!;
+                message = operation.result.message;
+            }
+            goal = {
+                ...goal,
+                autoContribution: { ...auto, nextRunDate: nextOccurrence(new Date(auto.nextRunDate), auto.frequency).toISOString() },
+                lastRunAt: now.toISOString(),
+                lastRunMessage: message,
+            };
+            next = replaceGoal(next, goal);
+        }
+    }
+    return next;
+};
+
+// Spending is not blocked by goals, so when savings fall below what is set aside the most
+// recently created goals give up money first. Returns the same state when nothing changed.
+export const reconcileSavingsGoals = (state: BankState): BankState => {
+    let next = state;
+    for (const user of state.users) {
+        let shortfall = subtract(getAllocatedSavings(next, user), user.balance);
+        const goals = getSavingsGoals(next, user.id).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        for (const goal of goals) {
+            if (!isPositive(shortfall)) break;
+            const taken = min(goal.saved, shortfall);
+            if (!isPositive(taken)) continue;
+            shortfall = subtract(shortfall, taken);
+            next = replaceGoal(next, { ...goal, saved: subtract(goal.saved, taken) });
+        }
+    }
+    return next;
+};
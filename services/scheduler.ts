@@ -0,0 +1,27 @@
+import { BankState } from './bankService';
+import { executeDueScheduledTransfers } from './standingOrders';
+import { executeDueGoalContributions, reconcileSavingsGoals } from './savingsGoals';
+import { updateBudgets } from './budgets';
+import { settleCardHolds } from './cardHolds';
+import { closeCardStatements } from './statements';
+import { accrueDailyInterest, getPendingAccrualDays } from './interest';
+import { updateDelinquency } from './delinquency';
+import { addDays } from './dateUtils';
+
+// Time-driven processing. The app calls this periodically; scripts can call it with
+// any `now` to fast-forward. Returns the same state object when nothing was due.
+export const runScheduledJobs = (state: BankState, now: Date = new Date()): BankState => {
+    // Goals give up money first when savings were spent below them, then take new contributions.
+    const afterTransfers = executeDueGoalContributions(reconcileSavingsGoals(executeDueScheduledTransfers(state, now)), now);
+    // Holds that settled before the cycle ended belong on the statement.
+    let next = settleCardHolds(afterTransfers, now);
+    // Interest accrues a day at a time, closing cycles and checking due dates as each day
+    // ends, so every statement carries its own interest and fees and the grace period and
+    // penalty APR follow the account's standing on that day.
+    for (const day of getPendingAccrualDays(next, now)) {
+        const dayEnd = addDays(day, 1);
+        next = updateDelinquency(closeCardStatements(accrueDailyInterest(next, day), dayEnd), dayEnd);
+    }
+    // Budgets see the day's holds and postings, and roll over once the month has closed.
+    return updateBudgets(updateDelinquency(closeCardStatements(next, now), now), now);
+};
@@ -0,0 +1,204 @@
+import { ScheduledTransfer, Transaction, TransferFrequency } from '../types';
+import { BankState, BankOperation, OperationResult, transferMoney, unchanged } from './bankService';
+import { resolveRecipient } from './payees';
+import { Money, isPositive, formatMoney } from './money';
+import { isSupportedCurrency } from './fx';
+import { initialStatus } from './transactionStatus';
+import { addDays, addMonths, parseDateInput, startOfDay, toDateInput } from './dateUtils';
+
+// Scheduled one-off payments and weekly/monthly standing orders.
+
+export interface ScheduleTransferRequest {
+    recipientIdentifier: string;
+    amount: Money;
+    frequency: TransferFrequency;
+    startDate: string; // YYYY-MM-DD
+    endDate?: string;  // YYYY-MM-DD, recurring orders only
+}
+
+export interface ScheduleTransferResult extends OperationResult {
+    scheduledTransfer?: ScheduledTransfer;
+}
+
+// A long absence should not drain an account in one go; the rest catches up on later runs.
+const MAX_RUNS_PER_ORDER = 12;
+
+// Runs are computed from the start date rather than the previous run, so monthly
+// orders keep their day of month (e.g. the 31st) across shorter months.
+const occurrenceDate = (startDate: Date, frequency: TransferFrequency, index: number): Date => {
+    switch (frequency) {
+        case 'weekly': return addDays(startDate, 7 * index);
+        case 'monthly': return addMonths(startDate, index);
+        default: return startDate;
+    }
+};
+
+const validateRequest = (state: BankState, userId: number, request: ScheduleTransferRequest, now: Date): string | null => {
+    if (!isPositive(request.amount)) return 'Error: Payment amount must be positive.';
+    if (!isSupportedCurrency(request.amount.currency)) return `Error: Currency ${request.amount.currency} is not supported.`;
+
+    const { recipient, account, message } = resolveRecipient(state, userId, request.recipientIdentifier);
+    if (!recipient) return message!;
+    if ((account?.ownerIds ?? [recipient.id]).includes(userId)) return 'Error: Cannot send money to yourself.';
+
+    const startDate = parseDateInput(request.startDate);
+    if (!startDate) return 'Error: Please provide the payment date as YYYY-MM-DD.';
+    if (startDate < startOfDay(now)) return 'Error: The payment date cannot be in the past.';
+
+    if (request.endDate) {
+        if (request.frequency === 'once') return 'Error: Only recurring payments can have an end date.';
+        const endDate = parseDateInput(request.endDate);
+        if (!endDate) return 'Error: Please provide the end date as YYYY-MM-DD.';
+        if (endDate < startDate) return 'Error: The end date must be after the first payment date.';
+    }
+    return null;
+};
+
+const describeSchedule = (st: ScheduledTransfer) => {
+    const firstDate = new Date(st.nextRunDate).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+    if (st.frequency === 'once') return `${formatMoney(st.amount)} to ${st.recipientName} on ${firstDate}`;
+    return `${formatMoney(st.amount)} to ${st.recipientName} ${st.frequency}, starting ${firstDate}`;
+};
+
+const replaceScheduledTransfer = (state: BankState, updated: ScheduledTransfer): BankState => ({
+    ...state,
+    scheduledTransfers: state.scheduledTransfers.map(st => st.id === updated.id ? updated : st),
+});
+
+export const getScheduledTransfers = (state: BankState, userId: number): ScheduledTransfer[] =>
+    state.scheduledTransfers
+        .filter(st => st.userId === userId)
+        .sort((a, b) => new Date(a.nextRunDate).getTime() - new Date(b.nextRunDate).getTime());
+
+export const scheduleTransfer = (state: BankState, userId: number, request: ScheduleTransferRequest, now: Date = new Date()): BankOperation<ScheduleTransferResult> => {
+    const error = validateRequest(state, userId, request, now);
+    if (error) return unchanged(state, { success: false, message: error });
+
+    const match = resolveRecipient(state, userId, request.recipientIdentifier);
+    const recipient = match.recipient!;
+    const startDate = parseDateInput(request.startDate)!;
+    const scheduledTransfer: ScheduledTransfer = {
+        id: `so-${userId}-${Date.now()}-${state.scheduledTransfers.length}`,
+        userId,
+        // Pinned to the account, so later changes to the payee book cannot redirect the payment.
+        recipientIdentifier: match.account?.accountNumber ?? recipient.savingsAccountNumber,
+        recipientName: recipient.name,
+        amount: request.amount,
+        frequency: request.frequency,
+        startDate: startDate.toISOString(),
+        endDate: request.endDate ? parseDateInput(request.endDate)!.toISOString() : undefined,
+        nextRunDate: startDate.toISOString(),
+        runCount: 0,
+        status: 'active',
+        createdAt: now.toISOString(),
+    };
+
+    return {
+        state: { ...state, scheduledTransfers: [...state.scheduledTransfers, scheduledTransfer] },
+        result: { success: true, message: `Done! I've scheduled ${describeSchedule(scheduledTransfer)}.`, scheduledTransfer },
+    };
+};
+
+// Edits restart the schedule from the (possibly new) next payment date.
+export const updateScheduledTransfer = (state: BankState, userId: number, id: string, changes: Partial<ScheduleTransferRequest>, now: Date = new Date()): BankOperation<ScheduleTransferResult> => {
+    const existing = state.scheduledTransfers.find(st => st.id === id && st.userId === userId);
+    if (!existing) return unchanged(state, { success: false, message: `Error: Scheduled payment ${id} not found.` });
+    if (existing.status !== 'active') return unchanged(state, { success: false, message: `Error: This scheduled payment is ${existing.status} and can no longer be changed.` });
+
+    const request: ScheduleTransferRequest = {
+        recipientIdentifier: existing.recipientIdentifier,
+        amount: existing.amount,
+        frequency: existing.frequency,
+        startDate: toDateInput(new Date(existing.nextRunDate)),
+        endDate: existing.endDate ? toDateInput(new Date(existing.endDate)) : undefined,
+        ...changes,
+    };
+    if (request.frequency === 'once') request.endDate = undefined;
+
+    const error = validateRequest(state, userId, request, now);
+    if (error) return unchanged(state, { success: false, message: error });
+
+    const match = resolveRecipient(state, userId, request.recipientIdentifier);
+    const recipient = match.recipient!;
+    const startDate = parseDateInput(request.startDate)!;
+    const updated: ScheduledTransfer = {
+        ...existing,
+        // Pinned to the account, so later changes to the payee book cannot redirect the payment.
+        recipientIdentifier: match.account?.accountNumber ?? recipient.savingsAccountNumber,
+        recipientName: recipient.name,
+        amount: request.amount,
+        frequency: request.frequency,
+        startDate: startDate.toISOString(),
+        endDate: request.endDate ? parseDateInput(request.endDate)!.toISOString() : undefined,
+        nextRunDate: startDate.toISOString(),
+        runCount: 0,
+    };
+
+    return {
+        state: replaceScheduledTransfer(state, updated),
+        result: { success: true, message: `Updated! Your payment is now ${describeSchedule(updated)}.`, scheduledTransfer: updated },
+    };
+};
+
+export const cancelScheduledTransfer = (state: BankState, userId: number, id: string): BankOperation<ScheduleTransferResult> => {
+    const existing = state.scheduledTransfers.find(st => st.id === id && st.userId === userId);
+    if (!existing) return unchanged(state, { success: false, message: `Error: Scheduled payment ${id} not found.` });
+    if (existing.status !== 'active') return unchanged(state, { success: false, message: `Error: This scheduled payment is already ${existing.status}.` });
+
+    const cancelled: ScheduledTransfer = { ...existing, status: 'cancelled' };
+    return {
+        state: replaceScheduledTransfer(state, cancelled),
+        result: { success: true, message: `Your scheduled payment of ${formatMoney(existing.amount)} to ${existing.recipientName} has been cancelled.`, scheduledTransfer: cancelled },
+    };
+};
+
+// Executes every run that has fallen due. Each run uses its own idempotency key, so a
+// run can never be paid twice even if processing is repeated. Failures (e.g. insufficient
+// funds) are recorded as failed transactions and the schedule moves on.
+export const executeDueScheduledTransfers = (state: BankState, now: Date = new Date()): BankState => {
+    let next = state;
+
+    for (const original of state.scheduledTransfers) {
+        let order = original;
+        for (let runs = 0; order.status === 'active' && new Date(order.nextRunDate) <= now && runs < MAX_RUNS_PER_ORDER; runs++) {
+            const transactionCount = next.transactions.length;
+            const operation = transferMoney(next, order.userId, order.recipientIdentifier, order.amount, `standing-order-${order.id}-${order.nextRunDate}`);
+            next = operation.state;
+
+            let transactions: Transaction[];
+            if (operation.result.success) {
+                transactions = next.transactions.map((tx, i) => i >= transactionCount ? { ...tx, scheduledTransferId: order.id } : tx);
+            } else {
+                const failedTransaction: Transaction = {
+                    id: `t-${order.id}-${order.runCount}-failed`,
+                    userId: order.userId,
+                    type: 'debit',
+                    amount: order.amount,
+                    description: `Scheduled payment to ${order.recipientName} failed`,
+                    timestamp: now.toISOString(),
+                    partyName: order.recipientName,
+                    category: 'Transfers',
+                    ...initialStatus('failed', now.toISOString()),
+                    scheduledTransferId: order.id,
+                };
+                transactions = [...next.transactions, failedTransaction];
+            }
+
+            const runCount = order.runCount + 1;
+            const nextRunDate = occurrenceDate(new Date(order.startDate), order.frequency, runCount);
+            const isFinished = order.frequency === 'once' || (order.endDate !== undefined && nextRunDate > new Date(order.endDate));
+            order = {
+                ...order,
+                runCount,
+                nextRunDate: nextRunDate.toISOString(),
+                status: isFinished ? 'completed' : 'active',
+                lastRunAt: now.toISOString(),
+                lastRunSucceeded: operation.result.success,
+                lastRunMessage: operation.result.message,
+            };
+            next = replaceScheduledTransfer({ ...next, transactions }, order);
+        }
+    }
+
+    return next;
+};
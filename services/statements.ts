@@ -0,0 +1,158 @@
+import { Card, CardStatement, JournalEntry, Transaction } from '../types';
+import { BankState } from './bankService';
+import { Money, add, subtract, negate, sum, max, min, multiply, fromMajor, isPositive, zero } from './money';
+import { INTEREST_INCOME_ACCOUNT, cardAccountId, createJournalEntry } from './ledger';
+import { getTransactionStatus, initialStatus } from './transactionStatus';
+import { addDays, addMonths, startOfDay } from './dateUtils';
+
+// Monthly billing cycles for credit cards. Closing a cycle charges the interest accrued over
+// it, freezes the card's activity into a statement and sets the new statement balance,
+// minimum payment and due date.
+
+export const INTEREST_CATEGORY = 'Interest';
+export const FEES_CATEGORY = 'Fees';
+
+// Days between a statement closing and its payment due date.
+export const STATEMENT_GRACE_DAYS = 25;
+
+const MINIMUM_PAYMENT_RATE = 0.02;
+const MINIMUM_PAYMENT_FLOOR = 25; // In major units of the card currency
+
+// A long absence should not produce an unbounded batch; the rest close on later runs.
+const MAX_CYCLES_PER_RUN = 12;
+
+export const calculateMinimumPayment = (statementBalance: Money): Money =>
+    min(max(fromMajor(MINIMUM_PAYMENT_FLOOR, statementBalance.currency), multiply(statementBalance, MINIMUM_PAYMENT_RATE)), max(statementBalance, zero(statementBalance.currency)));
+
+// Cards issued before statements existed only know their due date; the cycle closed a grace period earlier.
+export const getLastStatementDate = (card: Card, now: Date = new Date()): Date => {
+    if (card.lastStatementDate) return new Date(card.lastStatementDate);
+    const derived = startOfDay(addDays(new Date(card.paymentDueDate), -STATEMENT_GRACE_DAYS));
+    return derived > now ? addMonths(derived, -1) : derived;
+};
+
+export const getNextStatementDate = (card: Card, now: Date = new Date()): Date =>
+    addMonths(getLastStatementDate(card, now), 1);
+
+// Holds reach the balance when they post, not when they were authorized.
+const postedAt = (tx: Transaction): number =>
+    new Date(tx.statusHistory?.find(change => change.status === 'posted')?.timestamp ?? tx.timestamp).getTime();
+
+// Effect of a transaction on the amount owed.
+const balanceEffect = (tx: Transaction): Money => tx.type === 'debit' ? tx.amount : negate(tx.amount);
+
+export const closeStatement = (card: Card, periodStart: Date, periodEnd: Date, now: Date): { card: Card; statement: CardStatement } => {
+    const currency = card.creditBalance.currency;
+    const posted = card.transactions.filter(tx => getTransactionStatus(tx) === 'posted');
+    const inCycle = posted.filter(tx => postedAt(tx) > periodStart.getTime() && postedAt(tx) <= periodEnd.getTime());
+    const afterCycle = posted.filter(tx => postedAt(tx) > periodEnd.getTime());
+
+    const debits = (category: (c: string) => boolean) =>
+        sum(inCycle.filter(tx => tx.type === 'debit' && category(tx.category)).map(tx => tx.amount), currency);
+    const purchases = debits(c => c !== INTEREST_CATEGORY && c !== FEES_CATEGORY);
+    const interest = debits(c => c === INTEREST_CATEGORY);
+    const fees = debits(c => c === FEES_CATEGORY);
+    const payments = sum(inCycle.filter(tx => tx.type === 'credit').map(tx => tx.amount), currency);
+
+    // The card balance is authoritative; activity after the close is taken back out of it.
+    const closingBalance = subtract(card.creditBalance, sum(afterCycle.map(balanceEffect), currency));
+    const previous = card.statements?.[card.statements.length - 1];
+    const openingBalance = previous
+        ? previous.closingBalance
+        : subtract(closingBalance, sum(inCycle.map(balanceEffect), currency));
+
+    const dueDate = addDays(periodEnd, STATEMENT_GRACE_DAYS);
+    const owed = max(closingBalance, zero(currency));
+    // Anything already past due is owed on top of this cycle's minimum.
+    const pastDue = card.delinquency?.pastDueAmount ?? zero(currency);
+    const statement: CardStatement = {
+        id: `stmt-${card.cardNumber.slice(-4)}-${periodEnd.getTime()}`,
+        cardNumber: card.cardNumber,
+        periodStart: periodStart.toISOString(),
+        periodEnd: periodEnd.toISOString(),
+        openingBalance,
+        purchases,
+        payments,
+        interest,
+        fees,
+        closingBalance,
+        minimumDue: min(add(calculateMinimumPayment(owed), pastDue), owed),
+        dueDate: dueDate.toISOString(),
+        transactionIds: inCycle.map(tx => tx.id),
+        issuedAt: now.toISOString(),
+    };
+
+    return {
+        card: {
+            ...card,
+            statementBalance: owed,
+            minimumPayment: statement.minimumDue,
+            paymentDueDate: statement.dueDate,
+            lastStatementDate: statement.periodEnd,
+            statements: [...(card.statements ?? []), statement],
+        },
+        statement,
+    };
+};
+
+// Interest accrued during the cycle is billed on its last moment so it lands on the statement.
+const chargeAccruedInterest = (card: Card, userId: number, periodEnd: Date): { card: Card; entry?: JournalEntry } => {
+    const interest = card.accruedInterest;
+    if (!interest || !isPositive(interest)) return { card };
+    const timestamp = periodEnd.toISOString();
+    const entry = createJournalEntry(`Interest on card ${card.cardNumber.slice(-4)}`, [
+        { accountId: cardAccountId(card.cardNumber), amount: interest },
+        { accountId: INTEREST_INCOME_ACCOUNT, amount: negate(interest) },
+    ], timestamp);
+    const transaction: Transaction = {
+        id: `tx-int-${card.cardNumber.slice(-4)}-${periodEnd.getTime()}`,
+        userId,
+        type: 'debit',
+        amount: interest,
+        description: 'Interest charge',
+        timestamp,
+        partyName: 'Nova Bank',
+        category: INTEREST_CATEGORY,
+        cardId: card.cardNumber,
+        journalEntryId: entry.id,
+        ...initialStatus('posted', timestamp),
+    };
+    return {
+        card: {
+            ...card,
+            creditBalance: add(card.creditBalance, interest),
+            accruedInterest: zero(interest.currency),
+            transactions: [transaction, ...card.transactions],
+        },
+        entry,
+    };
+};
+
+// Closes every billing cycle that has ended. Returns the same state object when none had.
+export const closeCardStatements = (state: BankState, now: Date = new Date()): BankState => {
+    let changed = false;
+    const entries: JournalEntry[] = [];
+    const users = state.users.map(user => {
+        let cardsChanged = false;
+        const cards = user.cards.map(original => {
+            let card = original;
+            for (let cycles = 0; cycles < MAX_CYCLES_PER_RUN; cycles++) {
+                const periodStart = getLastStatementDate(card, now);
+                const periodEnd = getNextStatementDate(card, now);
+                if (periodEnd > now) break;
+                const charged = chargeAccruedInterest(card, user.id, periodEnd);
+                if (charged.entry) entries.push(charged.entry);
+                card = closeStatement(charged.card, periodStart, periodEnd, now).card;
+            }
+            if (card !== original) cardsChanged = true;
+            return card;
+        });
+        if (!cardsChanged) return user;
+        changed = true;
+        return { ...user, cards };
+    });
+    return changed ? { ...state, users, journal: entries.length > 0 ? [...state.journal, ...entries] : state.journal } : state;
+};
+
+export const getStatements = (card: Card): CardStatement[] =>
+    [...(card.statements ?? [])].reverse();
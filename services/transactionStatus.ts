@@ -0,0 +1,32 @@
+import { Transaction, TransactionStatus } from '../types';
+
+// Which status a transaction may move to from each status. Reversed and failed are final.
+const ALLOWED_TRANSITIONS: Record<TransactionStatus, TransactionStatus[]> = {
+    pending: ['posted', 'reversed', 'failed'],
+    posted: ['reversed'],
+    reversed: [],
+    failed: [],
+};
+
+export const getTransactionStatus = (tx: Transaction): TransactionStatus => tx.status ?? 'posted';
+
+// Pending and posted transactions represent money that is spent or committed;
+// reversed and failed ones should be left out of totals and spending analysis.
+export const isInEffect = (tx: Transaction) => {
+    const status = getTransactionStatus(tx);
+    return status === 'pending' || status === 'posted';
+};
+
+export const initialStatus = (status: TransactionStatus, timestamp: string): Pick<Transaction, 'status' | 'statusHistory'> => ({
+    status,
+    statusHistory: [{ status, timestamp }],
+});
+
+export const transitionTransaction = (tx: Transaction, status: TransactionStatus, timestamp: string): Transaction => {
+    const current = getTransactionStatus(tx);
+    if (!ALLOWED_TRANSITIONS[current].includes(status)) {
+        throw new Error(`Transaction ${tx.id} cannot move from ${current} to ${status}.`);
+    }
+    const history = tx.statusHistory ?? [{ status: current, timestamp: tx.timestamp }];
+    return { ...tx, status, statusHistory: [...history, { status, timestamp }] };
+};
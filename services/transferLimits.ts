@@ -0,0 +1,202 @@
+import { Transaction, TransferLimits, User } from '../types';
+import { BankState, BankOperation, OperationResult, replaceUsers, unchanged } from './bankService';
+import { Money, CurrencyCode, DEFAULT_CURRENCY, fromMajor, add, subtract, sum, max, compare, isPositive, formatMoney, zero } from './money';
+import { convert } from './fx';
+import { isInEffect } from './transactionStatus';
+import { startOfDay } from './dateUtils';
+
+// Limits and velocity checks for outgoing transfers. Each rule looks at the sender's
+// recent transfers and either lets the payment through or blocks it with a reason code
+// that the UI and the chat assistant can explain.
+
+export type TransferRuleCode =
+    | 'PER_TRANSACTION_LIMIT'
+    | 'DAILY_LIMIT'
+    | 'MONTHLY_LIMIT'
+    | 'NEW_PAYEE_LIMIT'
+    | 'VELOCITY_LIMIT';
+
+export interface TransferRuleViolation {
+    code: TransferRuleCode;
+    message: string;
+}
+
+export interface TransferLimitUsage {
+    limits: TransferLimits;
+    sentToday: Money;
+    sentThisMonth: Money;
+    remainingToday: Money;
+    remainingThisMonth: Money;
+}
+
+export interface TransferLimitsResult extends OperationResult {
+    limits?: TransferLimits;
+}
+
+interface TransferRuleContext {
+    limits: TransferLimits;
+    amount: Money; // In the sender's currency, before any FX fee
+    recipientName: string;
+    history: Transaction[]; // The sender's outgoing transfers that are still in effect
+    now: Date;
+}
+
+interface TransferRule {
+    code: TransferRuleCode;
+    evaluate: (context: TransferRuleContext) => string | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+// Defaults in USD, converted for accounts held in other currencies.
+const DEFAULT_LIMITS_USD = {
+    perTransaction: 5000,
+    daily: 10000,
+    monthly: 25000,
+    newPayeePerTransaction: 1000,
+};
+const DEFAULT_NEW_PAYEE_COOLING_OFF_HOURS = 24;
+const DEFAULT_VELOCITY_MAX_TRANSFERS = 5;
+const DEFAULT_VELOCITY_WINDOW_MINUTES = 10;
+
+const defaultLimit = (usd: number, currency: CurrencyCode): Money =>
+    convert(fromMajor(usd, DEFAULT_CURRENCY), currency) ?? fromMajor(usd, currency);
+
+export const defaultTransferLimits = (currency: CurrencyCode): TransferLimits => ({
+    perTransaction: defaultLimit(DEFAULT_LIMITS_USD.perTransaction, currency),
+    daily: defaultLimit(DEFAULT_LIMITS_USD.daily, currency),
+    monthly: defaultLimit(DEFAULT_LIMITS_USD.monthly, currency),
+    newPayeePerTransaction: defaultLimit(DEFAULT_LIMITS_USD.newPayeePerTransaction, currency),
+    newPayeeCoolingOffHours: DEFAULT_NEW_PAYEE_COOLING_OFF_HOURS,
+    velocityMaxTransfers: DEFAULT_VELOCITY_MAX_TRANSFERS,
+    velocityWindowMinutes: DEFAULT_VELOCITY_WINDOW_MINUTES,
+});
+
+export const getTransferLimits = (user: User): TransferLimits =>
+    user.transferLimits ?? defaultTransferLimits(user.balance.currency);
+
+const outgoingTransfers = (state: BankState, userId: number): Transaction[] =>
+    state.transactions.filter(tx => tx.userId === userId && tx.type === 'debit' && tx.category === 'Transfers' && isInEffect(tx));
+
+const sentSince = (history: Transaction[], since: Date, currency: CurrencyCode): Money =>
+    sum(history.filter(tx => new Date(tx.timestamp) >= since).map(tx => tx.amount), currency);
+
+const startOfMonth = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), 1);
+
+// A payee stays "new" until the cooling-off period after the first payment to them has
+// passed. A cooling-off period of zero turns the rule off.
+const isNewPayee = ({ history, recipientName, limits, now }: TransferRuleContext): boolean => {
+    if (limits.newPayeeCoolingOffHours === 0) return false;
+    const firstPayment = history
+        .filter(tx => tx.partyName === recipientName)
+        .reduce<number | undefined>((first, tx) => Math.min(first ?? Infinity, new Date(tx.timestamp).getTime()), undefined);
+    return firstPayment === undefined || now.getTime() - firstPayment < limits.newPayeeCoolingOffHours * HOUR_MS;
+};
+
+// Evaluated in order; the first rule that fails blocks the transfer.
+const TRANSFER_RULES: TransferRule[] = [
+    {
+        code: 'PER_TRANSACTION_LIMIT',
+        evaluate: ({ amount, limits }) => compare(amount, limits.perTransaction) > 0
+            ? `A single transfer can be at most ${formatMoney(limits.perTransaction)}.`
+            : null,
+    },
+    {
+        code: 'NEW_PAYEE_LIMIT',
+        evaluate: context => {
+            const { amount, limits, history, recipientName, now } = context;
+            if (!isNewPayee(context)) return null;
+            const coolingOffStart = new Date(now.getTime() - limits.newPayeeCoolingOffHours * HOUR_MS);
+            const sentToPayee = sentSince(history.filter(tx => tx.partyName === recipientName), coolingOffStart, amount.currency);
+            return compare(add(sentToPayee, amount), limits.newPayeePerTransaction) > 0
+                ? `${recipientName} is a new payee. For the first ${limits.newPayeeCoolingOffHours} hours you can send them at most ${formatMoney(limits.newPayeePerTransaction)} (${formatMoney(max(subtract(limits.newPayeePerTransaction, sentToPayee), zero(amount.currency)))} remaining).`
+                : null;
+        },
+    },
+    {
+        code: 'DAILY_LIMIT',
+        evaluate: ({ amount, limits, history, now }) => {
+            const sent = sentSince(history, startOfDay(now), amount.currency);
+            return compare(add(sent, amount), limits.daily) > 0
+                ? `This would exceed your daily transfer limit of ${formatMoney(limits.daily)}. You can send ${formatMoney(max(subtract(limits.daily, sent), zero(amount.currency)))} more today.`
+                : null;
+        },
+    },
+    {
+        code: 'MONTHLY_LIMIT',
+        evaluate: ({ amount, limits, history, now }) => {
+            const sent = sentSince(history, startOfMonth(now), amount.currency);
+            return compare(add(sent, amount), limits.monthly) > 0
+                ? `This would exceed your monthly transfer limit of ${formatMoney(limits.monthly)}. You can send ${formatMoney(max(subtract(limits.monthly, sent), zero(amount.currency)))} more this month.`
+                : null;
+        },
+    },
+    {
+        code: 'VELOCITY_LIMIT',
+        evaluate: ({ limits, history, now }) => {
+            const windowStart = now.getTime() - limits.velocityWindowMinutes * MINUTE_MS;
+            const recent = history.filter(tx => new Date(tx.timestamp).getTime() >= windowStart).length;
+            return recent >= limits.velocityMaxTransfers
+                ? `You can make at most ${limits.velocityMaxTransfers} transfers in ${limits.velocityWindowMinutes} minutes. Please wait a few minutes and try again.`
+                : null;
+        },
+    },
+];
+
+export const evaluateTransferRules = (state: BankState, sender: User, recipientName: string, amount: Money, now: Date = new Date()): TransferRuleViolation | null => {
+    const context: TransferRuleContext = {
+        limits: getTransferLimits(sender),
+        amount,
+        recipientName,
+        history: outgoingTransfers(state, sender.id),
+        now,
+    };
+    for (const rule of TRANSFER_RULES) {
+        const message = rule.evaluate(context);
+        if (message) return { code: rule.code, message: `Error: ${message}` };
+    }
+    return null;
+};
+
+export const getTransferLimitUsage = (state: BankState, user: User, now: Date = new Date()): TransferLimitUsage => {
+    const limits = getTransferLimits(user);
+    const currency = user.balance.currency;
+    const history = outgoingTransfers(state, user.id);
+    const sentToday = sentSince(history, startOfDay(now), currency);
+    const sentThisMonth = sentSince(history, startOfMonth(now), currency);
+    return {
+        limits,
+        sentToday,
+        sentThisMonth,
+        remainingToday: max(subtract(limits.daily, sentToday), zero(currency)),
+        remainingThisMonth: max(subtract(limits.monthly, sentThisMonth), zero(currency)),
+    };
+};
+
+const validateLimits = (limits: TransferLimits, currency: CurrencyCode): string | null => {
+    const amounts = [limits.perTransaction, limits.daily, limits.monthly, limits.newPayeePerTransaction];
+    if (amounts.some(m => m.currency !== currency)) return `Error: Transfer limits must be in your account currency (${currency}).`;
+    if (amounts.some(m => !isPositive(m))) return 'Error: Transfer limits must be positive.';
+    if (compare(limits.perTransaction, limits.daily) > 0) return 'Error: The per-transfer limit cannot be higher than the daily limit.';
+    if (compare(limits.daily, limits.monthly) > 0) return 'Error: The daily limit cannot be higher than the monthly limit.';
+    const counts = [limits.newPayeeCoolingOffHours, limits.velocityMaxTransfers, limits.velocityWindowMinutes];
+    if (counts.some(n => !Number.isInteger(n) || n < 0) || limits.velocityMaxTransfers < 1 || limits.velocityWindowMinutes < 1) {
+        return 'Error: The cooling-off period and velocity settings must be whole numbers, with at least 1 transfer per window of at least 1 minute.';
+    }
+    return null;
+};
+
+export const setTransferLimits = (state: BankState, userId: number, changes: Partial<TransferLimits>): BankOperation<TransferLimitsResult> => {
+    const user = state.users.find(u => u.id === userId);
+    if (!user) return unchanged(state, { success: false, message: 'Error: Current user not found.' });
+
+    const limits: TransferLimits = { ...getTransferLimits(user), ...changes };
+    const error = validateLimits(limits, user.balance.currency);
+    if (error) return unchanged(state, { success: false, message: error });
+
+    return {
+        state: { ...state, users: replaceUsers(state.users, { ...user, transferLimits: limits }) },
+        result: { success: true, message: `Your transfer limits are updated: ${formatMoney(limits.perTransaction)} per transfer, ${formatMoney(limits.daily)} per day and ${formatMoney(limits.monthly)} per month.`, limits },
+    };
+};
@@ -1,29 +1,100 @@
 // FIX: The import of `Card` from './types' was removed as it caused a conflict with the local declaration of `Card`.
+import { Money } from './services/money';
+import { CreditReason } from './services/creditDecision';
+
 export interface Card {
   cardNumber: string;
   expiryDate: string;
   cvv: string;
   cardType: 'Visa' | 'Mastercard';
-  creditLimit: number;
-  creditBalance: number;
+  creditLimit: Money;
+  creditBalance: Money;
   apr: number; // Annual Percentage Rate
   paymentDueDate: string;
-  statementBalance: number;
-  minimumPayment: number;
+  statementBalance: Money;
+  minimumPayment: Money;
   transactions: Transaction[];
+  lastStatementDate?: string; // When the most recent billing cycle closed
+  statements?: CardStatement[]; // Archive of closed cycles, oldest first; never edited
+  accruedInterest?: Money; // Interest accrued this cycle, charged when it closes
+  delinquency?: Delinquency; // Absent means the card has never missed a payment
+  controls?: CardControls; // Absent means the card can be used everywhere
+}
+
+// Restrictions the cardholder puts on a card, checked when a purchase is authorized.
+// Caps are in the card currency.
+export interface CardControls {
+  frozen: boolean;
+  onlineEnabled: boolean;
+  internationalEnabled: boolean;
+  perTransactionLimit?: Money; // Absent means no cap
+  monthlyLimit?: Money;
+  blockedCategories: string[];
+}
+
+export interface CardStatement {
+  id: string;
+  cardNumber: string;
+  periodStart: string;
+  periodEnd: string; // Closing date
+  openingBalance: Money;
+  purchases: Money;
+  payments: Money;
+  interest: Money;
+  fees: Money;
+  closingBalance: Money;
+  minimumDue: Money;
+  dueDate: string;
+  transactionIds: string[]; // Card transactions that posted during the cycle
+  issuedAt: string;
 }
 
 export interface Loan {
   id: string;
   userId: number;
-  loanAmount: number;
+  loanAmount: Money;
   interestRate: number; // Annual percentage
   termMonths: number;
-  monthlyPayment: number;
-  remainingBalance: number;
+  monthlyPayment: Money;
+  remainingBalance: Money;
   status: 'Active' | 'Paid Off';
   startDate: string;
   paymentDueDate: string;
+  payments?: LoanPayment[]; // Oldest first
+  paidOffDate?: string;
+  accruedInterest?: Money; // Interest accrued since the last payment
+  delinquency?: Delinquency; // Absent means the loan has never missed a payment
+}
+
+// current: nothing overdue; pastDue: 1-29 days; pastDue30: 30-59 days; pastDue60: 60 days
+// or more; chargedOff: written off after a long delinquency, the account is closed to new use.
+export type DelinquencyStatus = 'current' | 'pastDue' | 'pastDue30' | 'pastDue60' | 'chargedOff';
+
+export interface Delinquency {
+  status: DelinquencyStatus;
+  pastDueSince?: string; // Oldest due date that is still unpaid
+  pastDueAmount: Money;
+  lastMissedDueDate?: string; // Latest due date a late fee was assessed for
+  lateFees: Money; // Total assessed so far
+  feesDue?: Money; // Loans only: assessed fees the next payment settles first
+  penaltyApr: boolean; // Cards only: the penalty rate applies until the account is current
+}
+
+// installment: the regular monthly payment, which moves the due date on by a month
+// extra: an additional payment towards the balance; the due date stays the same
+// payoff: whatever is needed to close the loan today
+export type LoanPaymentKind = 'installment' | 'extra' | 'payoff';
+
+export interface LoanPayment {
+  id: string;
+  timestamp: string;
+  kind: LoanPaymentKind;
+  amount: Money;
+  fees?: Money; // Late fees settled before interest
+  interest: Money;
+  principal: Money;
+  remainingBalance: Money; // After this payment
+  transactionId: string;
 }
 
 export interface User {
@@ -31,22 +102,271 @@ export interface User {
   name: string;
   username: string;
   pin: string; // 4-digit PIN for simplicity
-  balance: number;
+  balance: Money;
   savingsAccountNumber: string;
   investmentAccountNumber?: string;
+  investmentAccount?: InvestmentAccount; // Opened on the first transfer into investments
   avatarUrl: string;
   cards: Card[];
   loans: Loan[];
+  transferLimits?: TransferLimits; // Absent means the bank's defaults for the account currency
+  savingsApy?: number; // Annual percentage yield; absent means the bank's standard rate
+  accruedSavingsInterest?: Money; // Earned this month, credited at month end
+}
+
+// checking: an everyday account
+// savings: an account to set money aside in, earning interest like the main account
+// joint: shared by two customers, either of whom can pay from it
+export type DepositAccountType = 'checking' | 'savings' | 'joint';
+
+// An account held besides the main one on `User` (`balance`, `savingsAccountNumber`),
+// which cards, loans, interest and investments keep using.
+export interface DepositAccount {
+  id: string;
+  accountNumber: string;
+  type: DepositAccountType;
+  name: string;
+  ownerIds: number[]; // The opener first; a joint account has a second owner
+  balance: Money; // In the opener's currency
+  openedAt: string;
+  closedAt?: string;
+  accruedInterest?: Money; // Savings accounts only: earned this month, credited at month end
+}
+
+// Amounts are in the user's account currency.
+export interface Holding {
+  symbol: string;
+  quantity: number; // Shares, to four decimal places
+  costBasis: Money; // What the shares still held cost, at average cost
+}
+
+export interface InvestmentOrder {
+  id: string;
+  side: 'buy' | 'sell';
+  symbol: string;
+  quantity: number;
+  price: Money; // Per share
+  amount: Money; // Paid for a buy, received for a sell
+  realizedGain?: Money; // Sells only
+  timestamp: string;
+}
+
+export interface InvestmentAccount {
+  cash: Money; // Funded from savings and not yet invested
+  holdings: Holding[];
+  orders: InvestmentOrder[]; // Newest first
+  realizedGain: Money;
+  openedAt: string;
+}
+
+// Amounts are in the user's account currency.
+export interface TransferLimits {
+  perTransaction: Money;
+  daily: Money;
+  monthly: Money;
+  newPayeePerTransaction: Money; // Total that can go to a payee during the cooling-off period
+  newPayeeCoolingOffHours: number;
+  velocityMaxTransfers: number; // At most this many transfers...
+  velocityWindowMinutes: number; // ...within this many minutes
 }
 
 export interface Transaction {
   id: string;
   userId: number;
   type: 'credit' | 'debit';
-  amount: number;
+  amount: Money;
   description: string;
   timestamp: string;
   partyName: string;
   category: string; // e.g., 'Groceries', 'Transport', 'Entertainment'
   cardId?: string; // Optional field to link transaction to a card
-}
\ No newline at end of file
+  journalEntryId?: string; // Ledger entry that moved the money, if any
+  status?: TransactionStatus; // Absent means posted (recorded before statuses existed)
+  statusHistory?: TransactionStatusChange[]; // Every status the transaction has been in, oldest first
+  reversalJournalEntryId?: string; // Ledger entry that undid a reversed posting
+  counterAmount?: Money; // For converted transfers, the amount in the other party's currency
+  scheduledTransferId?: string; // Standing order that produced this transaction
+  accountNumber?: string; // Deposit account it belongs to; absent means the user's main account
+}
+
+// pending: authorized (e.g. a card hold) but not yet posted to the ledger
+// posted: money has moved
+// reversed: a pending hold was released, or a posting was undone by a reversing entry
+// failed: rejected; no money moved
+export type TransactionStatus = 'pending' | 'posted' | 'reversed' | 'failed';
+
+export interface TransactionStatusChange {
+  status: TransactionStatus;
+  timestamp: string;
+}
+
+export interface Posting {
+  accountId: string;
+  amount: Money; // Positive for debits, negative for credits
+}
+
+export interface JournalEntry {
+  id: string;
+  timestamp: string;
+  description: string;
+  postings: Posting[]; // Always sums to zero in each currency
+}
+
+export interface CardApplicationDetails {
+  fullName: string;
+  address: string;
+  dateOfBirth: string;
+  employmentStatus: string;
+  employer: string;
+  annualIncome: Money;
+}
+
+export interface LoanApplicationDetails extends CardApplicationDetails {
+  loanAmount: Money;
+  loanTerm: number;
+}
+
+export type ApplicationProduct = 'card' | 'loan';
+
+export type ApplicationStatus = 'submitted' | 'underReview' | 'approved' | 'declined' | 'withdrawn';
+
+export interface ApplicationStatusChange {
+  status: ApplicationStatus;
+  timestamp: string;
+}
+
+export interface ApplicationRecord {
+  id: string;
+  userId: number;
+  product: ApplicationProduct;
+  details: CardApplicationDetails | LoanApplicationDetails; // As submitted
+  status: ApplicationStatus;
+  statusHistory: ApplicationStatusChange[]; // Every status the application has been in, oldest first
+  submittedAt: string;
+  updatedAt: string;
+  reasons: CreditReason[]; // Adverse-action reasons for declined and referred applications
+  score?: number;
+  accountId?: string; // Card number or loan ID once approved
+}
+
+export interface IdempotencyRecord {
+  key: string;
+  userId: number;
+  operation: string;
+  fingerprint: string; // Serialized request, to detect a key reused for a different request
+  result: object;
+  createdAt: string;
+}
+
+export type TransferFrequency = 'once' | 'weekly' | 'monthly';
+
+export interface ScheduledTransfer {
+  id: string;
+  userId: number;
+  recipientIdentifier: string; // Account number (a contact name on older orders), resolved again on every run
+  recipientName: string;
+  amount: Money;
+  frequency: TransferFrequency;
+  startDate: string;
+  endDate?: string;
+  nextRunDate: string;
+  runCount: number;
+  status: 'active' | 'completed' | 'cancelled';
+  createdAt: string;
+  lastRunAt?: string;
+  lastRunSucceeded?: boolean;
+  lastRunMessage?: string;
+}
+
+// Part of the savings balance set aside for a goal. Goals are earmarks within savings, so
+// money set aside never leaves the account.
+export interface SavingsGoal {
+  id: string;
+  userId: number;
+  name: string;
+  targetAmount: Money;
+  targetDate?: string;
+  saved: Money;
+  autoContribution?: {
+    amount: Money;
+    frequency: Exclude<TransferFrequency, 'once'>;
+    nextRunDate: string;
+  };
+  status: 'active' | 'closed';
+  createdAt: string;
+  lastRunAt?: string; // Last automatic contribution attempt
+  lastRunMessage?: string;
+}
+
+// none: every month starts from the limit
+// surplus: what was left unspent is added to next month
+// full: leftovers are added and overspending is taken off next month
+export type BudgetRollover = 'none' | 'surplus' | 'full';
+
+// A monthly spending limit for one transaction category.
+export interface CategoryBudget {
+  id: string;
+  userId: number;
+  category: string; // Matched against Transaction.category, ignoring case
+  limit: Money; // Per calendar month
+  rollover: BudgetRollover;
+  month: string; // YYYY-MM the carry-over and alert below belong to
+  carriedOver: Money; // From earlier months; negative after overspending under 'full'
+  alertLevel?: 80 | 100; // Highest threshold (percent of the month's budget) already alerted
+  alertedAt?: string;
+  createdAt: string;
+}
+
+// A saved recipient in a user's payee book.
+export interface Payee {
+  id: string;
+  userId: number; // Owner of the payee book
+  nickname: string; // What the user calls them; unique within the book
+  accountNumber: string;
+  verifiedName: string; // The account holder's name, confirmed when the payee was saved
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+// pending: waiting for the payer
+// partiallyPaid: some of the amount has been paid; the rest is still open
+// paid: paid in full
+// declined: the payer refused (anything already paid stays paid)
+// cancelled: withdrawn by the requester
+export type MoneyRequestStatus = 'pending' | 'partiallyPaid' | 'paid' | 'declined' | 'cancelled';
+
+// One user asking another for money.
+export interface MoneyRequest {
+  id: string;
+  requesterId: number;
+  payerId: number;
+  amount: Money; // In the requester's currency
+  paid: Money; // Received so far, in the same currency
+  note?: string;
+  status: MoneyRequestStatus;
+  payments: { transactionId: string; amount: Money; timestamp: string }[]; // The payer's payments towards it
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One person's part of a split bill, collected through a money request.
+export interface BillSplitShare {
+  payerId: number;
+  name: string;
+  amount: Money; // In the splitter's currency
+  requestId: string;
+}
+
+// A card purchase shared out among payees. Whether each share is settled is read from its request.
+export interface BillSplit {
+  id: string;
+  userId: number;
+  cardNumber: string;
+  transactionId: string;
+  description: string;
+  total: Money; // The purchase in the user's account currency
+  ownShare: Money; // What the user keeps for themselves
+  method: 'equal' | 'custom';
+  shares: BillSplitShare[];
+  createdAt: string;
+}